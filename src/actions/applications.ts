@@ -0,0 +1,162 @@
+import {
+  ApplyToJobResponse,
+  JobApplication,
+  WorkerRequest,
+  WorkerRequestStatus,
+} from "@/types/application";
+import { apiRequest, isApiError } from "@/lib/apiClient";
+
+/**
+ * Fetches all applications submitted by the signed-in worker
+ * @returns The worker's applications, newest first
+ */
+export async function getMyApplications(): Promise<JobApplication[]> {
+  try {
+    const data = await apiRequest<{ applications?: JobApplication[] }>(
+      "/api/application/mine"
+    );
+    return data.applications || [];
+  } catch (error) {
+    console.error("Error fetching applications:", error);
+    throw error;
+  }
+}
+
+/**
+ * Returns the worker's active (not withdrawn) application for a job, if any
+ * @param jobId - The ID of the job post
+ */
+export async function getMyApplicationForJob(
+  jobId: string
+): Promise<JobApplication | null> {
+  const applications = await getMyApplications();
+  return (
+    applications.find(
+      (application) =>
+        application.job_id === jobId && application.status !== "withdrawn"
+    ) || null
+  );
+}
+
+/**
+ * Submits an application for a job post on behalf of the signed-in worker.
+ * Applying twice to the same job returns the existing application instead
+ * of creating a duplicate.
+ * @param jobId - The ID of the job post to apply to
+ * @param message - Optional note for the employer
+ */
+export async function applyToJob(
+  jobId: string,
+  message?: string
+): Promise<ApplyToJobResponse> {
+  try {
+    if (!jobId) {
+      throw new Error("Job ID is required");
+    }
+
+    const existing = await getMyApplicationForJob(jobId);
+    if (existing) {
+      return { success: true, application: existing, alreadyApplied: true };
+    }
+
+    const data = await apiRequest<{ application: JobApplication }>(
+      "/api/application/apply",
+      { method: "POST", body: { job_id: jobId, message } }
+    );
+
+    return {
+      success: true,
+      application: data.application,
+    };
+  } catch (error) {
+    // The backend rejects duplicates with 409 and usually returns the
+    // existing record; look it up when it doesn't
+    if (isApiError(error) && error.status === 409) {
+      const application =
+        (error.data as { application?: JobApplication } | null)?.application ||
+        (await getMyApplicationForJob(jobId).catch(() => null)) ||
+        undefined;
+      return { success: true, application, alreadyApplied: true };
+    }
+
+    console.error("Error applying to job:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "An unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Withdraws one of the signed-in worker's applications
+ * @param applicationId - The ID of the application to withdraw
+ * @returns The updated application
+ */
+export async function withdrawApplication(
+  applicationId: string
+): Promise<JobApplication> {
+  try {
+    if (!applicationId) {
+      throw new Error("Application ID is required");
+    }
+
+    const data = await apiRequest<{ application: JobApplication }>(
+      `/api/application/${applicationId}/withdraw`,
+      { method: "PUT" }
+    );
+    return data.application;
+  } catch (error) {
+    console.error("Error withdrawing application:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the applications received on the signed-in employer's job posts
+ * @param job_id - Optionally restrict the results to a single job post
+ * @returns The worker requests, joined with each worker's profile
+ */
+export async function getWorkerRequests({
+  job_id,
+}: {
+  job_id?: string;
+} = {}): Promise<WorkerRequest[]> {
+  try {
+    const data = await apiRequest<{ requests?: WorkerRequest[] }>(
+      "/api/application/requests",
+      { query: { job_id } }
+    );
+    return data.requests || [];
+  } catch (error) {
+    console.error("Error fetching worker requests:", error);
+    throw error;
+  }
+}
+
+/**
+ * Moves a worker request to a new status. The change is stored on the
+ * underlying application, so the worker sees it on their applied jobs page.
+ * @param requestId - The ID of the worker request (application)
+ * @param status - The new status
+ * @returns The updated worker request
+ */
+export async function updateWorkerRequestStatus(
+  requestId: string,
+  status: WorkerRequestStatus
+): Promise<WorkerRequest> {
+  try {
+    if (!requestId) {
+      throw new Error("Request ID is required");
+    }
+
+    const data = await apiRequest<{ request: WorkerRequest }>(
+      `/api/application/${requestId}/status`,
+      { method: "PUT", body: { status } }
+    );
+    return data.request;
+  } catch (error) {
+    console.error("Error updating worker request status:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  AssistantAttachment,
+  AssistantConversation,
+  AssistantConversationWithMessages,
+  AssistantFeedback,
+  AssistantMessage,
+  AssistantProfileContext,
+} from "@/types/assistant";
+import { readServerSentEvents, ServerSentEvent } from "@/lib/sse";
+import { apiFetch, apiRequest, isAbortError } from "@/lib/apiClient";
+
+// Wait before retrying a failed connection, multiplied by the attempt number
+const RETRY_DELAY = 1000;
+
+export interface StreamAssistantReplyOptions {
+  onChunk: (chunk: string) => void;
+  onAttachment?: (attachment: AssistantAttachment) => void;
+  // Profile details the user chose to share; null tells the assistant to
+  // forget anything shared earlier in the thread
+  context?: AssistantProfileContext | null;
+  // IDs for the prompt and the reply, so feedback can refer to them
+  messageId?: string;
+  replyId?: string;
+  // Regenerating or editing: the last message to keep in the thread, or null
+  // to start again from the beginning. Later turns are dropped first.
+  branchFrom?: string | null;
+  signal?: AbortSignal; // Abort to stop generating
+  maxRetries?: number;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    });
+  });
+}
+
+/**
+ * Reads a structured event from the stream. Besides text chunks the assistant
+ * can send:
+ * - `jobs`: `{ jobs: JobPost[] }`, e.g. search results
+ * - `apply_suggestion`: `{ job: JobPost, reason?: string }`
+ * Unknown or malformed events are ignored so older clients keep working.
+ */
+function parseAttachment(event: ServerSentEvent): AssistantAttachment | null {
+  try {
+    const data = JSON.parse(event.data);
+
+    if (event.event === "jobs" && Array.isArray(data?.jobs)) {
+      return { type: "jobs", jobs: data.jobs };
+    }
+    if (event.event === "apply_suggestion" && data?.job?.id) {
+      return { type: "apply_suggestion", job: data.job, reason: data.reason };
+    }
+  } catch (error) {
+    console.error(`Error parsing "${event.event}" event:`, error);
+  }
+  return null;
+}
+
+/**
+ * Fetches the signed-in user's assistant conversations
+ * @returns The conversations, most recently active first
+ */
+export async function getAssistantConversations(): Promise<
+  AssistantConversation[]
+> {
+  try {
+    const data = await apiRequest<{
+      conversations?: AssistantConversation[];
+    }>("/api/assistant/conversations");
+    return data.conversations || [];
+  } catch (error) {
+    console.error("Error fetching assistant conversations:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a conversation together with its messages, for resuming it
+ * @param conversationId - The ID of the conversation
+ */
+export async function getAssistantConversation(
+  conversationId: string
+): Promise<AssistantConversationWithMessages> {
+  try {
+    const data = await apiRequest<{
+      conversation: AssistantConversation;
+      messages?: AssistantMessage[];
+    }>(`/api/assistant/conversations/${conversationId}`);
+    return { conversation: data.conversation, messages: data.messages || [] };
+  } catch (error) {
+    console.error("Error fetching assistant conversation:", error);
+    throw error;
+  }
+}
+
+/**
+ * Starts a new conversation in the signed-in user's history
+ * @param threadId - The assistant thread the conversation's messages go to
+ * @param title - Label shown in the conversation list
+ * @returns The created conversation
+ */
+export async function createAssistantConversation(
+  threadId: string,
+  title: string
+): Promise<AssistantConversation> {
+  try {
+    const data = await apiRequest<{ conversation: AssistantConversation }>(
+      "/api/assistant/conversations",
+      { method: "POST", body: { thread_id: threadId, title: title.trim() } }
+    );
+    return data.conversation;
+  } catch (error) {
+    console.error("Error creating assistant conversation:", error);
+    throw error;
+  }
+}
+
+/**
+ * Renames one of the signed-in user's conversations
+ * @param conversationId - The ID of the conversation
+ * @param title - The new title
+ * @returns The updated conversation
+ */
+export async function renameAssistantConversation(
+  conversationId: string,
+  title: string
+): Promise<AssistantConversation> {
+  try {
+    if (!title.trim()) {
+      throw new Error("A title is required");
+    }
+
+    const data = await apiRequest<{ conversation: AssistantConversation }>(
+      `/api/assistant/conversations/${conversationId}`,
+      { method: "PUT", body: { title: title.trim() } }
+    );
+    return data.conversation;
+  } catch (error) {
+    console.error("Error renaming assistant conversation:", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes one of the signed-in user's conversations and its messages
+ * @param conversationId - The ID of the conversation
+ */
+export async function deleteAssistantConversation(
+  conversationId: string
+): Promise<void> {
+  try {
+    await apiRequest(`/api/assistant/conversations/${conversationId}`, {
+      method: "DELETE",
+    });
+  } catch (error) {
+    console.error("Error deleting assistant conversation:", error);
+    throw error;
+  }
+}
+
+/**
+ * Appends messages to a conversation's stored history
+ * @param conversationId - The ID of the conversation
+ * @param messages - The new messages, oldest first
+ * @param branchFrom - When regenerating or editing, the last stored message
+ * to keep (null for none); everything after it is replaced
+ * @returns The updated conversation
+ */
+export async function saveAssistantMessages(
+  conversationId: string,
+  messages: AssistantMessage[],
+  branchFrom?: string | null
+): Promise<AssistantConversation> {
+  try {
+    const data = await apiRequest<{ conversation: AssistantConversation }>(
+      `/api/assistant/conversations/${conversationId}/messages`,
+      { method: "POST", body: { messages, branch_from: branchFrom } }
+    );
+    return data.conversation;
+  } catch (error) {
+    console.error("Error saving assistant messages:", error);
+    throw error;
+  }
+}
+
+/**
+ * Streams the assistant's reply to a prompt, passing each text chunk to
+ * onChunk and any job results to onAttachment as they arrive. The prompt is
+ * POSTed with the user's ID token rather than put in the URL. Connections
+ * that fail before any data arrives are retried; once the reply has started
+ * a dropped connection is an error, since retrying would repeat what was
+ * already shown.
+ * @param threadId - The assistant thread, which keeps the conversation's context
+ * @param prompt - The user's message
+ * @returns Resolves when the reply is complete; rejects with an AbortError if
+ * the signal is aborted
+ */
+export async function streamAssistantReply(
+  threadId: string,
+  prompt: string,
+  {
+    onChunk,
+    onAttachment,
+    context = null,
+    messageId,
+    replyId,
+    branchFrom,
+    signal,
+    maxRetries = 3,
+  }: StreamAssistantReplyOptions
+): Promise<void> {
+  let attempt = 0;
+  let receivedData = false;
+
+  while (true) {
+    try {
+      const response = await apiFetch("/api/stream-prompt", {
+        baseUrl: process.env.NEXT_PUBLIC_CHAT_URL,
+        method: "POST",
+        headers: { Accept: "text/event-stream" },
+        body: {
+          thread_id: threadId,
+          prompt,
+          context,
+          message_id: messageId,
+          reply_id: replyId,
+          branch_from: branchFrom,
+        },
+        signal,
+      });
+
+      if (!response.body) {
+        throw new Error("The reply stream is empty");
+      }
+
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.event === "done") return;
+        if (event.event === "message") {
+          if (!event.data) continue;
+          receivedData = true;
+          onChunk(event.data);
+        } else {
+          const attachment = parseAttachment(event);
+          if (attachment) {
+            receivedData = true;
+            onAttachment?.(attachment);
+          }
+        }
+      }
+      return;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+
+      attempt++;
+      if (receivedData || attempt >= maxRetries) {
+        console.error("Error streaming assistant reply:", error);
+        throw error;
+      }
+
+      console.error(`Stream error, retrying (attempt ${attempt}):`, error);
+      await wait(RETRY_DELAY * attempt, signal);
+    }
+  }
+}
+
+/**
+ * Rates one of the assistant's replies
+ * @param threadId - The assistant thread the reply belongs to
+ * @param messageId - The ID of the reply
+ * @param rating - Thumbs up or down
+ */
+export async function sendAssistantFeedback(
+  threadId: string,
+  messageId: string,
+  rating: AssistantFeedback
+): Promise<void> {
+  try {
+    await apiRequest("/api/feedback", {
+      baseUrl: process.env.NEXT_PUBLIC_CHAT_URL,
+      method: "POST",
+      body: { thread_id: threadId, message_id: messageId, rating },
+    });
+  } catch (error) {
+    console.error("Error sending assistant feedback:", error);
+    throw error;
+  }
+}
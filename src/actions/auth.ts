@@ -1,123 +1,266 @@
 import { auth } from "../firebase/config";
 import {
+  GoogleAuthProvider,
+  User,
   signInWithEmailAndPassword,
+  signInWithPopup,
   signOut as firebaseSignOut,
 } from "firebase/auth";
-async function parseResponse(res: Response) {
-  const text = await res.text();
+import { FirebaseError } from "firebase/app";
+import { apiRequest, isApiError } from "@/lib/apiClient";
+import { clearQueryCache } from "@/lib/queryCache";
+import { createSession, endSession } from "@/actions/session";
+import { getUserRole } from "@/actions/userInfo";
+import { tokenManager } from "@/utils";
+
+// All sign-in paths end the same way: the user is signed in to Firebase
+// and has a verified session cookie, or neither.
+
+interface SignUpResponse {
+  message: string;
+  uid: string;
+  error?: string;
+}
+
+export interface AuthResult {
+  success: boolean;
+  user?: {
+    uid: string;
+    email: string | null;
+  };
+  error?: string;
+  cancelled?: boolean; // The user closed the Google popup
+}
+
+// How long to wait for the backend to finish setting up a new account
+const PROVISIONING_TIMEOUT = 10 * 1000;
+const PROVISIONING_POLL_DELAYS = [250, 500, 1000, 2000];
+
+/**
+ * Calls the backend API to create a new user.
+ */
+export async function signUp(
+  email: string,
+  password: string,
+  role: string
+): Promise<SignUpResponse> {
   try {
-    return JSON.parse(text);
-  } catch (err) {
-    console.warn("Unable to parse JSON response, returning raw text:", text);
-    return text;
+    // The account doesn't exist yet, so there's no token to send
+    return await apiRequest<SignUpResponse>("/api/auth/sign-up", {
+      method: "POST",
+      body: { email, password, role },
+      auth: false,
+    });
+  } catch (error) {
+    console.error("Signup error:", error);
+    throw error;
   }
 }
 
 /**
- * Calls the backend API to create a new user.
+ * Registers a user who signed in with Google on the backend.
+ *
+ * Backend contract: `POST /api/auth/sign-up` with the user's ID token in the
+ * Authorization header and `{ email, role, provider: "google" }` as the body.
+ * There's no password; the Firebase account already exists, so the backend
+ * must not create one. It identifies the user by the token's uid, stores
+ * their role and account record, and replies as it does for email sign-up.
  */
-export async function signUp(email: string, password: string, role: string) {
+export async function signUpWithGoogle(
+  email: string | null,
+  role: string
+): Promise<SignUpResponse> {
   try {
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/auth/sign-up`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email, password, role }),
-      }
-    );
+    return await apiRequest<SignUpResponse>("/api/auth/sign-up", {
+      method: "POST",
+      body: { email, role, provider: "google" },
+    });
+  } catch (error) {
+    console.error("Google signup error:", error);
+    throw error;
+  }
+}
 
-    const data = await response.json();
+// The role the backend has stored for a user, "" while it's still being set
+// up, or null when it has no account for them. Only a 404 means no account;
+// any other failure is thrown so it's never mistaken for a new user.
+async function findExistingRole(uid: string): Promise<string | null> {
+  try {
+    const { role } = await apiRequest<{ role?: string }>("/api/user/get-role", {
+      method: "POST",
+      body: { userId: uid },
+    });
+    return role || "";
+  } catch (error) {
+    if (isApiError(error) && error.isNotFound) return null;
+    throw error;
+  }
+}
 
-    if (!response.ok) {
-      throw new Error(data.message || "Signup failed");
+/**
+ * Waits until the backend has stored the signed-in user's role, which it
+ * does after the account itself exists. Polls with a growing delay.
+ * @returns The user's role
+ * @throws Error if the account still isn't ready after PROVISIONING_TIMEOUT
+ */
+export async function waitForUserProvisioned(): Promise<string> {
+  const deadline = Date.now() + PROVISIONING_TIMEOUT;
+
+  for (let attempt = 0; ; attempt++) {
+    const { role } = await getUserRole();
+    if (role) return role;
+
+    const delay =
+      PROVISIONING_POLL_DELAYS[
+        Math.min(attempt, PROVISIONING_POLL_DELAYS.length - 1)
+      ];
+    if (Date.now() + delay > deadline) {
+      throw new Error(
+        "Your account is still being set up. Please try signing in again in a moment."
+      );
     }
-    console.log(data);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
 
-    return data; // { message: "User created successfully", uid: "some-unique-uid" }
+// Starts the server session for a Firebase user. New accounts wait for the
+// backend first, since the session records the user's role. If anything
+// fails the user is signed out of Firebase again so the two never disagree.
+async function startSession(
+  user: User,
+  { newAccount = false } = {}
+): Promise<AuthResult> {
+  try {
+    if (newAccount) await waitForUserProvisioned();
+    await createSession(await user.getIdToken());
   } catch (error) {
-    console.error("Signup error:", error);
+    await firebaseSignOut(auth).catch(() => {});
     throw error;
   }
+
+  return {
+    success: true,
+    user: {
+      uid: user.uid,
+      email: user.email,
+    },
+  };
+}
+
+function toAuthError(error: unknown): AuthResult {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : "Authentication failed.",
+  };
 }
 
 /**
- * Handles user login by ensuring the user is signed in via Firebase,
- * retrieving a valid ID token, and then calling the backend API.
+ * Signs the user in with their email and password and starts their session.
  */
-export async function signIn(email: string, password: string) {
+export async function signIn(
+  email: string,
+  password: string
+): Promise<AuthResult> {
   try {
-    const userCredential = await signInWithEmailAndPassword(
-      auth,
-      email,
-      password
-    );
-    const user = userCredential.user;
-
-    if (!user) {
-      throw new Error("User authentication failed.");
-    }
-
-    // Set a simple session cookie - this is just to let the middleware know
-    // the user has signed in, not for actual authentication
-    document.cookie = `firebaseSession=true; path=/; max-age=${
-      60 * 60 * 24 * 14
-    }; SameSite=Strict${
-      process.env.NODE_ENV === "production" ? "; Secure" : ""
-    }`;
-
-    return {
-      success: true,
-      user: {
-        uid: user.uid,
-        email: user.email,
-      },
-    };
-  } catch (error: any) {
-    console.error("Sign-in failed:", error.message);
-    return {
-      success: false,
-      error: error.message,
-    };
+    const { user } = await signInWithEmailAndPassword(auth, email, password);
+    return await startSession(user);
+  } catch (error) {
+    console.error("Sign-in failed:", error);
+    return toAuthError(error);
   }
 }
 
 /**
- * Registers a new user by signing them up and immediately signing them in.
+ * Registers a new user on the backend, signs them in once their account is
+ * ready and starts their session.
  */
-export async function register(email: string, password: string, role: string) {
+export async function register(
+  email: string,
+  password: string,
+  role: string
+): Promise<AuthResult> {
   try {
-    // Step 1: Sign up the user on the backend.
     const signUpResponse = await signUp(email, password, role);
     if (signUpResponse.error) {
-      return signUpResponse;
+      return { success: false, error: signUpResponse.error };
     }
 
-    await new Promise((resolve) => setTimeout(resolve, 1500));
+    const { user } = await signInWithEmailAndPassword(auth, email, password);
+    return await startSession(user, { newAccount: true });
+  } catch (error) {
+    console.error("Registration error:", error);
+    return toAuthError(error);
+  }
+}
+
+/**
+ * Signs the user in with Google and starts their session. A Google account
+ * the backend doesn't know yet is registered with `role`; without one (on
+ * the sign-in form) the user is asked to sign up instead.
+ */
+export async function signInWithGoogle(role?: string): Promise<AuthResult> {
+  try {
+    const { user } = await signInWithPopup(auth, new GoogleAuthProvider());
 
-    // Step 2: Immediately log in the user.
-    const loginResponse = await signIn(email, password);
-    if (loginResponse.error) {
-      return loginResponse;
+    const existingRole = await findExistingRole(user.uid);
+    if (existingRole === null) {
+      if (!role) {
+        await firebaseSignOut(auth);
+        return {
+          success: false,
+          error:
+            "No account found for this Google account. Please sign up first.",
+        };
+      }
+
+      const signUpResponse = await signUpWithGoogle(user.email, role);
+      if (signUpResponse.error) {
+        await firebaseSignOut(auth);
+        return { success: false, error: signUpResponse.error };
+      }
     }
-    return { message: "Registration and login successful", ...loginResponse };
-  } catch (error: any) {
-    console.error("Registration error:", error.message);
-    return {
-      error: error.message || "Unexpected error occurred during registration",
-    };
+
+    return await startSession(user, { newAccount: !existingRole });
+  } catch (error) {
+    if (
+      error instanceof FirebaseError &&
+      (error.code === "auth/popup-closed-by-user" ||
+        error.code === "auth/cancelled-popup-request")
+    ) {
+      return { success: false, cancelled: true };
+    }
+    console.error("Google sign-in failed:", error);
+    await firebaseSignOut(auth).catch(() => {});
+    return toAuthError(error);
   }
 }
 
 export async function signOut() {
   try {
     await firebaseSignOut(auth);
+    tokenManager.clear();
+    clearQueryCache();
     // Clear the session cookie
-    document.cookie = "firebaseSession=; path=/; max-age=0";
+    await endSession();
     console.log("Signed out successfully");
   } catch (error) {
     console.error("Sign-out error:", error);
   }
 }
+
+/**
+ * Fetches the backend's view of the signed-in user
+ * @returns The user's basic account details, or the error message
+ */
+export async function getBasicUserInfo(): Promise<
+  Record<string, unknown> & { error?: string }
+> {
+  try {
+    return await apiRequest<Record<string, unknown>>("/api/auth/sign-in");
+  } catch (error) {
+    console.error("Backend sign in error:", error);
+    return {
+      error: error instanceof Error ? error.message : "Failed to sign in",
+    };
+  }
+}
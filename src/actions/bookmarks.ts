@@ -0,0 +1,55 @@
+import { Bookmark } from "@/types/bookmark";
+import { apiRequest } from "@/lib/apiClient";
+
+/**
+ * Fetches the jobs the signed-in worker has saved for later
+ * @returns The bookmarks with the current version of each job post
+ */
+export async function getBookmarks(): Promise<Bookmark[]> {
+  try {
+    const data = await apiRequest<{ bookmarks?: Bookmark[] }>("/api/bookmark");
+    return data.bookmarks || [];
+  } catch (error) {
+    console.error("Error fetching bookmarks:", error);
+    throw error;
+  }
+}
+
+/**
+ * Saves a job for later
+ * @param jobId - The ID of the job post to save
+ * @returns The created bookmark
+ */
+export async function addBookmark(jobId: string): Promise<Bookmark> {
+  try {
+    if (!jobId) {
+      throw new Error("Job ID is required");
+    }
+
+    const data = await apiRequest<{ bookmark: Bookmark }>("/api/bookmark", {
+      method: "POST",
+      body: { job_id: jobId },
+    });
+    return data.bookmark;
+  } catch (error) {
+    console.error("Error adding bookmark:", error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a job from the worker's saved jobs
+ * @param jobId - The ID of the saved job post
+ */
+export async function removeBookmark(jobId: string): Promise<void> {
+  try {
+    if (!jobId) {
+      throw new Error("Job ID is required");
+    }
+
+    await apiRequest(`/api/bookmark/${jobId}`, { method: "DELETE" });
+  } catch (error) {
+    console.error("Error removing bookmark:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,273 @@
+import {
+  Community,
+  CommunityForm,
+  CommunityPost,
+  CommunityPostForm,
+} from "@/types/community";
+import { apiRequest } from "@/lib/apiClient";
+
+/**
+ * Fetches every community
+ * @returns The communities
+ */
+export async function getCommunities(): Promise<Community[]> {
+  try {
+    const data = await apiRequest<{ communities?: Community[] }>(
+      "/api/community/all"
+    );
+    return data.communities || [];
+  } catch (error) {
+    console.error("Error fetching communities:", error);
+    throw error;
+  }
+}
+
+/**
+ * Searches communities by name
+ * @param name - Text to match against community names
+ * @param limit - The most results to return
+ * @returns The matching communities
+ */
+export async function searchCommunities(
+  name: string,
+  limit = 5
+): Promise<Community[]> {
+  try {
+    const data = await apiRequest<{
+      results?: Community[];
+      communities?: Community[];
+    }>("/api/community/search", { query: { name, limit } });
+    return data.results || data.communities || [];
+  } catch (error) {
+    console.error("Error searching communities:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the communities a user has joined
+ * @param userId - The user's uid
+ * @returns The joined communities
+ */
+export async function getJoinedCommunities(
+  userId: string
+): Promise<Community[]> {
+  try {
+    // Older backends return the array itself
+    const data = await apiRequest<Community[] | { communities?: Community[] }>(
+      `/api/community/joined/${userId}`
+    );
+    return Array.isArray(data) ? data : data.communities || [];
+  } catch (error) {
+    console.error("Error fetching joined communities:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches recent posts from the communities a user has joined
+ * @param userId - The user's uid
+ * @returns The joined communities, each with its posts
+ */
+export async function getJoinedCommunityPosts(
+  userId: string
+): Promise<Community[]> {
+  try {
+    const data = await apiRequest<{ communities?: Community[] }>(
+      "/api/community/joined-posts",
+      { query: { userId } }
+    );
+    return data.communities || [];
+  } catch (error) {
+    console.error("Error fetching joined community posts:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a community's details
+ * @param communityId - The ID of the community
+ */
+export async function getCommunity(communityId: string): Promise<Community> {
+  try {
+    const data = await apiRequest<{ community: Community }>(
+      `/api/community/${communityId}`
+    );
+    return data.community;
+  } catch (error) {
+    console.error("Error fetching community:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the posts in a community
+ * @param communityId - The ID of the community
+ */
+export async function getCommunityPosts(
+  communityId: string
+): Promise<CommunityPost[]> {
+  try {
+    const data = await apiRequest<{ posts?: CommunityPost[] }>(
+      "/api/community/posts",
+      { query: { communityId } }
+    );
+    return data.posts || [];
+  } catch (error) {
+    console.error("Error fetching community posts:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a single post with its comments
+ * @param postId - The ID of the post
+ */
+export async function getCommunityPost(postId: string): Promise<CommunityPost> {
+  try {
+    const data = await apiRequest<{ post: CommunityPost }>(
+      "/api/community/get-post",
+      { query: { postId } }
+    );
+    return data.post;
+  } catch (error) {
+    console.error("Error fetching community post:", error);
+    throw error;
+  }
+}
+
+/**
+ * Adds the signed-in user's comment to a post
+ * @param postId - The ID of the post
+ * @param userId - Identifies the commenter
+ * @param content - The comment text
+ */
+export async function addCommunityComment(
+  postId: string,
+  userId: string,
+  content: string
+): Promise<void> {
+  try {
+    await apiRequest("/api/community/add-comment", {
+      method: "POST",
+      body: { userId, postId, content },
+    });
+  } catch (error) {
+    console.error("Error adding comment:", error);
+    throw error;
+  }
+}
+
+// Join and leave both identify the user and community the same way
+function toMembershipFormData(userId: string, community: Community) {
+  const formData = new FormData();
+  formData.append("userId", userId);
+  formData.append("communityId", community.communityId);
+  formData.append("communityName", community.communityName);
+  return formData;
+}
+
+/**
+ * Adds a user to a community
+ * @param userId - The user's uid
+ * @param community - The community to join
+ */
+export async function joinCommunity(
+  userId: string,
+  community: Community
+): Promise<void> {
+  try {
+    await apiRequest("/api/community/join", {
+      method: "POST",
+      body: toMembershipFormData(userId, community),
+    });
+  } catch (error) {
+    console.error("Error joining community:", error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a user from a community
+ * @param userId - The user's uid
+ * @param community - The community to leave
+ */
+export async function leaveCommunity(
+  userId: string,
+  community: Community
+): Promise<void> {
+  try {
+    await apiRequest("/api/community/leave", {
+      method: "POST",
+      body: toMembershipFormData(userId, community),
+    });
+  } catch (error) {
+    console.error("Error leaving community:", error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a community
+ * @param form - The community's details and photos
+ * @returns The backend's response
+ */
+export async function createCommunity(
+  form: CommunityForm
+): Promise<{ message?: string; community?: Community }> {
+  try {
+    const formData = new FormData();
+    formData.append("communityName", form.communityName);
+    formData.append("communityDescription", form.communityDescription);
+    formData.append("communityType", form.communityType);
+    formData.append("communityTopics", JSON.stringify(form.communityTopics));
+    formData.append("communityRules", JSON.stringify(form.communityRules));
+    if (form.communityProfilePhoto) {
+      formData.append("communityProfilePhoto", form.communityProfilePhoto);
+    }
+    if (form.communityBackgroundPhoto) {
+      formData.append(
+        "communityBackgroundPhoto",
+        form.communityBackgroundPhoto
+      );
+    }
+
+    return await apiRequest("/api/community/create-community", {
+      method: "POST",
+      body: formData,
+    });
+  } catch (error) {
+    console.error("Error creating community:", error);
+    throw error;
+  }
+}
+
+/**
+ * Publishes a post in a community
+ * @param form - The post and its optional image
+ * @returns The created post
+ */
+export async function createCommunityPost(
+  form: CommunityPostForm
+): Promise<CommunityPost> {
+  try {
+    const formData = new FormData();
+    formData.append("communityId", form.communityId);
+    formData.append("title", form.title);
+    formData.append("content", form.content);
+    formData.append("author", form.author);
+    formData.append("displayAuthor", form.displayAuthor);
+    if (form.image) {
+      formData.append("image", form.image);
+    }
+
+    const data = await apiRequest<{ post: CommunityPost }>(
+      "/api/community/posts",
+      { method: "POST", body: formData }
+    );
+    return data.post;
+  } catch (error) {
+    console.error("Error creating community post:", error);
+    throw error;
+  }
+}
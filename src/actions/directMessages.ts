@@ -0,0 +1,330 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  increment,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+  type Unsubscribe,
+} from "firebase/firestore";
+import { db } from "@/firebase/config";
+import { getMyApplications, getWorkerRequests } from "@/actions/applications";
+import {
+  DirectContact,
+  DirectConversation,
+  DirectMessage,
+  DirectParticipant,
+  Presence,
+} from "@/types/directMessage";
+
+// Firestore layout:
+//   conversations/{uidA_uidB}            one per pair of users
+//   conversations/{id}/messages/{id}     the messages, oldest first
+//   presence/{uid}                       online flag and heartbeat
+// Access rules are in firestore.rules. Listing conversations needs the
+// composite index on participantIds (array-contains) + updatedAt (desc)
+// defined in firestore.indexes.json.
+
+// Messages loaded when a conversation is opened
+const MESSAGE_PAGE_SIZE = 200;
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null;
+}
+
+function toConversation(id: string, data: DocumentData): DirectConversation {
+  return {
+    id,
+    participantIds: data.participantIds || [],
+    participants: data.participants || {},
+    lastMessage: data.lastMessage
+      ? {
+          text: data.lastMessage.text,
+          senderId: data.lastMessage.senderId,
+          // Pending local writes have no server timestamp yet
+          createdAt: toDate(data.lastMessage.createdAt) || new Date(),
+        }
+      : undefined,
+    unreadCounts: data.unreadCounts || {},
+    updatedAt: toDate(data.updatedAt) || new Date(),
+  };
+}
+
+/**
+ * The ID of the conversation between two users, the same whichever of them
+ * starts it
+ */
+export function getConversationId(uidA: string, uidB: string): string {
+  return [uidA, uidB].sort().join("_");
+}
+
+/**
+ * Opens the conversation between the signed-in user and someone else,
+ * creating it on first contact
+ * @param me - The signed-in user
+ * @param other - The person to message
+ * @returns The conversation ID
+ */
+export async function startDirectConversation(
+  me: DirectParticipant & { uid: string },
+  other: DirectParticipant & { uid: string }
+): Promise<string> {
+  try {
+    if (me.uid === other.uid) {
+      throw new Error("You can't message yourself");
+    }
+
+    const conversationId = getConversationId(me.uid, other.uid);
+    const ref = doc(db, "conversations", conversationId);
+    const existing = await getDoc(ref);
+
+    const toParticipant = ({ name, role, photo }: DirectParticipant) => ({
+      name,
+      role,
+      ...(photo ? { photo } : {}),
+    });
+
+    if (!existing.exists()) {
+      await setDoc(ref, {
+        participantIds: [me.uid, other.uid],
+        participants: {
+          [me.uid]: toParticipant(me),
+          [other.uid]: toParticipant(other),
+        },
+        unreadCounts: { [me.uid]: 0, [other.uid]: 0 },
+        updatedAt: serverTimestamp(),
+      });
+    } else {
+      // Keep our own name current in case the profile changed
+      await updateDoc(ref, { [`participants.${me.uid}`]: toParticipant(me) });
+    }
+
+    return conversationId;
+  } catch (error) {
+    console.error("Error starting conversation:", error);
+    throw error;
+  }
+}
+
+/**
+ * Sends a message and bumps the other participant's unread count
+ * @param conversationId - The ID of the conversation
+ * @param senderId - The signed-in user's uid
+ * @param text - The message text
+ */
+export async function sendDirectMessage(
+  conversationId: string,
+  senderId: string,
+  text: string
+): Promise<void> {
+  try {
+    if (!text.trim()) {
+      throw new Error("Message is empty");
+    }
+
+    const conversationRef = doc(db, "conversations", conversationId);
+    const conversation = await getDoc(conversationRef);
+    if (!conversation.exists()) {
+      throw new Error("Conversation not found");
+    }
+
+    const recipientIds: string[] = (
+      conversation.data().participantIds || []
+    ).filter((uid: string) => uid !== senderId);
+
+    const batch = writeBatch(db);
+    const messageRef = doc(collection(conversationRef, "messages"));
+
+    batch.set(messageRef, {
+      senderId,
+      text: text.trim(),
+      createdAt: serverTimestamp(),
+    });
+    batch.update(conversationRef, {
+      lastMessage: {
+        text: text.trim(),
+        senderId,
+        createdAt: serverTimestamp(),
+      },
+      updatedAt: serverTimestamp(),
+      ...Object.fromEntries(
+        recipientIds.map((uid) => [`unreadCounts.${uid}`, increment(1)])
+      ),
+    });
+
+    await batch.commit();
+  } catch (error) {
+    console.error("Error sending message:", error);
+    throw error;
+  }
+}
+
+/**
+ * Clears the signed-in user's unread count on a conversation
+ * @param conversationId - The ID of the conversation
+ * @param uid - The signed-in user's uid
+ */
+export async function markDirectConversationRead(
+  conversationId: string,
+  uid: string
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, "conversations", conversationId), {
+      [`unreadCounts.${uid}`]: 0,
+    });
+  } catch (error) {
+    console.error("Error marking conversation as read:", error);
+    throw error;
+  }
+}
+
+/**
+ * Listens to the user's conversations, most recently active first
+ * @returns A function that stops listening
+ */
+export function subscribeToDirectConversations(
+  uid: string,
+  onChange: (conversations: DirectConversation[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(
+      collection(db, "conversations"),
+      where("participantIds", "array-contains", uid),
+      orderBy("updatedAt", "desc")
+    ),
+    (snapshot) =>
+      onChange(
+        snapshot.docs.map((snap) => toConversation(snap.id, snap.data()))
+      ),
+    (error) => {
+      console.error("Error listening to conversations:", error);
+      onError?.(error);
+    }
+  );
+}
+
+/**
+ * Listens to a conversation's messages, oldest first
+ * @returns A function that stops listening
+ */
+export function subscribeToDirectMessages(
+  conversationId: string,
+  onChange: (messages: DirectMessage[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    query(
+      collection(db, "conversations", conversationId, "messages"),
+      orderBy("createdAt", "desc"),
+      limit(MESSAGE_PAGE_SIZE)
+    ),
+    (snapshot) =>
+      onChange(
+        snapshot.docs
+          .map((snap) => ({
+            id: snap.id,
+            senderId: snap.data().senderId,
+            text: snap.data().text,
+            createdAt: toDate(snap.data().createdAt),
+          }))
+          .reverse()
+      ),
+    (error) => {
+      console.error("Error listening to messages:", error);
+      onError?.(error);
+    }
+  );
+}
+
+/**
+ * Records whether the signed-in user is online. Called on a heartbeat so a
+ * closed tab eventually shows as offline even if the last update never ran.
+ */
+export async function updatePresence(
+  uid: string,
+  online: boolean
+): Promise<void> {
+  try {
+    await setDoc(
+      doc(db, "presence", uid),
+      { online, lastSeen: serverTimestamp() },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error("Error updating presence:", error);
+  }
+}
+
+/**
+ * Listens to another user's presence
+ * @returns A function that stops listening
+ */
+export function subscribeToPresence(
+  uid: string,
+  onChange: (presence: Presence) => void
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, "presence", uid),
+    (snap) =>
+      onChange({
+        online: !!snap.data()?.online,
+        lastSeen: toDate(snap.data()?.lastSeen),
+      }),
+    (error) => console.error("Error listening to presence:", error)
+  );
+}
+
+/**
+ * People the signed-in user can message: employers of jobs a worker applied
+ * to, or workers who applied to an employer's jobs
+ * @param role - The signed-in user's role
+ */
+export async function getDirectContacts(
+  role: string
+): Promise<DirectContact[]> {
+  try {
+    const contacts = new Map<string, DirectContact>();
+
+    if (role === "employer") {
+      const requests = await getWorkerRequests();
+      for (const request of requests) {
+        if (contacts.has(request.worker_id)) continue;
+        contacts.set(request.worker_id, {
+          uid: request.worker_id,
+          name: request.worker_name,
+          role: "worker",
+          context: request.experience,
+        });
+      }
+    } else {
+      const applications = await getMyApplications();
+      for (const application of applications) {
+        if (contacts.has(application.employer_id)) continue;
+        contacts.set(application.employer_id, {
+          uid: application.employer_id,
+          name:
+            application.job?.company?.name ||
+            application.job?.employer_name ||
+            "Employer",
+          role: "employer",
+          context: application.job?.job_title,
+        });
+      }
+    }
+
+    return Array.from(contacts.values());
+  } catch (error) {
+    console.error("Error fetching contacts:", error);
+    throw error;
+  }
+}
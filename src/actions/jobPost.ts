@@ -1,54 +1,79 @@
-import { JobPost, JobPostForm } from "@/types/jobpost"; // Import your JobPost interface
-import { getIdTokenNoParam } from "@/utils";
+import {
+  JobPost,
+  JobPostForm,
+  JobPostStatus,
+  JobSearchPage,
+  JobSearchParams,
+} from "@/types/jobpost"; // Import your JobPost interface
+import { apiRequest } from "@/lib/apiClient";
 
-export async function getJobPosts({
+/**
+ * Searches job posts on the backend, one page at a time
+ * @param params - Search filters, sort order and pagination cursor
+ * @returns A page of job posts and the cursor for the next page
+ */
+export async function searchJobPosts({
   limit = 10,
-  employer_id,
-  type_of_work,
-}: {
-  limit?: number;
-  employer_id?: string;
-  type_of_work?: string;
-}): Promise<JobPost[]> {
+  ...filters
+}: JobSearchParams = {}): Promise<JobSearchPage> {
   try {
-    // Build the query parameters
-    const params = new URLSearchParams();
-
-    if (limit) params.append("limit", limit.toString());
-    if (employer_id) params.append("employer_id", employer_id);
-    if (type_of_work) params.append("type_of_work", type_of_work);
-
-    const idToken = await getIdTokenNoParam();
-
-    // Make the API request
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/job/all?${params.toString()}`,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${idToken}`,
-          "Content-Type": "application/json",
-        },
-      }
+    // Inclusivity flags only narrow results, so unset ones are left out
+    const query = Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== false)
     );
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || "Failed to fetch job posts");
-    }
-
-    const data = await response.json();
-    return data.jobPosts;
+    const data = await apiRequest<Partial<JobSearchPage>>("/api/job/all", {
+      query: { limit, ...query },
+    });
+    return {
+      jobPosts: data.jobPosts || [],
+      nextCursor: data.nextCursor || null,
+    };
   } catch (error) {
     console.error("Error fetching job posts:", error);
     throw error;
   }
 }
 
+/**
+ * Fetches the first page of job posts matching the given filters
+ * @param params - Search filters, see searchJobPosts
+ * @returns The matching job posts
+ */
+export async function getJobPosts(
+  params: JobSearchParams = {}
+): Promise<JobPost[]> {
+  const { jobPosts } = await searchJobPosts(params);
+  return jobPosts;
+}
+
+/**
+ * Fetches every job post matching the given filters, following the cursor
+ * through all pages
+ * @param params - Search filters, see searchJobPosts; `limit` is the page size
+ * @returns All matching job posts
+ */
+export async function getAllJobPosts(
+  params: Omit<JobSearchParams, "cursor"> = {}
+): Promise<JobPost[]> {
+  const jobPosts: JobPost[] = [];
+  let cursor: string | null | undefined;
+
+  do {
+    const page = await searchJobPosts({
+      ...params,
+      cursor: cursor || undefined,
+    });
+    jobPosts.push(...page.jobPosts);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return jobPosts;
+}
+
 /**
  * Fetches a job post by its ID from the backend
  * @param jobId - The ID of the job post to fetch
- * @param idToken - The authorization token for authentication
  * @returns The job post data
  */
 export async function getJobPostById(jobId: string): Promise<JobPost> {
@@ -58,33 +83,9 @@ export async function getJobPostById(jobId: string): Promise<JobPost> {
       throw new Error("Job ID is required");
     }
 
-    const idToken = await getIdTokenNoParam();
-
-    // Ensure we have an ID token
-    if (!idToken) {
-      throw new Error("Authorization token is required");
-    }
-
-    // Make the request to the backend
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/job/job-post/${jobId}`,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${idToken}`,
-          "Content-Type": "application/json",
-        },
-      }
+    const data = await apiRequest<{ jobPost: JobPost }>(
+      `/api/job/job-post/${jobId}`
     );
-
-    // Parse the response
-    const data = await response.json();
-
-    // Check if the request was successful
-    if (!response.ok) {
-      throw new Error(data.error || "Failed to fetch job post");
-    }
-
     return data.jobPost;
   } catch (error) {
     console.error("Error fetching job post:", error);
@@ -94,51 +95,111 @@ export async function getJobPostById(jobId: string): Promise<JobPost> {
 
 // utils/jobApi.ts
 
+// Job posts are sent as multipart so they can carry files
+function toJobPostFormData(jobData: Partial<JobPostForm>): FormData {
+  const formData = new FormData();
+
+  Object.entries(jobData).forEach(([key, value]) => {
+    if (value !== undefined) {
+      // Don't add undefined values; an empty value clears the field
+      if (value === null) {
+        formData.append(key, "");
+      } else if (typeof value === "boolean") {
+        formData.append(key, value.toString());
+      } else if (value instanceof File) {
+        formData.append(key, value);
+      } else {
+        formData.append(key, value as string);
+      }
+    }
+  });
+
+  return formData;
+}
+
 /**
  * Creates a job post by sending data to the backend API
  * @param jobData The job post data
- * @param idToken The Firebase authentication token
- * @param apiUrl The backend API URL (defaults to localhost:3000 for development)
  * @returns Promise with the response data
  */
 export async function createJobPost(jobData: JobPostForm): Promise<any> {
   try {
-    const idToken = await getIdTokenNoParam();
-    // Create a FormData object to send the job post data
-    const formData = new FormData();
-
-    // Add all job data fields to the FormData
-    Object.entries(jobData).forEach(([key, value]) => {
-      if (value !== undefined) {
-        // Don't add undefined values
-        if (typeof value === "boolean") {
-          formData.append(key, value.toString());
-        } else {
-          formData.append(key, value as string);
-        }
-      }
+    return await apiRequest("/api/job/create", {
+      method: "POST",
+      body: toJobPostFormData(jobData),
     });
+  } catch (error) {
+    console.error("Error creating job post:", error);
+    throw error;
+  }
+}
 
-    // Make the API request
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/job/create`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${idToken}`,
-        },
-        body: formData,
-      }
+/**
+ * Updates an existing job post owned by the signed-in employer
+ * @param jobId - The ID of the job post to update
+ * @param jobData - The fields to overwrite
+ * @returns The updated job post
+ */
+export async function updateJobPost(
+  jobId: string,
+  jobData: Partial<JobPostForm>
+): Promise<JobPost> {
+  try {
+    if (!jobId) {
+      throw new Error("Job ID is required");
+    }
+
+    const data = await apiRequest<{ jobPost: JobPost }>(
+      `/api/job/job-post/${jobId}`,
+      { method: "PUT", body: toJobPostFormData(jobData) }
+    );
+    return data.jobPost;
+  } catch (error) {
+    console.error("Error updating job post:", error);
+    throw error;
+  }
+}
+
+/**
+ * Opens or closes a job post to new applicants. Existing applications are
+ * left untouched.
+ * @param jobId - The ID of the job post
+ * @param status - "closed" to stop accepting applications, "open" to reopen
+ * @returns The updated job post
+ */
+export async function setJobPostStatus(
+  jobId: string,
+  status: JobPostStatus
+): Promise<JobPost> {
+  try {
+    if (!jobId) {
+      throw new Error("Job ID is required");
+    }
+
+    const data = await apiRequest<{ jobPost: JobPost }>(
+      `/api/job/job-post/${jobId}/status`,
+      { method: "PUT", body: { status } }
     );
+    return data.jobPost;
+  } catch (error) {
+    console.error("Error updating job post status:", error);
+    throw error;
+  }
+}
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || "Failed to create job post");
+/**
+ * Permanently deletes a job post owned by the signed-in employer
+ * @param jobId - The ID of the job post to delete
+ */
+export async function deleteJobPost(jobId: string): Promise<void> {
+  try {
+    if (!jobId) {
+      throw new Error("Job ID is required");
     }
 
-    return await response.json();
+    await apiRequest(`/api/job/job-post/${jobId}`, { method: "DELETE" });
   } catch (error) {
-    console.error("Error creating job post:", error);
+    console.error("Error deleting job post:", error);
     throw error;
   }
 }
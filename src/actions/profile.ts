@@ -6,10 +6,37 @@ import {
   UserProfileFormData,
   UserProfileResponse,
 } from "@/types/userProfile";
-import { getCurrentUser, getIdTokenNoParam } from "@/utils";
+import type { Locale } from "@/types/i18n";
+import { getCurrentUser } from "@/utils";
+import { apiRequest, isApiError } from "@/lib/apiClient";
+
+// Profiles are sent as multipart so they can carry the photo and resume
+function toProfileFormData(
+  formData: Partial<UserProfileFormData> & { preferredLanguage?: Locale },
+  profilePhotoFile?: File,
+  resumeFile?: File
+): FormData {
+  const multipartFormData = new FormData();
+
+  // Add all text fields from the form data
+  Object.entries(formData).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      multipartFormData.append(key, value.toString());
+    }
+  });
+
+  if (profilePhotoFile) {
+    multipartFormData.append("profilePhoto", profilePhotoFile);
+  }
+
+  if (resumeFile) {
+    multipartFormData.append("resume", resumeFile);
+  }
+
+  return multipartFormData;
+}
 
 export async function getUserProfile() {
-  const idToken = await getIdTokenNoParam();
   const user = await getCurrentUser();
   const userId = user?.uid;
 
@@ -17,39 +44,17 @@ export async function getUserProfile() {
     throw new Error("User ID is required");
   }
 
-  if (!idToken) {
-    throw new Error("Authentication token is required");
-  }
-
   try {
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/user/profile/${userId}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${idToken}`,
-        },
-      }
+    const profileData = await apiRequest<UserProfile>(
+      `/api/user/profile/${userId}`
     );
-
-    console.log("response = ", response);
-
+    return { profileExists: true, profile: profileData };
+  } catch (error) {
     // Special handling for 404 - profile doesn't exist yet
-    if (response.status === 404) {
-      console.log("Profile doesn't exist (404 response)");
+    if (isApiError(error) && error.isNotFound) {
       return { profileExists: false };
     }
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || `Error: ${response.status}`);
-    }
-
-    const profileData: UserProfile = await response.json();
-    console.log("profile = ", profileData);
-    return { profileExists: true, profile: profileData };
-  } catch (error) {
     console.error("Failed to fetch user profile:", error);
     throw error;
   }
@@ -72,50 +77,14 @@ export const createUserProfile = async (
   resumeFile?: File
 ): Promise<UserProfileResponse> => {
   try {
-    // Create FormData object for multipart/form-data request
-    const multipartFormData = new FormData();
-
-    // Add all text fields from the form data
-    Object.entries(formData).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        multipartFormData.append(key, value.toString());
-      }
-    });
-
-    // Add profile photo if provided
-    if (profilePhotoFile) {
-      multipartFormData.append("profilePhoto", profilePhotoFile);
-    }
-
-    // Add resume if provided
-    if (resumeFile) {
-      multipartFormData.append("resume", resumeFile);
-    }
-
-    const idToken = await getIdTokenNoParam();
-
-    // Send the request to the backend
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/user/profile/${userId}`,
+    const data = await apiRequest<{ profile: UserProfile }>(
+      `/api/user/profile/${userId}`,
       {
         method: "POST",
-        body: multipartFormData,
-        headers: {
-          // Don't set Content-Type header for multipart/form-data
-          Authorization: `Bearer ${idToken}`,
-        },
+        body: toProfileFormData(formData, profilePhotoFile, resumeFile),
       }
     );
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        success: false,
-        error: data.error || `Failed with status code: ${response.status}`,
-      };
-    }
-
     return {
       success: true,
       profile: data.profile as UserProfile,
@@ -136,51 +105,18 @@ export const updateUserProfile = async (
   profilePhotoFile?: File,
   resumeFile?: File
 ): Promise<UpdateProfileResponse> => {
-  const idToken = await getIdTokenNoParam();
-
-  if (!userId || !idToken) {
-    throw new Error("User ID and authentication token are required");
-  }
-
-  // Create a multipart form-data object
-  const multipartFormData = new FormData();
-
-  // Add all text fields to form data
-  Object.entries(formData).forEach(([key, value]) => {
-    if (value !== undefined) {
-      multipartFormData.append(key, value);
-    }
-  });
-
-  // Add files if provided
-  if (profilePhotoFile) {
-    multipartFormData.append("profilePhoto", profilePhotoFile);
-  }
-
-  if (resumeFile) {
-    multipartFormData.append("resume", resumeFile);
+  if (!userId) {
+    throw new Error("User ID is required");
   }
 
   try {
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/user/profile/${userId}`,
+    return await apiRequest<UpdateProfileResponse>(
+      `/api/user/profile/${userId}`,
       {
         method: "PUT",
-        headers: {
-          Authorization: `Bearer ${idToken}`,
-          // Don't set Content-Type header when using FormData as fetch sets it automatically with boundary
-        },
-        body: multipartFormData,
+        body: toProfileFormData(formData, profilePhotoFile, resumeFile),
       }
     );
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || "Failed to update profile");
-    }
-
-    return data;
   } catch (error) {
     console.error("Error updating profile:", error);
     return {
@@ -188,3 +124,23 @@ export const updateUserProfile = async (
     };
   }
 };
+
+/**
+ * Saves the user's preferred UI language on their profile
+ *
+ * @param userId - The ID of the user
+ * @param locale - The language to save
+ */
+export const updatePreferredLanguage = async (
+  userId: string,
+  locale: Locale
+): Promise<void> => {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  await apiRequest(`/api/user/profile/${userId}`, {
+    method: "PUT",
+    body: toProfileFormData({ preferredLanguage: locale }),
+  });
+};
@@ -0,0 +1,94 @@
+import {
+  JobFilters,
+  serializeJobFilters,
+  toJobSearchParams,
+} from "@/lib/jobFilters";
+import { SavedSearch } from "@/types/savedSearch";
+import { apiRequest } from "@/lib/apiClient";
+
+/**
+ * Fetches the signed-in worker's saved searches with their new-match counts
+ * @returns The saved searches, newest first
+ */
+export async function getSavedSearches(): Promise<SavedSearch[]> {
+  try {
+    const data = await apiRequest<{ savedSearches?: SavedSearch[] }>(
+      "/api/saved-search"
+    );
+    return data.savedSearches || [];
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    throw error;
+  }
+}
+
+/**
+ * Saves the current job list filters under a name so the worker is alerted
+ * about new matching jobs
+ * @param name - Label shown in the notifications sheet
+ * @param filters - The job list filters to save
+ * @returns The created saved search
+ */
+export async function createSavedSearch(
+  name: string,
+  filters: JobFilters
+): Promise<SavedSearch> {
+  try {
+    if (!name.trim()) {
+      throw new Error("A name is required");
+    }
+
+    // Sort order doesn't affect which jobs match
+    const searchFilters = toJobSearchParams(filters);
+    delete searchFilters.sort;
+
+    const data = await apiRequest<{ savedSearch: SavedSearch }>(
+      "/api/saved-search",
+      {
+        method: "POST",
+        body: {
+          name: name.trim(),
+          filters: searchFilters,
+          query: serializeJobFilters(filters).toString(),
+        },
+      }
+    );
+    return data.savedSearch;
+  } catch (error) {
+    console.error("Error saving search:", error);
+    throw error;
+  }
+}
+
+/**
+ * Marks a saved search as viewed, resetting its new-match count
+ * @param searchId - The ID of the saved search
+ * @returns The updated saved search
+ */
+export async function markSavedSearchSeen(
+  searchId: string
+): Promise<SavedSearch> {
+  try {
+    const data = await apiRequest<{ savedSearch: SavedSearch }>(
+      `/api/saved-search/${searchId}/seen`,
+      { method: "PUT" }
+    );
+    return data.savedSearch;
+  } catch (error) {
+    console.error("Error marking saved search as seen:", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes one of the signed-in worker's saved searches
+ * @param searchId - The ID of the saved search
+ */
+export async function deleteSavedSearch(searchId: string): Promise<void> {
+  try {
+    await apiRequest(`/api/saved-search/${searchId}`, { method: "DELETE" });
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    throw error;
+  }
+}
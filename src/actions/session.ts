@@ -0,0 +1,51 @@
+/**
+ * Exchanges the user's ID token for the session cookie the middleware
+ * checks. The cookie is httpOnly, so only the server can set or clear it.
+ * @param idToken - A fresh Firebase ID token
+ */
+export async function createSession(idToken: string): Promise<void> {
+  try {
+    const response = await fetch("/api/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ idToken }),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || "Failed to start session");
+    }
+  } catch (error) {
+    console.error("Error creating session:", error);
+    throw error;
+  }
+}
+
+/**
+ * Reads the current session's claims
+ * @returns The uid and role the session was minted with, or null if there
+ * is no valid session
+ */
+export async function getSession(): Promise<{
+  uid: string;
+  role: string;
+} | null> {
+  try {
+    const response = await fetch("/api/session", { cache: "no-store" });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.error("Error reading session:", error);
+    return null;
+  }
+}
+
+/**
+ * Clears the session cookie
+ */
+export async function endSession(): Promise<void> {
+  try {
+    await fetch("/api/session", { method: "DELETE" });
+  } catch (error) {
+    console.error("Error ending session:", error);
+  }
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { getCurrentUser, getIdTokenNoParam } from "@/utils";
+import { getCurrentUser } from "@/utils";
+import { apiRequest, isApiError } from "@/lib/apiClient";
 import { getUserProfile } from "./profile";
 
 interface GetRoleResponse {
@@ -10,7 +11,6 @@ interface GetRoleResponse {
 
 export async function getUserRole(): Promise<GetRoleResponse> {
   try {
-    const idToken = await getIdTokenNoParam();
     const user = await getCurrentUser();
     const userId = user?.uid;
 
@@ -18,38 +18,18 @@ export async function getUserRole(): Promise<GetRoleResponse> {
       throw new Error("User ID is required");
     }
 
-    if (!idToken) {
-      throw new Error("Authentication token is required");
-    }
-
-    const payload = {
-      userId,
-    };
-
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/user/get-role`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${idToken}`,
-        },
-        body: JSON.stringify(payload),
-      }
-    );
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      return {
-        error: data.message || "Failed to fetch user role",
-      };
-    }
+    const data = await apiRequest<{ role: string }>("/api/user/get-role", {
+      method: "POST",
+      body: { userId },
+    });
 
     return {
       role: data.role,
     };
   } catch (error) {
+    if (isApiError(error) && !error.isNetworkError) {
+      return { error: error.message };
+    }
     console.error("Error fetching user role:", error);
     return {
       error: "An error occurred while fetching the user role",
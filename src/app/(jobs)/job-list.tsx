@@ -1,594 +1,916 @@
-"use client";
-
-import { useState } from "react";
-import Link from "next/link";
-import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import {
-  Card,
-  CardContent,
-  CardFooter,
-  CardHeader,
-  CardTitle,
-} from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
-import {
-  Briefcase,
-  Building2,
-  Calendar,
-  MapPin,
-  Search,
-  Loader2,
-  X,
-  ChevronRight,
-  Banknote,
-  SlidersHorizontal,
-} from "lucide-react";
-import { useJobPosts } from "@/hooks/jobPostHook";
-import { Skeleton } from "@/components/ui/skeleton";
-import {
-  Sheet,
-  SheetContent,
-  SheetDescription,
-  SheetHeader,
-  SheetTitle,
-  SheetTrigger,
-  SheetFooter,
-  SheetClose,
-} from "@/components/ui/sheet";
-
-export function JobsList() {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [locationFilter, setLocationFilter] = useState("all");
-  const [typeFilter, setTypeFilter] = useState("all");
-  const [inclusivityFilter, setInclusivityFilter] = useState("all");
-  const [showFilters, setShowFilters] = useState(false);
-
-  const { jobPosts, loading, error } = useJobPosts({
-    limit: 10,
-    // Optional: Pass other parameters as needed
-  });
-
-  // Get unique cities from job locations for filtering
-  const locations = Array.from(
-    new Set(jobPosts.map((job) => job.location?.city).filter(Boolean))
-  );
-
-  // Filter jobs based on search and filters
-  const filteredJobs = jobPosts.filter((job) => {
-    const matchesSearch =
-      job.job_title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (job.employer_name &&
-        job.employer_name.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      job.type_of_work.toLowerCase().includes(searchTerm.toLowerCase());
-
-    const matchesLocation =
-      locationFilter === "all"
-        ? true
-        : job.location?.city?.includes(locationFilter);
-
-    const matchesType =
-      typeFilter === "all" ? true : job.type_of_work === typeFilter;
-
-    // Using explicit boolean checks for each inclusivity option
-    const matchesInclusivity = (() => {
-      if (inclusivityFilter === "all") return true;
-      if (inclusivityFilter === "women-friendly")
-        return job.special_woman_provision === true;
-      if (inclusivityFilter === "lgbt-friendly")
-        return job.special_transgender_provision === true;
-      if (inclusivityFilter === "disability-friendly")
-        return job.special_disability_provision === true;
-      return false;
-    })();
-
-    return (
-      matchesSearch && matchesLocation && matchesType && matchesInclusivity
-    );
-  });
-
-  const resetFilters = () => {
-    setLocationFilter("all");
-    setTypeFilter("all");
-    setInclusivityFilter("all");
-    setSearchTerm("");
-  };
-
-  const hasActiveFilters =
-    locationFilter !== "all" ||
-    typeFilter !== "all" ||
-    inclusivityFilter !== "all" ||
-    searchTerm !== "";
-
-  const activeFilterCount =
-    (locationFilter !== "all" ? 1 : 0) +
-    (typeFilter !== "all" ? 1 : 0) +
-    (inclusivityFilter !== "all" ? 1 : 0);
-
-  return (
-    <div className="space-y-6">
-      <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/30 dark:to-indigo-950/30 rounded-xl p-4 sm:p-6 shadow-sm">
-        <div className="max-w-3xl mx-auto">
-          <h2 className="text-xl sm:text-2xl font-bold text-center mb-4 sm:mb-6">
-            Find Your Perfect Job
-          </h2>
-
-          {/* Search bar with mobile filter button */}
-          <div className="relative">
-            <Search className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
-            <Input
-              id="search"
-              placeholder="Search jobs..."
-              className="pl-10 pr-12 h-12 text-base bg-white dark:bg-gray-950 shadow-sm"
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
-
-            {/* Mobile filter button using Sheet component */}
-            <div className="absolute right-1 top-1 md:hidden">
-              <Sheet>
-                <SheetTrigger asChild>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    className="h-10 w-10 rounded-md"
-                  >
-                    <SlidersHorizontal className="h-4 w-4" />
-                    {activeFilterCount > 0 && (
-                      <span className="absolute -top-1 -right-1 bg-primary text-primary-foreground text-xs rounded-full h-4 w-4 flex items-center justify-center">
-                        {activeFilterCount}
-                      </span>
-                    )}
-                  </Button>
-                </SheetTrigger>
-                <SheetContent
-                  side="bottom"
-                  className="h-[80vh] sm:h-[60vh] rounded-t-xl"
-                >
-                  <SheetHeader className="mb-4">
-                    <SheetTitle>Filter Jobs</SheetTitle>
-                    <SheetDescription>
-                      Refine your job search with these filters
-                    </SheetDescription>
-                  </SheetHeader>
-
-                  <div className="space-y-6 overflow-y-auto pb-16">
-                    <div className="space-y-2">
-                      <Label
-                        htmlFor="mobile-location"
-                        className="text-sm font-medium"
-                      >
-                        Location
-                      </Label>
-                      <Select
-                        value={locationFilter}
-                        onValueChange={setLocationFilter}
-                      >
-                        <SelectTrigger
-                          id="mobile-location"
-                          className="bg-white dark:bg-gray-950"
-                        >
-                          <SelectValue placeholder="All locations" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="all">All locations</SelectItem>
-                          {locations.map((loc, index) => (
-                            <SelectItem key={index} value={loc!}>
-                              {loc}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label
-                        htmlFor="mobile-type"
-                        className="text-sm font-medium"
-                      >
-                        Job Type
-                      </Label>
-                      <Select value={typeFilter} onValueChange={setTypeFilter}>
-                        <SelectTrigger
-                          id="mobile-type"
-                          className="bg-white dark:bg-gray-950"
-                        >
-                          <SelectValue placeholder="All types" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="all">All types</SelectItem>
-                          <SelectItem value="Full-time">Full-time</SelectItem>
-                          <SelectItem value="Part-time">Part-time</SelectItem>
-                          <SelectItem value="Contract">Contract</SelectItem>
-                          <SelectItem value="Temporary">Temporary</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label
-                        htmlFor="mobile-inclusivity"
-                        className="text-sm font-medium"
-                      >
-                        Inclusivity
-                      </Label>
-                      <Select
-                        value={inclusivityFilter}
-                        onValueChange={setInclusivityFilter}
-                      >
-                        <SelectTrigger
-                          id="mobile-inclusivity"
-                          className="bg-white dark:bg-gray-950"
-                        >
-                          <SelectValue placeholder="All jobs" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="all">All jobs</SelectItem>
-                          <SelectItem value="women-friendly">
-                            Women-friendly
-                          </SelectItem>
-                          <SelectItem value="disability-friendly">
-                            Disability-friendly
-                          </SelectItem>
-                          <SelectItem value="lgbt-friendly">
-                            LGBTQ+-friendly
-                          </SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-
-                  <SheetFooter className="absolute bottom-0 left-0 right-0 p-4 bg-background border-t">
-                    <div className="flex w-full gap-2">
-                      <Button
-                        variant="outline"
-                        className="flex-1"
-                        onClick={resetFilters}
-                      >
-                        Reset
-                      </Button>
-                      <SheetClose asChild>
-                        <Button className="flex-1">Apply Filters</Button>
-                      </SheetClose>
-                    </div>
-                  </SheetFooter>
-                </SheetContent>
-              </Sheet>
-            </div>
-          </div>
-
-          {/* Desktop filters */}
-          <div className="mt-4 hidden md:grid gap-4 md:grid-cols-3">
-            <div className="space-y-2">
-              <Label htmlFor="location" className="text-sm font-medium">
-                Location
-              </Label>
-              <Select value={locationFilter} onValueChange={setLocationFilter}>
-                <SelectTrigger
-                  id="location"
-                  className="bg-white dark:bg-gray-950"
-                >
-                  <SelectValue placeholder="All locations" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All locations</SelectItem>
-                  {locations.map((loc, index) => (
-                    <SelectItem key={index} value={loc!}>
-                      {loc}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="type" className="text-sm font-medium">
-                Job Type
-              </Label>
-              <Select value={typeFilter} onValueChange={setTypeFilter}>
-                <SelectTrigger id="type" className="bg-white dark:bg-gray-950">
-                  <SelectValue placeholder="All types" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All types</SelectItem>
-                  <SelectItem value="Full-time">Full-time</SelectItem>
-                  <SelectItem value="Part-time">Part-time</SelectItem>
-                  <SelectItem value="Contract">Contract</SelectItem>
-                  <SelectItem value="Temporary">Temporary</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="inclusivity" className="text-sm font-medium">
-                Inclusivity
-              </Label>
-              <Select
-                value={inclusivityFilter}
-                onValueChange={setInclusivityFilter}
-              >
-                <SelectTrigger
-                  id="inclusivity"
-                  className="bg-white dark:bg-gray-950"
-                >
-                  <SelectValue placeholder="All jobs" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All jobs</SelectItem>
-                  <SelectItem value="women-friendly">Women-friendly</SelectItem>
-                  <SelectItem value="disability-friendly">
-                    Disability-friendly
-                  </SelectItem>
-                  <SelectItem value="lgbt-friendly">LGBTQ+-friendly</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-
-          {/* Active filters display */}
-          {hasActiveFilters && (
-            <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
-              <div className="flex flex-wrap gap-2">
-                {searchTerm && (
-                  <Badge
-                    variant="secondary"
-                    className="px-3 py-1 flex items-center gap-1"
-                  >
-                    <span className="max-w-[100px] sm:max-w-none truncate">
-                      "{searchTerm}"
-                    </span>
-                    <X
-                      className="h-3 w-3 cursor-pointer"
-                      onClick={() => setSearchTerm("")}
-                    />
-                  </Badge>
-                )}
-                {locationFilter !== "all" && (
-                  <Badge
-                    variant="secondary"
-                    className="px-3 py-1 flex items-center gap-1"
-                  >
-                    <MapPin className="h-3 w-3" />
-                    <span className="max-w-[80px] sm:max-w-none truncate">
-                      {locationFilter}
-                    </span>
-                    <X
-                      className="h-3 w-3 cursor-pointer"
-                      onClick={() => setLocationFilter("all")}
-                    />
-                  </Badge>
-                )}
-                {typeFilter !== "all" && (
-                  <Badge
-                    variant="secondary"
-                    className="px-3 py-1 flex items-center gap-1"
-                  >
-                    <Briefcase className="h-3 w-3" />
-                    <span>{typeFilter}</span>
-                    <X
-                      className="h-3 w-3 cursor-pointer"
-                      onClick={() => setTypeFilter("all")}
-                    />
-                  </Badge>
-                )}
-                {inclusivityFilter !== "all" && (
-                  <Badge
-                    variant="secondary"
-                    className="px-3 py-1 flex items-center gap-1"
-                  >
-                    <span>{inclusivityFilter}</span>
-                    <X
-                      className="h-3 w-3 cursor-pointer"
-                      onClick={() => setInclusivityFilter("all")}
-                    />
-                  </Badge>
-                )}
-              </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={resetFilters}
-                className="text-xs"
-              >
-                Clear all
-              </Button>
-            </div>
-          )}
-        </div>
-      </div>
-
-      {loading ? (
-        <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-          {[...Array(6)].map((_, index) => (
-            <JobCardSkeleton key={index} />
-          ))}
-        </div>
-      ) : error ? (
-        <div className="text-center py-8 sm:py-12 bg-red-50 dark:bg-red-950/20 rounded-lg">
-          <p className="text-red-600 dark:text-red-400">
-            Error loading jobs. Please try again later.
-          </p>
-        </div>
-      ) : (
-        <>
-          {filteredJobs.length > 0 ? (
-            <>
-              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-4">
-                <p className="text-sm text-muted-foreground">
-                  Showing{" "}
-                  <span className="font-medium text-foreground">
-                    {filteredJobs.length}
-                  </span>{" "}
-                  jobs
-                </p>
-                <Select defaultValue="newest">
-                  <SelectTrigger className="w-full sm:w-[180px]">
-                    <SelectValue placeholder="Sort by" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="newest">Newest first</SelectItem>
-                    <SelectItem value="oldest">Oldest first</SelectItem>
-                    <SelectItem value="relevance">Relevance</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-                {filteredJobs.map((job) => (
-                  <Card
-                    key={job.id}
-                    className={`overflow-hidden transition-all hover:shadow-md group ${
-                      job.special_woman_provision
-                        ? "border-l-4 border-l-pink-500"
-                        : job.special_transgender_provision
-                        ? "border-l-4 border-l-purple-500"
-                        : job.special_disability_provision
-                        ? "border-l-4 border-l-blue-500"
-                        : ""
-                    }`}
-                  >
-                    <CardHeader className="pb-2 relative">
-                      <div className="flex justify-between items-start">
-                        <CardTitle className="text-lg sm:text-xl pr-16 group-hover:text-primary transition-colors">
-                          {job.job_title}
-                        </CardTitle>
-                      </div>
-                      <div className="flex items-center text-sm text-muted-foreground mt-1">
-                        <Building2 className="h-4 w-4 mr-1 flex-shrink-0" />
-                        <span className="truncate">
-                          {job.employer_name || "Unknown Employer"}
-                        </span>
-                      </div>
-                      <div className="absolute top-4 right-4 flex flex-col sm:flex-row gap-1">
-                        {job.special_woman_provision && (
-                          <Badge className="bg-pink-100 text-pink-700 hover:bg-pink-200 dark:bg-pink-900/30 dark:text-pink-300">
-                            Women
-                          </Badge>
-                        )}
-                        {job.special_transgender_provision && (
-                          <Badge className="bg-purple-100 text-purple-700 hover:bg-purple-200 dark:bg-purple-900/30 dark:text-purple-300">
-                            LGBTQ+
-                          </Badge>
-                        )}
-                        {job.special_disability_provision && (
-                          <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300">
-                            Disability-friendly
-                          </Badge>
-                        )}
-                      </div>
-                    </CardHeader>
-                    <CardContent className="pb-2">
-                      <div className="space-y-3">
-                        <div className="flex items-center text-sm text-muted-foreground">
-                          <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
-                          <span className="truncate">
-                            {job.place_of_work ||
-                              (job.location
-                                ? [job.location.city, job.location.state]
-                                    .filter(Boolean)
-                                    .join(", ")
-                                : "Location not provided")}
-                          </span>
-                        </div>
-                        <div className="flex items-center text-sm">
-                          <Briefcase className="h-4 w-4 mr-1 flex-shrink-0" />
-                          <Badge
-                            variant="outline"
-                            className="font-normal rounded-sm"
-                          >
-                            {job.type_of_work}
-                          </Badge>
-                        </div>
-                        <div className="flex items-center text-sm font-medium text-green-600 dark:text-green-400">
-                          <Banknote className="h-4 w-4 mr-1 flex-shrink-0" />
-                          {job.wage || "Salary not provided"}
-                        </div>
-                        {job.createdAt && (
-                          <div className="flex items-center text-xs text-muted-foreground">
-                            <Calendar className="h-3 w-3 mr-1 flex-shrink-0" />
-                            Posted{" "}
-                            {new Date(job.createdAt).toLocaleDateString()}
-                          </div>
-                        )}
-                      </div>
-                    </CardContent>
-                    <CardFooter className="pt-2">
-                      <Link href={`/job/${job.id}`} className="w-full">
-                        <Button
-                          variant="outline"
-                          className="w-full group-hover:bg-primary group-hover:text-primary-foreground transition-colors"
-                        >
-                          <span>View Details</span>
-                          <ChevronRight className="ml-2 h-4 w-4" />
-                        </Button>
-                      </Link>
-                    </CardFooter>
-                  </Card>
-                ))}
-              </div>
-
-              <div className="flex justify-center mt-6 sm:mt-8">
-                <Button
-                  variant="outline"
-                  size="lg"
-                  className="w-full sm:w-auto px-4 sm:px-8 font-medium"
-                >
-                  Load More Jobs
-                  <Loader2 className="ml-2 h-4 w-4 animate-spin opacity-0" />
-                </Button>
-              </div>
-            </>
-          ) : (
-            <div className="text-center py-10 sm:py-16 bg-muted/30 rounded-lg">
-              <div className="max-w-md mx-auto space-y-4 px-4">
-                <Search className="h-10 w-10 sm:h-12 sm:w-12 mx-auto text-muted-foreground opacity-50" />
-                <h3 className="text-lg sm:text-xl font-semibold">
-                  No jobs found
-                </h3>
-                <p className="text-sm sm:text-base text-muted-foreground">
-                  No jobs match your current search criteria. Try adjusting your
-                  filters or search terms.
-                </p>
-                <Button onClick={resetFilters} className="mt-4">
-                  Clear All Filters
-                </Button>
-              </div>
-            </div>
-          )}
-        </>
-      )}
-    </div>
-  );
-}
-
-function JobCardSkeleton() {
-  return (
-    <Card className="overflow-hidden">
-      <CardHeader className="pb-2">
-        <div className="flex justify-between items-start">
-          <Skeleton className="h-6 w-3/4" />
-        </div>
-        <Skeleton className="h-4 w-1/2 mt-1" />
-      </CardHeader>
-      <CardContent className="pb-2">
-        <div className="space-y-3">
-          <Skeleton className="h-4 w-full" />
-          <Skeleton className="h-4 w-1/3" />
-          <Skeleton className="h-4 w-2/3" />
-          <Skeleton className="h-3 w-1/2" />
-        </div>
-      </CardContent>
-      <CardFooter className="pt-2">
-        <Skeleton className="h-9 w-full" />
-      </CardFooter>
-    </Card>
-  );
-}
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Briefcase,
+  MapPin,
+  Search,
+  Loader2,
+  X,
+  Banknote,
+  SlidersHorizontal,
+  Share2,
+  BellPlus,
+  LocateFixed,
+} from "lucide-react";
+import { useJobPosts } from "@/hooks/jobPostHook";
+import { useDebouncedValue } from "@/hooks/debounceHook";
+import type { JobSortOrder } from "@/types/jobpost";
+import {
+  JobFilters,
+  parseJobFilters,
+  rememberJobSearch,
+  serializeJobFilters,
+  toJobSearchParams,
+} from "@/lib/jobFilters";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+  SheetFooter,
+  SheetClose,
+} from "@/components/ui/sheet";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { createSavedSearch } from "@/actions/savedSearches";
+import JobCard from "@/components/job-card";
+import VoiceInputButton from "@/components/voice-input-button";
+import { useBookmarks } from "@/hooks/bookmarkHook";
+import { distanceKm } from "@/lib/geo";
+import { useNearMe } from "@/hooks/geolocationHook";
+import { toast } from "sonner";
+import { useLocale } from "@/context/localeContext";
+import { optionLabel, type Translate } from "@/lib/i18n";
+
+const PAGE_SIZE = 12;
+
+const RADIUS_OPTIONS_KM = ["5", "10", "25", "50"];
+
+// Suggested name for a saved search, e.g. "plumber full-time in Pune"
+function describeFilters(filters: JobFilters, t: Translate) {
+  const what = [
+    filters.search.trim(),
+    filters.type !== "all" ? optionLabel("jobType", filters.type, t) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const where = filters.location.trim();
+
+  if (!what && !where) return t("jobs.allJobs");
+  if (!where) return what;
+  return t("jobs.searchIn", { what: what || t("jobs.jobs"), where });
+}
+
+export function JobsList() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { t } = useLocale();
+
+  // Filters start from the URL so searches survive refreshes and back
+  // navigation from a job's detail page
+  const [initialFilters] = useState(() =>
+    parseJobFilters(new URLSearchParams(searchParams.toString()))
+  );
+  const [searchTerm, setSearchTerm] = useState(initialFilters.search);
+  const [locationFilter, setLocationFilter] = useState(initialFilters.location);
+  const [typeFilter, setTypeFilter] = useState(initialFilters.type);
+  const [inclusivityFilter, setInclusivityFilter] = useState(
+    initialFilters.inclusivity
+  );
+  const [minWage, setMinWage] = useState(initialFilters.minWage);
+  const [maxWage, setMaxWage] = useState(initialFilters.maxWage);
+  const [nearMe, setNearMe] = useState(initialFilters.nearMe);
+  const [radiusKm, setRadiusKm] = useState(initialFilters.radiusKm);
+  const [sortOrder, setSortOrder] = useState<JobSortOrder>(initialFilters.sort);
+
+  // Wait for typing to settle before querying the backend
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const debouncedLocation = useDebouncedValue(locationFilter);
+  const debouncedMinWage = useDebouncedValue(minWage);
+  const debouncedMaxWage = useDebouncedValue(maxWage);
+
+  const filters: JobFilters = {
+    search: debouncedSearch,
+    location: debouncedLocation,
+    type: typeFilter,
+    inclusivity: inclusivityFilter,
+    minWage: debouncedMinWage,
+    maxWage: debouncedMaxWage,
+    nearMe,
+    radiusKm,
+    sort: sortOrder,
+  };
+  const queryString = serializeJobFilters(filters).toString();
+
+  // The query string this component last wrote to, or read from, the URL
+  const lastQueryRef = useRef(searchParams.toString());
+
+  // Mirror filter changes in the URL without adding history entries
+  useEffect(() => {
+    rememberJobSearch(queryString);
+    if (queryString === lastQueryRef.current) return;
+    lastQueryRef.current = queryString;
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, {
+      scroll: false,
+    });
+  }, [queryString, pathname, router]);
+
+  // Pick up URL changes made elsewhere, e.g. following a shared link
+  useEffect(() => {
+    const current = searchParams.toString();
+    if (current === lastQueryRef.current) return;
+    lastQueryRef.current = current;
+
+    const next = parseJobFilters(new URLSearchParams(current));
+    setSearchTerm(next.search);
+    setLocationFilter(next.location);
+    setTypeFilter(next.type);
+    setInclusivityFilter(next.inclusivity);
+    setMinWage(next.minWage);
+    setMaxWage(next.maxWage);
+    setNearMe(next.nearMe);
+    setRadiusKm(next.radiusKm);
+    setSortOrder(next.sort);
+  }, [searchParams]);
+
+  const { origin, source, locating, locate } = useNearMe();
+
+  // Find the worker's location when "near me" is switched on, including when
+  // it's restored from the URL
+  useEffect(() => {
+    if (!nearMe || origin) return;
+
+    let cancelled = false;
+    locate().then((found) => {
+      if (!found && !cancelled) {
+        setNearMe(false);
+        toast.error(t("jobs.locationNotFound"));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [nearMe, origin, locate, t]);
+
+  const { jobPosts, loading, loadingMore, error, hasMore, loadMore } =
+    useJobPosts({
+      limit: PAGE_SIZE,
+      ...toJobSearchParams(filters, origin),
+      // Hold off on "near me" searches until we know where the worker is
+      enabled: !nearMe || !!origin,
+    });
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+
+  // Closed posts are hidden so workers only see jobs that still accept
+  // applications. A page can hold nothing but closed posts, so the list and
+  // its load-more sentinel stay up while more pages remain.
+  const visibleJobs = jobPosts.filter((job) => job.status !== "closed");
+
+  // Fetch the next page when the bottom of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  // Share the current search, falling back to WhatsApp where the Web Share
+  // API isn't available
+  const shareSearch = async () => {
+    const url = window.location.href;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: t("jobs.shareTitle"), url });
+      } catch (err) {
+        // The user dismissed the share sheet
+        console.error("Error sharing search:", err);
+      }
+      return;
+    }
+
+    window.open(
+      `https://wa.me/?text=${encodeURIComponent(url)}`,
+      "_blank",
+      "noopener,noreferrer"
+    );
+  };
+
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [searchName, setSearchName] = useState("");
+  const [savingSearch, setSavingSearch] = useState(false);
+
+  const openSaveDialog = () => {
+    setSearchName(describeFilters(filters, t));
+    setSaveDialogOpen(true);
+  };
+
+  const handleSaveSearch = async () => {
+    setSavingSearch(true);
+    try {
+      await createSavedSearch(searchName, filters);
+      toast.success(t("jobs.searchSaved"));
+      setSaveDialogOpen(false);
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t("jobs.saveSearchFailed")
+      );
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const resetFilters = () => {
+    setLocationFilter("");
+    setTypeFilter("all");
+    setInclusivityFilter("all");
+    setMinWage("");
+    setMaxWage("");
+    setNearMe(false);
+    setSearchTerm("");
+  };
+
+  const hasWageFilter = minWage !== "" || maxWage !== "";
+
+  const hasActiveFilters =
+    locationFilter !== "" ||
+    typeFilter !== "all" ||
+    inclusivityFilter !== "all" ||
+    hasWageFilter ||
+    nearMe ||
+    searchTerm !== "";
+
+  const activeFilterCount =
+    (locationFilter !== "" ? 1 : 0) +
+    (typeFilter !== "all" ? 1 : 0) +
+    (inclusivityFilter !== "all" ? 1 : 0) +
+    (hasWageFilter ? 1 : 0) +
+    (nearMe ? 1 : 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/30 dark:to-indigo-950/30 rounded-xl p-4 sm:p-6 shadow-sm">
+        <div className="max-w-3xl mx-auto">
+          <h2 className="text-xl sm:text-2xl font-bold text-center mb-4 sm:mb-6">
+            {t("jobs.heading")}
+          </h2>
+
+          {/* Search bar with mobile filter button */}
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+            <Input
+              id="search"
+              placeholder={t("jobs.searchPlaceholder")}
+              className="pl-10 pr-24 md:pr-12 h-12 text-base bg-white dark:bg-gray-950 shadow-sm"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+
+            {/* Dictate the search instead of typing it */}
+            <div className="absolute right-12 top-1 md:right-1">
+              <VoiceInputButton
+                onTranscript={setSearchTerm}
+                className="h-10 w-10"
+              />
+            </div>
+
+            {/* Mobile filter button using Sheet component */}
+            <div className="absolute right-1 top-1 md:hidden">
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-10 w-10 rounded-md"
+                  >
+                    <SlidersHorizontal className="h-4 w-4" />
+                    {activeFilterCount > 0 && (
+                      <span className="absolute -top-1 -right-1 bg-primary text-primary-foreground text-xs rounded-full h-4 w-4 flex items-center justify-center">
+                        {activeFilterCount}
+                      </span>
+                    )}
+                  </Button>
+                </SheetTrigger>
+                <SheetContent
+                  side="bottom"
+                  className="h-[80vh] sm:h-[60vh] rounded-t-xl"
+                >
+                  <SheetHeader className="mb-4">
+                    <SheetTitle>{t("jobs.filterTitle")}</SheetTitle>
+                    <SheetDescription>
+                      {t("jobs.filterDescription")}
+                    </SheetDescription>
+                  </SheetHeader>
+
+                  <div className="space-y-6 overflow-y-auto pb-16">
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="mobile-location"
+                        className="text-sm font-medium"
+                      >
+                        {t("jobs.location")}
+                      </Label>
+                      <Input
+                        id="mobile-location"
+                        placeholder={t("jobs.locationPlaceholder")}
+                        className="bg-white dark:bg-gray-950"
+                        value={locationFilter}
+                        onChange={(e) => setLocationFilter(e.target.value)}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="mobile-type"
+                        className="text-sm font-medium"
+                      >
+                        {t("jobs.jobType")}
+                      </Label>
+                      <Select value={typeFilter} onValueChange={setTypeFilter}>
+                        <SelectTrigger
+                          id="mobile-type"
+                          className="bg-white dark:bg-gray-950"
+                        >
+                          <SelectValue placeholder={t("jobs.allTypes")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">
+                            {t("jobs.allTypes")}
+                          </SelectItem>
+                          <SelectItem value="full-time">
+                            {t("jobType.full-time")}
+                          </SelectItem>
+                          <SelectItem value="part-time">
+                            {t("jobType.part-time")}
+                          </SelectItem>
+                          <SelectItem value="contract">
+                            {t("jobType.contract")}
+                          </SelectItem>
+                          <SelectItem value="temporary">
+                            {t("jobType.temporary")}
+                          </SelectItem>
+                          <SelectItem value="seasonal">
+                            {t("jobType.seasonal")}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="mobile-inclusivity"
+                        className="text-sm font-medium"
+                      >
+                        {t("jobs.inclusivity")}
+                      </Label>
+                      <Select
+                        value={inclusivityFilter}
+                        onValueChange={setInclusivityFilter}
+                      >
+                        <SelectTrigger
+                          id="mobile-inclusivity"
+                          className="bg-white dark:bg-gray-950"
+                        >
+                          <SelectValue placeholder={t("jobs.allJobs")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">
+                            {t("jobs.allJobs")}
+                          </SelectItem>
+                          <SelectItem value="women-friendly">
+                            {t("inclusivity.women-friendly")}
+                          </SelectItem>
+                          <SelectItem value="disability-friendly">
+                            {t("inclusivity.disability-friendly")}
+                          </SelectItem>
+                          <SelectItem value="lgbt-friendly">
+                            {t("inclusivity.lgbt-friendly")}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="mobile-min-wage"
+                        className="text-sm font-medium"
+                      >
+                        {t("jobs.dailyWage")}
+                      </Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="mobile-min-wage"
+                          type="number"
+                          min={0}
+                          placeholder={t("jobs.min")}
+                          className="bg-white dark:bg-gray-950"
+                          value={minWage}
+                          onChange={(e) => setMinWage(e.target.value)}
+                        />
+                        <span className="text-muted-foreground">–</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          placeholder={t("jobs.max")}
+                          className="bg-white dark:bg-gray-950"
+                          value={maxWage}
+                          onChange={(e) => setMaxWage(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <SheetFooter className="absolute bottom-0 left-0 right-0 p-4 bg-background border-t">
+                    <div className="flex w-full gap-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={resetFilters}
+                      >
+                        {t("jobs.reset")}
+                      </Button>
+                      <SheetClose asChild>
+                        <Button className="flex-1">
+                          {t("jobs.applyFilters")}
+                        </Button>
+                      </SheetClose>
+                    </div>
+                  </SheetFooter>
+                </SheetContent>
+              </Sheet>
+            </div>
+          </div>
+
+          {/* Desktop filters */}
+          <div className="mt-4 hidden md:grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="location" className="text-sm font-medium">
+                {t("jobs.location")}
+              </Label>
+              <Input
+                id="location"
+                placeholder={t("jobs.locationPlaceholder")}
+                className="bg-white dark:bg-gray-950"
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="type" className="text-sm font-medium">
+                {t("jobs.jobType")}
+              </Label>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger id="type" className="bg-white dark:bg-gray-950">
+                  <SelectValue placeholder={t("jobs.allTypes")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("jobs.allTypes")}</SelectItem>
+                  <SelectItem value="full-time">
+                    {t("jobType.full-time")}
+                  </SelectItem>
+                  <SelectItem value="part-time">
+                    {t("jobType.part-time")}
+                  </SelectItem>
+                  <SelectItem value="contract">
+                    {t("jobType.contract")}
+                  </SelectItem>
+                  <SelectItem value="temporary">
+                    {t("jobType.temporary")}
+                  </SelectItem>
+                  <SelectItem value="seasonal">
+                    {t("jobType.seasonal")}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="inclusivity" className="text-sm font-medium">
+                {t("jobs.inclusivity")}
+              </Label>
+              <Select
+                value={inclusivityFilter}
+                onValueChange={setInclusivityFilter}
+              >
+                <SelectTrigger
+                  id="inclusivity"
+                  className="bg-white dark:bg-gray-950"
+                >
+                  <SelectValue placeholder={t("jobs.allJobs")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("jobs.allJobs")}</SelectItem>
+                  <SelectItem value="women-friendly">
+                    {t("inclusivity.women-friendly")}
+                  </SelectItem>
+                  <SelectItem value="disability-friendly">
+                    {t("inclusivity.disability-friendly")}
+                  </SelectItem>
+                  <SelectItem value="lgbt-friendly">
+                    {t("inclusivity.lgbt-friendly")}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="min-wage" className="text-sm font-medium">
+                {t("jobs.dailyWage")}
+              </Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="min-wage"
+                  type="number"
+                  min={0}
+                  placeholder={t("jobs.min")}
+                  className="bg-white dark:bg-gray-950"
+                  value={minWage}
+                  onChange={(e) => setMinWage(e.target.value)}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  min={0}
+                  placeholder={t("jobs.max")}
+                  className="bg-white dark:bg-gray-950"
+                  value={maxWage}
+                  onChange={(e) => setMaxWage(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Jobs near me */}
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <Button
+              variant={nearMe ? "default" : "outline"}
+              onClick={() => {
+                setNearMe(!nearMe);
+                if (nearMe && sortOrder === "distance") setSortOrder("newest");
+              }}
+              disabled={locating}
+              aria-pressed={nearMe}
+            >
+              {locating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <LocateFixed className="mr-2 h-4 w-4" />
+              )}
+              {t("jobs.nearMe")}
+            </Button>
+            {nearMe && (
+              <>
+                <Select value={radiusKm} onValueChange={setRadiusKm}>
+                  <SelectTrigger
+                    className="w-[130px] bg-white dark:bg-gray-950"
+                    aria-label={t("jobs.searchRadius")}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RADIUS_OPTIONS_KM.map((radius) => (
+                      <SelectItem key={radius} value={radius}>
+                        {t("jobs.withinRadius", { radius })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {source && (
+                  <span className="text-xs text-muted-foreground">
+                    {source === "device"
+                      ? t("jobs.usingDeviceLocation")
+                      : t("jobs.usingAddressLocation")}
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Active filters display */}
+          {hasActiveFilters && (
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap gap-2">
+                {searchTerm && (
+                  <Badge
+                    variant="secondary"
+                    className="px-3 py-1 flex items-center gap-1"
+                  >
+                    <span className="max-w-[100px] sm:max-w-none truncate">
+                      "{searchTerm}"
+                    </span>
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => setSearchTerm("")}
+                    />
+                  </Badge>
+                )}
+                {locationFilter !== "" && (
+                  <Badge
+                    variant="secondary"
+                    className="px-3 py-1 flex items-center gap-1"
+                  >
+                    <MapPin className="h-3 w-3" />
+                    <span className="max-w-[80px] sm:max-w-none truncate">
+                      {locationFilter}
+                    </span>
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => setLocationFilter("")}
+                    />
+                  </Badge>
+                )}
+                {typeFilter !== "all" && (
+                  <Badge
+                    variant="secondary"
+                    className="px-3 py-1 flex items-center gap-1"
+                  >
+                    <Briefcase className="h-3 w-3" />
+                    <span>{optionLabel("jobType", typeFilter, t)}</span>
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => setTypeFilter("all")}
+                    />
+                  </Badge>
+                )}
+                {inclusivityFilter !== "all" && (
+                  <Badge
+                    variant="secondary"
+                    className="px-3 py-1 flex items-center gap-1"
+                  >
+                    <span>
+                      {optionLabel("inclusivity", inclusivityFilter, t)}
+                    </span>
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => setInclusivityFilter("all")}
+                    />
+                  </Badge>
+                )}
+                {hasWageFilter && (
+                  <Badge
+                    variant="secondary"
+                    className="px-3 py-1 flex items-center gap-1"
+                  >
+                    <Banknote className="h-3 w-3" />
+                    <span>
+                      {minWage ? `₹${minWage}` : t("jobs.any")} –{" "}
+                      {maxWage ? `₹${maxWage}` : t("jobs.any")}
+                    </span>
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => {
+                        setMinWage("");
+                        setMaxWage("");
+                      }}
+                    />
+                  </Badge>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={resetFilters}
+                className="text-xs"
+              >
+                {t("jobs.clearAll")}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, index) => (
+            <JobCardSkeleton key={index} />
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-8 sm:py-12 bg-red-50 dark:bg-red-950/20 rounded-lg">
+          <p className="text-red-600 dark:text-red-400">
+            {t("jobs.loadError")}
+          </p>
+        </div>
+      ) : (
+        <>
+          {visibleJobs.length > 0 || hasMore ? (
+            <>
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-4">
+                <p className="text-sm text-muted-foreground">
+                  {t(hasMore ? "jobs.showingSoFar" : "jobs.showing", {
+                    count: visibleJobs.length,
+                  })}
+                </p>
+                <div className="flex w-full sm:w-auto gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={openSaveDialog}
+                    className="flex-shrink-0"
+                  >
+                    <BellPlus className="mr-2 h-4 w-4" />
+                    {t("jobs.saveSearch")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={shareSearch}
+                    className="flex-shrink-0"
+                  >
+                    <Share2 className="mr-2 h-4 w-4" />
+                    {t("jobs.shareSearch")}
+                  </Button>
+                  <Select
+                    value={sortOrder}
+                    onValueChange={(value) =>
+                      setSortOrder(value as JobSortOrder)
+                    }
+                  >
+                    <SelectTrigger className="w-full sm:w-[180px]">
+                      <SelectValue placeholder={t("jobs.sortBy")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">
+                        {t("jobs.sort.newest")}
+                      </SelectItem>
+                      <SelectItem value="oldest">
+                        {t("jobs.sort.oldest")}
+                      </SelectItem>
+                      <SelectItem value="relevance">
+                        {t("jobs.sort.relevance")}
+                      </SelectItem>
+                      <SelectItem value="wage">
+                        {t("jobs.sort.wage")}
+                      </SelectItem>
+                      {nearMe && (
+                        <SelectItem value="distance">
+                          {t("jobs.sort.distance")}
+                        </SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+                {visibleJobs.map((job) => {
+                  const coordinates = job.location?.coordinates;
+                  return (
+                    <JobCard
+                      key={job.id}
+                      job={job}
+                      distance={
+                        nearMe && origin && coordinates
+                          ? distanceKm(origin, coordinates)
+                          : undefined
+                      }
+                      saved={isBookmarked(job.id)}
+                      onToggleSave={() => toggleBookmark(job.id)}
+                    />
+                  );
+                })}
+              </div>
+
+              {hasMore && (
+                <div
+                  ref={loadMoreRef}
+                  className="flex justify-center mt-6 sm:mt-8"
+                >
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    className="w-full sm:w-auto px-4 sm:px-8 font-medium"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                  >
+                    {t("jobs.loadMore")}
+                    <Loader2
+                      className={`ml-2 h-4 w-4 animate-spin ${
+                        loadingMore ? "" : "opacity-0"
+                      }`}
+                    />
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-10 sm:py-16 bg-muted/30 rounded-lg">
+              <div className="max-w-md mx-auto space-y-4 px-4">
+                <Search className="h-10 w-10 sm:h-12 sm:w-12 mx-auto text-muted-foreground opacity-50" />
+                <h3 className="text-lg sm:text-xl font-semibold">
+                  {t("jobs.noResults")}
+                </h3>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                  {t("jobs.noResultsHint")}
+                </p>
+                <Button onClick={resetFilters} className="mt-4">
+                  {t("jobs.clearAllFilters")}
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Save search dialog */}
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("jobs.saveSearchTitle")}</DialogTitle>
+            <DialogDescription>
+              {t("jobs.saveSearchDescription")}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">{t("jobs.name")}</Label>
+            <Input
+              id="saved-search-name"
+              value={searchName}
+              onChange={(e) => setSearchName(e.target.value)}
+              maxLength={60}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setSaveDialogOpen(false)}
+              disabled={savingSearch}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={handleSaveSearch}
+              disabled={savingSearch || !searchName.trim()}
+            >
+              {savingSearch && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function JobCardSkeleton() {
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start">
+          <Skeleton className="h-6 w-3/4" />
+        </div>
+        <Skeleton className="h-4 w-1/2 mt-1" />
+      </CardHeader>
+      <CardContent className="pb-2">
+        <div className="space-y-3">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-1/3" />
+          <Skeleton className="h-4 w-2/3" />
+          <Skeleton className="h-3 w-1/2" />
+        </div>
+      </CardContent>
+      <CardFooter className="pt-2">
+        <Skeleton className="h-9 w-full" />
+      </CardFooter>
+    </Card>
+  );
+}
@@ -7,22 +7,51 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 import { Skeleton } from "@/components/ui/skeleton"
-import { ArrowLeft, Briefcase, Calendar, Clock, MapPin, Users, Banknote, Building } from "lucide-react"
-import { getJobPostById } from "@/actions/jobPost"
+import { ArrowLeft, Briefcase, Calendar, Clock, MapPin, Users, Banknote, MessageSquare } from "lucide-react"
+import { getJobPostById, getJobPosts } from "@/actions/jobPost"
+import { applyToJob, getMyApplicationForJob } from "@/actions/applications"
+import { applicationKeys } from "@/hooks/applicationHook"
+import { invalidateQueries } from "@/lib/queryCache"
 import { useEffect, useState } from "react"
+import { toast } from "sonner"
 import type { JobPost } from "@/types/jobpost"
+import type { JobApplication } from "@/types/application"
 import GoogleMapDialog from "@/components/google-map-dialog"
+import CompanyInfo from "@/components/company-info"
+import { getLastJobSearchHref } from "@/lib/jobFilters"
+import BookmarkButton from "@/components/bookmark-button"
+import { useBookmarks } from "@/hooks/bookmarkHook"
+import { useUser } from "@/context/userContext"
+import { formatDailyEquivalent, formatWage } from "@/lib/wage"
+import ReadAloudButton from "@/components/read-aloud-button"
+import { useStartConversation } from "@/hooks/directMessageHook"
+import { useLocale } from "@/context/localeContext"
 
 export default function JobDetailPage() {
   const params = useParams()
   const id = params.id as string
+  const { t } = useLocale()
 
   const [job, setJob] = useState<JobPost | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState(false)
-  const [applied, setApplied] = useState(false)
+  const [application, setApplication] = useState<JobApplication | null>(null)
+  const [applying, setApplying] = useState(false)
+  const [otherJobs, setOtherJobs] = useState<JobPost[]>([])
+  const [backHref, setBackHref] = useState("/")
   const [isMapOpen, setIsMapOpen] = useState(false) // state to toggle the map dialog
 
+  const { user } = useUser()
+  const isWorker = user?.role !== "employer"
+  const { isBookmarked, toggleBookmark } = useBookmarks({ enabled: isWorker })
+  const startConversation = useStartConversation()
+  const [openingChat, setOpeningChat] = useState(false)
+
+  // Return to the search the worker came from, with its filters intact
+  useEffect(() => {
+    setBackHref(getLastJobSearchHref())
+  }, [])
+
   useEffect(() => {
     async function loadJob() {
       try {
@@ -32,6 +61,14 @@ export default function JobDetailPage() {
           return
         }
         setJob(jobData)
+
+        // Restore the worker's existing application so they can't apply twice
+        const existing = await getMyApplicationForJob(id).catch(() => null)
+        setApplication(existing)
+
+        // Link to the employer's other open listings
+        const employerJobs = await getJobPosts({ employer_id: jobData.employer_id, limit: 6 }).catch(() => [])
+        setOtherJobs(employerJobs.filter((other) => other.id !== jobData.id && other.status !== "closed"))
       } catch (err) {
         console.error("Error fetching job:", err)
         setError(true)
@@ -62,17 +99,54 @@ export default function JobDetailPage() {
         .join(", ")
     : null
 
-  const handleApply = () => {
-    if (typeof window !== "undefined") {
-      // Get existing jobs from localStorage
-      const existingJobs = JSON.parse(localStorage.getItem("jobs") || "[]")
+  const isClosed = job.status === "closed"
+  const dailyWage = formatDailyEquivalent(job.wage, job.hours_per_week)
+
+  // The key details in reading order, for workers who'd rather listen
+  const readAloudText = [
+    job.job_title,
+    job.company?.name || job.employer_name,
+    [job.place_of_work, formattedLocation].filter(Boolean).join(", "),
+    formatWage(job.wage) && `Wage: ${formatWage(job.wage)}`,
+    job.hours_per_week && `${job.hours_per_week} hours a week`,
+    job.job_role_description,
+  ]
+    .filter(Boolean)
+    .join(". ")
+
+  const handleApply = async () => {
+    if (application || isClosed) return
+
+    setApplying(true)
+    const result = await applyToJob(job.id)
+    setApplying(false)
+
+    if (!result.success || (!result.application && !result.alreadyApplied)) {
+      toast.error(result.error || "Failed to apply. Please try again.")
+      return
+    }
 
-      // Append new job data
-      const updatedJobs = [...existingJobs, job]
+    if (result.application) setApplication(result.application)
+    invalidateQueries(applicationKeys.all)
+    if (result.alreadyApplied) {
+      toast.info("You have already applied to this job")
+    } else {
+      toast.success("Application submitted")
+    }
+  }
 
-      // Save back to localStorage
-      localStorage.setItem("jobs", JSON.stringify(updatedJobs))
-      setApplied(true)
+  // Applicants can message the employer about their application
+  const handleMessageEmployer = async () => {
+    setOpeningChat(true)
+    try {
+      await startConversation({
+        uid: job.employer_id,
+        name: job.company?.name || job.employer_name || "Employer",
+        role: "employer",
+      })
+    } catch {
+      toast.error("Couldn't open the conversation. Please try again.")
+      setOpeningChat(false)
     }
   }
 
@@ -83,7 +157,7 @@ export default function JobDetailPage() {
   return (
     <div className="container mx-auto py-8 px-4 md:px-6 max-w-4xl">
       <Link
-        href="/"
+        href={backHref}
         className="inline-flex items-center text-sm font-medium mb-6 text-muted-foreground hover:text-foreground transition-colors"
       >
         <ArrowLeft className="mr-1 h-4 w-4" />
@@ -95,14 +169,16 @@ export default function JobDetailPage() {
           <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
             <div>
               <CardTitle className="text-2xl md:text-3xl font-bold">{job.job_title}</CardTitle>
-              {job.employer_name && (
-                <div className="flex items-center text-muted-foreground mt-2">
-                  <Building className="h-4 w-4 mr-1" />
-                  <span>{job.employer_name}</span>
-                </div>
+              {(job.company || job.employer_name) && (
+                <CompanyInfo company={job.company} fallbackName={job.employer_name} className="text-muted-foreground mt-2" />
               )}
             </div>
             <div className="flex flex-wrap gap-2">
+              {isClosed && (
+                <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300">
+                  Closed
+                </Badge>
+              )}
               <Badge variant="secondary" className="font-medium">
                 {job.type_of_work}
               </Badge>
@@ -164,7 +240,8 @@ export default function JobDetailPage() {
                 <Banknote className="h-5 w-5 text-muted-foreground mr-2 mt-0.5 flex-shrink-0" />
                 <div>
                   <h3 className="font-medium">Wage</h3>
-                  <p className="text-green-600 font-semibold">{job.wage || "Not specified"}</p>
+                  <p className="text-green-600 font-semibold">{formatWage(job.wage) || "Not specified"}</p>
+                  {dailyWage && <p className="text-xs text-muted-foreground">{dailyWage}</p>}
                 </div>
               </div>
 
@@ -205,13 +282,65 @@ export default function JobDetailPage() {
         <CardFooter className="flex flex-col sm:flex-row gap-4 pt-2 pb-6 px-6">
           <Button
             onClick={handleApply}
+            disabled={applying || !!application || isClosed}
             className="w-full sm:w-auto bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-medium py-6 sm:py-2 text-base"
           >
-            {applied ? "✔ Applied" : "Apply Now"}
+            {application
+              ? "✔ Applied"
+              : isClosed
+                ? "No Longer Accepting Applications"
+                : applying
+                  ? "Applying..."
+                  : "Apply Now"}
           </Button>
+          {isWorker && (
+            <BookmarkButton
+              saved={isBookmarked(job.id)}
+              onToggle={() => toggleBookmark(job.id)}
+              showLabel
+              className="w-full sm:w-auto"
+            />
+          )}
+          <ReadAloudButton text={readAloudText} showLabel className="w-full sm:w-auto" />
+          {application && user && (
+            <Button variant="outline" onClick={handleMessageEmployer} disabled={openingChat} className="w-full sm:w-auto">
+              <MessageSquare className="mr-2 h-4 w-4" />
+              Message Employer
+            </Button>
+          )}
+          {application && (
+            <Link
+              href="/applied-jobs"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Track your application
+            </Link>
+          )}
         </CardFooter>
       </Card>
 
+      {otherJobs.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">More jobs from {job.company?.name || job.employer_name || "this employer"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {otherJobs.map((other) => (
+              <Link
+                key={other.id}
+                href={`/job/${other.id}`}
+                className="flex items-center justify-between rounded-md p-2 hover:bg-muted transition-colors"
+              >
+                <span className="font-medium">{other.job_title}</span>
+                <Badge variant="outline" className="font-normal">
+                  {other.type_of_work}
+                </Badge>
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {job.createdAt && (
         <p className="text-xs text-muted-foreground text-center mt-4">
           Posted on {new Date(job.createdAt).toLocaleDateString()}
@@ -221,12 +350,14 @@ export default function JobDetailPage() {
         </p>
       )}
 
-      {/* Google Map Dialog */}
+      {/* Map Dialog */}
       <GoogleMapDialog
         isOpen={isMapOpen}
         onClose={() => setIsMapOpen(false)}
         location={mapLocation}
-        title="Job Location"
+        coordinates={job.location?.coordinates}
+        coordinatesApproximate={job.location?.coordinates_approximate}
+        title={t("map.jobLocation")}
       />
     </div>
   )
@@ -1,5 +1,6 @@
 "use client";
 
+import { Suspense } from "react";
 import { useUser } from "@/context/userContext";
 import { JobsList } from "./job-list";
 import { Badge } from "@/components/ui/badge";
@@ -83,7 +84,10 @@ export default function JobsPage() {
           </div>
         </div>
 
-        <JobsList />
+        {/* JobsList reads its filters from the URL search params */}
+        <Suspense>
+          <JobsList />
+        </Suspense>
       </div>
     </div>
   );
@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { verifyFirebaseIdToken } from "@/lib/firebaseIdToken";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  createSessionToken,
+  verifySessionToken,
+} from "@/lib/session";
+
+// A failed role lookup is retried after each of these delays before the
+// session request fails
+const ROLE_RETRY_DELAYS = [250, 1000];
+
+// Looks up the user's role on the backend so the middleware can keep
+// workers and employers to their own pages. The role is kept for the life of
+// the session, so a failed lookup fails the request rather than store none.
+async function getRole(uid: string, idToken: string): Promise<string> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/user/get-role`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${idToken}`,
+          },
+          body: JSON.stringify({ userId: uid }),
+          cache: "no-store",
+        }
+      );
+      if (!response.ok) {
+        throw new Error(`Role lookup failed with status ${response.status}`);
+      }
+      const data = (await response.json()) as { role?: string };
+      if (!data.role) throw new Error("The user has no role yet.");
+      return data.role;
+    } catch (error) {
+      console.error("Error fetching role for session:", error);
+      if (attempt >= ROLE_RETRY_DELAYS.length) throw error;
+      await new Promise((resolve) =>
+        setTimeout(resolve, ROLE_RETRY_DELAYS[attempt])
+      );
+    }
+  }
+}
+
+/**
+ * Returns the signed-in user's session claims, so the client can tell when
+ * the role in them is out of date
+ */
+export async function GET() {
+  const session = await verifySessionToken(
+    (await cookies()).get(SESSION_COOKIE)?.value
+  );
+  if (!session) {
+    return NextResponse.json({ error: "No session" }, { status: 401 });
+  }
+  return NextResponse.json({ uid: session.uid, role: session.role });
+}
+
+/**
+ * Exchanges a Firebase ID token for a session cookie
+ */
+export async function POST(request: Request) {
+  const { idToken } = (await request.json().catch(() => ({}))) as {
+    idToken?: string;
+  };
+  if (!idToken) {
+    return NextResponse.json({ error: "idToken is required" }, { status: 400 });
+  }
+
+  let uid: string;
+  try {
+    ({ uid } = await verifyFirebaseIdToken(idToken));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid ID token" },
+      { status: 401 }
+    );
+  }
+
+  let role: string;
+  try {
+    role = await getRole(uid, idToken);
+  } catch {
+    return NextResponse.json(
+      { error: "Couldn't look up your account. Please try again." },
+      { status: 503 }
+    );
+  }
+
+  const response = NextResponse.json({ uid, role });
+  response.cookies.set(
+    SESSION_COOKIE,
+    await createSessionToken({ uid, role }),
+    {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    }
+  );
+  return response;
+}
+
+/**
+ * Clears the session cookie on sign-out
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
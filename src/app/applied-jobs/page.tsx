@@ -3,7 +3,6 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import {
-  Building2,
   MapPin,
   Briefcase,
   Banknote,
@@ -12,7 +11,11 @@ import {
   Search,
   SlidersHorizontal,
   X,
+  Bookmark as BookmarkIcon,
+  Lock,
+  PencilLine,
 } from "lucide-react";
+import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -31,70 +34,114 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CompanyInfo from "@/components/company-info";
+import BookmarkButton from "@/components/bookmark-button";
+import { useBookmarks } from "@/hooks/bookmarkHook";
+import { formatWage } from "@/lib/wage";
+import { withdrawApplication } from "@/actions/applications";
+import { applicationKeys, useMyApplications } from "@/hooks/applicationHook";
+import { setQueryData } from "@/lib/queryCache";
 import type { JobPost } from "@/types/jobpost";
+import type { ApplicationStatus, JobApplication } from "@/types/application";
+import type { Bookmark } from "@/types/bookmark";
 
-interface JobLocation {
-  city?: string;
-  state?: string;
-  district?: string;
-  pincode?: string;
-}
+const statusStyles: Record<
+  ApplicationStatus,
+  { label: string; className: string }
+> = {
+  pending: {
+    label: "Pending",
+    className: "bg-yellow-100 text-yellow-700 hover:bg-yellow-200",
+  },
+  shortlisted: {
+    label: "Shortlisted",
+    className: "bg-blue-100 text-blue-700 hover:bg-blue-200",
+  },
+  accepted: {
+    label: "Accepted",
+    className: "bg-green-100 text-green-700 hover:bg-green-200",
+  },
+  rejected: {
+    label: "Rejected",
+    className: "bg-red-100 text-red-700 hover:bg-red-200",
+  },
+  withdrawn: {
+    label: "Withdrawn",
+    className: "bg-gray-100 text-gray-600 hover:bg-gray-200",
+  },
+};
+
+// Applications the worker can still pull out of
+const withdrawableStatuses: ApplicationStatus[] = ["pending", "shortlisted"];
 
 export default function AppliedJobs() {
-  const [jobs, setJobs] = useState<JobPost[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    data: applications = [],
+    loading,
+    error: applicationsError,
+  } = useMyApplications();
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<string | null>(null);
-  const [filteredJobs, setFilteredJobs] = useState<JobPost[]>([]);
-
-  useEffect(() => {
-    // Retrieve jobs from localStorage
-    const fetchJobs = () => {
-      try {
-        const savedJobs = localStorage.getItem("jobs");
-        if (savedJobs) {
-          const parsedJobs = JSON.parse(savedJobs);
-          setJobs(parsedJobs);
-          setFilteredJobs(parsedJobs);
-        }
-      } catch (error) {
-        console.error("Error fetching jobs from localStorage:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    // Use setTimeout to simulate loading and avoid hydration issues
-    const timer = setTimeout(() => {
-      fetchJobs();
-    }, 500);
-
-    return () => clearTimeout(timer);
-  }, []);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  const {
+    bookmarks,
+    loading: bookmarksLoading,
+    toggleBookmark,
+  } = useBookmarks();
 
-  // Filter jobs based on search term and filter type
   useEffect(() => {
-    let result = [...jobs];
+    if (applicationsError) {
+      toast.error("Failed to load your applications");
+    }
+  }, [applicationsError]);
 
-    // Apply search filter
+  // Match a job against the search term and job type filter
+  const matchesFilters = (job?: JobPost) => {
     if (searchTerm) {
       const term = searchTerm.toLowerCase();
-      result = result.filter(
-        (job) =>
-          job.job_title?.toLowerCase().includes(term) ||
-          job.employer_name?.toLowerCase().includes(term) ||
-          job.place_of_work?.toLowerCase().includes(term) ||
-          job.location?.city?.toLowerCase().includes(term)
-      );
+      const matchesSearch =
+        job?.job_title?.toLowerCase().includes(term) ||
+        job?.employer_name?.toLowerCase().includes(term) ||
+        job?.place_of_work?.toLowerCase().includes(term) ||
+        job?.location?.city?.toLowerCase().includes(term);
+      if (!matchesSearch) return false;
     }
 
-    // Apply job type filter
-    if (filterType) {
-      result = result.filter((job) => job.type_of_work === filterType);
+    if (filterType && filterType !== "all") {
+      return job?.type_of_work === filterType;
     }
 
-    setFilteredJobs(result);
-  }, [searchTerm, filterType, jobs]);
+    return true;
+  };
+
+  const filteredApplications = applications.filter(({ job }) =>
+    matchesFilters(job)
+  );
+  const filteredBookmarks = bookmarks.filter(({ job }) => matchesFilters(job));
+
+  const handleWithdraw = async (applicationId: string) => {
+    setWithdrawingId(applicationId);
+    try {
+      const updated = await withdrawApplication(applicationId);
+      setQueryData<JobApplication[]>(applicationKeys.mine(), (prev = []) =>
+        prev.map((application) =>
+          application.id === applicationId
+            ? { ...application, ...updated, status: "withdrawn" }
+            : application
+        )
+      );
+      toast.success("Application withdrawn");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to withdraw application"
+      );
+    } finally {
+      setWithdrawingId(null);
+    }
+  };
 
   // Clear all filters
   const clearFilters = () => {
@@ -102,7 +149,7 @@ export default function AppliedJobs() {
     setFilterType(null);
   };
 
-  if (loading) {
+  if (loading || bookmarksLoading) {
     return (
       <div className="container max-w-5xl mx-auto py-12 px-4">
         <div className="flex justify-center items-center h-64">
@@ -117,7 +164,7 @@ export default function AppliedJobs() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-blue-800 mb-2">Applied Jobs</h1>
         <p className="text-muted-foreground">
-          View and manage all the jobs you've applied for
+          View and manage the jobs you&apos;ve applied for or saved for later
         </p>
       </div>
 
@@ -176,121 +223,309 @@ export default function AppliedJobs() {
         </div>
       </div>
 
-      {/* Job Cards */}
-      {filteredJobs.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {filteredJobs.map((job) => (
-            <Card
-              key={job.id}
-              className={`overflow-hidden transition-all hover:shadow-md group ${
-                job.special_woman_provision
-                  ? "border-l-4 border-l-pink-500"
-                  : job.special_transgender_provision
-                  ? "border-l-4 border-l-purple-500"
-                  : job.special_disability_provision
-                  ? "border-l-4 border-l-blue-500"
-                  : ""
-              }`}
-            >
-              <CardHeader className="pb-2 relative">
-                <div className="flex justify-between items-start">
-                  <CardTitle className="text-lg sm:text-xl pr-16 group-hover:text-primary transition-colors">
-                    {job.job_title}
-                  </CardTitle>
-                </div>
-                <div className="flex items-center text-sm text-muted-foreground mt-1">
-                  <Building2 className="h-4 w-4 mr-1 flex-shrink-0" />
-                  <span className="truncate">
-                    {job.employer_name || "Unknown Employer"}
-                  </span>
-                </div>
-                <div className="absolute top-4 right-4 flex flex-col sm:flex-row gap-1">
-                  {job.special_woman_provision && (
-                    <Badge className="bg-pink-100 text-pink-700 hover:bg-pink-200 dark:bg-pink-900/30 dark:text-pink-300">
-                      Women
-                    </Badge>
-                  )}
-                  {job.special_transgender_provision && (
-                    <Badge className="bg-purple-100 text-purple-700 hover:bg-purple-200 dark:bg-purple-900/30 dark:text-purple-300">
-                      LGBTQ+
-                    </Badge>
-                  )}
-                  {job.special_disability_provision && (
-                    <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300">
-                      Disabled
-                    </Badge>
-                  )}
-                </div>
-              </CardHeader>
-              <CardContent className="pb-2">
-                <div className="space-y-3">
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
-                    <span className="truncate">
-                      {job.place_of_work ||
-                        (job.location
-                          ? `${job.location.city || ""} ${
-                              job.location.state || ""
-                            }`.trim()
-                          : "Location not provided")}
-                    </span>
-                  </div>
-                  <div className="flex items-center text-sm">
-                    <Briefcase className="h-4 w-4 mr-1 flex-shrink-0" />
-                    <Badge variant="outline" className="font-normal rounded-sm">
-                      {job.type_of_work}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center text-sm font-medium text-green-600 dark:text-green-400">
-                    <Banknote className="h-4 w-4 mr-1 flex-shrink-0" />
-                    {job.wage || "Salary not provided"}
-                  </div>
-                  {job.createdAt && (
-                    <div className="flex items-center text-xs text-muted-foreground">
-                      <Calendar className="h-3 w-3 mr-1 flex-shrink-0" />
-                      Posted {new Date(job.createdAt).toLocaleDateString()}
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-              <CardFooter className="pt-2">
-                <Link href={`/job/${job.id}`} className="w-full">
-                  <Button
-                    variant="outline"
-                    className="w-full group-hover:bg-primary group-hover:text-primary-foreground transition-colors"
+      <Tabs defaultValue="applied" className="w-full">
+        <TabsList className="mb-6">
+          <TabsTrigger value="applied" className="flex items-center gap-2">
+            <Briefcase className="h-4 w-4" />
+            <span>Applied ({applications.length})</span>
+          </TabsTrigger>
+          <TabsTrigger value="saved" className="flex items-center gap-2">
+            <BookmarkIcon className="h-4 w-4" />
+            <span>Saved ({bookmarks.length})</span>
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="applied">
+          {/* Job Cards */}
+          {filteredApplications.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {filteredApplications.map((application) => {
+                // Fall back to a stub if the job post has since been deleted
+                const job: JobPost = application.job || {
+                  id: application.job_id,
+                  employer_id: application.employer_id,
+                  job_title: "Job no longer available",
+                  type_of_work: "",
+                };
+
+                return (
+                  <Card
+                    key={application.id}
+                    className={`overflow-hidden transition-all hover:shadow-md group ${
+                      job.special_woman_provision
+                        ? "border-l-4 border-l-pink-500"
+                        : job.special_transgender_provision
+                        ? "border-l-4 border-l-purple-500"
+                        : job.special_disability_provision
+                        ? "border-l-4 border-l-blue-500"
+                        : ""
+                    }`}
                   >
-                    <span>View Details</span>
-                    <ChevronRight className="ml-2 h-4 w-4" />
-                  </Button>
-                </Link>
-              </CardFooter>
-            </Card>
-          ))}
+                    <CardHeader className="pb-2 relative">
+                      <div className="flex justify-between items-start">
+                        <CardTitle className="text-lg sm:text-xl pr-16 group-hover:text-primary transition-colors">
+                          {job.job_title}
+                        </CardTitle>
+                      </div>
+                      <CompanyInfo
+                        company={job.company}
+                        fallbackName={job.employer_name}
+                        className="text-sm text-muted-foreground mt-1"
+                      />
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
+                        <Badge
+                          className={statusStyles[application.status].className}
+                        >
+                          {statusStyles[application.status].label}
+                        </Badge>
+                        <span>
+                          Applied{" "}
+                          {new Date(application.createdAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <div className="absolute top-4 right-4 flex flex-col sm:flex-row gap-1">
+                        {job.special_woman_provision && (
+                          <Badge className="bg-pink-100 text-pink-700 hover:bg-pink-200 dark:bg-pink-900/30 dark:text-pink-300">
+                            Women
+                          </Badge>
+                        )}
+                        {job.special_transgender_provision && (
+                          <Badge className="bg-purple-100 text-purple-700 hover:bg-purple-200 dark:bg-purple-900/30 dark:text-purple-300">
+                            LGBTQ+
+                          </Badge>
+                        )}
+                        {job.special_disability_provision && (
+                          <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300">
+                            Disabled
+                          </Badge>
+                        )}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="pb-2">
+                      <div className="space-y-3">
+                        <div className="flex items-center text-sm text-muted-foreground">
+                          <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
+                          <span className="truncate">
+                            {job.place_of_work ||
+                              (job.location
+                                ? `${job.location.city || ""} ${
+                                    job.location.state || ""
+                                  }`.trim()
+                                : "Location not provided")}
+                          </span>
+                        </div>
+                        <div className="flex items-center text-sm">
+                          <Briefcase className="h-4 w-4 mr-1 flex-shrink-0" />
+                          <Badge
+                            variant="outline"
+                            className="font-normal rounded-sm"
+                          >
+                            {job.type_of_work}
+                          </Badge>
+                        </div>
+                        <div className="flex items-center text-sm font-medium text-green-600 dark:text-green-400">
+                          <Banknote className="h-4 w-4 mr-1 flex-shrink-0" />
+                          {formatWage(job.wage) || "Salary not provided"}
+                        </div>
+                        {job.createdAt && (
+                          <div className="flex items-center text-xs text-muted-foreground">
+                            <Calendar className="h-3 w-3 mr-1 flex-shrink-0" />
+                            Posted{" "}
+                            {new Date(job.createdAt).toLocaleDateString()}
+                          </div>
+                        )}
+                      </div>
+                    </CardContent>
+                    <CardFooter className="pt-2 flex gap-2">
+                      <Link href={`/job/${job.id}`} className="flex-1">
+                        <Button
+                          variant="outline"
+                          className="w-full group-hover:bg-primary group-hover:text-primary-foreground transition-colors"
+                        >
+                          <span>View Details</span>
+                          <ChevronRight className="ml-2 h-4 w-4" />
+                        </Button>
+                      </Link>
+                      {withdrawableStatuses.includes(application.status) && (
+                        <Button
+                          variant="outline"
+                          className="border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                          disabled={withdrawingId === application.id}
+                          onClick={() => handleWithdraw(application.id)}
+                        >
+                          {withdrawingId === application.id
+                            ? "Withdrawing..."
+                            : "Withdraw"}
+                        </Button>
+                      )}
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="bg-blue-50 border border-blue-100 rounded-lg p-8 text-center">
+              <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+                <Briefcase className="h-8 w-8 text-blue-600" />
+              </div>
+              <h3 className="text-xl font-medium text-blue-800 mb-2">
+                No jobs found
+              </h3>
+              <p className="text-blue-600 mb-6">
+                {applications.length === 0
+                  ? "You haven't applied to any jobs yet."
+                  : "No jobs match your current filters."}
+              </p>
+              {applications.length > 0 && (
+                <Button
+                  variant="outline"
+                  className="border-blue-200 text-blue-700 hover:bg-blue-100"
+                  onClick={clearFilters}
+                >
+                  Clear Filters
+                </Button>
+              )}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="saved">
+          {filteredBookmarks.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {filteredBookmarks.map((bookmark) => (
+                <SavedJobCard
+                  key={bookmark.id}
+                  bookmark={bookmark}
+                  onRemove={() => toggleBookmark(bookmark.job_id)}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="bg-blue-50 border border-blue-100 rounded-lg p-8 text-center">
+              <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+                <BookmarkIcon className="h-8 w-8 text-blue-600" />
+              </div>
+              <h3 className="text-xl font-medium text-blue-800 mb-2">
+                No saved jobs
+              </h3>
+              <p className="text-blue-600 mb-6">
+                {bookmarks.length === 0
+                  ? "Save jobs from the job list to come back to them later."
+                  : "No saved jobs match your current filters."}
+              </p>
+              {bookmarks.length > 0 && (
+                <Button
+                  variant="outline"
+                  className="border-blue-200 text-blue-700 hover:bg-blue-100"
+                  onClick={clearFilters}
+                >
+                  Clear Filters
+                </Button>
+              )}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+// A saved job, flagged when it has been closed or edited since it was saved
+function SavedJobCard({
+  bookmark,
+  onRemove,
+}: {
+  bookmark: Bookmark;
+  onRemove: () => Promise<void>;
+}) {
+  const job = bookmark.job;
+
+  if (!job) {
+    return (
+      <Card className="overflow-hidden opacity-75">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg sm:text-xl">
+            Job no longer available
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pb-2 text-sm text-muted-foreground">
+          The employer has removed this job post.
+        </CardContent>
+        <CardFooter className="pt-2">
+          <BookmarkButton saved onToggle={onRemove} showLabel />
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  const isClosed = job.status === "closed";
+  const wasEdited =
+    !!job.updatedAt &&
+    !!bookmark.job_updated_at &&
+    new Date(job.updatedAt) > new Date(bookmark.job_updated_at);
+
+  return (
+    <Card
+      className={`overflow-hidden transition-all hover:shadow-md group ${
+        isClosed ? "opacity-75" : ""
+      }`}
+    >
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg sm:text-xl group-hover:text-primary transition-colors">
+          {job.job_title}
+        </CardTitle>
+        <CompanyInfo
+          company={job.company}
+          fallbackName={job.employer_name}
+          className="text-sm text-muted-foreground mt-1"
+        />
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mt-2">
+          {isClosed && (
+            <Badge className="bg-gray-100 text-gray-700 hover:bg-gray-200">
+              <Lock className="h-3 w-3 mr-1" />
+              No longer accepting applications
+            </Badge>
+          )}
+          {wasEdited && (
+            <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-200">
+              <PencilLine className="h-3 w-3 mr-1" />
+              Updated since you saved it
+            </Badge>
+          )}
+          <span>Saved {new Date(bookmark.createdAt).toLocaleDateString()}</span>
         </div>
-      ) : (
-        <div className="bg-blue-50 border border-blue-100 rounded-lg p-8 text-center">
-          <div className="mx-auto w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mb-4">
-            <Briefcase className="h-8 w-8 text-blue-600" />
+      </CardHeader>
+      <CardContent className="pb-2">
+        <div className="space-y-3">
+          <div className="flex items-center text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
+            <span className="truncate">
+              {job.place_of_work ||
+                (job.location
+                  ? `${job.location.city || ""} ${
+                      job.location.state || ""
+                    }`.trim()
+                  : "Location not provided")}
+            </span>
+          </div>
+          <div className="flex items-center text-sm font-medium text-green-600 dark:text-green-400">
+            <Banknote className="h-4 w-4 mr-1 flex-shrink-0" />
+            {formatWage(job.wage) || "Salary not provided"}
           </div>
-          <h3 className="text-xl font-medium text-blue-800 mb-2">
-            No jobs found
-          </h3>
-          <p className="text-blue-600 mb-6">
-            {jobs.length === 0
-              ? "You haven't applied to any jobs yet."
-              : "No jobs match your current filters."}
-          </p>
-          {jobs.length > 0 && (
-            <Button
-              variant="outline"
-              className="border-blue-200 text-blue-700 hover:bg-blue-100"
-              onClick={clearFilters}
-            >
-              Clear Filters
-            </Button>
-          )}
         </div>
-      )}
-    </div>
+      </CardContent>
+      <CardFooter className="pt-2 flex gap-2">
+        <Link href={`/job/${job.id}`} className="flex-1">
+          <Button
+            variant="outline"
+            className="w-full group-hover:bg-primary group-hover:text-primary-foreground transition-colors"
+          >
+            <span>View Details</span>
+            <ChevronRight className="ml-2 h-4 w-4" />
+          </Button>
+        </Link>
+        <BookmarkButton saved onToggle={onRemove} />
+      </CardFooter>
+    </Card>
   );
 }
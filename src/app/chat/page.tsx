@@ -7,10 +7,53 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Send, Bot, User2, Briefcase, Clock, ArrowRight } from "lucide-react";
+import {
+  Send,
+  Bot,
+  User2,
+  Briefcase,
+  Clock,
+  ArrowRight,
+  History,
+  Square,
+} from "lucide-react";
 import { motion } from "framer-motion";
 import { v4 as uuidv4 } from "uuid";
 import ReactMarkdown from "react-markdown";
+import VoiceInputButton from "@/components/voice-input-button";
+import ReadAloudButton from "@/components/read-aloud-button";
+import { toSpeakableText } from "@/lib/speech";
+import AssistantHistory from "@/components/assistant-history";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { toast } from "sonner";
+import { useUser } from "@/context/userContext";
+import { useAssistantConversations } from "@/hooks/assistantConversationHook";
+import {
+  getAssistantConversation,
+  saveAssistantMessages,
+  sendAssistantFeedback,
+  streamAssistantReply,
+} from "@/actions/assistant";
+import { isAbortError } from "@/lib/apiClient";
+import type {
+  AssistantAttachment,
+  AssistantConversation,
+  AssistantFeedback,
+  AssistantMessage,
+} from "@/types/assistant";
+import AssistantAttachments from "@/components/assistant-attachments";
+import { useBookmarks } from "@/hooks/bookmarkHook";
+import AssistantContextDialog from "@/components/assistant-context-dialog";
+import { useAssistantContext } from "@/hooks/assistantContextHook";
+import { useLocale } from "@/context/localeContext";
+import AssistantMessageActions from "@/components/assistant-message-actions";
+import { Textarea } from "@/components/ui/textarea";
 
 type MessageRole = "user" | "assistant";
 
@@ -21,31 +64,103 @@ interface Message {
   timestamp: Date;
   error?: boolean;
   isLoading?: boolean;
+  attachments?: AssistantAttachment[];
+  feedback?: AssistantFeedback;
+}
+
+// A sent message and the reply it's waiting on, saved once the reply settles
+interface PendingExchange {
+  conversationId: string;
+  userMessage: Message;
+  assistantMessageId: string;
+  branchFrom?: string | null; // Set when regenerating or editing
 }
 
 const CHUNK_TIMEOUT = 30000; // 30 seconds without data
 const MAX_RETRIES = 3;
+const TITLE_LENGTH = 60; // New conversations are titled with the first question
+
+const WELCOME_MESSAGE_ID = "welcome-message";
+
+// Shown at the top of every conversation; never stored. Its text is
+// translated when rendered, so it follows the current language.
+const createWelcomeMessage = (): Message => ({
+  id: WELCOME_MESSAGE_ID,
+  role: "assistant",
+  content: "",
+  timestamp: new Date(),
+});
+
+// Messages up to and including `messageId`, or just the welcome when null
+const keepThrough = (messages: Message[], messageId: string | null) => {
+  if (messageId === null) return messages.slice(0, 1);
+  const index = messages.findIndex((msg) => msg.id === messageId);
+  return index < 0 ? messages : messages.slice(0, index + 1);
+};
+
+const toAssistantMessage = (message: Message): AssistantMessage => ({
+  id: message.id,
+  role: message.role,
+  content: message.content,
+  error: message.error,
+  attachments: message.attachments,
+  createdAt: message.timestamp.toISOString(),
+});
+
+const fromAssistantMessage = (message: AssistantMessage): Message => ({
+  id: message.id,
+  role: message.role,
+  content: message.content,
+  error: message.error,
+  attachments: message.attachments,
+  timestamp: new Date(message.createdAt),
+});
 
 export default function ChatPage() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "welcome-message",
-      role: "assistant",
-      content:
-        "Hello! I'm your job search assistant. How can I help you today?",
-      timestamp: new Date(),
-    },
+  const { t, formatDate } = useLocale();
+  const [messages, setMessages] = useState<Message[]>(() => [
+    createWelcomeMessage(),
   ]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
 
+  // Saved conversations, for signed-in users
+  const { user } = useUser();
+  const isWorker = !!user && user.role !== "employer";
+  const { isBookmarked, toggleBookmark } = useBookmarks({ enabled: isWorker });
+  // Opt-in profile details sent with each prompt
+  const {
+    fields: contextFields,
+    context: assistantContext,
+    setFields: setContextFields,
+    clear: clearContext,
+  } = useAssistantContext(user);
+  const {
+    conversations,
+    loading: loadingConversations,
+    create: createConversation,
+    rename: renameConversation,
+    remove: removeConversation,
+    update: updateConversation,
+  } = useAssistantConversations({ enabled: !!user });
+  const [activeConversationId, setActiveConversationId] = useState<
+    string | null
+  >(null);
+  const [loadingConversation, setLoadingConversation] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  // Mirrors activeConversationId for use inside async callbacks
+  const conversationIdRef = useRef<string | null>(null);
+  const pendingExchangeRef = useRef<PendingExchange | null>(null);
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Refs for streaming
-  const eventSourceRef = useRef<EventSource | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const chunkTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const retryCountRef = useRef<number>(0);
+  const replyIdRef = useRef<string | null>(null); // Reply being streamed
   const thread_id = useRef<string>(uuidv4());
 
   // Scroll to bottom when messages change
@@ -65,11 +180,82 @@ export default function ChatPage() {
     };
   }, []);
 
+  // Save the latest exchange once the reply has finished streaming or failed
+  useEffect(() => {
+    const pending = pendingExchangeRef.current;
+    if (isLoading || !pending) return;
+    pendingExchangeRef.current = null;
+
+    const reply = messages.find((msg) => msg.id === pending.assistantMessageId);
+    if (!reply) return;
+
+    saveAssistantMessages(
+      pending.conversationId,
+      [toAssistantMessage(pending.userMessage), toAssistantMessage(reply)],
+      pending.branchFrom
+    )
+      .then(updateConversation)
+      .catch((err) => console.error("Error saving conversation:", err));
+  }, [isLoading, messages, updateConversation]);
+
+  const selectConversation = (conversationId: string | null) => {
+    conversationIdRef.current = conversationId;
+    setActiveConversationId(conversationId);
+  };
+
+  const startNewConversation = () => {
+    setHistoryOpen(false);
+    setEditingMessageId(null);
+    pendingExchangeRef.current = null;
+    cleanupStream();
+    selectConversation(null);
+    thread_id.current = uuidv4();
+    setMessages([createWelcomeMessage()]);
+    inputRef.current?.focus();
+  };
+
+  // Resume a saved conversation on the same assistant thread
+  const openConversation = async (conversation: AssistantConversation) => {
+    setHistoryOpen(false);
+    if (conversation.id === conversationIdRef.current) return;
+
+    setEditingMessageId(null);
+    pendingExchangeRef.current = null;
+    cleanupStream();
+    selectConversation(conversation.id);
+    thread_id.current = conversation.thread_id;
+    setLoadingConversation(true);
+
+    try {
+      const { messages: stored } = await getAssistantConversation(
+        conversation.id
+      );
+      // Ignore the result if another conversation was opened meanwhile
+      if (conversationIdRef.current !== conversation.id) return;
+      setMessages([
+        createWelcomeMessage(),
+        ...stored.map(fromAssistantMessage),
+      ]);
+    } catch (err) {
+      console.error("Error opening conversation:", err);
+      toast.error(t("assistant.loadFailed"));
+      startNewConversation();
+    } finally {
+      setLoadingConversation(false);
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    await removeConversation(conversationId);
+    if (conversationId === conversationIdRef.current) startNewConversation();
+  };
+
   const cleanupStream = () => {
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-      eventSourceRef.current = null;
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
     }
+    replyIdRef.current = null;
     if (chunkTimeoutRef.current) {
       clearTimeout(chunkTimeoutRef.current);
       chunkTimeoutRef.current = null;
@@ -88,9 +274,9 @@ export default function ChatPage() {
           msg.id === assistantMessageId
             ? {
                 ...msg,
-                content:
-                  msg.content +
-                  "\n[Error: Response timeout - No data received for 30 seconds]",
+                content: `${msg.content}\n[${t("assistant.error", {
+                  message: t("assistant.timeout"),
+                })}]`,
                 error: true,
                 isLoading: false,
               }
@@ -107,7 +293,9 @@ export default function ChatPage() {
         msg.id === assistantMessageId
           ? {
               ...msg,
-              content: msg.content + `\n[Error: ${errorMsg}]`,
+              content: `${msg.content}\n[${t("assistant.error", {
+                message: errorMsg,
+              })}]`,
               error: true,
               isLoading: false,
             }
@@ -117,13 +305,18 @@ export default function ChatPage() {
     cleanupStream();
   };
 
-  // Handle sending a message
-  const handleSendMessage = async (text = input) => {
+  // Handle sending a message. When regenerating or editing, branchFrom is the
+  // last message to keep (null for none) and everything after it is replaced.
+  const handleSendMessage = async (
+    text = input,
+    branchFrom?: string | null
+  ) => {
     if (!text.trim()) return;
 
-    // Reset any existing stream and retry count
+    // Reset any existing stream
     cleanupStream();
-    retryCountRef.current = 0;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
 
     // Create a new user message
@@ -143,79 +336,202 @@ export default function ChatPage() {
       timestamp: new Date(),
       isLoading: true,
     };
+    replyIdRef.current = assistantMessageId;
 
     // Add both messages to the chat
-    setMessages((prev) => [...prev, userMessage, assistantMessage]);
-    setInput("");
+    setMessages((prev) => [
+      ...(branchFrom === undefined ? prev : keepThrough(prev, branchFrom)),
+      userMessage,
+      assistantMessage,
+    ]);
+    if (branchFrom === undefined) setInput("");
+
+    // The first message of a new chat starts a saved conversation
+    let conversationId = conversationIdRef.current;
+    if (!conversationId && user) {
+      try {
+        const conversation = await createConversation(
+          thread_id.current,
+          text.trim().slice(0, TITLE_LENGTH)
+        );
+        conversationId = conversation.id;
+        selectConversation(conversationId);
+      } catch (err) {
+        // Carry on unsaved rather than block the chat
+        console.error("Error creating conversation:", err);
+      }
+    }
+    pendingExchangeRef.current = conversationId
+      ? { conversationId, userMessage, assistantMessageId, branchFrom }
+      : null;
+
+    let fullMessage = "";
 
     try {
-      // Open a connection to your chatbot backend using EventSource
-      console.log("before sending request", text);
-      const url = `${
-        process.env.NEXT_PUBLIC_CHAT_URL
-      }/api/stream-prompt?thread_id=${
-        thread_id.current
-      }&prompt=${encodeURIComponent(text)}`;
-      const eventSource = new EventSource(url);
-      eventSourceRef.current = eventSource;
-
-      let fullMessage = "";
-
-      eventSource.onmessage = (event) => {
-        try {
-          const content = event.data;
-          if (content) {
-            // Reset the chunk timeout every time data is received
-            startChunkTimeout(assistantMessageId);
-
-            // If the backend sends an error message, handle it
-            if (content.includes("[Error:")) {
-              handleStreamError(assistantMessageId, content);
-              return;
-            }
+      await streamAssistantReply(thread_id.current, text, {
+        context: assistantContext,
+        messageId: userMessage.id,
+        replyId: assistantMessageId,
+        branchFrom,
+        signal: controller.signal,
+        maxRetries: MAX_RETRIES,
+        onChunk: (content) => {
+          // Chunks already read when the reply was stopped
+          if (controller.signal.aborted) return;
 
-            // Append the chunk to the full message and update the assistant message
-            fullMessage += content;
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, content: fullMessage, isLoading: false }
-                  : msg
-              )
-            );
+          // Reset the chunk timeout every time data is received
+          startChunkTimeout(assistantMessageId);
+
+          // If the backend sends an error message, handle it
+          if (content.includes("[Error:")) {
+            handleStreamError(assistantMessageId, content);
+            return;
           }
-        } catch (error) {
-          console.error("Error processing stream message:", error);
-          handleStreamError(assistantMessageId, "Failed to process response");
-        }
-      };
-
-      eventSource.onerror = (error) => {
-        console.error("Stream error:", error);
-        retryCountRef.current++;
-        if (retryCountRef.current >= MAX_RETRIES) {
-          handleStreamError(
-            assistantMessageId,
-            "Connection failed after multiple retries"
+
+          // Append the chunk to the full message and update the assistant message
+          fullMessage += content;
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessageId
+                ? { ...msg, content: fullMessage, isLoading: false }
+                : msg
+            )
           );
-        }
-      };
+        },
+        onAttachment: (attachment) => {
+          if (controller.signal.aborted) return;
+          startChunkTimeout(assistantMessageId);
 
-      // Listen for a custom "done" event to clean up
-      eventSource.addEventListener("done", () => {
-        cleanupStream();
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessageId
+                ? {
+                    ...msg,
+                    attachments: [...(msg.attachments || []), attachment],
+                    isLoading: false,
+                  }
+                : msg
+            )
+          );
+        },
       });
+
+      if (abortControllerRef.current === controller) {
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === assistantMessageId ? { ...msg, isLoading: false } : msg
+          )
+        );
+        cleanupStream();
+      }
     } catch (error) {
-      console.error("Error connecting to stream:", error);
-      handleStreamError(assistantMessageId, "Failed to establish connection");
+      // Stopped, timed out or failed mid-stream; each is handled where it happens
+      if (isAbortError(error)) return;
+
+      handleStreamError(
+        assistantMessageId,
+        fullMessage
+          ? t("assistant.connectionLost")
+          : t("assistant.connectionFailed")
+      );
     }
   };
 
+  // The message a reply or edit branches from: the one before it, or null
+  // when it's the first message after the welcome
+  const branchPoint = (index: number) =>
+    index <= 1 ? null : messages[index - 1].id;
+
+  // Ask again for a reply, e.g. after it failed
+  const regenerate = (replyId: string) => {
+    const index = messages.findIndex((msg) => msg.id === replyId);
+    const prompt = messages[index - 1];
+    if (index < 0 || prompt?.role !== "user") return;
+
+    handleSendMessage(prompt.content, branchPoint(index - 1));
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
+
+  // Resend an edited message, dropping everything that came after it
+  const resendEdited = () => {
+    const index = messages.findIndex((msg) => msg.id === editingMessageId);
+    setEditingMessageId(null);
+    if (index < 0 || !editText.trim()) return;
+
+    handleSendMessage(editText, branchPoint(index));
+  };
+
+  const handleCopy = async (content: string) => {
+    try {
+      await navigator.clipboard.writeText(content);
+      toast.success(t("assistant.copied"));
+    } catch {
+      toast.error(t("assistant.copyFailed"));
+    }
+  };
+
+  const handleFeedback = async (
+    messageId: string,
+    rating: AssistantFeedback
+  ) => {
+    const previous = messages.find((msg) => msg.id === messageId)?.feedback;
+    const setFeedback = (feedback?: AssistantFeedback) =>
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === messageId ? { ...msg, feedback } : msg))
+      );
+
+    // Show the rating straight away and undo it if sending fails
+    setFeedback(rating);
+    try {
+      await sendAssistantFeedback(thread_id.current, messageId, rating);
+    } catch {
+      setFeedback(previous);
+      toast.error(t("assistant.feedbackFailed"));
+    }
+  };
+
+  // Stop generating, keeping whatever has streamed so far
+  const stopGenerating = () => {
+    const replyId = replyIdRef.current;
+    cleanupStream();
+    if (!replyId) return;
+
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === replyId
+          ? {
+              ...msg,
+              content:
+                msg.content || msg.attachments?.length
+                  ? msg.content
+                  : `_${t("assistant.stopped")}_`,
+              isLoading: false,
+            }
+          : msg
+      )
+    );
+  };
+
+  // Dictated phrases are added to whatever has already been typed
+  const appendToInput = (text: string) => {
+    setInput((prev) => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+    inputRef.current?.focus();
+  };
+
   // Format timestamp for display
   const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    return formatDate(date, { timeStyle: "short" });
   };
 
+  const messageContent = (message: Message) =>
+    message.id === WELCOME_MESSAGE_ID
+      ? t("assistant.welcome")
+      : message.content;
+
   // Render message content with markdown support
   const renderMessageContent = (content: string): JSX.Element => {
     return (
@@ -273,170 +589,329 @@ export default function ChatPage() {
     );
   };
 
+  const history = (
+    <AssistantHistory
+      conversations={conversations}
+      activeId={activeConversationId}
+      loading={loadingConversations}
+      onNew={startNewConversation}
+      onSelect={openConversation}
+      onRename={renameConversation}
+      onDelete={deleteConversation}
+    />
+  );
+
   return (
     <div className="container mx-auto py-8 px-4 md:px-6">
-      <div className="max-w-4xl mx-auto">
-        <Card className="border rounded-xl shadow-lg overflow-hidden bg-gradient-to-b from-background to-muted/30">
-          <div className="flex flex-col h-[650px]">
-            {/* Chat header */}
-            <div className="p-4 border-b bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/30 dark:to-indigo-950/30">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="relative">
-                    <Avatar className="h-10 w-10 border-2 border-primary/20">
-                      <AvatarImage
-                        src="/placeholder.svg?height=40&width=40"
-                        alt="AI Assistant"
-                      />
-                      <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-600 text-white">
-                        <Bot size={18} />
-                      </AvatarFallback>
-                    </Avatar>
-                    <span className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 border-2 border-background rounded-full"></span>
-                  </div>
-                  <div>
-                    <p className="font-semibold">Job Assistant</p>
-                    <div className="flex items-center text-xs text-muted-foreground">
-                      <span className="flex items-center">
-                        <Clock className="h-3 w-3 mr-1" />
-                        Available 24/7
-                      </span>
+      <div className="max-w-6xl mx-auto">
+        <div className="flex gap-4">
+          {user && (
+            <Card className="hidden md:block w-64 flex-shrink-0 h-[650px] border rounded-xl shadow-lg overflow-hidden">
+              {history}
+            </Card>
+          )}
+          <Card className="flex-1 min-w-0 border rounded-xl shadow-lg overflow-hidden bg-gradient-to-b from-background to-muted/30">
+            <div className="flex flex-col h-[650px]">
+              {/* Chat header */}
+              <div className="p-4 border-b bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/30 dark:to-indigo-950/30">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="relative">
+                      <Avatar className="h-10 w-10 border-2 border-primary/20">
+                        <AvatarImage
+                          src="/placeholder.svg?height=40&width=40"
+                          alt={t("assistant.avatar")}
+                        />
+                        <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-600 text-white">
+                          <Bot size={18} />
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 border-2 border-background rounded-full"></span>
+                    </div>
+                    <div>
+                      <p className="font-semibold">{t("assistant.name")}</p>
+                      <div className="flex items-center text-xs text-muted-foreground">
+                        <span className="flex items-center">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {t("assistant.availability")}
+                        </span>
+                      </div>
                     </div>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className="bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                    >
+                      <Briefcase className="h-3 w-3 mr-1" />
+                      {t("assistant.badge")}
+                    </Badge>
+                    {user && (
+                      <AssistantContextDialog
+                        user={user}
+                        fields={contextFields}
+                        onChange={setContextFields}
+                        onClear={clearContext}
+                      />
+                    )}
+                    {user && (
+                      <Sheet open={historyOpen} onOpenChange={setHistoryOpen}>
+                        <SheetTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="md:hidden h-9 w-9"
+                            aria-label={t("assistant.history")}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </SheetTrigger>
+                        <SheetContent side="left" className="p-0 flex flex-col">
+                          <SheetHeader className="p-4 border-b">
+                            <SheetTitle>
+                              {t("assistant.conversations")}
+                            </SheetTitle>
+                          </SheetHeader>
+                          <div className="flex-1 min-h-0">{history}</div>
+                        </SheetContent>
+                      </Sheet>
+                    )}
+                  </div>
                 </div>
-                <Badge
-                  variant="outline"
-                  className="bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
-                >
-                  <Briefcase className="h-3 w-3 mr-1" />
-                  Job Expert
-                </Badge>
               </div>
-            </div>
 
-            {/* Chat messages */}
-            <ScrollArea className="flex-1 p-4 bg-gradient-to-br from-slate-50/50 to-blue-50/50 dark:from-slate-950/50 dark:to-blue-950/50">
-              <div className="space-y-6 py-2">
-                {messages.map((message, index) => (
-                  <motion.div
-                    key={message.id}
-                    className={`flex ${
-                      message.role === "user" ? "justify-end" : "justify-start"
-                    }`}
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.3, delay: index * 0.1 }}
-                  >
-                    <div
-                      className={`flex items-start gap-3 max-w-[85%] ${
-                        message.role === "user" ? "flex-row-reverse" : ""
+              {/* Chat messages */}
+              <ScrollArea className="flex-1 p-4 bg-gradient-to-br from-slate-50/50 to-blue-50/50 dark:from-slate-950/50 dark:to-blue-950/50">
+                <div className="space-y-6 py-2">
+                  {messages.map((message, index) => (
+                    <motion.div
+                      key={message.id}
+                      className={`flex ${
+                        message.role === "user"
+                          ? "justify-end"
+                          : "justify-start"
                       }`}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3, delay: index * 0.1 }}
                     >
-                      <Avatar
-                        className={`h-9 w-9 mt-0.5 border-2 ${
-                          message.role === "assistant"
-                            ? "border-blue-200 dark:border-blue-800"
-                            : "border-indigo-200 dark:border-indigo-800"
+                      <div
+                        className={`flex items-start gap-3 max-w-[85%] ${
+                          message.role === "user" ? "flex-row-reverse" : ""
                         }`}
                       >
-                        {message.role === "assistant" ? (
-                          <>
-                            <AvatarImage
-                              src="/placeholder.svg?height=36&width=36"
-                              alt="AI Assistant"
-                            />
-                            <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-600 text-white">
-                              <Bot size={16} />
-                            </AvatarFallback>
-                          </>
-                        ) : (
-                          <>
-                            <AvatarImage
-                              src="/placeholder.svg?height=36&width=36"
-                              alt="User"
-                            />
-                            <AvatarFallback className="bg-gradient-to-br from-indigo-500 to-purple-600 text-white">
-                              <User2 size={16} />
-                            </AvatarFallback>
-                          </>
-                        )}
-                      </Avatar>
-                      <div className="flex-1">
-                        <div
-                          className={`rounded-2xl px-4 py-2.5 shadow-sm ${
+                        <Avatar
+                          className={`h-9 w-9 mt-0.5 border-2 ${
                             message.role === "assistant"
-                              ? "bg-white dark:bg-slate-800 border border-blue-100 dark:border-blue-900"
-                              : "bg-gradient-to-r from-blue-600 to-indigo-600 text-white"
+                              ? "border-blue-200 dark:border-blue-800"
+                              : "border-indigo-200 dark:border-indigo-800"
                           }`}
                         >
-                          {message.isLoading ? (
-                            <div className="flex space-x-2 py-1">
-                              <div
-                                className="w-2 h-2 rounded-full bg-blue-400 animate-bounce"
-                                style={{ animationDelay: "0ms" }}
-                              ></div>
-                              <div
-                                className="w-2 h-2 rounded-full bg-blue-400 animate-bounce"
-                                style={{ animationDelay: "150ms" }}
-                              ></div>
-                              <div
-                                className="w-2 h-2 rounded-full bg-blue-400 animate-bounce"
-                                style={{ animationDelay: "300ms" }}
-                              ></div>
-                            </div>
-                          ) : message.role === "user" ? (
-                            <p className="text-sm leading-relaxed">
-                              {message.content}
-                            </p>
+                          {message.role === "assistant" ? (
+                            <>
+                              <AvatarImage
+                                src="/placeholder.svg?height=36&width=36"
+                                alt={t("assistant.avatar")}
+                              />
+                              <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-600 text-white">
+                                <Bot size={16} />
+                              </AvatarFallback>
+                            </>
                           ) : (
-                            renderMessageContent(message.content)
+                            <>
+                              <AvatarImage
+                                src="/placeholder.svg?height=36&width=36"
+                                alt={t("assistant.you")}
+                              />
+                              <AvatarFallback className="bg-gradient-to-br from-indigo-500 to-purple-600 text-white">
+                                <User2 size={16} />
+                              </AvatarFallback>
+                            </>
+                          )}
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          {(message.isLoading ||
+                            message.content ||
+                            !message.attachments?.length) && (
+                            <div
+                              className={`rounded-2xl px-4 py-2.5 shadow-sm ${
+                                message.role === "assistant"
+                                  ? "bg-white dark:bg-slate-800 border border-blue-100 dark:border-blue-900"
+                                  : "bg-gradient-to-r from-blue-600 to-indigo-600 text-white"
+                              }`}
+                            >
+                              {message.isLoading ? (
+                                <div className="flex space-x-2 py-1">
+                                  <div
+                                    className="w-2 h-2 rounded-full bg-blue-400 animate-bounce"
+                                    style={{ animationDelay: "0ms" }}
+                                  ></div>
+                                  <div
+                                    className="w-2 h-2 rounded-full bg-blue-400 animate-bounce"
+                                    style={{ animationDelay: "150ms" }}
+                                  ></div>
+                                  <div
+                                    className="w-2 h-2 rounded-full bg-blue-400 animate-bounce"
+                                    style={{ animationDelay: "300ms" }}
+                                  ></div>
+                                </div>
+                              ) : message.id === editingMessageId ? (
+                                <form
+                                  onSubmit={(e) => {
+                                    e.preventDefault();
+                                    resendEdited();
+                                  }}
+                                  className="space-y-2"
+                                >
+                                  <Textarea
+                                    value={editText}
+                                    onChange={(e) =>
+                                      setEditText(e.target.value)
+                                    }
+                                    aria-label={t("assistant.editMessage")}
+                                    className="min-h-[60px] bg-white text-foreground text-sm"
+                                    autoFocus
+                                  />
+                                  <div className="flex justify-end gap-2">
+                                    <Button
+                                      type="button"
+                                      size="sm"
+                                      variant="secondary"
+                                      onClick={() => setEditingMessageId(null)}
+                                    >
+                                      {t("common.cancel")}
+                                    </Button>
+                                    <Button
+                                      type="submit"
+                                      size="sm"
+                                      variant="secondary"
+                                      disabled={!editText.trim()}
+                                    >
+                                      {t("assistant.send")}
+                                    </Button>
+                                  </div>
+                                </form>
+                              ) : message.role === "user" ? (
+                                <p className="text-sm leading-relaxed">
+                                  {message.content}
+                                </p>
+                              ) : (
+                                renderMessageContent(messageContent(message))
+                              )}
+                            </div>
                           )}
+                          {message.attachments &&
+                            message.attachments.length > 0 && (
+                              <AssistantAttachments
+                                attachments={message.attachments}
+                                canApply={isWorker}
+                                isBookmarked={isBookmarked}
+                                onToggleSave={toggleBookmark}
+                              />
+                            )}
+                          <div className="flex items-center gap-1 mt-1.5 ml-2">
+                            <p className="text-xs text-muted-foreground">
+                              {formatTime(message.timestamp)}
+                            </p>
+                            {message.role === "assistant" &&
+                              !message.isLoading && (
+                                <ReadAloudButton
+                                  text={toSpeakableText(
+                                    messageContent(message)
+                                  )}
+                                  className="text-muted-foreground"
+                                />
+                              )}
+                            {message.id !== WELCOME_MESSAGE_ID &&
+                              !message.isLoading &&
+                              message.id !== editingMessageId && (
+                                <AssistantMessageActions
+                                  content={message.content}
+                                  error={message.error}
+                                  feedback={message.feedback}
+                                  disabled={isLoading}
+                                  onCopy={handleCopy}
+                                  onEdit={
+                                    message.role === "user"
+                                      ? () => startEditing(message)
+                                      : undefined
+                                  }
+                                  onRegenerate={
+                                    message.role === "assistant"
+                                      ? () => regenerate(message.id)
+                                      : undefined
+                                  }
+                                  onFeedback={
+                                    message.role === "assistant"
+                                      ? (rating) =>
+                                          handleFeedback(message.id, rating)
+                                      : undefined
+                                  }
+                                />
+                              )}
+                          </div>
                         </div>
-                        <p className="text-xs text-muted-foreground mt-1.5 ml-2">
-                          {formatTime(message.timestamp)}
-                        </p>
                       </div>
-                    </div>
-                  </motion.div>
-                ))}
-                <div ref={messagesEndRef} />
-              </div>
-            </ScrollArea>
-
-            {/* Chat input */}
-            <div className="p-4 border-t bg-gradient-to-r from-slate-50 to-blue-50 dark:from-slate-900/50 dark:to-blue-900/50">
-              <form
-                onSubmit={(e) => {
-                  e.preventDefault();
-                  handleSendMessage();
-                }}
-                className="flex items-center space-x-2"
-              >
-                <Input
-                  ref={inputRef}
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  placeholder="Type your message..."
-                  disabled={isLoading}
-                  className="flex-1 bg-white/80 dark:bg-slate-800/80 border-blue-100 dark:border-blue-900 rounded-full pl-4 pr-4 py-6 focus-visible:ring-blue-500"
-                />
-                <Button
-                  type="submit"
-                  size="icon"
-                  disabled={isLoading || !input.trim()}
-                  className="rounded-full h-12 w-12 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 shadow-md"
+                    </motion.div>
+                  ))}
+                  <div ref={messagesEndRef} />
+                </div>
+              </ScrollArea>
+
+              {/* Chat input */}
+              <div className="p-4 border-t bg-gradient-to-r from-slate-50 to-blue-50 dark:from-slate-900/50 dark:to-blue-900/50">
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleSendMessage();
+                  }}
+                  className="flex items-center space-x-2"
                 >
-                  <Send className="h-5 w-5" />
-                </Button>
-              </form>
+                  <Input
+                    ref={inputRef}
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder={t("assistant.inputPlaceholder")}
+                    disabled={isLoading || loadingConversation}
+                    className="flex-1 bg-white/80 dark:bg-slate-800/80 border-blue-100 dark:border-blue-900 rounded-full pl-4 pr-4 py-6 focus-visible:ring-blue-500"
+                  />
+                  <VoiceInputButton
+                    onTranscript={appendToInput}
+                    disabled={isLoading || loadingConversation}
+                    className="rounded-full h-12 w-12"
+                  />
+                  {isLoading ? (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="outline"
+                      onClick={stopGenerating}
+                      aria-label={t("assistant.stop")}
+                      className="rounded-full h-12 w-12 shadow-md"
+                    >
+                      <Square className="h-5 w-5" />
+                    </Button>
+                  ) : (
+                    <Button
+                      type="submit"
+                      size="icon"
+                      disabled={loadingConversation || !input.trim()}
+                      aria-label={t("assistant.send")}
+                      className="rounded-full h-12 w-12 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 shadow-md"
+                    >
+                      <Send className="h-5 w-5" />
+                    </Button>
+                  )}
+                </form>
+              </div>
             </div>
-          </div>
-        </Card>
+          </Card>
+        </div>
 
         <div className="mt-8 flex justify-center">
           <Button variant="outline" className="gap-2 rounded-full px-6">
             <ArrowRight className="h-4 w-4" />
-            <span>Browse Job Listings</span>
+            <span>{t("assistant.browseJobs")}</span>
           </Button>
         </div>
       </div>
@@ -3,217 +3,112 @@
 import { useEffect, useState, ChangeEvent, FormEvent } from "react";
 import { Button } from "@/components/ui/button";
 import PostItem from "@/components/post-item";
-import { getCurrentUser, getIdTokenNoParam } from "@/utils";
 import { useParams } from "next/navigation";
 import CreatePost from "@/components/createPost";
 import {toast} from "sonner"
-
-// Timestamp interface for createdAt/updatedAt
-interface Timestamp {
-  _seconds: number;
-  _nanoseconds: number;
-}
-
-// Community and Post types based on your API response
-interface Community {
-  communityId: string;
-  communityName: string;
-  description: string;
-  memberCount: number;
-  moderator: string;
-  createdAt: Timestamp;
-  communityBackgroundPhoto: string;
-  communityProfilePhoto: string;
-  posts: Post[];
-}
-
-export interface Post {
-  communityId: string;
-  id: string;
-  title: string;
-  content: string;
-  author: string;
-  timeAgo: string;
-  likes: number;
-  dislikes: number;
-  image: string | null;
-  comments: Comment[];
-  createdAt: any;
-  updatedAt: any;
-}
-
-export interface Comment {
-  id: string;
-  author: string;
-  content: string;
-  timeAgo: string;
-  likes: number;
-  dislikes: number;
-}
+import { useLocale } from "@/context/localeContext";
+import { useUser } from "@/context/userContext";
+import {
+  useCommunity,
+  useCommunityMembership,
+  useCommunityPosts,
+} from "@/hooks/communityHook";
+import { isApiError } from "@/lib/apiClient";
 
 export default function CommunityPage({ params }: { params: { id: string } }) {
-  const [community, setCommunity] = useState<Community | null>(null);
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
+  const { t, formatDate } = useLocale();
   const [error, setError] = useState<string>("");
-  // Local membership state
-  const [isMember, setIsMember] = useState<boolean>(false);
-  // Joined community IDs for the current user
-  const [joinedCommunityIds, setJoinedCommunityIds] = useState<string[]>([]);
   // New post state
   const [newPost, setNewPost] = useState({ title: "", content: "" });
+  const { user } = useUser();
   
   // Get community id from URL params using Next 13 App Router hook
   const { id } = useParams();
 
-  // Fetch community details
-  useEffect(() => {
-    async function fetchCommunityDetails() {
-      setLoading(true)
-      try {
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/${id}`, {
-          method: "GET",
-          headers: { "Authorization": `Bearer ${idToken}` },
-        });
-        if (!res.ok) toast.error("Failed to fetch community details");
-        const data = await res.json();
-        // Assume API returns the community data under 'community'
-        const resCommunity: Community = data.community;
-        setCommunity(resCommunity);
-        setLoading(false)
-      } catch (err) {
-        toast.error("Failed to load community details")
-        setLoading(false)
-      }
-    }
-    fetchCommunityDetails();
-  }, [id]);
-
-  // Fetch community posts
+  const {
+    data: community,
+    loading,
+    error: communityError,
+  } = useCommunity(id as string);
+  const { data: posts = [], error: postsError } = useCommunityPosts(
+    id as string
+  );
+  // Membership for the current user
+  const {
+    isMember: isJoined,
+    error: joinedError,
+    join,
+    leave,
+  } = useCommunityMembership();
+  const isMember = !!community && isJoined(community.communityId);
+
+  // Report failed community details
   useEffect(() => {
-    async function fetchCommunityPosts() {
-      try {
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/posts?communityId=${id}`, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${idToken}`
-          },
-        });
-        if (!res.ok) toast.error("Failed to fetch posts. Try again later");
-        const data = await res.json();
-        setPosts(data.posts);
-      } catch (err) {
-        toast.error("Failed to load posts");
-      }
-    }
-    fetchCommunityPosts();
-  }, [id]);
-
-  // Fetch joined communities for the current user on mount
+    if (!communityError) return;
+    toast.error(
+      t(
+        isApiError(communityError)
+          ? "community.toast.fetchDetailsFailed"
+          : "community.toast.loadDetailsFailed"
+      )
+    )
+  }, [communityError, t]);
+
+  // Report failed community posts
   useEffect(() => {
-    async function fetchJoinedCommunities() {
-      try {
-        const currentUser = await getCurrentUser();
-        if (!currentUser) return;
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/joined/${currentUser.uid}`,
-          {
-            method: "GET",
-            headers: {
-              "Authorization": `Bearer ${idToken}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-        if (!res.ok) throw toast.error("Failed to fetch joined communities. Try again later");
-        const data = await res.json();
-        // If API returns an array directly, use it; otherwise, use data.communities.
-        const joinedIds: string[] = Array.isArray(data)
-          ? data.map((c: Community) => c.communityId)
-          : data.communities.map((c: Community) => c.communityId);
-        setJoinedCommunityIds(joinedIds);
-        
-      } catch (error) {
-        toast.error("Error fetching joined communities. Try again later");
-      }
-    }
-    fetchJoinedCommunities();
-  }, []);
-
-  // Update isMember based on fetched joined community IDs and current community details
+    if (!postsError) return;
+    toast.error(
+      t(
+        isApiError(postsError)
+          ? "community.toast.fetchPostsFailed"
+          : "community.toast.loadPostsFailed"
+      )
+    );
+  }, [postsError, t]);
+
+  // Report failed joined communities
   useEffect(() => {
-    if (community) {
-      setIsMember(joinedCommunityIds.includes(community.communityId));
-    }
-  }, [community, joinedCommunityIds]);
+    if (!joinedError) return;
+    toast.error(
+      t(
+        isApiError(joinedError)
+          ? "community.toast.fetchJoinedRetry"
+          : "community.toast.fetchJoinedErrorRetry"
+      )
+    );
+  }, [joinedError, t]);
 
   // Handle join/leave actions
   const handleJoinLeave = async () => {
     if (!community) return;
-    const formData = new FormData();
-    
+    const leaving = isMember;
+
+    if (!user) {
+      toast.error(t("community.toast.notAuthenticated"));
+      return;
+    }
+
     try {
-      const user = await getCurrentUser();
-      const userId = user?.uid;
-      if (!userId) {
-        toast.error("User is not authenticated");
-        return;
-      }
-      formData.append("userId",userId)
-      formData.append("communityId",community.communityId)
-      formData.append("communityName", community.communityName)
-      
-      const idToken = await getIdTokenNoParam();
-      if (isMember) {
-        // Leave community
-        setIsMember(false);
-        const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/leave`, {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${idToken}`
-          },
-          body: formData
-        });
-        const data = await res.json();
-        console.log(data)
-        if (!res.ok) {
-          setIsMember(true);
-          toast.error("Failed to leave community");
-        }
-        
-        // Optionally update joined community IDs state
-        setJoinedCommunityIds((prev) => prev.filter((id) => id !== community.communityId));
-        toast.success(`Successfully left ${community.communityName}`);
+      if (leaving) {
+        await leave(community);
+        toast.success(t("community.toast.leftNamed", { name: community.communityName }));
       } else {
-        // Join community
-        setIsMember(true);
-        const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/join`, {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${idToken}` 
-          },
-          body: formData
-        });
-        if (!res.ok) {
-          setIsMember(false);
-          toast.error("Failed to join community");
-        }
-        setJoinedCommunityIds((prev) => [...prev, community.communityId]);
-        toast.success(`Successfully Joined ${community.communityName}`);
+        await join(community);
+        toast.success(t("community.toast.joinedNamed", { name: community.communityName }));
       }
     } catch (err) {
-      toast.error("Unexpected error occured. Please refresh the page and try again");
+      if (isApiError(err)) {
+        toast.error(t(leaving ? "community.toast.leaveFailed" : "community.toast.joinFailed"));
+      } else {
+        toast.error(t("community.toast.unexpectedError"));
+      }
     }
   };
 
-  if (loading) return <div className="text-center py-10">Loading...</div>;
+  if (loading) return <div className="text-center py-10">{t("common.loading")}</div>;
   if (error || !community) {
-    toast.error("Failed to load community.Please try again later");
-    return <div className="text-center py-10">Failed to load community</div>;
+    toast.error(t("community.toast.loadFailedRetry"));
+    return <div className="text-center py-10">{t("community.loadFailed")}</div>;
   }
 
   return (
@@ -246,14 +141,14 @@ export default function CommunityPage({ params }: { params: { id: string } }) {
                   {community?.communityName}
                 </h1>
                 <p className="text-gray-500 text-sm">
-                  {community?.memberCount} members
+                  {t("community.members", { count: community?.memberCount ?? 0 })}
                 </p>
               </div>
               <Button
                 onClick={handleJoinLeave}
                 className="bg-blue-600 hover:bg-blue-700"
               >
-                {isMember ? "Leave Community" : "Join Community"}
+                {isMember ? t("community.leaveCommunity") : t("community.joinCommunity")}
               </Button>
             </div>
             <p className="mt-4 text-gray-700">{community?.description}</p>
@@ -265,22 +160,22 @@ export default function CommunityPage({ params }: { params: { id: string } }) {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="md:col-span-2">
           {/* Create Post (only visible if member) */}
-          {isMember && <CreatePost communityId={community.communityId} setPosts={setPosts} />}
+          {isMember && <CreatePost communityId={community.communityId} />}
 
           {/* Recent Posts */}
           <div className="bg-white rounded-lg shadow p-4">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-semibold text-blue-600">Recent Posts</h2>
+              <h2 className="text-xl font-semibold text-blue-600">{t("community.recentPosts")}</h2>
               <div className="text-sm text-blue-600 font-medium">
-                <span className="mr-2">Sort by:</span>
+                <span className="mr-2">{t("community.sortBy")}</span>
                 <select className="bg-transparent text-blue-600 focus:outline-none">
-                  <option>Newest</option>
-                  <option>Most Popular</option>
+                  <option>{t("community.sort.newest")}</option>
+                  <option>{t("community.sort.popular")}</option>
                 </select>
               </div>
             </div>
             {posts.length === 0 ? (
-              <p className="text-gray-500">No posts yet. Be the first to share something!</p>
+              <p className="text-gray-500">{t("community.noPosts")}</p>
             ) : (
               <div className="space-y-6">
                 {posts.map((post) => (
@@ -300,16 +195,16 @@ export default function CommunityPage({ params }: { params: { id: string } }) {
         <div className="md:col-span-1">
           <div className="bg-white rounded-lg shadow p-4 mb-6">
             <h2 className="text-lg font-semibold text-blue-600 mb-4">
-              About {community.communityName}
+              {t("community.aboutNamed", { name: community.communityName })}
             </h2>
             <p className="text-gray-700 mb-4">{community.description}</p>
             <div className="space-y-3 text-sm text-gray-500">
-              <p><strong>Members:</strong> {community.memberCount}</p>
+              <p><strong>{t("community.membersLabel")}</strong> {community.memberCount}</p>
               <p>
-                <strong>Created:</strong>{" "}
-                {new Date(community.createdAt._seconds * 1000).toLocaleDateString()}
+                <strong>{t("community.createdLabel")}</strong>{" "}
+                {formatDate(community.createdAt._seconds * 1000)}
               </p>
-              <p><strong>Moderator:</strong> Blue Collar Connect</p>
+              <p><strong>{t("community.moderatorLabel")}</strong> Blue Collar Connect</p>
             </div>
           </div>
         </div>
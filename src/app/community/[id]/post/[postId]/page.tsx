@@ -5,34 +5,12 @@ import { useParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import CommentItem from "@/components/comment-item";
-import { getIdTokenNoParam, getCurrentUser } from "@/utils";
+import { getCurrentUser } from "@/utils";
 import { Blob } from "buffer";
 import { toast } from "sonner";
-
-// Interfaces for the post and comment
-interface Comment {
-  id: string;
-  author: string;
-  content: string;
-  timeAgo: string;
-  likes: number;
-  dislikes: number;
-}
-
-interface CommunityPost {
-  communityId: string;
-  id: string;
-  title: string;
-  content: string;
-  author: string;
-  timeAgo: string;
-  likes: number;
-  dislikes: number;
-  image: string | null;
-  comments: Comment[];
-  createdAt: any;
-  updatedAt: any;
-}
+import { useLocale } from "@/context/localeContext";
+import { addCommunityComment } from "@/actions/community";
+import { useCommunityPost } from "@/hooks/communityHook";
 
 interface PostPageProps {
   params: {
@@ -43,37 +21,19 @@ interface PostPageProps {
 
 export default function PostPage({ params }: PostPageProps) {
   const { id, postId } = useParams();
-  const [post, setPost] = useState<CommunityPost | null>(null);
   const [commentContent, setCommentContent] = useState("");
   const [loading, setLoading] = useState(false);
+  const { t } = useLocale();
 
-  // Function to fetch the post from the API
-  const fetchPost = async () => {
-    try {
-      const token = await getIdTokenNoParam();
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/get-post?postId=${postId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-      const data = await res.json();
-      if (res.ok) {
-        setPost(data.post);
-      } else {
-        toast.error("Error fetching post");
-      }
-    } catch (error) {
-      toast.error("Error fetching post");
-    }
-  };
+  const {
+    data: post,
+    error: postError,
+    refetch: fetchPost,
+  } = useCommunityPost(postId as string);
 
   useEffect(() => {
-    fetchPost();
-  }, [postId]);
+    if (postError) toast.error(t("community.toast.fetchPostError"));
+  }, [postError, t]);
 
   // Handle comment submission
   const handleCommentSubmit = async (e: FormEvent) => {
@@ -82,39 +42,21 @@ export default function PostPage({ params }: PostPageProps) {
 
     setLoading(true);
     try {
-      const token = await getIdTokenNoParam();
       const currentUser = await getCurrentUser();
 
-      if (token && currentUser) {
-        const payload = {
-          userId: currentUser?.email,
-          postId: postId,
-          content: commentContent,
-        };
-
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/add-comment`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${token}`,
-            },
-            body: JSON.stringify(payload),
-          }
+      if (currentUser?.email) {
+        await addCommunityComment(
+          postId as string,
+          currentUser.email,
+          commentContent
         );
-        const data = await res.json();
-        if (res.ok) {
-          // re-fetch the post to update the comments
-          await fetchPost();
-          setCommentContent("");
-          toast.success("Comment added successfully");
-        } else {
-          toast.error("Error adding comment");
-        }
+        // re-fetch the post to update the comments
+        await fetchPost();
+        setCommentContent("");
+        toast.success(t("community.toast.commentAdded"));
       }
     } catch (error) {
-      toast.error("Error adding comment");
+      toast.error(t("community.toast.commentError"));
     } finally {
       setLoading(false);
     }
@@ -124,7 +66,7 @@ export default function PostPage({ params }: PostPageProps) {
   if (!post) {
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <p>Loading post...</p>
+        <p>{t("community.loadingPost")}</p>
       </div>
     );
   }
@@ -218,7 +160,9 @@ export default function PostPage({ params }: PostPageProps) {
                 >
                   <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
                 </svg>
-                <span>{post.comments.length} comments</span>
+                <span>
+                  {t("community.comments", { count: post.comments.length })}
+                </span>
               </div>
               <div className="flex items-center gap-1 text-gray-500 ml-auto">
                 <button className="hover:text-blue-600 p-1">
@@ -260,11 +204,11 @@ export default function PostPage({ params }: PostPageProps) {
 
             <div className="mb-6">
               <h2 className="text-lg font-semibold text-blue-600 mb-4">
-                Add a Comment
+                {t("community.addComment")}
               </h2>
               <form onSubmit={handleCommentSubmit} className="space-y-4">
                 <Textarea
-                  placeholder="What are your thoughts?"
+                  placeholder={t("community.commentPlaceholder")}
                   className="min-h-[100px] border-blue-200"
                   value={commentContent}
                   onChange={(e) => setCommentContent(e.target.value)}
@@ -275,7 +219,7 @@ export default function PostPage({ params }: PostPageProps) {
                     className="bg-blue-600 hover:bg-blue-700"
                     disabled={loading}
                   >
-                    {loading ? "Posting..." : "Comment"}
+                    {loading ? t("community.posting") : t("community.comment")}
                   </Button>
                 </div>
               </form>
@@ -283,7 +227,9 @@ export default function PostPage({ params }: PostPageProps) {
 
             <div>
               <h2 className="text-lg font-semibold text-blue-600 mb-4">
-                Comments ({post.comments.length})
+                {t("community.commentsHeading", {
+                  count: post.comments.length,
+                })}
               </h2>
               <div className="space-y-4">
                 {post.comments.map((comment) => (
@@ -1,279 +1,144 @@
 "use client";
 
-import { useEffect, useState, ChangeEvent } from "react";
+import { useEffect, useMemo, useState, ChangeEvent } from "react";
 import Link from "next/link";
 import { Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import CommunityList from "@/components/community-list";
-import { getCurrentUser, getIdTokenNoParam } from "@/utils";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-
-interface Timestamp {
-  _seconds: number;
-  _nanoseconds: number;
-}
-
-interface Post {
-  id: string;
-  timeAgo: string;
-  title: string;
-  content: string;
-  image?: string;
-  likes: number;
-  dislikes: number;
-  comments?: any[];
-}
-
-export interface Community {
-  communityId: string;
-  communityName: string;
-  communityDescription: string;
-  communityType: string;
-  communityTopics: string[];
-  communityRules: string[];
-  communityProfilePhoto: string;
-  communityBackgroundPhoto: string;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-  memberCount: number;
-  posts?: Post[];
-}
-
-interface CommunitiesApiResponse {
-  message: string;
-  communities: Community[];
-  count: number;
-  nextCursor: string;
-  hasMore: boolean;
-}
+import { useLocale } from "@/context/localeContext";
+import { useUser } from "@/context/userContext";
+import {
+  useCommunities,
+  useCommunityMembership,
+  useCommunitySearch,
+  useJoinedCommunityPosts,
+} from "@/hooks/communityHook";
+import { useDebouncedValue } from "@/hooks/debounceHook";
+import { isApiError } from "@/lib/apiClient";
+import type { Community, CommunityPost as Post } from "@/types/community";
 
 export default function HomePage() {
-  const [allCommunities, setAllCommunities] = useState<Community[]>([]);
-  const [displayCommunities, setDisplayCommunities] = useState<Community[]>([]);
-  // joinedPosts will now be an array of posts augmented with communityId.
-  const [joinedPosts, setJoinedPosts] = useState<(Post & { communityId: string })[]>([]);
-  const [loading, setLoading] = useState<boolean>(false);
   const [searchTerm, setSearchTerm] = useState<string>("");
-  // Track joined community IDs
-  const [joinedCommunityIds, setJoinedCommunityIds] = useState<string[]>([]);
+  const debouncedSearchTerm = useDebouncedValue(searchTerm.trim(), 500);
   const router = useRouter();
+  const { t } = useLocale();
+  const { user } = useUser();
 
-  // Fetch all communities on mount
-  useEffect(() => {
-    const fetchAllCommunities = async (): Promise<void> => {
-      setLoading(true);
-      try {
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/all`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${idToken}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-        if (!res.ok) toast.error("Failed to fetch communities");
-        const data: CommunitiesApiResponse = await res.json();
-        const communities = data.communities || [];
-        setAllCommunities(communities);
-        setDisplayCommunities(communities);
-      } catch (error) {
-        toast.error("Error fetching communities");
-      } finally {
-        setLoading(false);
+  const { data: allCommunities = [], loading: communitiesLoading, error: communitiesError } =
+    useCommunities();
+  const { data: joinedPostCommunities, error: joinedPostsError } =
+    useJoinedCommunityPosts();
+  const search = useCommunitySearch(debouncedSearchTerm);
+  // Track joined community IDs
+  const { joined, error: joinedError, join, leave } = useCommunityMembership();
+  const joinedCommunityIds = joined.map((community) => community.communityId);
+
+  const displayCommunities =
+    searchTerm.trim() === "" ? allCommunities : search.data || [];
+  const loading =
+    searchTerm.trim() === ""
+      ? communitiesLoading
+      : debouncedSearchTerm !== searchTerm.trim() || search.loading;
+
+  // joinedPosts is an array of posts augmented with communityId (Recent Posts)
+  const joinedPosts = useMemo(() => {
+    const posts: (Post & { communityId: string })[] = [];
+    (joinedPostCommunities || []).forEach((community) => {
+      if (community.posts && community.posts.length > 0) {
+        community.posts.slice(0, 2).forEach((post: Post) => {
+          posts.push({ ...post, communityId: community.communityId });
+        });
       }
-    };
-    fetchAllCommunities();
-  }, []);
+    });
+    return posts;
+  }, [joinedPostCommunities]);
 
-  // Fetch joined communities for the current user on mount
   useEffect(() => {
-    const fetchJoinedCommunities = async (): Promise<void> => {
-      try {
-        const currentUser = await getCurrentUser();
-        if (!currentUser) return;
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/joined/${currentUser.uid}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${idToken}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-        if (!res.ok) toast.error("Failed to fetch joined communities");
-        const data = await res.json();
-        // Adjust the mapping based on your API response format.
-        const joinedIds: string[] = Array.isArray(data)
-          ? data.map((community: Community) => community.communityId)
-          : data.communities.map((community: Community) => community.communityId);
-        setJoinedCommunityIds(joinedIds);
-      } catch (error) {
-        toast.error("Error fetching joined communities");
-      }
-    };
-    fetchJoinedCommunities();
-  }, []);
+    if (!communitiesError) return;
+    toast.error(
+      t(
+        isApiError(communitiesError)
+          ? "community.toast.fetchCommunitiesFailed"
+          : "community.toast.fetchCommunitiesError"
+      )
+    );
+  }, [communitiesError, t]);
 
-  // Fetch joined posts for the current user on mount (Recent Posts)
   useEffect(() => {
-    const fetchJoinedPosts = async (): Promise<void> => {
-      try {
-        const currentUser = await getCurrentUser();
-        if (!currentUser) return;
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/joined-posts?userId=${currentUser.uid}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${idToken}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-        if (!res.ok) toast.error("Failed to fetch joined posts");
-        const data = await res.json();
-        // Data is in the format: { message: "...", communities: [ { communityId, posts: [...] }, ... ] }
-        const posts: (Post & { communityId: string })[] = [];
-        (data.communities || []).forEach((community: any) => {
-          if (community.posts && community.posts.length > 0) {
-            community.posts.slice(0, 2).forEach((post: Post) => {
-              posts.push({ ...post, communityId: community.communityId });
-            });
-          }
-        });
-        setJoinedPosts(posts);
-      } catch (error) {
-        toast.error("Error fetching joined posts");
-      }
-    };
-    fetchJoinedPosts();
-  }, []);
+    if (!joinedError) return;
+    toast.error(
+      t(
+        isApiError(joinedError)
+          ? "community.toast.fetchJoinedFailed"
+          : "community.toast.fetchJoinedError"
+      )
+    );
+  }, [joinedError, t]);
 
-  // Handle search term changes (debounced)
   useEffect(() => {
-    if (searchTerm.trim() === "") {
-      setDisplayCommunities(allCommunities);
-    } else {
-      const timeout = setTimeout(() => {
-        searchCommunities(searchTerm);
-      }, 500);
-      return () => clearTimeout(timeout);
-    }
-  }, [searchTerm, allCommunities]);
+    if (!joinedPostsError) return;
+    toast.error(
+      t(
+        isApiError(joinedPostsError)
+          ? "community.toast.fetchJoinedPostsFailed"
+          : "community.toast.fetchJoinedPostsError"
+      )
+    );
+  }, [joinedPostsError, t]);
 
-  // Search communities by name
-  const searchCommunities = async (term: string): Promise<void> => {
-    setLoading(true);
-    try {
-      const idToken = await getIdTokenNoParam();
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/search?name=${encodeURIComponent(
-          term
-        )}&limit=5`,
-        {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${idToken}`,
-          },
-        }
-      );
-      if (!res.ok) toast.error("Failed to search communities");
-      const data = await res.json();
-      // Adjust based on your API response field (e.g. "results" or "communities")
-      setDisplayCommunities(data.results || []);
-    } catch (error) {
-      toast.error("Error searching communities");
-      setDisplayCommunities([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (!search.error) return;
+    toast.error(
+      t(
+        isApiError(search.error)
+          ? "community.toast.searchFailed"
+          : "community.toast.searchError"
+      )
+    );
+  }, [search.error, t]);
 
   // Function to join a community
   const joinCommunity = async (community: Community): Promise<void> => {
-    try {
-      const formData = new FormData();
-      const idToken = await getIdTokenNoParam();
-      const currentUser = await getCurrentUser();
-      if (!currentUser) {
-        toast.error("User is not authenticated");
-        return;
-      }
-
-      setJoinedCommunityIds((prev) => [...prev, community.communityId]);
-      formData.append("userId", currentUser.uid);
-      formData.append("communityId", community.communityId);
-      formData.append("communityName", community.communityName);
+    if (!user) {
+      toast.error(t("community.toast.notAuthenticated"));
+      return;
+    }
 
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/join`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${idToken}`,
-          },
-          body: formData,
-        }
-      );
-      if (!res.ok) {
-        setJoinedCommunityIds((prev) =>
-          prev.filter((id) => id !== community.communityId)
-        );
-        toast.error("Failed to join community");
-      }
-      const data = await res.json();
-      toast.success("Joined community successfully");
+    try {
+      await join(community);
+      toast.success(t("community.toast.joined"));
     } catch (error) {
-      toast.error("Error joining community");
+      toast.error(
+        t(
+          isApiError(error)
+            ? "community.toast.joinFailed"
+            : "community.toast.joinError"
+        )
+      );
     }
   };
 
   // Function to leave a community
   const leaveCommunity = async (community: Community): Promise<void> => {
-    try {
-      const formData = new FormData();
-      const idToken = await getIdTokenNoParam();
-      const currentUser = await getCurrentUser();
-      if (!currentUser) {
-        toast.error("User is not authenticated");
-        return;
-      }
+    if (!user) {
+      toast.error(t("community.toast.notAuthenticated"));
+      return;
+    }
 
-      setJoinedCommunityIds((prev) =>
-        prev.filter((id) => id !== community.communityId)
-      );
-      formData.append("userId", currentUser.uid);
-      formData.append("communityId", community.communityId);
-      formData.append("communityName", community.communityName);
-      
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/leave`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${idToken}`,
-          },
-          body: formData
-        }
-      );
-      if (!res.ok) {
-        setJoinedCommunityIds((prev) => [...prev, community.communityId]);
-        toast.error("Failed to leave community");
-      }
-      const data = await res.json();
-      toast.success("Left community successfully");
-      
+    try {
+      await leave(community);
+      toast.success(t("community.toast.left"));
     } catch (error) {
-      toast.error("Error leaving community");
+      toast.error(
+        t(
+          isApiError(error)
+            ? "community.toast.leaveFailed"
+            : "community.toast.leaveError"
+        )
+      );
     }
   };
 
@@ -284,10 +149,10 @@ export default function HomePage() {
           {/* Header */}
           <div className="flex flex-col gap-2">
             <h1 className="text-3xl font-bold text-blue-600">
-              BlueCollar Community
+              {t("community.title")}
             </h1>
             <p className="text-blue-600/80">
-              Find jobs and connect with other workers in your industry
+              {t("community.subtitle")}
             </p>
           </div>
 
@@ -297,7 +162,7 @@ export default function HomePage() {
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-blue-500/50" />
               <Input
                 type="search"
-                placeholder="Search communities..."
+                placeholder={t("community.searchPlaceholder")}
                 className="pl-8 border-blue-200 focus-visible:ring-blue-500"
                 value={searchTerm}
                 onChange={(e: ChangeEvent<HTMLInputElement>) =>
@@ -306,7 +171,7 @@ export default function HomePage() {
               />
             </div>
             <Button className="bg-blue-600 hover:bg-blue-700">
-              <Link href="/create-community">Create Community</Link>
+              <Link href="/create-community">{t("community.create")}</Link>
             </Button>
           </div>
 
@@ -316,10 +181,10 @@ export default function HomePage() {
               {/* Popular Communities */}
               <div className="bg-white rounded-lg shadow p-4 mb-6">
                 <h2 className="text-xl font-semibold text-blue-600 mb-4">
-                  Popular Communities
+                  {t("community.popular")}
                 </h2>
                 {loading ? (
-                  <p>Loading communities...</p>
+                  <p>{t("community.loading")}</p>
                 ) : (
                   <CommunityList
                     communities={displayCommunities.slice(0, 5)}
@@ -334,13 +199,13 @@ export default function HomePage() {
               <div className="bg-white rounded-lg shadow p-4">
                 <div className="flex justify-between items-center mb-4">
                   <h2 className="text-xl font-semibold text-blue-600">
-                    Recent Posts
+                    {t("community.recentPosts")}
                   </h2>
                   <Link
                     href="/community/posts"
                     className="text-blue-600 text-sm hover:underline"
                   >
-                    View All
+                    {t("community.viewAll")}
                   </Link>
                 </div>
                 <div className="space-y-4">
@@ -436,7 +301,11 @@ export default function HomePage() {
                           >
                             <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
                           </svg>
-                          <span>{post.comments?.length || 0} comments</span>
+                          <span>
+                            {t("community.comments", {
+                              count: post.comments?.length || 0,
+                            })}
+                          </span>
                         </div>
                       </div>
                     </div>
@@ -450,7 +319,7 @@ export default function HomePage() {
               {/* Trending Communities */}
               <div className="bg-white rounded-lg shadow p-4 mb-6">
                 <h2 className="text-lg font-semibold text-blue-600 mb-4">
-                  Trending Communities
+                  {t("community.trending")}
                 </h2>
                 <div className="space-y-3">
                   {allCommunities
@@ -472,7 +341,7 @@ export default function HomePage() {
                             {community.communityName}
                           </Link>
                           <p className="text-xs text-gray-500">
-                            {community.memberCount} members
+                            {t("community.members", { count: community.memberCount })}
                           </p>
                         </div>
                       </div>
@@ -482,19 +351,17 @@ export default function HomePage() {
                   variant="outline"
                   className="w-full mt-4 text-blue-600 border-blue-200 hover:bg-blue-50"
                 >
-                  <Link href="/community/view-all">View All Communities</Link>
+                  <Link href="/community/view-all">{t("community.viewAllCommunities")}</Link>
                 </Button>
               </div>
 
               {/* About BlueCollar */}
               <div className="bg-white rounded-lg shadow p-4">
                 <h2 className="text-lg font-semibold text-blue-600 mb-4">
-                  About BlueCollar
+                  {t("community.about")}
                 </h2>
                 <p className="text-gray-700 mb-4">
-                  BlueCollar is a community platform for blue collar workers to
-                  find jobs, share experiences, and connect with others in their
-                  industry.
+                  {t("community.aboutText")}
                 </p>
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
@@ -518,8 +385,12 @@ export default function HomePage() {
                       </svg>
                     </div>
                     <span className="text-gray-700">
-                      {allCommunities.reduce((acc, c) => acc + c.memberCount, 0)}{" "}
-                      members
+                      {t("community.members", {
+                        count: allCommunities.reduce(
+                          (acc, c) => acc + c.memberCount,
+                          0
+                        ),
+                      })}
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
@@ -549,7 +420,9 @@ export default function HomePage() {
                       </svg>
                     </div>
                     <span className="text-gray-700">
-                      {allCommunities.length} communities
+                      {t("community.communities", {
+                        count: allCommunities.length,
+                      })}
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
@@ -570,7 +443,7 @@ export default function HomePage() {
                         <path d="M10 2c1 .5 2 2 2 5" />
                       </svg>
                     </div>
-                    <span className="text-gray-700">Created in 2023</span>
+                    <span className="text-gray-700">{t("community.createdIn")}</span>
                   </div>
                 </div>
               </div>
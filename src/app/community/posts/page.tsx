@@ -1,95 +1,47 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import { getCurrentUser, getIdTokenNoParam } from "@/utils";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-
-interface Timestamp {
-  _seconds: number;
-  _nanoseconds: number;
-}
-
-interface Post {
-  id: string;
-  timeAgo: string;
-  title: string;
-  content: string;
-  image?: string;
-  likes: number;
-  dislikes: number;
-  comments?: any[];
-}
-
-export interface Community {
-  communityId: string;
-  communityName: string;
-  communityDescription: string;
-  communityType: string;
-  communityTopics: string[];
-  communityRules: string[];
-  communityProfilePhoto: string;
-  communityBackgroundPhoto: string;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-  memberCount: number;
-  posts?: Post[];
-}
-
-interface JoinedPostsResponse {
-  message: string;
-  communities: Community[];
-}
+import { useLocale } from "@/context/localeContext";
+import { useJoinedCommunityPosts } from "@/hooks/communityHook";
+import { isApiError } from "@/lib/apiClient";
+import type { CommunityPost as Post } from "@/types/community";
 
 export default function AllPostsPage() {
-  const [allPosts, setAllPosts] = useState<(Post & { communityId: string; communityName: string })[]>([]);
-  const [loading, setLoading] = useState<boolean>(false);
+  const { data: communities, loading, error } = useJoinedCommunityPosts();
   const router = useRouter();
+  const { t } = useLocale();
 
-  useEffect(() => {
-    const fetchAllPosts = async (): Promise<void> => {
-      setLoading(true);
-      try {
-        const currentUser = await getCurrentUser();
-        if (!currentUser) return;
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/joined-posts?userId=${currentUser.uid}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${idToken}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-        if (!res.ok) toast.error("Failed to fetch joined posts");
-        const data: JoinedPostsResponse = await res.json();
-        // Flatten posts: get all posts from every community.
-        const posts: (Post & { communityId: string; communityName: string })[] = [];
-        (data.communities || []).forEach((community) => {
-          if (community.posts && community.posts.length > 0) {
-            community.posts.forEach((post) => {
-              posts.push({
-                ...post,
-                communityId: community.communityId,
-                communityName: community.communityName,
-              });
-            });
-          }
+  // Flatten posts: get all posts from every community.
+  const allPosts = useMemo(() => {
+    const posts: (Post & { communityId: string; communityName: string })[] = [];
+    (communities || []).forEach((community) => {
+      if (community.posts && community.posts.length > 0) {
+        community.posts.forEach((post) => {
+          posts.push({
+            ...post,
+            communityId: community.communityId,
+            communityName: community.communityName,
+          });
         });
-        setAllPosts(posts);
-      } catch (error) {
-        toast.error("Error fetching all posts");
-      } finally {
-        setLoading(false);
       }
-    };
+    });
+    return posts;
+  }, [communities]);
 
-    fetchAllPosts();
-  }, []);
+  useEffect(() => {
+    if (!error) return;
+    toast.error(
+      t(
+        isApiError(error)
+          ? "community.toast.fetchJoinedPostsFailed"
+          : "community.toast.fetchAllPostsError"
+      )
+    );
+  }, [error, t]);
 
   return (
     <div className="bg-gradient-to-b from-blue-50 to-white min-h-screen">
@@ -97,9 +49,9 @@ export default function AllPostsPage() {
         <div className="flex flex-col gap-6">
           {/* Header */}
           <div className="flex flex-col gap-2">
-            <h1 className="text-3xl font-bold text-blue-600">All Community Posts</h1>
+            <h1 className="text-3xl font-bold text-blue-600">{t("community.allPostsTitle")}</h1>
             <p className="text-blue-600/80">
-              Browse posts from all the communities you've joined.
+              {t("community.allPostsSubtitle")}
             </p>
           </div>
           {/* Layout Container */}
@@ -107,9 +59,9 @@ export default function AllPostsPage() {
             {/* About BlueCollar Component - on mobile, appears on top */}
             <div className="order-1 w-full md:w-[30%]">
               <div className="bg-white rounded-lg shadow p-4">
-                <h2 className="text-lg font-semibold text-blue-600 mb-4">About BlueCollar</h2>
+                <h2 className="text-lg font-semibold text-blue-600 mb-4">{t("community.about")}</h2>
                 <p className="text-gray-700 mb-4">
-                  BlueCollar is a community platform for blue collar workers to find jobs, share experiences, and connect with others in their industry.
+                  {t("community.aboutText")}
                 </p>
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
@@ -135,9 +87,9 @@ export default function AllPostsPage() {
                     <span className="text-gray-700">
                       {/** Total members from all communities */}
                       {/* Adjust if necessary */}
-                      {`${
-                        allPosts.reduce((acc, post) => acc, 0) // Dummy value if you need to compute members differently
-                      } members`}
+                      {t("community.members", {
+                        count: allPosts.reduce((acc, post) => acc, 0), // Dummy value if you need to compute members differently
+                      })}
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
@@ -186,7 +138,7 @@ export default function AllPostsPage() {
                         <path d="M10 2c1 .5 2 2 2 5" />
                       </svg>
                     </div>
-                    <span className="text-gray-700">Created in 2023</span>
+                    <span className="text-gray-700">{t("community.createdIn")}</span>
                   </div>
                 </div>
               </div>
@@ -195,7 +147,7 @@ export default function AllPostsPage() {
             <div className="order-2 w-full md:w-[70%]">
               <div className="bg-white rounded-lg shadow p-4">
                 {loading ? (
-                  <p>Loading posts...</p>
+                  <p>{t("community.loadingPosts")}</p>
                 ) : (
                   <div className="space-y-4">
                     {allPosts.map((post) => (
@@ -284,7 +236,7 @@ export default function AllPostsPage() {
                             >
                               <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
                             </svg>
-                            <span>{post.comments?.length || 0} comments</span>
+                            <span>{t("community.comments", { count: post.comments?.length || 0 })}</span>
                           </div>
                         </div>
                       </div>
@@ -5,154 +5,73 @@ import Link from "next/link";
 import { Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { getCurrentUser, getIdTokenNoParam } from "@/utils";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-
-interface Timestamp {
-  _seconds: number;
-  _nanoseconds: number;
-}
-
-export interface Community {
-  communityId: string;
-  communityName: string;
-  communityDescription: string;
-  communityType: string;
-  communityTopics: string[];
-  communityRules: string[];
-  communityProfilePhoto: string;
-  communityBackgroundPhoto: string;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-  memberCount: number;
-  posts?: any[];
-}
-
-interface CommunitiesApiResponse {
-  message: string;
-  communities: Community[];
-  count: number;
-  nextCursor: string;
-  hasMore: boolean;
-}
+import { useLocale } from "@/context/localeContext";
+import {
+  useCommunities,
+  useCommunityMembership,
+  useCommunitySearch,
+} from "@/hooks/communityHook";
+import { useDebouncedValue } from "@/hooks/debounceHook";
+import { isApiError } from "@/lib/apiClient";
+import type { Community } from "@/types/community";
 
 export default function CommunitiesPage() {
-  const [allCommunities, setAllCommunities] = useState<Community[]>([]);
-  const [joinedCommunities, setJoinedCommunities] = useState<Community[]>([]);
-  const [notJoinedCommunities, setNotJoinedCommunities] = useState<Community[]>([]);
   const [searchTerm, setSearchTerm] = useState<string>("");
-  const [loading, setLoading] = useState<boolean>(false);
+  const debouncedSearchTerm = useDebouncedValue(searchTerm.trim(), 500);
   const router = useRouter();
+  const { t } = useLocale();
 
-  // Fetch all communities on mount
-  useEffect(() => {
-    const fetchAllCommunities = async (): Promise<void> => {
-      setLoading(true);
-      try {
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/all`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${idToken}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-        if (!res.ok) toast.error("Failed to fetch communities");
-        const data: CommunitiesApiResponse = await res.json();
-        const communities = data.communities || [];
-        setAllCommunities(communities);
-      } catch (error) {
-        toast.error("Error fetching communities");
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchAllCommunities();
-  }, []);
+  const { data: allCommunities = [], error: communitiesError } =
+    useCommunities();
+  const {
+    joined: joinedCommunities,
+    error: joinedError,
+    isMember,
+    join,
+    leave,
+  } = useCommunityMembership();
+  // API search for NOT joined communities only
+  const search = useCommunitySearch(debouncedSearchTerm);
 
-  // Fetch joined communities for the current user
   useEffect(() => {
-    const fetchJoinedCommunities = async (): Promise<void> => {
-      try {
-        const currentUser = await getCurrentUser();
-        if (!currentUser) return;
-        const idToken = await getIdTokenNoParam();
-        const res = await fetch(
-          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/joined/${currentUser.uid}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${idToken}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-        if (!res.ok) toast.error("Failed to fetch joined communities");
-        const data = await res.json();
-        const joined: Community[] = Array.isArray(data)
-          ? data.map((comm: Community) => comm)
-          : data.communities;
-        setJoinedCommunities(joined);
-      } catch (error) {
-        toast.error("Error fetching joined communities");
-      }
-    };
-    fetchJoinedCommunities();
-  }, []);
+    if (!communitiesError) return;
+    toast.error(
+      t(
+        isApiError(communitiesError)
+          ? "community.toast.fetchCommunitiesFailed"
+          : "community.toast.fetchCommunitiesError"
+      )
+    );
+  }, [communitiesError, t]);
 
-  // When search term is empty, update not joined communities from local data
   useEffect(() => {
-    if (searchTerm.trim() === "") {
-      const joinedIds = new Set(joinedCommunities.map((c) => c.communityId));
-      setNotJoinedCommunities(allCommunities.filter((c) => !joinedIds.has(c.communityId)));
-    }
-  }, [searchTerm, allCommunities, joinedCommunities]);
-
-  // API search function for NOT joined communities only
-  const searchNotJoinedCommunities = async (term: string): Promise<void> => {
-    setLoading(true);
-    try {
-      const idToken = await getIdTokenNoParam();
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/search?name=${encodeURIComponent(
-          term
-        )}&limit=5`,
-        {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${idToken}`,
-          },
-        }
-      );
-      if (!res.ok) toast.error("Failed to search communities");
-      const data = await res.json();
-      const searchResults: Community[] = data.results || data.communities || [];
-      // Only include communities not already joined
-      const joinedIds = new Set(joinedCommunities.map((c) => c.communityId));
-      const notJoinedResults = searchResults.filter((c) => !joinedIds.has(c.communityId));
-      setNotJoinedCommunities(notJoinedResults);
-    } catch (error) {
-      toast.error("Error searching communities");
-      setNotJoinedCommunities([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+    if (!joinedError) return;
+    toast.error(
+      t(
+        isApiError(joinedError)
+          ? "community.toast.fetchJoinedFailed"
+          : "community.toast.fetchJoinedError"
+      )
+    );
+  }, [joinedError, t]);
 
-  // Debounce search for NOT joined communities via API
   useEffect(() => {
-    if (searchTerm.trim() !== "") {
-      const timeout = setTimeout(() => {
-        searchNotJoinedCommunities(searchTerm);
-      }, 500);
-      return () => clearTimeout(timeout);
-    }
-  }, [searchTerm, joinedCommunities]);
+    if (!search.error) return;
+    toast.error(
+      t(
+        isApiError(search.error)
+          ? "community.toast.searchFailed"
+          : "community.toast.searchError"
+      )
+    );
+  }, [search.error, t]);
+
+  // When search term is empty, not joined communities come from local data
+  const notJoinedCommunities = (
+    searchTerm.trim() === "" ? allCommunities : search.data || []
+  ).filter((c) => !isMember(c.communityId));
 
   // Local filtering for joined communities when searching
   const displayedJoinedCommunities =
@@ -165,68 +84,31 @@ export default function CommunitiesPage() {
   // Functions to join and leave communities
   const joinCommunity = async (community: Community): Promise<void> => {
     try {
-      const formData = new FormData();
-      const idToken = await getIdTokenNoParam();
-      const currentUser = await getCurrentUser();
-      if (!currentUser) return;
-      formData.append("userId", currentUser.uid);
-      formData.append("communityId", community.communityId);
-      formData.append("communityName", community.communityName);
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/join`,
-        {
-          method: "POST",
-          headers: { Authorization: `Bearer ${idToken}` },
-          body: formData,
-        }
-      );
-      if (!res.ok) toast.error("Failed to join community");
-      const data = await res.json();
-      // Update joined communities list locally
-      setJoinedCommunities((prev) => [...prev, community]);
-      // Also remove the joined community from not joined list if present
-      setNotJoinedCommunities((prev) =>
-        prev.filter((c) => c.communityId !== community.communityId)
-      );
-      toast.success("Joined community successfully");
+      await join(community);
+      toast.success(t("community.toast.joined"));
     } catch (error) {
-      toast.error("Error joining community");
+      toast.error(
+        t(
+          isApiError(error)
+            ? "community.toast.joinFailed"
+            : "community.toast.joinError"
+        )
+      );
     }
   };
 
   const leaveCommunity = async (community: Community): Promise<void> => {
     try {
-      const formData = new FormData();
-      const idToken = await getIdTokenNoParam();
-      const currentUser = await getCurrentUser();
-      if (!currentUser) return;
-      formData.append("userId", currentUser.uid);
-      formData.append("communityId", community.communityId);
-      formData.append("communityName", community.communityName);
-      const res = await fetch(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/leave`,
-        {
-          method: "POST",
-          headers: { Authorization: `Bearer ${idToken}` },
-          body: formData,
-        }
-      );
-      if (!res.ok) toast.error("Failed to leave community");
-      const data = await res.json();
-      // Remove the community from joined list
-      setJoinedCommunities((prev) =>
-        prev.filter((c) => c.communityId !== community.communityId)
-      );
-      // Optionally, add it back to not joined list if it matches current search/filter
-      if (
-        searchTerm.trim() === "" ||
-        community.communityName.toLowerCase().includes(searchTerm.toLowerCase())
-      ) {
-        setNotJoinedCommunities((prev) => [...prev, community]);
-        toast.success("Left community successfully");
-      }
+      await leave(community);
+      toast.success(t("community.toast.left"));
     } catch (error) {
-      toast.error("Error leaving community");
+      toast.error(
+        t(
+          isApiError(error)
+            ? "community.toast.leaveFailed"
+            : "community.toast.leaveError"
+        )
+      );
     }
   };
 
@@ -235,16 +117,16 @@ export default function CommunitiesPage() {
       <div className="container mx-auto px-4 py-8">
         {/* Page Header */}
         <div className="flex flex-col gap-2 mb-6">
-          <h1 className="text-3xl font-bold text-blue-600">Communities</h1>
+          <h1 className="text-3xl font-bold text-blue-600">{t("community.allTitle")}</h1>
           <p className="text-blue-600/80">
-            Browse and join communities that interest you.
+            {t("community.allSubtitle")}
           </p>
           {/* Search Input */}
           <div className="relative w-full">
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-blue-500/50" />
             <Input
               type="search"
-              placeholder="Search communities..."
+              placeholder={t("community.searchPlaceholder")}
               className="pl-8 border-blue-200 focus-visible:ring-blue-500 w-full"
               value={searchTerm}
               onChange={(e: ChangeEvent<HTMLInputElement>) =>
@@ -258,10 +140,10 @@ export default function CommunitiesPage() {
           {/* Joined Communities */}
           <div className="bg-white rounded-lg shadow p-4">
             <h2 className="text-xl font-semibold text-blue-600 mb-4">
-              Joined Communities
+              {t("community.joinedCommunities")}
             </h2>
             {displayedJoinedCommunities.length === 0 ? (
-              <p>You have not joined any communities yet.</p>
+              <p>{t("community.noneJoined")}</p>
             ) : (
               <div className="space-y-4">
                 {displayedJoinedCommunities.map((community) => (
@@ -281,7 +163,7 @@ export default function CommunitiesPage() {
                           {community.communityName}
                         </Link>
                         <p className="text-xs text-gray-500">
-                          {community.memberCount} members
+                          {t("community.members", { count: community.memberCount })}
                         </p>
                       </div>
                     </div>
@@ -289,7 +171,7 @@ export default function CommunitiesPage() {
                       className="bg-red-200 hover:bg-red-500 hover:text-white text-red-700"
                       onClick={() => leaveCommunity(community)}
                     >
-                      Leave
+                      {t("community.leave")}
                     </Button>
                   </div>
                 ))}
@@ -299,10 +181,10 @@ export default function CommunitiesPage() {
           {/* Other (Not Joined) Communities */}
           <div className="bg-white rounded-lg shadow p-4">
             <h2 className="text-xl font-semibold text-blue-600 mb-4">
-              Other Communities
+              {t("community.otherCommunities")}
             </h2>
             {notJoinedCommunities.length === 0 ? (
-              <p>No communities found.</p>
+              <p>{t("community.noneFound")}</p>
             ) : (
               <div className="space-y-4">
                 {notJoinedCommunities.map((community) => (
@@ -322,7 +204,7 @@ export default function CommunitiesPage() {
                           {community.communityName}
                         </Link>
                         <p className="text-xs text-gray-500">
-                          {community.memberCount} members
+                          {t("community.members", { count: community.memberCount })}
                         </p>
                       </div>
                     </div>
@@ -330,7 +212,7 @@ export default function CommunitiesPage() {
                       className="bg-blue-200 border border-blue-400 hover:bg-blue-400 hover:text-white text-blue-700"
                       onClick={() => joinCommunity(community)}
                     >
-                      Join
+                      {t("community.join")}
                     </Button>
                   </div>
                 ))}
@@ -0,0 +1,25 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import JobPostForm from "@/components/job-post";
+
+export default function EditJobPostPage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <Button variant="ghost" asChild className="mb-4 pl-0">
+        <Link href="/employer-post">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to my job posts
+        </Link>
+      </Button>
+
+      <JobPostForm jobId={id} />
+    </div>
+  );
+}
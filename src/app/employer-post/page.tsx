@@ -3,7 +3,6 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import {
-  Building2,
   MapPin,
   Briefcase,
   Banknote,
@@ -17,6 +16,9 @@ import {
   Trash2,
   Filter,
   User,
+  Lock,
+  LockOpen,
+  Loader2,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -47,6 +49,7 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
@@ -59,137 +62,33 @@ import {
 } from "@/components/ui/tooltip";
 import { Checkbox } from "@/components/ui/checkbox";
 import WorkerRequestCard from "@/components/WorkerRequest";
-
-interface JobLocation {
-  city?: string;
-  state?: string;
-  district?: string;
-  pincode?: string;
-}
-
-interface Job {
-  id: string;
-  employer_id: string;
-  job_title: string;
-  type_of_work: string;
-  employer_name?: string;
-  place_of_work?: string;
-  location?: JobLocation;
-  vacancies?: number;
-  special_woman_provision?: boolean;
-  special_transgender_provision?: boolean;
-  wage?: string;
-  hours_per_week?: number;
-  job_duration?: string;
-  start_time?: string;
-  end_time?: string;
-  job_role_description?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-// Worker request interface
-interface WorkerRequest {
-  id: string;
-  job_id: string;
-  worker_id: string;
-  worker_name: string;
-  worker_contact?: string;
-  worker_location?: string;
-  is_woman?: boolean;
-  is_lgbtq?: boolean;
-  is_disabled?: boolean;
-  experience?: string;
-  message?: string;
-  status: "pending" | "accepted" | "rejected";
-  createdAt: string;
-}
-
-// Mock data for worker requests (in a real app, this would come from localStorage or an API)
-const mockWorkerRequests: WorkerRequest[] = [
-  {
-    id: "req1",
-    job_id: "job1",
-    worker_id: "worker1",
-    worker_name: "Priya Sharma",
-    worker_contact: "+91 9876543210",
-    worker_location: "Mumbai, Maharashtra",
-    is_woman: true,
-    is_lgbtq: false,
-    is_disabled: false,
-    experience: "3 years in construction",
-    message: "I'm interested in this position and have relevant experience.",
-    status: "pending",
-    createdAt: "2023-03-15T10:30:00Z",
-  },
-  {
-    id: "req2",
-    job_id: "job1",
-    worker_id: "worker2",
-    worker_name: "Raj Kumar",
-    worker_contact: "+91 8765432109",
-    worker_location: "Delhi, NCR",
-    is_woman: false,
-    is_lgbtq: false,
-    is_disabled: true,
-    experience: "5 years in similar roles",
-    message: "I have extensive experience and am available immediately.",
-    status: "accepted",
-    createdAt: "2023-03-16T09:15:00Z",
-  },
-  {
-    id: "req3",
-    job_id: "job2",
-    worker_id: "worker3",
-    worker_name: "Alex Fernandes",
-    worker_contact: "+91 7654321098",
-    worker_location: "Bangalore, Karnataka",
-    is_woman: false,
-    is_lgbtq: true,
-    is_disabled: false,
-    experience: "2 years of relevant experience",
-    message: "Looking forward to joining your team.",
-    status: "pending",
-    createdAt: "2023-03-17T14:45:00Z",
-  },
-  {
-    id: "req4",
-    job_id: "job3",
-    worker_id: "worker4",
-    worker_name: "Meera Patel",
-    worker_contact: "+91 6543210987",
-    worker_location: "Ahmedabad, Gujarat",
-    is_woman: true,
-    is_lgbtq: false,
-    is_disabled: false,
-    experience: "1 year experience",
-    message: "I'm a quick learner and hard worker.",
-    status: "rejected",
-    createdAt: "2023-03-18T11:20:00Z",
-  },
-  {
-    id: "req5",
-    job_id: "job2",
-    worker_id: "worker5",
-    worker_name: "Vikram Singh",
-    worker_contact: "+91 5432109876",
-    worker_location: "Jaipur, Rajasthan",
-    is_woman: false,
-    is_lgbtq: false,
-    is_disabled: false,
-    experience: "4 years experience",
-    message: "Interested in this opportunity.",
-    status: "pending",
-    createdAt: "2023-03-19T16:10:00Z",
-  },
-];
+import CompanyInfo from "@/components/company-info";
+import { formatWage } from "@/lib/wage";
+import {
+  getWorkerRequests,
+  updateWorkerRequestStatus,
+} from "@/actions/applications";
+import {
+  deleteJobPost,
+  getAllJobPosts,
+  setJobPostStatus,
+} from "@/actions/jobPost";
+import type { JobPost } from "@/types/jobpost";
+import type { WorkerRequest, WorkerRequestStatus } from "@/types/application";
+import { getCurrentUser } from "@/utils";
+import { jobPostKeys } from "@/hooks/jobPostHook";
+import { invalidateQueries } from "@/lib/queryCache";
+import { toast } from "sonner";
+
+// How often applicant counts are refreshed while the dashboard is open
+const REQUESTS_REFRESH_INTERVAL = 30000;
 
 export default function EmployerPostsPage() {
-  const [jobs, setJobs] = useState<Job[]>([]);
+  const [jobs, setJobs] = useState<JobPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<string | null>(null);
-  const [filteredJobs, setFilteredJobs] = useState<Job[]>([]);
+  const [filteredJobs, setFilteredJobs] = useState<JobPost[]>([]);
   const [workerRequests, setWorkerRequests] = useState<WorkerRequest[]>([]);
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [requestFilters, setRequestFilters] = useState({
@@ -198,36 +97,47 @@ export default function EmployerPostsPage() {
     disabled: false,
     status: "all",
   });
+  const [jobToDelete, setJobToDelete] = useState<JobPost | null>(null);
+  const [deleting, setDeleting] = useState(false);
 
-  // Fetch jobs from localStorage
+  // Fetch the signed-in employer's job posts and the requests made on them
   useEffect(() => {
-    const fetchJobs = () => {
+    const fetchJobs = async () => {
       try {
-        const savedJobs = localStorage.getItem("jobs");
-        if (savedJobs) {
-          const parsedJobs = JSON.parse(savedJobs);
-          // In a real app, filter jobs by employer_id
-          // const employerJobs = parsedJobs.filter(job => job.employer_id === currentEmployerId);
-          setJobs(parsedJobs);
-          setFilteredJobs(parsedJobs);
+        const currentUser = await getCurrentUser();
+        if (!currentUser) {
+          throw new Error("User is not authenticated");
         }
 
-        // In a real app, fetch worker requests from localStorage or API
-        // For now, use mock data
-        setWorkerRequests(mockWorkerRequests);
+        const [employerJobs, requests] = await Promise.all([
+          getAllJobPosts({ employer_id: currentUser.uid, limit: 100 }),
+          getWorkerRequests(),
+        ]);
+        setJobs(employerJobs);
+        setFilteredJobs(employerJobs);
+        setWorkerRequests(requests);
       } catch (error) {
         console.error("Error fetching data:", error);
+        toast.error("Failed to load your job posts");
       } finally {
         setLoading(false);
       }
     };
 
-    // Use setTimeout to simulate loading and avoid hydration issues
-    const timer = setTimeout(() => {
-      fetchJobs();
-    }, 500);
+    fetchJobs();
+  }, []);
 
-    return () => clearTimeout(timer);
+  // Keep applicant counts up to date while the dashboard is open
+  useEffect(() => {
+    const interval = setInterval(async () => {
+      try {
+        setWorkerRequests(await getWorkerRequests());
+      } catch (error) {
+        console.error("Error refreshing worker requests:", error);
+      }
+    }, REQUESTS_REFRESH_INTERVAL);
+
+    return () => clearInterval(interval);
   }, []);
 
   // Filter jobs based on search term and filter type
@@ -239,7 +149,8 @@ export default function EmployerPostsPage() {
       result = result.filter(
         (job) =>
           job.job_title?.toLowerCase().includes(term) ||
-          job.place_of_work?.toLowerCase().includes(term)
+          job.place_of_work?.toLowerCase().includes(term) ||
+          job.location?.city?.toLowerCase().includes(term)
       );
     }
 
@@ -280,25 +191,95 @@ export default function EmployerPostsPage() {
     return filtered;
   };
 
+  // Count the applications on a job that the worker hasn't withdrawn
+  const getApplicantCount = (jobId: string) =>
+    workerRequests.filter(
+      (req) => req.job_id === jobId && req.status !== "withdrawn"
+    ).length;
+
   // Get job title by ID
   const getJobTitle = (jobId: string) => {
     const job = jobs.find((j) => j.id === jobId);
     return job ? job.job_title : "Unknown Job";
   };
 
-  // Handle request status change
-  const handleStatusChange = (
+  // Handle request status change, rolling back if the update fails
+  const handleStatusChange = async (
     requestId: string,
-    newStatus: "accepted" | "rejected" | "pending"
+    newStatus: WorkerRequestStatus
   ) => {
+    const previous = workerRequests.find((req) => req.id === requestId);
+    if (!previous) return;
+
     setWorkerRequests((prev) =>
       prev.map((req) =>
         req.id === requestId ? { ...req, status: newStatus } : req
       )
     );
 
-    // In a real app, update localStorage or make API call
-    // localStorage.setItem("jobRequests", JSON.stringify(updatedRequests));
+    try {
+      const updated = await updateWorkerRequestStatus(requestId, newStatus);
+      setWorkerRequests((prev) =>
+        prev.map((req) => (req.id === requestId ? { ...req, ...updated } : req))
+      );
+    } catch (error) {
+      setWorkerRequests((prev) =>
+        prev.map((req) => (req.id === requestId ? previous : req))
+      );
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update status"
+      );
+    }
+  };
+
+  // Close a job post to new applicants, or reopen it
+  const handleToggleJobStatus = async (job: JobPost) => {
+    const newStatus = job.status === "closed" ? "open" : "closed";
+
+    try {
+      const updated = await setJobPostStatus(job.id, newStatus);
+      invalidateQueries(jobPostKeys.all);
+      setJobs((prev) =>
+        prev.map((j) =>
+          j.id === job.id ? { ...j, ...updated, status: newStatus } : j
+        )
+      );
+      toast.success(
+        newStatus === "closed"
+          ? "Job closed to new applicants"
+          : "Job reopened to applicants"
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update job status"
+      );
+    }
+  };
+
+  // Delete the job post awaiting confirmation
+  const handleDeleteJob = async () => {
+    if (!jobToDelete) return;
+
+    setDeleting(true);
+    try {
+      await deleteJobPost(jobToDelete.id);
+      invalidateQueries(jobPostKeys.all);
+      setJobs((prev) => prev.filter((j) => j.id !== jobToDelete.id));
+      setWorkerRequests((prev) =>
+        prev.filter((req) => req.job_id !== jobToDelete.id)
+      );
+      if (selectedJobId === jobToDelete.id) {
+        setSelectedJobId(null);
+      }
+      toast.success("Job post deleted");
+      setJobToDelete(null);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete job post"
+      );
+    } finally {
+      setDeleting(false);
+    }
   };
 
   // Clear all filters
@@ -424,6 +405,8 @@ export default function EmployerPostsPage() {
                 <Card
                   key={job.id}
                   className={`overflow-hidden transition-all hover:shadow-md ${
+                    job.status === "closed" ? "opacity-75" : ""
+                  } ${
                     job.special_woman_provision
                       ? "border-l-4 border-l-pink-500"
                       : job.special_transgender_provision
@@ -449,27 +432,52 @@ export default function EmployerPostsPage() {
                         <DropdownMenuContent align="end">
                           <DropdownMenuItem asChild>
                             <Link
-                              href={`/job-post-form?edit=${job.id}`}
+                              href={`/employer-post/${job.id}/edit`}
                               className="cursor-pointer"
                             >
                               <Edit className="mr-2 h-4 w-4" />
                               <span>Edit Post</span>
                             </Link>
                           </DropdownMenuItem>
-                          <DropdownMenuItem className="text-red-600 focus:text-red-600">
+                          <DropdownMenuItem
+                            onClick={() => handleToggleJobStatus(job)}
+                          >
+                            {job.status === "closed" ? (
+                              <>
+                                <LockOpen className="mr-2 h-4 w-4" />
+                                <span>Reopen Post</span>
+                              </>
+                            ) : (
+                              <>
+                                <Lock className="mr-2 h-4 w-4" />
+                                <span>Close to Applicants</span>
+                              </>
+                            )}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            className="text-red-600 focus:text-red-600"
+                            onClick={() => setJobToDelete(job)}
+                          >
                             <Trash2 className="mr-2 h-4 w-4" />
                             <span>Delete Post</span>
                           </DropdownMenuItem>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </div>
-                    <div className="flex items-center text-sm text-muted-foreground mt-1">
-                      <Building2 className="h-4 w-4 mr-1 flex-shrink-0" />
-                      <span className="truncate">
-                        {job.employer_name || "Your Company"}
-                      </span>
-                    </div>
+                    <CompanyInfo
+                      company={job.company}
+                      fallbackName={job.employer_name || "Your Company"}
+                      className="text-sm text-muted-foreground mt-1"
+                    />
                     <div className="absolute top-12 right-4 flex flex-col sm:flex-row gap-1">
+                      {job.status === "closed" && (
+                        <Badge
+                          variant="outline"
+                          className="bg-gray-100 text-gray-700 border-gray-300"
+                        >
+                          Closed
+                        </Badge>
+                      )}
                       {job.special_woman_provision && (
                         <Badge className="bg-pink-100 text-pink-700 hover:bg-pink-200 dark:bg-pink-900/30 dark:text-pink-300">
                           Women
@@ -506,7 +514,7 @@ export default function EmployerPostsPage() {
                       </div>
                       <div className="flex items-center text-sm font-medium text-green-600 dark:text-green-400">
                         <Banknote className="h-4 w-4 mr-1 flex-shrink-0" />
-                        {job.wage || "Salary not provided"}
+                        {formatWage(job.wage) || "Salary not provided"}
                       </div>
                       {job.createdAt && (
                         <div className="flex items-center text-xs text-muted-foreground">
@@ -519,14 +527,7 @@ export default function EmployerPostsPage() {
                       <div className="flex items-center justify-between">
                         <div className="flex items-center text-sm text-blue-600">
                           <Users className="h-4 w-4 mr-1 flex-shrink-0" />
-                          <span>
-                            {
-                              workerRequests.filter(
-                                (req) => req.job_id === job.id
-                              ).length
-                            }{" "}
-                            applications
-                          </span>
+                          <span>{getApplicantCount(job.id)} applications</span>
                         </div>
                         <Button
                           variant="ghost"
@@ -571,7 +572,7 @@ export default function EmployerPostsPage() {
               </p>
               {jobs.length === 0 ? (
                 <Button className="bg-blue-600 hover:bg-blue-700" asChild>
-                  <Link href="/job-post-form">Post Your First Job</Link>
+                  <Link href="/">Post Your First Job</Link>
                 </Button>
               ) : (
                 <Button
@@ -632,6 +633,7 @@ export default function EmployerPostsPage() {
                   <SelectContent>
                     <SelectItem value="all">All Status</SelectItem>
                     <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="shortlisted">Shortlisted</SelectItem>
                     <SelectItem value="accepted">Accepted</SelectItem>
                     <SelectItem value="rejected">Rejected</SelectItem>
                   </SelectContent>
@@ -783,6 +785,46 @@ export default function EmployerPostsPage() {
           </div>
         </TabsContent>
       </Tabs>
+
+      {/* Delete confirmation */}
+      <Dialog
+        open={!!jobToDelete}
+        onOpenChange={(open) => {
+          if (!open && !deleting) setJobToDelete(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete job post?</DialogTitle>
+            <DialogDescription>
+              &quot;{jobToDelete?.job_title}&quot; and its applications will be
+              permanently removed. To stop new applications but keep the post,
+              close it instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setJobToDelete(null)}
+              disabled={deleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteJob}
+              disabled={deleting}
+            >
+              {deleting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="mr-2 h-4 w-4" />
+              )}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
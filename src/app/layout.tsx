@@ -4,6 +4,7 @@ import "./globals.css";
 import { Toaster } from "@/components/ui/sonner";
 import { NavigationBar } from "@/components/Nav-bar";
 import { UserProvider } from "@/context/userContext";
+import { LocaleProvider } from "@/context/localeContext";
 import AuthStateManager from "./highLevelComponent";
 
 const geistSans = Geist({
@@ -33,10 +34,12 @@ export default function RootLayout({
       >
         <main>
           <UserProvider>
-            <AuthStateManager>
-              {children}
-              <NavigationBar />
-            </AuthStateManager>
+            <LocaleProvider>
+              <AuthStateManager>
+                {children}
+                <NavigationBar />
+              </AuthStateManager>
+            </LocaleProvider>
           </UserProvider>
         </main>
 
@@ -0,0 +1,20 @@
+import type React from "react";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Messages",
+  description:
+    "Chat directly with the workers and employers you're hiring or working with",
+};
+
+export default function MessagesLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-indigo-50 dark:from-slate-950 dark:via-slate-900 dark:to-blue-950/30">
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { Suspense } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { MessageSquare } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import ChatArea from "@/components/chat-area";
+import ConversationList from "@/components/conversation-list";
+import NewChatDialog from "@/components/new-chat-dialog";
+import { useUser } from "@/context/userContext";
+import { useLocale } from "@/context/localeContext";
+import {
+  useDirectConversations,
+  useStartConversation,
+} from "@/hooks/directMessageHook";
+import { cn } from "@/lib/utils";
+
+function Messages() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { user } = useUser();
+  const { t } = useLocale();
+  const { conversations, loading } = useDirectConversations(user?.uid);
+  const startConversation = useStartConversation();
+
+  // The open conversation lives in the URL so it can be linked to
+  const activeId = searchParams.get("c");
+  const activeConversation = conversations.find(
+    (conversation) => conversation.id === activeId
+  );
+
+  const openConversation = (id: string | null) => {
+    router.push(id ? `${pathname}?c=${id}` : pathname);
+  };
+
+  if (!user) {
+    return (
+      <p className="py-16 text-center text-muted-foreground">
+        {t("common.loading")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6">
+      <div className="max-w-6xl mx-auto">
+        <Card className="border rounded-xl shadow-lg overflow-hidden">
+          <div className="flex h-[650px]">
+            {/* Conversation list, hidden on small screens while a chat is open */}
+            <div
+              className={cn(
+                "w-full md:w-80 flex-shrink-0 flex-col border-r border-blue-100",
+                activeId ? "hidden md:flex" : "flex"
+              )}
+            >
+              <div className="p-4 border-b border-blue-100 flex items-center justify-between">
+                <h1 className="text-lg font-semibold">
+                  {t("messages.heading")}
+                </h1>
+                <NewChatDialog
+                  role={user.role}
+                  onStart={(contact) =>
+                    startConversation({
+                      uid: contact.uid,
+                      name: contact.name,
+                      role: contact.role,
+                    })
+                  }
+                />
+              </div>
+              {loading ? (
+                <p className="p-4 text-sm text-muted-foreground">
+                  {t("messages.loadingConversations")}
+                </p>
+              ) : conversations.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">
+                  {t("messages.noConversations")}
+                </p>
+              ) : (
+                <ConversationList
+                  conversations={conversations}
+                  currentUid={user.uid}
+                  activeId={activeId}
+                  onSelectConversation={(conversation) =>
+                    openConversation(conversation.id)
+                  }
+                />
+              )}
+            </div>
+
+            <div
+              className={cn(
+                "flex-1 min-w-0",
+                activeId ? "block" : "hidden md:block"
+              )}
+            >
+              {activeConversation ? (
+                <ChatArea
+                  key={activeConversation.id}
+                  conversation={activeConversation}
+                  currentUid={user.uid}
+                  onBack={() => openConversation(null)}
+                />
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground p-4 text-center">
+                  <MessageSquare className="h-10 w-10" />
+                  <p>
+                    {activeId && loading
+                      ? t("messages.loadingConversation")
+                      : activeId
+                      ? t("messages.notFound")
+                      : t("messages.selectConversation")}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function MessagesPage() {
+  // Messages reads the open conversation from the URL search params
+  return (
+    <Suspense>
+      <Messages />
+    </Suspense>
+  );
+}
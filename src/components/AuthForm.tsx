@@ -7,9 +7,23 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
-import { signIn, register } from "@/actions/auth";
+import { AuthResult, register, signIn, signInWithGoogle } from "@/actions/auth";
 import { getAndSetUserInfo } from "@/userContextUtils";
 import { useUser } from "@/context/userContext";
+import { useLocale } from "@/context/localeContext";
+
+// Where the middleware was sending the user before it asked them to sign in.
+// Only paths on this site are followed; the URL parser decides, since it
+// reads forms like "/\evil.com" as another host.
+function getRedirectPath() {
+  const next = new URLSearchParams(window.location.search).get("next");
+  if (!next) return "/";
+
+  const url = new URL(next, window.location.origin);
+  return url.origin === window.location.origin
+    ? `${url.pathname}${url.search}${url.hash}`
+    : "/";
+}
 
 export default function AuthForm() {
   const [isSignUp, setIsSignUp] = useState(true);
@@ -20,6 +34,24 @@ export default function AuthForm() {
   const [loading, setLoading] = useState(false);
   const router = useRouter();
   const { setUser } = useUser();
+  const { t } = useLocale();
+
+  // Loads the user's details and takes them where they were going
+  const handleAuthResult = async (result: AuthResult) => {
+    if (!result.success) {
+      if (!result.cancelled) {
+        setError(result.error || t("auth.unexpectedError"));
+      }
+      return;
+    }
+
+    try {
+      await getAndSetUserInfo(setUser);
+    } catch (error) {
+      console.error("Error in getting and setting userInfo after auth", error);
+    }
+    router.push(getRedirectPath());
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,30 +59,29 @@ export default function AuthForm() {
     setLoading(true);
 
     try {
-      console.log("Current isSignUp state:", isSignUp);
-
       const result = isSignUp
         ? await register(email, password, userType)
         : await signIn(email, password);
-      console.log(result);
+      await handleAuthResult(result);
+    } catch (error) {
+      setError(t("auth.unexpectedError"));
+      console.error(error);
+    }
 
-      if (result.error) {
-        setError(result.error);
-        setLoading(false);
-        return;
-      }
+    setLoading(false);
+  };
 
-      try {
-        await getAndSetUserInfo(setUser);
-      } catch (error) {
-        console.error(
-          "Error in getting and setting userInfo after auth",
-          error
-        );
-      }
-      router.push("/");
+  // On the sign-up form a new Google account gets the selected role
+  const handleGoogleSignIn = async () => {
+    setError("");
+    setLoading(true);
+
+    try {
+      await handleAuthResult(
+        await signInWithGoogle(isSignUp ? userType : undefined)
+      );
     } catch (error) {
-      setError("An unexpected error occurred during authentication.");
+      setError(t("auth.unexpectedError"));
       console.error(error);
     }
 
@@ -61,12 +92,10 @@ export default function AuthForm() {
     <div className="px-5 py-8 sm:px-8 w-full max-w-md mx-auto">
       <div className="mb-8 text-center">
         <h2 className="text-3xl font-bold text-gray-800 mb-2">
-          {isSignUp ? "Create Account" : "Welcome Back"}
+          {isSignUp ? t("auth.createAccount") : t("auth.welcomeBack")}
         </h2>
         <p className="text-gray-600 text-sm">
-          {isSignUp
-            ? "Sign up to get started with Blue Collar Connect"
-            : "Sign in to continue to your account"}
+          {isSignUp ? t("auth.signUpSubtitle") : t("auth.signInSubtitle")}
         </p>
       </div>
 
@@ -76,7 +105,7 @@ export default function AuthForm() {
             htmlFor="userType"
             className="text-sm font-medium text-gray-700"
           >
-            I am a
+            {t("auth.iAmA")}
           </Label>
           <div className="grid grid-cols-2 gap-3 mt-1">
             <button
@@ -88,9 +117,9 @@ export default function AuthForm() {
                   : "border-gray-200 hover:border-gray-300"
               } transition-all`}
             >
-              <span className="font-medium">Skilled Worker</span>
+              <span className="font-medium">{t("auth.worker")}</span>
               <span className="text-xs text-gray-500 mt-1">
-                Looking for jobs
+                {t("auth.workerHint")}
               </span>
             </button>
             <button
@@ -102,8 +131,10 @@ export default function AuthForm() {
                   : "border-gray-200 hover:border-gray-300"
               } transition-all`}
             >
-              <span className="font-medium">Employer</span>
-              <span className="text-xs text-gray-500 mt-1">Hiring workers</span>
+              <span className="font-medium">{t("auth.employer")}</span>
+              <span className="text-xs text-gray-500 mt-1">
+                {t("auth.employerHint")}
+              </span>
             </button>
           </div>
         </div>
@@ -112,7 +143,7 @@ export default function AuthForm() {
       <form onSubmit={handleSubmit} className="space-y-5">
         <div className="space-y-2">
           <Label htmlFor="email" className="text-sm font-medium text-gray-700">
-            Email
+            {t("auth.email")}
           </Label>
           <Input
             id="email"
@@ -129,7 +160,7 @@ export default function AuthForm() {
             htmlFor="password"
             className="text-sm font-medium text-gray-700"
           >
-            Password
+            {t("auth.password")}
           </Label>
           <Input
             id="password"
@@ -150,13 +181,29 @@ export default function AuthForm() {
           {loading ? (
             <Loader2 className="mr-2 h-5 w-5 animate-spin" />
           ) : isSignUp ? (
-            "Create Account"
+            t("auth.createAccount")
           ) : (
-            "Sign In"
+            t("auth.signIn")
           )}
         </Button>
       </form>
 
+      <div className="my-5 flex items-center gap-3">
+        <div className="h-px flex-1 bg-gray-200" />
+        <span className="text-xs uppercase text-gray-500">{t("auth.or")}</span>
+        <div className="h-px flex-1 bg-gray-200" />
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full py-6 rounded-xl text-base font-medium"
+        onClick={handleGoogleSignIn}
+        disabled={loading}
+      >
+        {t("auth.continueWithGoogle")}
+      </Button>
+
       {error && (
         <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
           <p className="text-center text-sm text-red-600">{error}</p>
@@ -165,13 +212,13 @@ export default function AuthForm() {
 
       <div className="mt-6 text-center">
         <p className="text-gray-600">
-          {isSignUp ? "Already have an account?" : "Don't have an account?"}{" "}
+          {isSignUp ? t("auth.haveAccount") : t("auth.noAccount")}{" "}
           <button
             type="button"
             className="font-medium text-blue-600 hover:underline"
             onClick={() => setIsSignUp(!isSignUp)}
           >
-            {isSignUp ? "Sign In" : "Sign Up"}
+            {isSignUp ? t("auth.signIn") : t("auth.signUp")}
           </button>
         </p>
       </div>
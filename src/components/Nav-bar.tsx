@@ -8,7 +8,12 @@ import {
   BriefcaseBusiness,
   Users,
   Bot,
+  MessageSquare,
   LogOut,
+  Bell,
+  Trash2,
+  Languages,
+  Check,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
@@ -17,6 +22,20 @@ import { useMediaQuery } from "@/hooks/use-media-query";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useUser } from "@/context/userContext";
 import { signOut } from "@/actions/auth";
+import { useSavedSearches } from "@/hooks/savedSearchHook";
+import type { SavedSearch } from "@/types/savedSearch";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLocale } from "@/context/localeContext";
+import { LOCALE_NAMES, LOCALES } from "@/lib/i18n";
+import {
+  useDirectConversations,
+  usePresenceHeartbeat,
+} from "@/hooks/directMessageHook";
 
 // Add profileOpen state
 export function NavigationBar() {
@@ -25,29 +44,50 @@ export function NavigationBar() {
   const [profileOpen, setProfileOpen] = useState(false);
   const isDesktop = useMediaQuery("(min-width: 768px)");
   const { user } = useUser();
+  const { t } = useLocale();
 
   const userType = user?.role || "worker";
   const pathname = usePathname();
 
+  // Saved-search alerts are only offered to signed-in workers
+  const { savedSearches, unreadCount, refresh, markSeen, remove } =
+    useSavedSearches({ enabled: !!user && userType === "worker" });
+
+  // Keeps the user showing as online to the people they message
+  usePresenceHeartbeat(user?.uid);
+  const { unreadCount: unreadMessages } = useDirectConversations(user?.uid);
+
   if (pathname == "/auth") return null;
 
   // Update the workerTabs and employerTabs to remove the Profile tab
   // We'll handle it separately
   const workerTabs = [
-    { name: "Home", icon: Home, path: "/" },
-    { name: "AI", icon: Bot, path: "/chat" },
+    { name: t("nav.home"), icon: Home, path: "/" },
+    { name: t("nav.ai"), icon: Bot, path: "/chat" },
     {
-      name: "Applied Jobs",
+      name: t("nav.appliedJobs"),
       icon: BriefcaseBusiness,
       path: "/applied-jobs",
     },
-    { name: "Community", icon: Users, path: "/community" },
+    { name: t("nav.community"), icon: Users, path: "/community" },
+    {
+      name: t("nav.messages"),
+      icon: MessageSquare,
+      path: "/messages",
+      badge: unreadMessages,
+    },
   ];
 
   const employerTabs = [
-    { name: "Home", icon: Home, path: "/" },
-    { name: "AI", icon: Bot, path: "/chat" },
-    { name: "Posts", icon: BriefcaseBusiness, path: "/employer-post" },
+    { name: t("nav.home"), icon: Home, path: "/" },
+    { name: t("nav.ai"), icon: Bot, path: "/chat" },
+    { name: t("nav.posts"), icon: BriefcaseBusiness, path: "/employer-post" },
+    {
+      name: t("nav.messages"),
+      icon: MessageSquare,
+      path: "/messages",
+      badge: unreadMessages,
+    },
   ];
 
   const tabs = userType === "worker" ? workerTabs : employerTabs;
@@ -83,7 +123,7 @@ export function NavigationBar() {
             >
               {tabs.map((tab) => (
                 <button
-                  key={tab.name}
+                  key={tab.path}
                   onClick={() => handleTabClick(tab)}
                   className={cn(
                     "flex flex-col items-center justify-center py-3 px-2 md:px-4 md:py-4 md:flex-row md:space-x-2 relative group",
@@ -91,13 +131,47 @@ export function NavigationBar() {
                     "flex-1 md:flex-initial"
                   )}
                 >
-                  <tab.icon className="h-6 w-6 md:h-5 md:w-5" />
+                  <span className="relative">
+                    <tab.icon className="h-6 w-6 md:h-5 md:w-5" />
+                    {!!tab.badge && (
+                      <span className="absolute -top-2 -right-2 bg-primary text-primary-foreground text-xs rounded-full min-w-4 h-4 px-1 flex items-center justify-center">
+                        {tab.badge > 99 ? "99+" : tab.badge}
+                      </span>
+                    )}
+                  </span>
                   <span className="text-xs mt-1 md:text-sm md:mt-0 hidden md:block">
                     {tab.name}
                   </span>
                 </button>
               ))}
 
+              <LanguageSwitcher />
+
+              {/* Saved search alerts */}
+              {user && userType === "worker" && (
+                <button
+                  onClick={() => {
+                    setNotificationOpen(true);
+                    refresh();
+                  }}
+                  aria-label={t("nav.notifications")}
+                  className={cn(
+                    "flex flex-col items-center justify-center py-3 px-2 md:px-4 md:py-4 relative group",
+                    "transition-colors hover:text-primary",
+                    "flex-1 md:flex-initial"
+                  )}
+                >
+                  <span className="relative">
+                    <Bell className="h-6 w-6 md:h-5 md:w-5" />
+                    {unreadCount > 0 && (
+                      <span className="absolute -top-2 -right-2 bg-primary text-primary-foreground text-xs rounded-full min-w-4 h-4 px-1 flex items-center justify-center">
+                        {unreadCount > 99 ? "99+" : unreadCount}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              )}
+
               {/* Profile Avatar Button */}
               <button
                 onClick={() => setProfileOpen(true)}
@@ -113,7 +187,7 @@ export function NavigationBar() {
                       user?.profilePhoto ||
                       "/placeholder.svg?height=32&width=32"
                     }
-                    alt="Profile"
+                    alt={t("nav.profile")}
                   />
                   <AvatarFallback>
                     <User className="h-4 w-4" />
@@ -129,9 +203,17 @@ export function NavigationBar() {
       <Sheet open={notificationOpen} onOpenChange={setNotificationOpen}>
         <SheetContent side="right" className="w-full sm:max-w-md">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold">Notifications</h2>
+            <h2 className="text-lg font-semibold">{t("nav.notifications")}</h2>
           </div>
-          <NotificationList />
+          <NotificationList
+            savedSearches={savedSearches}
+            onOpen={(search) => {
+              markSeen(search.id);
+              router.push(search.query ? `/?${search.query}` : "/");
+              setNotificationOpen(false);
+            }}
+            onDelete={remove}
+          />
         </SheetContent>
       </Sheet>
 
@@ -139,7 +221,7 @@ export function NavigationBar() {
       <Sheet open={profileOpen} onOpenChange={setProfileOpen}>
         <SheetContent side="right" className="w-full sm:max-w-md">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold">Profile</h2>
+            <h2 className="text-lg font-semibold">{t("nav.profile")}</h2>
           </div>
           <ProfileContent setProfileOpen={setProfileOpen} />
         </SheetContent>
@@ -159,6 +241,7 @@ function ProfileContent({
 }) {
   const router = useRouter();
   const { user, setUser } = useUser();
+  const { t } = useLocale();
 
   const handleProfileClick = () => {
     router.push("/profile");
@@ -185,7 +268,7 @@ function ProfileContent({
         <Avatar className="h-16 w-16">
           <AvatarImage
             src={user?.profilePhoto || "/placeholder.svg?height=32&width=32"}
-            alt="Profile"
+            alt={t("nav.profile")}
           />
           <AvatarFallback>
             <User className="h-8 w-8" />
@@ -204,7 +287,7 @@ function ProfileContent({
           onClick={handleProfileClick}
         >
           <User className="mr-2 h-4 w-4" />
-          View Profile
+          {t("nav.viewProfile")}
         </Button>
 
         <Button
@@ -213,65 +296,120 @@ function ProfileContent({
           onClick={handleLogout}
         >
           <LogOut className="mr-2 h-4 w-4" />
-          Logout
+          {t("nav.logout")}
         </Button>
       </div>
     </div>
   );
 }
 
-function NotificationList() {
-  const notifications = [
-    {
-      id: 1,
-      title: "New job match",
-      description: "A new job matching your skills has been posted",
-      time: "2 hours ago",
-      read: false,
-    },
-    {
-      id: 2,
-      title: "Application update",
-      description: "Your application has been reviewed",
-      time: "Yesterday",
-      read: true,
-    },
-    {
-      id: 3,
-      title: "Message from employer",
-      description: "You have a new message from ABC Construction",
-      time: "2 days ago",
-      read: true,
-    },
-  ];
+// Saved searches with the number of new matching jobs since each was last
+// opened
+function NotificationList({
+  savedSearches,
+  onOpen,
+  onDelete,
+}: {
+  savedSearches: SavedSearch[];
+  onOpen: (search: SavedSearch) => void;
+  onDelete: (searchId: string) => Promise<void>;
+}) {
+  const { t, formatDate } = useLocale();
+
+  const handleDelete = async (searchId: string) => {
+    try {
+      await onDelete(searchId);
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+    }
+  };
 
   return (
     <div className="space-y-4">
-      {notifications.length === 0 ? (
+      {savedSearches.length === 0 ? (
         <p className="text-center text-muted-foreground py-8">
-          No notifications
+          {t("notifications.empty")}
         </p>
       ) : (
-        notifications.map((notification) => (
+        savedSearches.map((search) => (
           <div
-            key={notification.id}
+            key={search.id}
             className={cn(
-              "p-4 rounded-lg border",
-              notification.read ? "bg-background" : "bg-muted"
+              "p-4 rounded-lg border flex items-start gap-2",
+              search.new_matches > 0 ? "bg-muted" : "bg-background"
             )}
           >
-            <div className="flex justify-between items-start">
-              <h3 className="font-medium">{notification.title}</h3>
-              <span className="text-xs text-muted-foreground">
-                {notification.time}
-              </span>
-            </div>
-            <p className="text-sm text-muted-foreground mt-1">
-              {notification.description}
-            </p>
+            <button className="flex-1 text-left" onClick={() => onOpen(search)}>
+              <div className="flex justify-between items-start gap-2">
+                <h3 className="font-medium">{search.name}</h3>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {t("notifications.seen", {
+                    date: formatDate(search.last_seen_at),
+                  })}
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {search.new_matches === 0
+                  ? t("notifications.noNewJobs")
+                  : search.new_matches === 1
+                  ? t("notifications.oneNewJob")
+                  : t("notifications.newJobs", { count: search.new_matches })}
+              </p>
+            </button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              aria-label={t("notifications.delete")}
+              onClick={() => handleDelete(search.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
           </div>
         ))
       )}
     </div>
   );
 }
+
+// Lets anyone, signed in or not, pick the UI language
+function LanguageSwitcher() {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          aria-label={t("nav.language")}
+          className={cn(
+            "flex flex-col items-center justify-center py-3 px-2 md:px-4 md:py-4 md:flex-row md:space-x-2 relative group",
+            "transition-colors hover:text-primary",
+            "flex-1 md:flex-initial"
+          )}
+        >
+          <Languages className="h-6 w-6 md:h-5 md:w-5" />
+          <span className="text-xs mt-1 md:text-sm md:mt-0 hidden md:block">
+            {LOCALE_NAMES[locale]}
+          </span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {LOCALES.map((option) => (
+          <DropdownMenuItem
+            key={option}
+            lang={option}
+            onSelect={() => setLocale(option)}
+          >
+            <Check
+              className={cn(
+                "mr-2 h-4 w-4",
+                option === locale ? "opacity-100" : "opacity-0"
+              )}
+            />
+            {LOCALE_NAMES[option]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
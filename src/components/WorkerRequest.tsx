@@ -1,4 +1,4 @@
-import { Badge, Briefcase, MapPin, User } from "lucide-react";
+import { Briefcase, MapPin, MessageSquare, User } from "lucide-react";
 import { useState } from "react";
 import {
   Card,
@@ -14,24 +14,12 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@radix-ui/react-dialog";
+import { Badge } from "./ui/badge";
 import { Button } from "./ui/button";
 import { DialogHeader } from "./ui/dialog";
-
-interface WorkerRequest {
-  id: string;
-  job_id: string;
-  worker_id: string;
-  worker_name: string;
-  worker_contact?: string;
-  worker_location?: string;
-  is_woman?: boolean;
-  is_lgbtq?: boolean;
-  is_disabled?: boolean;
-  experience?: string;
-  message?: string;
-  status: "pending" | "accepted" | "rejected";
-  createdAt: string;
-}
+import type { WorkerRequest, WorkerRequestStatus } from "@/types/application";
+import { toast } from "sonner";
+import { useStartConversation } from "@/hooks/directMessageHook";
 
 export default function WorkerRequestCard({
   request,
@@ -40,12 +28,25 @@ export default function WorkerRequestCard({
 }: {
   request: WorkerRequest;
   jobTitle: string;
-  onStatusChange: (
-    requestId: string,
-    status: "accepted" | "rejected" | "pending"
-  ) => void;
+  onStatusChange: (requestId: string, status: WorkerRequestStatus) => void;
 }) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [openingChat, setOpeningChat] = useState(false);
+  const startConversation = useStartConversation();
+
+  const handleMessage = async () => {
+    setOpeningChat(true);
+    try {
+      await startConversation({
+        uid: request.worker_id,
+        name: request.worker_name,
+        role: "worker",
+      });
+    } catch {
+      toast.error("Couldn't open the conversation. Please try again.");
+      setOpeningChat(false);
+    }
+  };
 
   // Determine card border color based on worker category
   const getBorderColor = () => {
@@ -70,6 +71,18 @@ export default function WorkerRequestCard({
             Rejected
           </Badge>
         );
+      case "shortlisted":
+        return (
+          <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200">
+            Shortlisted
+          </Badge>
+        );
+      case "withdrawn":
+        return (
+          <Badge className="bg-gray-100 text-gray-600 hover:bg-gray-200">
+            Withdrawn
+          </Badge>
+        );
       default:
         return (
           <Badge className="bg-yellow-100 text-yellow-700 hover:bg-yellow-200">
@@ -139,94 +152,109 @@ export default function WorkerRequestCard({
         </div>
       </CardContent>
       <CardFooter className="pt-2 flex justify-between">
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button variant="outline" size="sm">
-              <User className="mr-2 h-4 w-4" />
-              <span>View Profile</span>
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Worker Profile</DialogTitle>
-              <DialogDescription>
-                Detailed information about {request.worker_name}
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              <div className="flex items-center gap-4">
-                <div className="h-16 w-16 rounded-full bg-blue-100 flex items-center justify-center">
-                  <User className="h-8 w-8 text-blue-600" />
-                </div>
-                <div>
-                  <h3 className="text-lg font-medium">{request.worker_name}</h3>
-                  <div className="flex gap-1 mt-1">
-                    {request.is_woman && (
-                      <Badge className="bg-pink-100 text-pink-700">Women</Badge>
-                    )}
-                    {request.is_lgbtq && (
-                      <Badge className="bg-purple-100 text-purple-700">
-                        LGBTQ+
-                      </Badge>
-                    )}
-                    {request.is_disabled && (
-                      <Badge className="bg-blue-100 text-blue-700">
-                        Disabled
-                      </Badge>
-                    )}
+        <div className="flex gap-2">
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <User className="mr-2 h-4 w-4" />
+                <span>View Profile</span>
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Worker Profile</DialogTitle>
+                <DialogDescription>
+                  Detailed information about {request.worker_name}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="flex items-center gap-4">
+                  <div className="h-16 w-16 rounded-full bg-blue-100 flex items-center justify-center">
+                    <User className="h-8 w-8 text-blue-600" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-medium">
+                      {request.worker_name}
+                    </h3>
+                    <div className="flex gap-1 mt-1">
+                      {request.is_woman && (
+                        <Badge className="bg-pink-100 text-pink-700">
+                          Women
+                        </Badge>
+                      )}
+                      {request.is_lgbtq && (
+                        <Badge className="bg-purple-100 text-purple-700">
+                          LGBTQ+
+                        </Badge>
+                      )}
+                      {request.is_disabled && (
+                        <Badge className="bg-blue-100 text-blue-700">
+                          Disabled
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-1 gap-2">
-                <div className="flex items-center">
-                  <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
-                  <span>
-                    {request.worker_location || "Location not provided"}
-                  </span>
-                </div>
-                {request.worker_contact && (
+                <div className="grid grid-cols-1 gap-2">
                   <div className="flex items-center">
-                    <svg
-                      xmlns="http://www.w3.org/2000/svg"
-                      width="16"
-                      height="16"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                      stroke="currentColor"
-                      strokeWidth="2"
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      className="mr-2 text-muted-foreground"
-                    >
-                      <path d="M22 16.92v3a2 2 0 0 1-2.18 2 19.79 19.79 0 0 1-8.63-3.07 19.5 19.5 0 0 1-6-6 19.79 19.79 0 0 1-3.07-8.67A2 2 0 0 1 4.11 2h3a2 2 0 0 1 2 1.72 12.84 12.84 0 0 0 .7 2.81 2 2 0 0 1-.45 2.11L8.09 9.91a16 16 0 0 0 6 6l1.27-1.27a2 2 0 0 1 2.11-.45 12.84 12.84 0 0 0 2.81.7A2 2 0 0 1 22 16.92z"></path>
-                    </svg>
-                    <span>{request.worker_contact}</span>
+                    <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
+                    <span>
+                      {request.worker_location || "Location not provided"}
+                    </span>
                   </div>
-                )}
-                {request.experience && (
-                  <div className="flex items-center">
-                    <Briefcase className="h-4 w-4 mr-2 text-muted-foreground" />
-                    <span>{request.experience}</span>
+                  {request.worker_contact && (
+                    <div className="flex items-center">
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="16"
+                        height="16"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        className="mr-2 text-muted-foreground"
+                      >
+                        <path d="M22 16.92v3a2 2 0 0 1-2.18 2 19.79 19.79 0 0 1-8.63-3.07 19.5 19.5 0 0 1-6-6 19.79 19.79 0 0 1-3.07-8.67A2 2 0 0 1 4.11 2h3a2 2 0 0 1 2 1.72 12.84 12.84 0 0 0 .7 2.81 2 2 0 0 1-.45 2.11L8.09 9.91a16 16 0 0 0 6 6l1.27-1.27a2 2 0 0 1 2.11-.45 12.84 12.84 0 0 0 2.81.7A2 2 0 0 1 22 16.92z"></path>
+                      </svg>
+                      <span>{request.worker_contact}</span>
+                    </div>
+                  )}
+                  {request.experience && (
+                    <div className="flex items-center">
+                      <Briefcase className="h-4 w-4 mr-2 text-muted-foreground" />
+                      <span>{request.experience}</span>
+                    </div>
+                  )}
+                </div>
+
+                {request.message && (
+                  <div className="mt-4">
+                    <h4 className="text-sm font-medium mb-2">
+                      Message from applicant:
+                    </h4>
+                    <div className="bg-muted p-3 rounded-md text-sm">
+                      {request.message}
+                    </div>
                   </div>
                 )}
               </div>
+            </DialogContent>
+          </Dialog>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleMessage}
+            disabled={openingChat}
+          >
+            <MessageSquare className="mr-2 h-4 w-4" />
+            <span>Message</span>
+          </Button>
+        </div>
 
-              {request.message && (
-                <div className="mt-4">
-                  <h4 className="text-sm font-medium mb-2">
-                    Message from applicant:
-                  </h4>
-                  <div className="bg-muted p-3 rounded-md text-sm">
-                    {request.message}
-                  </div>
-                </div>
-              )}
-            </div>
-          </DialogContent>
-        </Dialog>
-
-        {request.status === "pending" ? (
+        {request.status === "pending" || request.status === "shortlisted" ? (
           <div className="flex gap-2">
             <Button
               size="sm"
@@ -236,6 +264,16 @@ export default function WorkerRequestCard({
             >
               Reject
             </Button>
+            {request.status === "pending" && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-blue-200 text-blue-600 hover:bg-blue-50 hover:text-blue-700"
+                onClick={() => onStatusChange(request.id, "shortlisted")}
+              >
+                Shortlist
+              </Button>
+            )}
             <Button
               size="sm"
               className="bg-green-600 hover:bg-green-700"
@@ -244,6 +282,10 @@ export default function WorkerRequestCard({
               Accept
             </Button>
           </div>
+        ) : request.status === "withdrawn" ? (
+          <span className="text-sm text-muted-foreground">
+            Withdrawn by applicant
+          </span>
         ) : (
           <Button
             size="sm"
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Lightbulb } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import JobCard from "@/components/job-card";
+import { applyToJob } from "@/actions/applications";
+import { applicationKeys, useMyApplications } from "@/hooks/applicationHook";
+import { invalidateQueries } from "@/lib/queryCache";
+import { useLocale } from "@/context/localeContext";
+import type { AssistantAttachment } from "@/types/assistant";
+import type { JobPost } from "@/types/jobpost";
+
+interface AssistantAttachmentsProps {
+  attachments: AssistantAttachment[];
+  // Apply and save are only offered to signed-in workers
+  canApply: boolean;
+  isBookmarked?: (jobId: string) => boolean;
+  onToggleSave?: (jobId: string) => Promise<void>;
+}
+
+interface ApplyButtonProps {
+  job: JobPost;
+  alreadyApplied: boolean; // From the worker's existing applications
+  checking: boolean; // While those are still loading
+}
+
+function ApplyButton({ job, alreadyApplied, checking }: ApplyButtonProps) {
+  const { t } = useLocale();
+  const [applying, setApplying] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  if (job.status === "closed") {
+    return (
+      <Button variant="outline" disabled>
+        {t("assistant.closed")}
+      </Button>
+    );
+  }
+
+  if (applied || alreadyApplied) {
+    return (
+      <Button variant="outline" asChild>
+        <Link href="/applied-jobs">{t("assistant.applied")}</Link>
+      </Button>
+    );
+  }
+
+  const handleApply = async () => {
+    setApplying(true);
+    const result = await applyToJob(job.id);
+    setApplying(false);
+
+    if (!result.success) {
+      toast.error(result.error || t("assistant.applyFailed"));
+      return;
+    }
+
+    setApplied(true);
+    invalidateQueries(applicationKeys.all);
+    if (result.alreadyApplied) {
+      toast.info(t("assistant.alreadyApplied"));
+    } else {
+      toast.success(t("assistant.applicationSubmitted"));
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleApply}
+      disabled={applying || checking}
+      className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white"
+    >
+      {applying ? t("assistant.applying") : t("assistant.apply")}
+    </Button>
+  );
+}
+
+// Job results and suggestions from the assistant, as actionable job cards
+export default function AssistantAttachments({
+  attachments,
+  canApply,
+  isBookmarked,
+  onToggleSave,
+}: AssistantAttachmentsProps) {
+  const { t } = useLocale();
+  // Start from the worker's existing applications, so jobs they've already
+  // applied to don't offer Apply again
+  const { data: applications, loading: loadingApplications } =
+    useMyApplications({ enabled: canApply });
+  const hasApplied = (jobId: string) =>
+    !!applications?.some(
+      (application) =>
+        application.job_id === jobId && application.status !== "withdrawn"
+    );
+
+  const renderJob = (job: JobPost) => (
+    <JobCard
+      key={job.id}
+      job={job}
+      actions={
+        canApply && (
+          <ApplyButton
+            job={job}
+            alreadyApplied={hasApplied(job.id)}
+            checking={loadingApplications}
+          />
+        )
+      }
+      saved={isBookmarked?.(job.id)}
+      onToggleSave={
+        canApply && onToggleSave ? () => onToggleSave(job.id) : undefined
+      }
+    />
+  );
+
+  return (
+    <div className="space-y-3 mt-3">
+      {attachments.map((attachment, index) =>
+        attachment.type === "jobs" ? (
+          attachment.jobs.length > 0 && (
+            <div key={index} className="grid gap-3 grid-cols-1 lg:grid-cols-2">
+              {attachment.jobs.map(renderJob)}
+            </div>
+          )
+        ) : (
+          <div key={index} className="space-y-2">
+            <div className="flex items-start gap-2 rounded-lg border border-blue-100 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/30 p-3 text-sm">
+              <Lightbulb className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600" />
+              <p>{attachment.reason || t("assistant.suggestion")}</p>
+            </div>
+            {renderJob(attachment.job)}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
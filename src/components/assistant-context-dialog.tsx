@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { UserRoundCheck, UserRoundX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  ASSISTANT_CONTEXT_FIELDS,
+  getContextValue,
+} from "@/lib/assistantContext";
+import { useLocale } from "@/context/localeContext";
+import type { AssistantContextField } from "@/types/assistant";
+import type { User } from "@/types/userContext";
+
+interface AssistantContextDialogProps {
+  user: User;
+  fields: AssistantContextField[];
+  onChange: (fields: AssistantContextField[]) => void;
+  onClear: () => void;
+}
+
+// Lets the user pick which profile details the assistant sees, showing the
+// exact values that will be sent
+export default function AssistantContextDialog({
+  user,
+  fields,
+  onChange,
+  onClear,
+}: AssistantContextDialogProps) {
+  const { t } = useLocale();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<AssistantContextField[]>(fields);
+
+  // Start from what's currently shared each time the dialog opens
+  useEffect(() => {
+    if (open) setSelected(fields);
+  }, [open, fields]);
+
+  const toggle = (field: AssistantContextField, checked: boolean) => {
+    setSelected((prev) =>
+      checked ? [...prev, field] : prev.filter((value) => value !== field)
+    );
+  };
+
+  const sharing = fields.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className={`h-9 w-9 ${
+            sharing ? "text-blue-600 border-blue-200" : ""
+          }`}
+          aria-label={t("assistantContext.button")}
+          title={
+            sharing
+              ? t("assistantContext.sharing")
+              : t("assistantContext.title")
+          }
+        >
+          {sharing ? (
+            <UserRoundCheck className="h-4 w-4" />
+          ) : (
+            <UserRoundX className="h-4 w-4" />
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{t("assistantContext.title")}</DialogTitle>
+          <DialogDescription>
+            {t("assistantContext.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {ASSISTANT_CONTEXT_FIELDS.map((field) => {
+            const value = getContextValue(user, field);
+            return (
+              <div key={field} className="flex items-start gap-3">
+                <Checkbox
+                  id={`context-${field}`}
+                  checked={selected.includes(field)}
+                  onCheckedChange={(checked) => toggle(field, checked === true)}
+                  disabled={!value}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0">
+                  <Label htmlFor={`context-${field}`}>
+                    {t(`assistantContext.field.${field}`)}
+                  </Label>
+                  <p className="text-sm text-muted-foreground break-words">
+                    {value ||
+                      (field === "area"
+                        ? t("assistantContext.noPincode")
+                        : t("assistantContext.notInProfile"))}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {sharing && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                onClear();
+                setOpen(false);
+              }}
+            >
+              {t("assistantContext.stop")}
+            </Button>
+          )}
+          <Button
+            onClick={() => {
+              onChange(selected);
+              setOpen(false);
+            }}
+          >
+            {t("common.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
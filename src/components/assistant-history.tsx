@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/context/localeContext";
+import { AssistantConversation } from "@/types/assistant";
+
+interface AssistantHistoryProps {
+  conversations: AssistantConversation[];
+  activeId: string | null;
+  loading?: boolean;
+  onNew: () => void;
+  onSelect: (conversation: AssistantConversation) => void;
+  onRename: (conversationId: string, title: string) => Promise<void>;
+  onDelete: (conversationId: string) => Promise<void>;
+}
+
+// The worker's past assistant conversations, shown beside the chat
+export default function AssistantHistory({
+  conversations,
+  activeId,
+  loading = false,
+  onNew,
+  onSelect,
+  onRename,
+  onDelete,
+}: AssistantHistoryProps) {
+  const { t } = useLocale();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+
+  const startEditing = (conversation: AssistantConversation) => {
+    setEditingId(conversation.id);
+    setTitle(conversation.title);
+  };
+
+  const handleRename = async (conversationId: string) => {
+    try {
+      await onRename(conversationId, title);
+      setEditingId(null);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("assistant.renameFailed")
+      );
+    }
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    try {
+      await onDelete(conversationId);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("assistant.deleteFailed")
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b">
+        <Button onClick={onNew} variant="outline" className="w-full gap-2">
+          <Plus className="h-4 w-4" />
+          {t("assistant.newConversation")}
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {loading && conversations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {t("common.loading")}
+          </p>
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6 px-2">
+            {t("assistant.noConversations")}
+          </p>
+        ) : (
+          conversations.map((conversation) =>
+            editingId === conversation.id ? (
+              <form
+                key={conversation.id}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleRename(conversation.id);
+                }}
+                className="flex items-center gap-1 p-1"
+              >
+                <Input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  aria-label={t("assistant.conversationTitle")}
+                  className="h-8 text-sm"
+                  autoFocus
+                />
+                <Button
+                  type="submit"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0"
+                  disabled={!title.trim()}
+                  aria-label={t("assistant.saveTitle")}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 flex-shrink-0"
+                  onClick={() => setEditingId(null)}
+                  aria-label={t("assistant.cancelRename")}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </form>
+            ) : (
+              <div
+                key={conversation.id}
+                className={cn(
+                  "group flex items-center gap-1 rounded-lg transition-colors",
+                  conversation.id === activeId
+                    ? "bg-blue-50 dark:bg-blue-950/40"
+                    : "hover:bg-muted"
+                )}
+              >
+                <button
+                  className="flex-1 min-w-0 flex items-start gap-2 p-2 text-left"
+                  onClick={() => onSelect(conversation)}
+                >
+                  <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {conversation.title}
+                    </p>
+                    {conversation.last_message && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {conversation.last_message}
+                      </p>
+                    )}
+                  </div>
+                </button>
+                <div className="flex md:opacity-0 md:group-hover:opacity-100 md:focus-within:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => startEditing(conversation)}
+                    aria-label={t("assistant.rename")}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => handleDelete(conversation.id)}
+                    aria-label={t("assistant.delete")}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            )
+          )
+        )}
+      </div>
+    </div>
+  );
+}
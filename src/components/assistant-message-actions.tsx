@@ -0,0 +1,114 @@
+"use client";
+
+import { Copy, Pencil, RotateCcw, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/context/localeContext";
+import type { AssistantFeedback } from "@/types/assistant";
+
+interface AssistantMessageActionsProps {
+  content: string;
+  error?: boolean;
+  feedback?: AssistantFeedback;
+  disabled?: boolean; // While a reply is streaming
+  onCopy: (content: string) => void;
+  onEdit?: () => void; // User messages
+  onRegenerate?: () => void; // Assistant replies
+  onFeedback?: (rating: AssistantFeedback) => void; // Assistant replies
+}
+
+function ActionButton({
+  label,
+  onClick,
+  disabled,
+  pressed,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  pressed?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      onClick={onClick}
+      disabled={disabled}
+      aria-label={label}
+      aria-pressed={pressed}
+      title={label}
+      className={cn(
+        "h-7 w-7 text-muted-foreground",
+        pressed && "text-blue-600"
+      )}
+    >
+      {children}
+    </Button>
+  );
+}
+
+// Copy, edit, retry and rating buttons shown under a chat message
+export default function AssistantMessageActions({
+  content,
+  error = false,
+  feedback,
+  disabled = false,
+  onCopy,
+  onEdit,
+  onRegenerate,
+  onFeedback,
+}: AssistantMessageActionsProps) {
+  const { t } = useLocale();
+
+  return (
+    <div className="flex items-center">
+      {content && (
+        <ActionButton
+          label={t("assistant.copy")}
+          onClick={() => onCopy(content)}
+        >
+          <Copy className="h-3.5 w-3.5" />
+        </ActionButton>
+      )}
+      {onEdit && (
+        <ActionButton
+          label={t("assistant.edit")}
+          onClick={onEdit}
+          disabled={disabled}
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </ActionButton>
+      )}
+      {onRegenerate && (
+        <ActionButton
+          label={error ? t("assistant.retry") : t("assistant.regenerate")}
+          onClick={onRegenerate}
+          disabled={disabled}
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+        </ActionButton>
+      )}
+      {onFeedback && !error && (
+        <>
+          <ActionButton
+            label={t("assistant.goodAnswer")}
+            onClick={() => onFeedback("up")}
+            pressed={feedback === "up"}
+          >
+            <ThumbsUp className="h-3.5 w-3.5" />
+          </ActionButton>
+          <ActionButton
+            label={t("assistant.badAnswer")}
+            onClick={() => onFeedback("down")}
+            pressed={feedback === "down"}
+          >
+            <ThumbsDown className="h-3.5 w-3.5" />
+          </ActionButton>
+        </>
+      )}
+    </div>
+  );
+}
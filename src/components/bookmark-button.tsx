@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Bookmark, BookmarkCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useLocale } from "@/context/localeContext";
+
+interface BookmarkButtonProps {
+  saved: boolean;
+  onToggle: () => Promise<void>;
+  showLabel?: boolean;
+  className?: string;
+}
+
+// Save-for-later toggle used on job cards and the job detail page
+export default function BookmarkButton({
+  saved,
+  onToggle,
+  showLabel = false,
+  className,
+}: BookmarkButtonProps) {
+  const { t } = useLocale();
+  const [pending, setPending] = useState(false);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Job cards are links; don't navigate when toggling
+    e.preventDefault();
+    e.stopPropagation();
+
+    setPending(true);
+    try {
+      await onToggle();
+      toast.success(
+        saved ? t("bookmark.removedToast") : t("bookmark.savedToast")
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t("bookmark.updateFailed")
+      );
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const Icon = saved ? BookmarkCheck : Bookmark;
+
+  return (
+    <Button
+      variant="outline"
+      size={showLabel ? "default" : "icon"}
+      onClick={handleClick}
+      disabled={pending}
+      aria-label={saved ? t("bookmark.remove") : t("bookmark.save")}
+      aria-pressed={saved}
+      className={cn(saved && "text-blue-600 border-blue-200", className)}
+    >
+      <Icon className={cn("h-4 w-4", showLabel && "mr-2")} />
+      {showLabel && (saved ? t("bookmark.saved") : t("bookmark.saveForLater"))}
+    </Button>
+  );
+}
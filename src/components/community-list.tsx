@@ -1,6 +1,7 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
-import type { Community } from "@/app/community/page";
+import type { Community } from "@/types/community";
+import { useLocale } from "@/context/localeContext";
 
 interface CommunityListProps {
   communities: Community[];
@@ -15,6 +16,8 @@ export default function CommunityList({
   onLeave,
   joinedCommunityIds,
 }: CommunityListProps) {
+  const { t } = useLocale();
+
   return (
     <div className="space-y-4">
       {communities.map((community) => {
@@ -36,7 +39,7 @@ export default function CommunityList({
                   {community.communityName}
                 </Link>
                 <p className="text-sm text-gray-500">
-                  {community.memberCount} members
+                  {t("community.members", { count: community.memberCount })}
                 </p>
               </div>
             </div>
@@ -51,7 +54,7 @@ export default function CommunityList({
                   : "bg-blue-50 text-blue-600 border border-blue-300 hover:bg-blue-200"
               }
             >
-              {isJoined ? "Joined" : "Join"}
+              {isJoined ? t("community.joined") : t("community.join")}
             </Button>
           </div>
         );
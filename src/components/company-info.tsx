@@ -0,0 +1,41 @@
+import { BadgeCheck, Building2 } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import type { CompanyProfile } from "@/types/company";
+
+interface CompanyInfoProps {
+  company?: CompanyProfile;
+  fallbackName?: string; // Used for posts created before company profiles existed
+  className?: string;
+}
+
+// Company name with its logo and verified mark, as shown on job listings
+export default function CompanyInfo({
+  company,
+  fallbackName = "Unknown Employer",
+  className,
+}: CompanyInfoProps) {
+  const name = company?.name || fallbackName;
+
+  return (
+    <div className={cn("flex items-center min-w-0", className)}>
+      {company?.logo ? (
+        <Avatar className="h-5 w-5 mr-1.5 flex-shrink-0">
+          <AvatarImage src={company.logo} alt={name} />
+          <AvatarFallback>
+            <Building2 className="h-3 w-3" />
+          </AvatarFallback>
+        </Avatar>
+      ) : (
+        <Building2 className="h-4 w-4 mr-1 flex-shrink-0" />
+      )}
+      <span className="truncate">{name}</span>
+      {company?.verified && (
+        <BadgeCheck
+          className="h-4 w-4 ml-1 flex-shrink-0 text-blue-600"
+          aria-label="Verified employer"
+        />
+      )}
+    </div>
+  );
+}
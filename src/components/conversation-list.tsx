@@ -1,65 +1,128 @@
-"use client"
+"use client";
 
-import { Avatar, AvatarFallback } from "@/components/ui/avatar"
-import { cn } from "@/lib/utils"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { usePresence } from "@/hooks/directMessageHook";
+import { useLocale } from "@/context/localeContext";
+import { cn } from "@/lib/utils";
+import type { DirectConversation } from "@/types/directMessage";
 
-interface Conversation {
-  id: string
-  name: string
-  lastMessage: string
-  time: string
-  unreadCount: number
-  online: boolean
-  type: string
+interface ConversationListProps {
+  conversations: DirectConversation[];
+  currentUid: string;
+  activeId?: string | null;
+  onSelectConversation: (conversation: DirectConversation) => void;
 }
 
-interface ConversationListProps {
-  conversations: Conversation[]
-  onSelectConversation: (conversation: Conversation) => void
+export function getInitials(name: string) {
+  return name
+    .split(" ")
+    .filter(Boolean)
+    .map((n) => n[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
 }
 
-export default function ConversationList({ conversations, onSelectConversation }: ConversationListProps) {
-  return (
-    <div className="space-y-1 p-2 overflow-y-auto">
-      {conversations.map((conversation) => (
-        <div
-          key={conversation.id}
-          className={cn(
-            "flex items-center gap-3 rounded-lg p-3 cursor-pointer transition-colors",
-            conversation.unreadCount > 0 ? "bg-blue-50 hover:bg-blue-100" : "hover:bg-gray-100",
-          )}
-          onClick={() => onSelectConversation(conversation)}
-        >
-          <div className="relative">
-            <Avatar className="h-12 w-12 border border-blue-100">
-              <AvatarFallback className="bg-blue-100 text-blue-600 font-medium">
-                {conversation.name
-                  .split(" ")
-                  .map((n) => n[0])
-                  .join("")}
-              </AvatarFallback>
-            </Avatar>
-            {conversation.online && (
-              <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 border-2 border-white" />
-            )}
-          </div>
+function ConversationItem({
+  conversation,
+  currentUid,
+  active,
+  onSelect,
+}: {
+  conversation: DirectConversation;
+  currentUid: string;
+  active: boolean;
+  onSelect: () => void;
+}) {
+  const { t, formatDate } = useLocale();
+  const otherId =
+    conversation.participantIds.find((uid) => uid !== currentUid) || "";
+  const other = conversation.participants[otherId];
+  const name = other?.name || t("messages.unknownUser");
+  const unreadCount = conversation.unreadCounts[currentUid] || 0;
+  const { online } = usePresence(otherId);
+  const lastMessage = conversation.lastMessage;
 
-          <div className="flex-1 min-w-0">
-            <div className="flex justify-between items-center mb-1">
-              <h3 className="font-medium text-gray-900 truncate">{conversation.name}</h3>
-              <span className="text-xs text-gray-500">{conversation.time}</span>
-            </div>
-            <p className="text-sm text-gray-500 truncate">{conversation.lastMessage}</p>
-          </div>
+  // Time for today's messages, otherwise the date
+  const formatListTime = (date: Date) =>
+    formatDate(
+      date,
+      date.toDateString() === new Date().toDateString()
+        ? { timeStyle: "short" }
+        : { day: "numeric", month: "short" }
+    );
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        "flex w-full items-center gap-3 rounded-lg p-3 text-left transition-colors",
+        active
+          ? "bg-blue-100"
+          : unreadCount > 0
+          ? "bg-blue-50 hover:bg-blue-100"
+          : "hover:bg-gray-100"
+      )}
+      onClick={onSelect}
+    >
+      <div className="relative">
+        <Avatar className="h-12 w-12 border border-blue-100">
+          {other?.photo && <AvatarImage src={other.photo} alt={name} />}
+          <AvatarFallback className="bg-blue-100 text-blue-600 font-medium">
+            {getInitials(name)}
+          </AvatarFallback>
+        </Avatar>
+        {online && (
+          <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 border-2 border-white" />
+        )}
+      </div>
 
-          {conversation.unreadCount > 0 && (
-            <div className="flex-shrink-0 h-5 w-5 bg-blue-600 rounded-full flex items-center justify-center">
-              <span className="text-xs text-white font-medium">{conversation.unreadCount}</span>
-            </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between items-center mb-1 gap-2">
+          <h3 className="font-medium text-gray-900 truncate">{name}</h3>
+          {lastMessage && (
+            <span className="text-xs text-gray-500 flex-shrink-0">
+              {formatListTime(lastMessage.createdAt)}
+            </span>
           )}
         </div>
+        <p className="text-sm text-gray-500 truncate">
+          {lastMessage
+            ? lastMessage.senderId === currentUid
+              ? t("messages.you", { text: lastMessage.text })
+              : lastMessage.text
+            : t("messages.noMessages")}
+        </p>
+      </div>
+
+      {unreadCount > 0 && (
+        <div className="flex-shrink-0 min-w-5 h-5 px-1 bg-blue-600 rounded-full flex items-center justify-center">
+          <span className="text-xs text-white font-medium">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        </div>
+      )}
+    </button>
+  );
+}
+
+export default function ConversationList({
+  conversations,
+  currentUid,
+  activeId,
+  onSelectConversation,
+}: ConversationListProps) {
+  return (
+    <div className="space-y-1 p-2 overflow-y-auto">
+      {conversations.map((conversation) => (
+        <ConversationItem
+          key={conversation.id}
+          conversation={conversation}
+          currentUid={currentUid}
+          active={conversation.id === activeId}
+          onSelect={() => onSelectConversation(conversation)}
+        />
       ))}
     </div>
-  )
+  );
 }
-
@@ -1,35 +1,16 @@
-import { useState, FormEvent, ChangeEvent, SetStateAction, Dispatch } from "react";
+import { useState, FormEvent, ChangeEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { getCurrentUser, getIdTokenNoParam } from "@/utils";
+import { getCurrentUser } from "@/utils";
 import { toast } from "sonner";
+import VoiceInputButton from "@/components/voice-input-button";
+import { useCreateCommunityPost } from "@/hooks/communityHook";
+import { useLocale } from "@/context/localeContext";
 
-interface Post {
-    communityId: string;
-    id: string;
-    title: string;
-    content: string;
-    author: string;
-    timeAgo: string;
-    likes: number;
-    dislikes: number;
-    image: string | null;
-    comments: Comment[];
-    createdAt: any;
-    updatedAt: any;
-}
-
-interface Comment {
-    id: string;
-    author: string;
-    content: string;
-    timeAgo: string;
-    likes: number;
-    dislikes: number;
-}
-
-function CreatePost({ communityId, setPosts }: { communityId: string; setPosts: Dispatch<SetStateAction<Post[]>> }) {
+function CreatePost({ communityId }: { communityId: string }) {
+  const { t } = useLocale();
+  const createCommunityPost = useCreateCommunityPost(communityId);
   const [newPost, setNewPost] = useState({ title: "", content: "" });
   const [image, setImage] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
@@ -46,11 +27,19 @@ function CreatePost({ communityId, setPosts }: { communityId: string; setPosts:
     }
   };
 
+  // Dictated phrases are added to the end of the post body
+  const appendToContent = (text: string) => {
+    setNewPost((prev) => ({
+      ...prev,
+      content: prev.content.trim() ? `${prev.content.trimEnd()} ${text}` : text,
+    }));
+  };
+
   // Handle new post submission
   const handlePostSubmit = async (e: FormEvent) => {
   e.preventDefault();
   if (!newPost.title.trim() || !newPost.content.trim()) {
-    toast.error("Title and content are required.");
+    toast.error(t("community.toast.postRequired"));
     return;
   }
 
@@ -61,38 +50,22 @@ function CreatePost({ communityId, setPosts }: { communityId: string; setPosts:
     const user = await getCurrentUser();
     const author = user?.uid || "";
     const displayAuthor = user?.email || "anonymous@email.com";
-    const idToken = await getIdTokenNoParam();
-
-    const formData = new FormData();
-    formData.append("communityId", communityId);
-    formData.append("title", newPost.title);
-    formData.append("content", newPost.content);
-    formData.append("author", author);
-    formData.append("displayAuthor", displayAuthor);
 
-    if (image) {
-      formData.append("image", image);
-    }
-
-    const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/community/posts`, {
-      method: "POST",
-      headers: { "Authorization": `Bearer ${idToken}` },
-      body: formData,
+    await createCommunityPost({
+      title: newPost.title,
+      content: newPost.content,
+      author,
+      displayAuthor,
+      image,
     });
 
-    if (!res.ok) toast.error("Failed to create post");
-
-    let {post}= await res.json();
-
-    setPosts((prevPosts) => [post, ...prevPosts]);
-
     // Reset form after submission
     setNewPost({ title: "", content: "" });
     setImage(null);
     setPreview(null);
-    toast.success("Post added successfully")
+    toast.success(t("community.toast.postAdded"))
   } catch (err) {
-    toast.error("Error posting. Try again later.");
+    toast.error(t("community.toast.postError"));
   } finally {
     setLoading(false);
   }
@@ -101,29 +74,36 @@ function CreatePost({ communityId, setPosts }: { communityId: string; setPosts:
 
   return (
     <div className="bg-white rounded-lg shadow p-4 mb-6">
-      <h2 className="text-lg font-semibold text-blue-600 mb-4">Create Post</h2>
+      <h2 className="text-lg font-semibold text-blue-600 mb-4">{t("community.createPost")}</h2>
 
       <form onSubmit={handlePostSubmit} className="space-y-4">
         <Input
-          placeholder="Title"
+          placeholder={t("community.postTitlePlaceholder")}
           className="border-blue-200"
           value={newPost.title}
           onChange={(e) => setNewPost({ ...newPost, title: e.target.value })}
         />
-        <Textarea
-          placeholder="What's on your mind?"
-          className="min-h-[100px] border-blue-200"
-          value={newPost.content}
-          onChange={(e) => setNewPost({ ...newPost, content: e.target.value })}
-        />
+        <div className="relative">
+          <Textarea
+            placeholder={t("community.postContentPlaceholder")}
+            className="min-h-[100px] border-blue-200 pr-12"
+            value={newPost.content}
+            onChange={(e) => setNewPost({ ...newPost, content: e.target.value })}
+          />
+          <VoiceInputButton
+            onTranscript={appendToContent}
+            disabled={loading}
+            className="absolute right-1 top-1"
+          />
+        </div>
         
         {/* Image Upload */}
         <input type="file" accept="image/*" onChange={handleImageChange} />
-        {preview && <img src={preview} alt="Preview" className="w-full h-auto rounded mt-2" />}
+        {preview && <img src={preview} alt={t("community.imagePreview")} className="w-full h-auto rounded mt-2" />}
 
         <div className="flex justify-end gap-2">
           <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={loading}>
-            {loading ? "Posting..." : "Post"}
+            {loading ? t("community.posting") : t("community.post")}
           </Button>
         </div>
       </form>
@@ -1,19 +1,75 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { Copy, ExternalLink, MapPin } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useLocale } from "@/context/localeContext"
+import { geocodeAddress } from "@/lib/geo"
+import { getMapProvider, type MapTarget } from "@/lib/maps"
+import type { GeoPoint } from "@/types/geo"
 
 interface GoogleMapDialogProps {
   isOpen: boolean
   onClose: () => void
   location: string
+  coordinates?: GeoPoint
+  // Set when the stored coordinates were looked up from the pincode
+  coordinatesApproximate?: boolean
   title: string
 }
 
-export default function GoogleMapDialog({ isOpen, onClose, location, title }: GoogleMapDialogProps) {
+export default function GoogleMapDialog({
+  isOpen,
+  onClose,
+  location,
+  coordinates,
+  coordinatesApproximate,
+  title,
+}: GoogleMapDialogProps) {
+  const { t } = useLocale()
   const [mapError, setMapError] = useState(false)
-  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || ""
-  const mapSrc = `https://www.google.com/maps/embed/v1/place?key=${apiKey}&q=${encodeURIComponent(location)}`
+  // Pincode-based fallback for jobs posted before coordinates were stored
+  const [pincodeCoordinates, setPincodeCoordinates] = useState<GeoPoint | null>(null)
+
+  const provider = getMapProvider()
+  // Coordinates are only ever derived from the pincode, so they're a last
+  // resort for providers that can place the address themselves
+  const placedByAddress = provider.placesByAddress && !!location.trim()
+  // Nothing to place when the provider only links to directions
+  const needsCoordinates = provider.embeds && !placedByAddress
+
+  useEffect(() => {
+    if (coordinates || !needsCoordinates || !isOpen) return
+
+    let cancelled = false
+    geocodeAddress(location).then((point) => {
+      if (!cancelled) setPincodeCoordinates(point)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [coordinates, needsCoordinates, isOpen, location])
+
+  const target: MapTarget = {
+    address: location,
+    coordinates: coordinates || pincodeCoordinates || undefined,
+  }
+  const mapSrc = provider.getEmbedUrl(target)
+  // A pincode fallback is always approximate; stored coordinates say so
+  const approximate = coordinates ? !!coordinatesApproximate : !!pincodeCoordinates
+  const directionsUrl = provider.getDirectionsUrl(target)
+
+  const handleCopyAddress = async () => {
+    try {
+      await navigator.clipboard.writeText(location)
+      toast.success(t("map.addressCopied"))
+    } catch {
+      toast.error(t("map.copyFailed"))
+    }
+  }
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
@@ -21,12 +77,8 @@ export default function GoogleMapDialog({ isOpen, onClose, location, title }: Go
         <DialogHeader>
           <DialogTitle>{title}</DialogTitle>
         </DialogHeader>
-        <div className="h-[400px] w-full relative">
-          {mapError ? (
-            <div className="flex items-center justify-center h-full">
-              <p className="text-red-600">Failed to load map. Please try again later.</p>
-            </div>
-          ) : (
+        {mapSrc && !mapError ? (
+          <div className="h-[400px] w-full relative">
             <iframe
               title={title}
               src={mapSrc}
@@ -39,7 +91,28 @@ export default function GoogleMapDialog({ isOpen, onClose, location, title }: Go
               referrerPolicy="no-referrer-when-downgrade"
               onError={() => setMapError(true)}
             ></iframe>
-          )}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center gap-3 py-8 text-center">
+            <MapPin className="h-8 w-8 text-muted-foreground" />
+            <p className="font-medium">{location}</p>
+            {mapError && <p className="text-sm text-red-600">{t("map.loadFailed")}</p>}
+          </div>
+        )}
+        {!placedByAddress && approximate && mapSrc && !mapError && (
+          <p className="text-xs text-muted-foreground">{t("map.approximate")}</p>
+        )}
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={handleCopyAddress}>
+            <Copy className="mr-2 h-4 w-4" />
+            {t("map.copyAddress")}
+          </Button>
+          <Button size="sm" asChild>
+            <a href={directionsUrl} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="mr-2 h-4 w-4" />
+              {t("map.getDirections")}
+            </a>
+          </Button>
         </div>
       </DialogContent>
     </Dialog>
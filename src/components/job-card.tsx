@@ -0,0 +1,151 @@
+"use client";
+
+import type { ReactNode } from "react";
+import Link from "next/link";
+import {
+  Banknote,
+  Briefcase,
+  Calendar,
+  ChevronRight,
+  MapPin,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import BookmarkButton from "@/components/bookmark-button";
+import CompanyInfo from "@/components/company-info";
+import { useLocale } from "@/context/localeContext";
+import { formatDistance } from "@/lib/geo";
+import { optionLabel } from "@/lib/i18n";
+import { formatDailyEquivalent, formatWage } from "@/lib/wage";
+import type { JobPost } from "@/types/jobpost";
+
+interface JobCardProps {
+  job: JobPost;
+  distance?: number; // Kilometres from the worker, for "jobs near me"
+  saved?: boolean;
+  onToggleSave?: () => Promise<void>; // Shows the bookmark button when set
+  actions?: ReactNode; // Extra footer buttons, e.g. Apply
+}
+
+// Summary card for a job, used in the job list and in assistant replies
+export default function JobCard({
+  job,
+  distance,
+  saved = false,
+  onToggleSave,
+  actions,
+}: JobCardProps) {
+  const { locale, t, formatDate } = useLocale();
+  const dailyWage = formatDailyEquivalent(job.wage, job.hours_per_week, locale);
+
+  return (
+    <Card
+      className={`overflow-hidden transition-all hover:shadow-md group ${
+        job.special_woman_provision
+          ? "border-l-4 border-l-pink-500"
+          : job.special_transgender_provision
+          ? "border-l-4 border-l-purple-500"
+          : job.special_disability_provision
+          ? "border-l-4 border-l-blue-500"
+          : ""
+      }`}
+    >
+      <CardHeader className="pb-2 relative">
+        <div className="flex justify-between items-start">
+          <CardTitle className="text-lg sm:text-xl pr-16 group-hover:text-primary transition-colors">
+            {job.job_title}
+          </CardTitle>
+        </div>
+        <CompanyInfo
+          company={job.company}
+          fallbackName={job.employer_name}
+          className="text-sm text-muted-foreground mt-1"
+        />
+        <div className="absolute top-4 right-4 flex flex-col sm:flex-row gap-1">
+          {job.special_woman_provision && (
+            <Badge className="bg-pink-100 text-pink-700 hover:bg-pink-200 dark:bg-pink-900/30 dark:text-pink-300">
+              {t("jobs.badge.women")}
+            </Badge>
+          )}
+          {job.special_transgender_provision && (
+            <Badge className="bg-purple-100 text-purple-700 hover:bg-purple-200 dark:bg-purple-900/30 dark:text-purple-300">
+              LGBTQ+
+            </Badge>
+          )}
+          {job.special_disability_provision && (
+            <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300">
+              {t("inclusivity.disability-friendly")}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pb-2">
+        <div className="space-y-3">
+          <div className="flex items-center text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
+            <span className="truncate">
+              {job.place_of_work ||
+                (job.location
+                  ? [job.location.city, job.location.state]
+                      .filter(Boolean)
+                      .join(", ")
+                  : t("jobs.locationNotProvided"))}
+            </span>
+            {distance !== undefined && (
+              <span className="ml-2 flex-shrink-0 text-xs font-medium text-blue-600">
+                {formatDistance(distance, locale, {
+                  approximate: job.location?.coordinates_approximate,
+                })}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center text-sm">
+            <Briefcase className="h-4 w-4 mr-1 flex-shrink-0" />
+            <Badge variant="outline" className="font-normal rounded-sm">
+              {optionLabel("jobType", job.type_of_work, t)}
+            </Badge>
+          </div>
+          <div className="flex items-center text-sm font-medium text-green-600 dark:text-green-400">
+            <Banknote className="h-4 w-4 mr-1 flex-shrink-0" />
+            {formatWage(job.wage, locale) || t("jobs.salaryNotProvided")}
+            {dailyWage && (
+              <span className="ml-1 text-xs font-normal text-muted-foreground">
+                ({dailyWage})
+              </span>
+            )}
+          </div>
+          {job.createdAt && (
+            <div className="flex items-center text-xs text-muted-foreground">
+              <Calendar className="h-3 w-3 mr-1 flex-shrink-0" />
+              {t("jobs.postedOn", {
+                date: formatDate(job.createdAt),
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter className="pt-2 flex gap-2">
+        <Link href={`/job/${job.id}`} className="flex-1">
+          <Button
+            variant="outline"
+            className="w-full group-hover:bg-primary group-hover:text-primary-foreground transition-colors"
+          >
+            <span>{t("jobs.viewDetails")}</span>
+            <ChevronRight className="ml-2 h-4 w-4" />
+          </Button>
+        </Link>
+        {actions}
+        {onToggleSave && (
+          <BookmarkButton saved={saved} onToggle={onToggleSave} />
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
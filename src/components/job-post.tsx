@@ -1,6 +1,7 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -11,6 +12,7 @@ import {
   Clock,
   Calendar,
   DollarSign,
+  BadgeCheck,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -47,8 +49,20 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarImage } from "@/components/ui/avatar";
 import type { JobPost, JobPostForm } from "@/types/jobpost";
-import { createJobPost } from "@/actions/jobPost";
+import { formatWagePeriod, WAGE_PERIODS } from "@/lib/wage";
+import { geocodePincode } from "@/lib/geo";
+import {
+  createJobPost,
+  getJobPostById,
+  updateJobPost,
+} from "@/actions/jobPost";
+import { jobPostKeys } from "@/hooks/jobPostHook";
+import { invalidateQueries } from "@/lib/queryCache";
+import { toast } from "sonner";
+import { useUser } from "@/context/userContext";
+import { useLocale } from "@/context/localeContext";
 
 const formSchema = z.object({
   job_title: z.string().min(3, { message: "Job title is required" }),
@@ -63,7 +77,10 @@ const formSchema = z.object({
   special_woman_provision: z.boolean().default(false),
   special_transgender_provision: z.boolean().default(false),
   special_disabled_provision: z.boolean().default(false),
-  wage: z.string().optional(),
+  wage_amount: z.coerce.number().positive().optional(),
+  wage_period: z
+    .enum(["hourly", "daily", "weekly", "monthly", "piece-rate"])
+    .default("daily"),
   hours_per_week: z.coerce.number().int().positive().optional(),
   job_duration: z.string().optional(),
   start_time: z.string().optional(),
@@ -71,16 +88,61 @@ const formSchema = z.object({
   job_role_description: z.string().optional(),
 });
 
-export default function JobPostForm() {
+type FormValues = z.infer<typeof formSchema>;
+
+// Maps a stored job post back onto the form fields for editing
+function toFormValues(job: JobPost): FormValues {
+  return {
+    job_title: job.job_title,
+    type_of_work: job.type_of_work,
+    employer_name: job.employer_name || "",
+    place_of_work: job.place_of_work || "",
+    city: job.location?.city || "",
+    state: job.location?.state || "",
+    district: job.location?.district || "",
+    pincode: job.location?.pincode || "",
+    vacancies: job.vacancies,
+    special_woman_provision: !!job.special_woman_provision,
+    special_transgender_provision: !!job.special_transgender_provision,
+    special_disabled_provision: !!job.special_disability_provision,
+    wage_amount: typeof job.wage === "object" ? job.wage.amount : undefined,
+    wage_period: typeof job.wage === "object" ? job.wage.period : "daily",
+    hours_per_week: job.hours_per_week,
+    job_duration: job.job_duration || "",
+    start_time: job.start_time || "",
+    end_time: job.end_time || "",
+    job_role_description: job.job_role_description || "",
+  };
+}
+
+interface JobPostFormProps {
+  // When set, the form loads this job post and saves changes to it
+  jobId?: string;
+}
+
+export default function JobPostForm({ jobId }: JobPostFormProps = {}) {
+  const isEditing = !!jobId;
+  const { user, setUser } = useUser();
+  const { locale, t } = useLocale();
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [logoPreview, setLogoPreview] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitSuccess, setSubmitSuccess] = useState(false);
+  const [isLoadingJob, setIsLoadingJob] = useState(isEditing);
+  // Free-text wage of an older post, shown while the employer re-enters it
+  const [legacyWage, setLegacyWage] = useState<string | null>(null);
 
-  const form = useForm<z.infer<typeof formSchema>>({
+  // New posts default to the employer's company, or their own name
+  const defaultEmployerName =
+    user?.company?.name ||
+    [user?.firstName, user?.lastName].filter(Boolean).join(" ");
+
+  const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       job_title: "",
       type_of_work: "",
-      employer_name: "",
+      employer_name: defaultEmployerName,
       place_of_work: "",
       city: "",
       state: "",
@@ -90,7 +152,8 @@ export default function JobPostForm() {
       special_woman_provision: false,
       special_transgender_provision: false,
       special_disabled_provision: false,
-      wage: "",
+      wage_amount: undefined,
+      wage_period: "daily",
       hours_per_week: undefined,
       job_duration: "",
       start_time: "",
@@ -99,26 +162,104 @@ export default function JobPostForm() {
     },
   });
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
+  useEffect(() => {
+    if (!logoFile) {
+      setLogoPreview(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(logoFile);
+    setLogoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [logoFile]);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    setIsLoadingJob(true);
+    getJobPostById(jobId)
+      .then((job) => {
+        form.reset(toFormValues(job));
+        setLegacyWage(typeof job.wage === "string" ? job.wage : null);
+      })
+      .catch((error) => {
+        console.error("Error loading job post:", error);
+        toast.error(t("jobPost.loadFailed"));
+      })
+      .finally(() => setIsLoadingJob(false));
+  }, [jobId, form, t]);
+
+  async function onSubmit(values: FormValues) {
     setIsSubmitting(true);
     try {
+      // Store coordinates so the job shows up in "near me" searches. When
+      // the pincode is removed or can't be found, clear the old ones.
+      const coordinates = values.pincode
+        ? await geocodePincode(values.pincode)
+        : null;
+
+      if (jobId) {
+        await updateJobPost(jobId, {
+          job_title: values.job_title,
+          type_of_work: values.type_of_work,
+          employer_name: values.employer_name,
+          place_of_work: values.place_of_work,
+          city: values.city,
+          state: values.state,
+          district: values.district,
+          pincode: values.pincode,
+          latitude: coordinates?.lat ?? null,
+          longitude: coordinates?.lng ?? null,
+          coordinates_approximate: !!coordinates?.approximate,
+          vacancies: values.vacancies,
+          special_woman_provision: values.special_woman_provision,
+          special_transgender_provision: values.special_transgender_provision,
+          special_disability_provision: values.special_disabled_provision,
+          wage_amount: values.wage_amount,
+          wage_currency: values.wage_amount ? "INR" : undefined,
+          wage_period: values.wage_amount ? values.wage_period : undefined,
+          hours_per_week: values.hours_per_week,
+          job_duration: values.job_duration,
+          start_time: values.start_time,
+          end_time: values.end_time,
+          job_role_description: values.job_role_description,
+          company_logo: logoFile || undefined,
+          updatedAt: new Date().toISOString(),
+        });
+        invalidateQueries(jobPostKeys.all);
+        setLogoFile(null);
+        setSubmitSuccess(true);
+        return;
+      }
+
       // Transform form data to match JobPost interface
+      if (!user?.uid) {
+        throw new Error(t("jobPost.signInRequired"));
+      }
+
       const jobPostData: JobPostForm = {
-        id: crypto.randomUUID(), // Generate a random ID for now
-        employer_id: "current-employer-id",
+        employer_id: user.uid,
         job_title: values.job_title,
         type_of_work: values.type_of_work,
-        employer_name: values.employer_name,
+        employer_name: values.employer_name || defaultEmployerName,
+        company_logo: logoFile || undefined,
         place_of_work: values.place_of_work,
         city: values.city,
         state: values.state,
         district: values.district,
         pincode: values.pincode,
+        latitude: coordinates?.lat,
+        longitude: coordinates?.lng,
+        coordinates_approximate: coordinates
+          ? !!coordinates.approximate
+          : undefined,
         vacancies: values.vacancies,
         special_woman_provision: values.special_woman_provision,
         special_transgender_provision: values.special_transgender_provision,
         special_disability_provision: values.special_disabled_provision,
-        wage: values.wage,
+        wage_amount: values.wage_amount,
+        wage_currency: values.wage_amount ? "INR" : undefined,
+        wage_period: values.wage_amount ? values.wage_period : undefined,
         hours_per_week: values.hours_per_week,
         job_duration: values.job_duration,
         start_time: values.start_time,
@@ -127,13 +268,23 @@ export default function JobPostForm() {
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
-      await createJobPost(jobPostData);
+      const result = await createJobPost(jobPostData);
+      invalidateQueries(jobPostKeys.all);
 
+      // Keep the context in sync with the company profile the backend stored
+      if (result?.jobPost?.company) {
+        setUser({ ...user, company: result.jobPost.company });
+      }
+
+      setLogoFile(null);
       setSubmitSuccess(true);
       // Reset form after successful submission
       form.reset();
     } catch (error) {
-      console.error("Error creating job post:", error);
+      console.error("Error saving job post:", error);
+      toast.error(
+        isEditing ? t("jobPost.updateFailed") : t("jobPost.createFailed")
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -144,14 +295,20 @@ export default function JobPostForm() {
       <Card className="border-blue-100 shadow-md">
         <CardHeader className="bg-blue-50 border-b border-blue-100">
           <CardTitle className="text-2xl text-blue-800">
-            Post a New Job
+            {isEditing ? t("jobPost.editTitle") : t("jobPost.newTitle")}
           </CardTitle>
           <CardDescription className="text-blue-600">
-            Fill out the form below to create a new job posting
+            {isEditing
+              ? t("jobPost.editDescription")
+              : t("jobPost.newDescription")}
           </CardDescription>
         </CardHeader>
         <CardContent className="pt-6">
-          {submitSuccess ? (
+          {isLoadingJob ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+            </div>
+          ) : submitSuccess ? (
             <div className="bg-green-50 p-6 rounded-md text-green-800 mb-6 border border-green-200 shadow-sm">
               <h3 className="font-medium text-lg flex items-center gap-2">
                 <svg
@@ -169,15 +326,31 @@ export default function JobPostForm() {
                   <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
                   <polyline points="22 4 12 14.01 9 11.01"></polyline>
                 </svg>
-                Job Posted Successfully!
+                {isEditing ? t("jobPost.updated") : t("jobPost.posted")}
               </h3>
-              <p>Your job has been posted and is now visible to workers.</p>
-              <Button
-                className="mt-4 bg-green-600 hover:bg-green-700"
-                onClick={() => setSubmitSuccess(false)}
-              >
-                Post Another Job
-              </Button>
+              {isEditing ? (
+                <>
+                  <p>{t("jobPost.changesSaved")}</p>
+                  <Button
+                    asChild
+                    className="mt-4 bg-green-600 hover:bg-green-700"
+                  >
+                    <Link href="/employer-post">
+                      {t("jobPost.backToPosts")}
+                    </Link>
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <p>{t("jobPost.nowVisible")}</p>
+                  <Button
+                    className="mt-4 bg-green-600 hover:bg-green-700"
+                    onClick={() => setSubmitSuccess(false)}
+                  >
+                    {t("jobPost.postAnother")}
+                  </Button>
+                </>
+              )}
             </div>
           ) : (
             <Form {...form}>
@@ -199,7 +372,7 @@ export default function JobPostForm() {
                     <AccordionTrigger className="text-lg font-medium text-blue-700 px-4 py-3 hover:bg-blue-50 rounded-t-md">
                       <div className="flex items-center gap-2">
                         <Briefcase className="h-5 w-5" />
-                        Basic Job Information
+                        {t("jobPost.basicInfo")}
                       </div>
                     </AccordionTrigger>
                     <AccordionContent className="space-y-4 pt-4 px-4 pb-4 bg-white">
@@ -209,11 +382,11 @@ export default function JobPostForm() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-blue-700">
-                              Job Title*
+                              {t("jobPost.jobTitle")}
                             </FormLabel>
                             <FormControl>
                               <Input
-                                placeholder="e.g. Construction Worker"
+                                placeholder={t("jobPost.jobTitlePlaceholder")}
                                 {...field}
                                 className="border-blue-200 focus-visible:ring-blue-500"
                               />
@@ -229,32 +402,36 @@ export default function JobPostForm() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-blue-700">
-                              Type of Work*
+                              {t("jobPost.typeOfWork")}
                             </FormLabel>
                             <Select
                               onValueChange={field.onChange}
-                              defaultValue={field.value}
+                              value={field.value}
                             >
                               <FormControl>
                                 <SelectTrigger className="border-blue-200 focus-visible:ring-blue-500">
-                                  <SelectValue placeholder="Select type of work" />
+                                  <SelectValue
+                                    placeholder={t(
+                                      "jobPost.typeOfWorkPlaceholder"
+                                    )}
+                                  />
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
                                 <SelectItem value="full-time">
-                                  Full-time
+                                  {t("jobType.full-time")}
                                 </SelectItem>
                                 <SelectItem value="part-time">
-                                  Part-time
+                                  {t("jobType.part-time")}
                                 </SelectItem>
                                 <SelectItem value="contract">
-                                  Contract
+                                  {t("jobType.contract")}
                                 </SelectItem>
                                 <SelectItem value="temporary">
-                                  Temporary
+                                  {t("jobType.temporary")}
                                 </SelectItem>
                                 <SelectItem value="seasonal">
-                                  Seasonal
+                                  {t("jobType.seasonal")}
                                 </SelectItem>
                               </SelectContent>
                             </Select>
@@ -269,31 +446,69 @@ export default function JobPostForm() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-blue-700">
-                              Employer/Company Name
+                              {t("jobPost.employerName")}
                             </FormLabel>
                             <FormControl>
                               <Input
-                                placeholder="e.g. ABC Construction"
+                                placeholder={t(
+                                  "jobPost.employerNamePlaceholder"
+                                )}
                                 {...field}
                                 className="border-blue-200 focus-visible:ring-blue-500"
                               />
                             </FormControl>
+                            {user?.company?.verified && (
+                              <FormDescription className="flex items-center gap-1 text-blue-600">
+                                <BadgeCheck className="h-4 w-4" />
+                                {t("jobPost.companyVerified")}
+                              </FormDescription>
+                            )}
                             <FormMessage />
                           </FormItem>
                         )}
                       />
 
+                      <FormItem>
+                        <FormLabel className="text-blue-700">
+                          {t("jobPost.companyLogo")}
+                        </FormLabel>
+                        <div className="flex items-center gap-4">
+                          {(logoPreview || user?.company?.logo) && (
+                            <Avatar className="h-12 w-12 rounded-md border border-blue-100">
+                              <AvatarImage
+                                src={logoPreview || user?.company?.logo}
+                                alt={t("jobPost.companyLogoAlt")}
+                                className="object-cover"
+                              />
+                            </Avatar>
+                          )}
+                          <Input
+                            type="file"
+                            accept="image/*"
+                            onChange={(e) =>
+                              setLogoFile(e.target.files?.[0] || null)
+                            }
+                            className="border-blue-200 focus-visible:ring-blue-500"
+                          />
+                        </div>
+                        <FormDescription>
+                          {t("jobPost.companyLogoHint")}
+                        </FormDescription>
+                      </FormItem>
+
                       <FormField
                         control={form.control}
                         name="place_of_work"
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-blue-700">
-                              Place of Work
+                              {t("jobPost.placeOfWork")}
                             </FormLabel>
                             <FormControl>
                               <Input
-                                placeholder="e.g. Construction Site, Factory"
+                                placeholder={t(
+                                  "jobPost.placeOfWorkPlaceholder"
+                                )}
                                 {...field}
                                 className="border-blue-200 focus-visible:ring-blue-500"
                               />
@@ -313,7 +528,7 @@ export default function JobPostForm() {
                     <AccordionTrigger className="text-lg font-medium text-blue-700 px-4 py-3 hover:bg-blue-50 rounded-t-md">
                       <div className="flex items-center gap-2">
                         <MapPin className="h-5 w-5" />
-                        Location Details
+                        {t("jobPost.locationDetails")}
                       </div>
                     </AccordionTrigger>
                     <AccordionContent className="space-y-4 pt-4 px-4 pb-4 bg-white">
@@ -324,11 +539,11 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                City
+                                {t("jobPost.city")}
                               </FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="e.g. Mumbai"
+                                  placeholder={t("jobPost.cityPlaceholder")}
                                   {...field}
                                   className="border-blue-200 focus-visible:ring-blue-500"
                                 />
@@ -344,11 +559,11 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                State
+                                {t("jobPost.state")}
                               </FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="e.g. Maharashtra"
+                                  placeholder={t("jobPost.statePlaceholder")}
                                   {...field}
                                   className="border-blue-200 focus-visible:ring-blue-500"
                                 />
@@ -364,11 +579,11 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                District
+                                {t("jobPost.district")}
                               </FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="e.g. Thane"
+                                  placeholder={t("jobPost.districtPlaceholder")}
                                   {...field}
                                   className="border-blue-200 focus-visible:ring-blue-500"
                                 />
@@ -384,11 +599,11 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                Pincode
+                                {t("jobPost.pincode")}
                               </FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="e.g. 400001"
+                                  placeholder={t("jobPost.pincodePlaceholder")}
                                   {...field}
                                   className="border-blue-200 focus-visible:ring-blue-500"
                                 />
@@ -409,7 +624,7 @@ export default function JobPostForm() {
                     <AccordionTrigger className="text-lg font-medium text-blue-700 px-4 py-3 hover:bg-blue-50 rounded-t-md">
                       <div className="flex items-center gap-2">
                         <DollarSign className="h-5 w-5" />
-                        Job Details
+                        {t("jobPost.jobDetails")}
                       </div>
                     </AccordionTrigger>
                     <AccordionContent className="space-y-4 pt-4 px-4 pb-4 bg-white">
@@ -420,12 +635,14 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                Number of Vacancies
+                                {t("jobPost.vacancies")}
                               </FormLabel>
                               <FormControl>
                                 <Input
                                   type="number"
-                                  placeholder="e.g. 5"
+                                  placeholder={t(
+                                    "jobPost.vacanciesPlaceholder"
+                                  )}
                                   {...field}
                                   onChange={(e) =>
                                     field.onChange(e.target.valueAsNumber)
@@ -440,23 +657,70 @@ export default function JobPostForm() {
 
                         <FormField
                           control={form.control}
-                          name="wage"
+                          name="wage_amount"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                Wage/Salary
+                                {t("jobPost.wage")}
                               </FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="e.g. ₹500 per day"
+                                  type="number"
+                                  min={0}
+                                  placeholder={t("jobPost.wagePlaceholder")}
                                   {...field}
+                                  value={field.value ?? ""}
+                                  onChange={(e) =>
+                                    field.onChange(
+                                      e.target.value === ""
+                                        ? undefined
+                                        : e.target.valueAsNumber
+                                    )
+                                  }
                                   className="border-blue-200 focus-visible:ring-blue-500"
                                 />
                               </FormControl>
-                              <FormDescription>
-                                Specify the amount and period (per hour, day,
-                                week, etc.)
-                              </FormDescription>
+                              {legacyWage && (
+                                <FormDescription>
+                                  {t("jobPost.previousWage", {
+                                    wage: legacyWage,
+                                  })}
+                                </FormDescription>
+                              )}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="wage_period"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel className="text-blue-700">
+                                {t("jobPost.paid")}
+                              </FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                value={field.value}
+                              >
+                                <FormControl>
+                                  <SelectTrigger className="border-blue-200 focus-visible:ring-blue-500">
+                                    <SelectValue
+                                      placeholder={t(
+                                        "jobPost.periodPlaceholder"
+                                      )}
+                                    />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {WAGE_PERIODS.map((period) => (
+                                    <SelectItem key={period} value={period}>
+                                      {formatWagePeriod(period, locale)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                               <FormMessage />
                             </FormItem>
                           )}
@@ -468,12 +732,14 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                Hours Per Week
+                                {t("jobPost.hoursPerWeek")}
                               </FormLabel>
                               <FormControl>
                                 <Input
                                   type="number"
-                                  placeholder="e.g. 40"
+                                  placeholder={t(
+                                    "jobPost.hoursPerWeekPlaceholder"
+                                  )}
                                   {...field}
                                   onChange={(e) =>
                                     field.onChange(e.target.valueAsNumber)
@@ -492,34 +758,42 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                Job Duration
+                                {t("jobPost.duration")}
                               </FormLabel>
                               <Select
                                 onValueChange={field.onChange}
-                                defaultValue={field.value}
+                                value={field.value}
                               >
                                 <FormControl>
                                   <SelectTrigger className="border-blue-200 focus-visible:ring-blue-500">
-                                    <SelectValue placeholder="Select duration" />
+                                    <SelectValue
+                                      placeholder={t(
+                                        "jobPost.durationPlaceholder"
+                                      )}
+                                    />
                                   </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  <SelectItem value="1-day">1 Day</SelectItem>
-                                  <SelectItem value="1-week">1 Week</SelectItem>
+                                  <SelectItem value="1-day">
+                                    {t("duration.1-day")}
+                                  </SelectItem>
+                                  <SelectItem value="1-week">
+                                    {t("duration.1-week")}
+                                  </SelectItem>
                                   <SelectItem value="2-weeks">
-                                    2 Weeks
+                                    {t("duration.2-weeks")}
                                   </SelectItem>
                                   <SelectItem value="1-month">
-                                    1 Month
+                                    {t("duration.1-month")}
                                   </SelectItem>
                                   <SelectItem value="3-months">
-                                    3 Months
+                                    {t("duration.3-months")}
                                   </SelectItem>
                                   <SelectItem value="6-months">
-                                    6 Months
+                                    {t("duration.6-months")}
                                   </SelectItem>
                                   <SelectItem value="permanent">
-                                    Permanent
+                                    {t("duration.permanent")}
                                   </SelectItem>
                                 </SelectContent>
                               </Select>
@@ -539,7 +813,7 @@ export default function JobPostForm() {
                     <AccordionTrigger className="text-lg font-medium text-blue-700 px-4 py-3 hover:bg-blue-50 rounded-t-md">
                       <div className="flex items-center gap-2">
                         <Clock className="h-5 w-5" />
-                        Schedule Information
+                        {t("jobPost.schedule")}
                       </div>
                     </AccordionTrigger>
                     <AccordionContent className="space-y-4 pt-4 px-4 pb-4 bg-white">
@@ -550,7 +824,7 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                Start Time
+                                {t("jobPost.startTime")}
                               </FormLabel>
                               <FormControl>
                                 <Input
@@ -570,7 +844,7 @@ export default function JobPostForm() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel className="text-blue-700">
-                                End Time
+                                {t("jobPost.endTime")}
                               </FormLabel>
                               <FormControl>
                                 <Input
@@ -595,7 +869,7 @@ export default function JobPostForm() {
                     <AccordionTrigger className="text-lg font-medium text-blue-700 px-4 py-3 hover:bg-blue-50 rounded-t-md">
                       <div className="flex items-center gap-2">
                         <Calendar className="h-5 w-5" />
-                        Special Provisions
+                        {t("jobPost.specialProvisions")}
                       </div>
                     </AccordionTrigger>
                     <AccordionContent className="space-y-4 pt-4 px-4 pb-4 bg-white">
@@ -614,17 +888,16 @@ export default function JobPostForm() {
                             <div className="space-y-1 leading-none">
                               <div className="flex items-center gap-2">
                                 <FormLabel>
-                                  Special Provision for Women
+                                  {t("jobPost.womenProvision")}
                                 </FormLabel>
                                 {field.value && (
                                   <Badge className="bg-pink-500 hover:bg-pink-600">
-                                    Women
+                                    {t("jobs.badge.women")}
                                   </Badge>
                                 )}
                               </div>
                               <FormDescription>
-                                Check this if you have special accommodations or
-                                preferences for women workers
+                                {t("jobPost.womenProvisionHint")}
                               </FormDescription>
                             </div>
                           </FormItem>
@@ -646,7 +919,7 @@ export default function JobPostForm() {
                             <div className="space-y-1 leading-none">
                               <div className="flex items-center gap-2">
                                 <FormLabel>
-                                  Special Provision for Transgender Individuals
+                                  {t("jobPost.transgenderProvision")}
                                 </FormLabel>
                                 {field.value && (
                                   <Badge className="bg-purple-500 hover:bg-purple-600">
@@ -655,8 +928,7 @@ export default function JobPostForm() {
                                 )}
                               </div>
                               <FormDescription>
-                                Check this if you have special accommodations or
-                                preferences for transgender workers
+                                {t("jobPost.transgenderProvisionHint")}
                               </FormDescription>
                             </div>
                           </FormItem>
@@ -678,17 +950,16 @@ export default function JobPostForm() {
                             <div className="space-y-1 leading-none">
                               <div className="flex items-center gap-2">
                                 <FormLabel>
-                                  Special Provision for Disabled Individuals
+                                  {t("jobPost.disabledProvision")}
                                 </FormLabel>
                                 {field.value && (
                                   <Badge className="bg-blue-500 hover:bg-blue-600">
-                                    Disabled
+                                    {t("jobPost.badge.disabled")}
                                   </Badge>
                                 )}
                               </div>
                               <FormDescription>
-                                Check this if you have special accommodations or
-                                preferences for disabled workers
+                                {t("jobPost.disabledProvisionHint")}
                               </FormDescription>
                             </div>
                           </FormItem>
@@ -721,7 +992,7 @@ export default function JobPostForm() {
                           <line x1="16" y1="17" x2="8" y2="17"></line>
                           <polyline points="10 9 9 9 8 9"></polyline>
                         </svg>
-                        Job Description
+                        {t("jobPost.description")}
                       </div>
                     </AccordionTrigger>
                     <AccordionContent className="space-y-4 pt-4 px-4 pb-4 bg-white">
@@ -731,11 +1002,13 @@ export default function JobPostForm() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-blue-700">
-                              Job Role Description
+                              {t("jobPost.roleDescription")}
                             </FormLabel>
                             <FormControl>
                               <Textarea
-                                placeholder="Describe the job responsibilities, requirements, and any other relevant details..."
+                                placeholder={t(
+                                  "jobPost.roleDescriptionPlaceholder"
+                                )}
                                 className="min-h-[150px] border-blue-200 focus-visible:ring-blue-500"
                                 {...field}
                               />
@@ -757,10 +1030,12 @@ export default function JobPostForm() {
                     {isSubmitting ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Posting Job...
+                        {isEditing ? t("jobPost.saving") : t("jobPost.posting")}
                       </>
+                    ) : isEditing ? (
+                      t("jobPost.saveChanges")
                     ) : (
-                      "Post Job"
+                      t("jobPost.postJob")
                     )}
                   </Button>
                 </div>
@@ -1,81 +1,125 @@
-"use client"
+"use client";
 
-import { useState } from "react"
-import { Button } from "@/components/ui/button"
+import { useEffect, useState } from "react";
+import { MessageSquarePlus, Search } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogContent,
   DialogDescription,
-  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
-} from "@/components/ui/dialog"
-import { Input } from "@/components/ui/input"
-import { Label } from "@/components/ui/label"
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { getDirectContacts } from "@/actions/directMessages";
+import { useLocale } from "@/context/localeContext";
+import type { DirectContact } from "@/types/directMessage";
 
-export default function NewChatDialog() {
-  const [username, setUsername] = useState("")
-  const [isOpen, setIsOpen] = useState(false)
+interface NewChatDialogProps {
+  role: string;
+  onStart: (contact: DirectContact) => Promise<void>;
+}
+
+// Picks someone to message from the people the user already has a job in
+// common with, so strangers can't be contacted
+export default function NewChatDialog({ role, onStart }: NewChatDialogProps) {
+  const { t } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [contacts, setContacts] = useState<DirectContact[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [starting, setStarting] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setFilter("");
+    setLoading(true);
+    getDirectContacts(role)
+      .then(setContacts)
+      .catch(() => toast.error(t("messages.contactsFailed")))
+      .finally(() => setLoading(false));
+  }, [isOpen, role, t]);
 
-  const handleStartChat = () => {
-    if (username.trim()) {
-      // In a real app, this would initiate a chat with the user
-      console.log("Starting chat with:", username)
-      setUsername("")
-      setIsOpen(false)
+  const handleStartChat = async (contact: DirectContact) => {
+    setStarting(contact.uid);
+    try {
+      await onStart(contact);
+      setIsOpen(false);
+    } catch {
+      toast.error(t("messages.startFailed"));
+    } finally {
+      setStarting(null);
     }
-  }
+  };
+
+  const visibleContacts = contacts.filter((contact) =>
+    contact.name.toLowerCase().includes(filter.trim().toLowerCase())
+  );
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
         <Button className="bg-blue-600 hover:bg-blue-700">
-          <svg
-            xmlns="http://www.w3.org/2000/svg"
-            width="16"
-            height="16"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            className="mr-1"
-          >
-            <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
-            <line x1="12" x2="12" y1="8" y2="16" />
-            <line x1="8" x2="16" y1="12" y2="12" />
-          </svg>
-          New Chat
+          <MessageSquarePlus className="mr-1 h-4 w-4" />
+          {t("messages.newChat")}
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle className="text-blue-600">Start a New Conversation</DialogTitle>
-          <DialogDescription>Enter the username of the person you want to chat with.</DialogDescription>
+          <DialogTitle className="text-blue-600">
+            {t("messages.newChatTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {role === "employer"
+              ? t("messages.newChatEmployer")
+              : t("messages.newChatWorker")}
+          </DialogDescription>
         </DialogHeader>
-        <div className="grid gap-4 py-4">
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="username" className="text-right">
-              Username
-            </Label>
-            <Input
-              id="username"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              placeholder="Enter username"
-              className="col-span-3 border-blue-200 focus-visible:ring-blue-500"
-            />
-          </div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder={t("messages.searchByName")}
+            className="pl-9 border-blue-200 focus-visible:ring-blue-500"
+          />
+        </div>
+        <div className="max-h-[320px] overflow-y-auto space-y-1">
+          {loading ? (
+            <p className="py-6 text-center text-sm text-gray-500">
+              {t("messages.loadingContacts")}
+            </p>
+          ) : visibleContacts.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">
+              {contacts.length === 0
+                ? role === "employer"
+                  ? t("messages.noApplicants")
+                  : t("messages.noEmployers")
+                : t("messages.noMatches")}
+            </p>
+          ) : (
+            visibleContacts.map((contact) => (
+              <button
+                key={contact.uid}
+                type="button"
+                onClick={() => handleStartChat(contact)}
+                disabled={!!starting}
+                className="w-full rounded-lg p-3 text-left hover:bg-blue-50 disabled:opacity-50"
+              >
+                <p className="font-medium text-gray-900">{contact.name}</p>
+                {contact.context && (
+                  <p className="text-sm text-gray-500 truncate">
+                    {contact.context}
+                  </p>
+                )}
+              </button>
+            ))
+          )}
         </div>
-        <DialogFooter>
-          <Button onClick={handleStartChat} className="bg-blue-600 hover:bg-blue-700" disabled={!username.trim()}>
-            Start Chat
-          </Button>
-        </DialogFooter>
       </DialogContent>
     </Dialog>
-  )
+  );
 }
-
@@ -1,5 +1,5 @@
 import Link from "next/link"
-import { Post } from "@/app/community/[id]/page"
+import type { CommunityPost as Post } from "@/types/community"
 interface PostItemProps {
   post: Post,
   communityId: string
@@ -0,0 +1,48 @@
+"use client";
+
+import { Square, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLocale } from "@/context/localeContext";
+import { useReadAloud } from "@/hooks/speechHook";
+import { getIntlLocale } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+interface ReadAloudButtonProps {
+  text: string;
+  showLabel?: boolean;
+  className?: string;
+}
+
+// Reads `text` out loud, or stops reading. Renders nothing where the browser
+// has no speech synthesis.
+export default function ReadAloudButton({
+  text,
+  showLabel = false,
+  className,
+}: ReadAloudButtonProps) {
+  const { locale, t } = useLocale();
+  const { supported, speaking, speak, stop } = useReadAloud(
+    getIntlLocale(locale)
+  );
+
+  if (!supported || !text.trim()) return null;
+
+  const label = speaking ? t("voice.stopReading") : t("voice.readAloud");
+  const Icon = speaking ? Square : Volume2;
+
+  return (
+    <Button
+      type="button"
+      variant={showLabel ? "outline" : "ghost"}
+      size={showLabel ? "default" : "icon"}
+      onClick={() => (speaking ? stop() : speak(text))}
+      aria-label={label}
+      aria-pressed={speaking}
+      title={label}
+      className={cn(!showLabel && "h-7 w-7", className)}
+    >
+      <Icon className={cn("h-4 w-4", showLabel && "mr-2")} />
+      {showLabel && label}
+    </Button>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect } from "react";
+import { Mic, MicOff } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useLocale } from "@/context/localeContext";
+import { useDictation } from "@/hooks/speechHook";
+import { getIntlLocale } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+interface VoiceInputButtonProps {
+  onTranscript: (text: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Microphone toggle that dictates into a text field in the worker's language.
+// Renders nothing where the browser can't do speech recognition.
+export default function VoiceInputButton({
+  onTranscript,
+  disabled = false,
+  className,
+}: VoiceInputButtonProps) {
+  const { locale, t } = useLocale();
+  const { supported, listening, error, toggle, stop } = useDictation(
+    getIntlLocale(locale),
+    onTranscript
+  );
+
+  useEffect(() => {
+    if (error === "not-allowed") toast.error(t("voice.micDenied"));
+    else if (error) toast.error(t("voice.didNotCatch"));
+  }, [error, t]);
+
+  useEffect(() => {
+    if (disabled) stop();
+  }, [disabled, stop]);
+
+  if (!supported) return null;
+
+  const label = listening ? t("voice.stopListening") : t("voice.speak");
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      onClick={toggle}
+      disabled={disabled}
+      aria-label={label}
+      aria-pressed={listening}
+      title={label}
+      className={cn(listening && "text-red-600 animate-pulse", className)}
+    >
+      {listening ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
+    </Button>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from "react";
+import { useUser } from "@/context/userContext";
+import { updatePreferredLanguage } from "@/actions/profile";
+import {
+  DEFAULT_LOCALE,
+  detectBrowserLocale,
+  formatDate,
+  getStoredLocale,
+  isLocale,
+  MessageKey,
+  storeLocale,
+  translate,
+} from "@/lib/i18n";
+import type { Locale, MessageValues } from "@/types/i18n";
+
+interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  formatDate: (
+    value: string | number | Date,
+    options?: Intl.DateTimeFormatOptions
+  ) => string;
+}
+
+const LocaleContext = createContext<LocaleContextType>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, values) => translate(DEFAULT_LOCALE, key, values),
+  formatDate: (value, options) => formatDate(value, DEFAULT_LOCALE, options),
+});
+
+interface LocaleProviderProps {
+  children: ReactNode;
+}
+
+// Must be rendered inside UserProvider, since signed-in users keep their
+// language on their profile
+export const LocaleProvider: React.FC<LocaleProviderProps> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const { user, setUser } = useUser();
+
+  // Start with the language chosen on this device, or the browser's
+  useEffect(() => {
+    const initial = getStoredLocale() || detectBrowserLocale();
+    if (initial) setLocaleState(initial);
+  }, []);
+
+  // A signed-in user's saved language wins, so it follows them across devices
+  const preferredLanguage = user?.preferredLanguage;
+  useEffect(() => {
+    if (isLocale(preferredLanguage)) {
+      setLocaleState(preferredLanguage);
+      storeLocale(preferredLanguage);
+    }
+  }, [preferredLanguage]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      setLocaleState(next);
+      storeLocale(next);
+
+      if (user) {
+        setUser({ ...user, preferredLanguage: next });
+        updatePreferredLanguage(user.uid, next).catch((error) =>
+          console.error("Error saving preferred language:", error)
+        );
+      }
+    },
+    [user, setUser]
+  );
+
+  const t = useCallback(
+    (key: MessageKey, values?: MessageValues) => translate(locale, key, values),
+    [locale]
+  );
+
+  const formatLocaleDate = useCallback(
+    (value: string | number | Date, options?: Intl.DateTimeFormatOptions) =>
+      formatDate(value, locale, options),
+    [locale]
+  );
+
+  return (
+    <LocaleContext.Provider
+      value={{ locale, setLocale, t, formatDate: formatLocaleDate }}
+    >
+      {children}
+    </LocaleContext.Provider>
+  );
+};
+
+// Custom hook for accessing the current language and translations
+export const useLocale = () => useContext(LocaleContext);
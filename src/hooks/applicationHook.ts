@@ -0,0 +1,13 @@
+import { getMyApplications } from "@/actions/applications";
+import { useQuery } from "@/hooks/queryHook";
+
+export const applicationKeys = {
+  all: ["applications"],
+  mine: () => ["applications", "mine"],
+};
+
+export function useMyApplications({
+  enabled = true,
+}: { enabled?: boolean } = {}) {
+  return useQuery(applicationKeys.mine(), getMyApplications, { enabled });
+}
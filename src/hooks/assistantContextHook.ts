@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  buildAssistantContext,
+  getStoredContextConsent,
+  storeContextConsent,
+} from "@/lib/assistantContext";
+import type { AssistantContextField } from "@/types/assistant";
+import type { User } from "@/types/userContext";
+
+/**
+ * The profile details the signed-in user has opted to share with the
+ * assistant, and the context built from them
+ */
+export function useAssistantContext(user: User | null) {
+  const [fields, setFieldsState] = useState<AssistantContextField[]>([]);
+
+  const uid = user?.uid;
+
+  useEffect(() => {
+    setFieldsState(uid ? getStoredContextConsent(uid) : []);
+  }, [uid]);
+
+  const setFields = useCallback(
+    (next: AssistantContextField[]) => {
+      if (!uid) return;
+      storeContextConsent(uid, next);
+      setFieldsState(next);
+    },
+    [uid]
+  );
+
+  const clear = useCallback(() => setFields([]), [setFields]);
+
+  const context = user ? buildAssistantContext(user, fields) : null;
+
+  return { fields, context, setFields, clear };
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  createAssistantConversation,
+  deleteAssistantConversation,
+  getAssistantConversations,
+  renameAssistantConversation,
+} from "@/actions/assistant";
+import { AssistantConversation } from "@/types/assistant";
+
+// Most recently active first, matching the order the backend returns
+function sortByActivity(conversations: AssistantConversation[]) {
+  return [...conversations].sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+}
+
+export function useAssistantConversations({
+  enabled = true,
+}: {
+  enabled?: boolean;
+}) {
+  const [conversations, setConversations] = useState<AssistantConversation[]>(
+    []
+  );
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+
+    try {
+      setLoading(true);
+      setConversations(await getAssistantConversations());
+    } catch (err) {
+      console.error("Error refreshing assistant conversations:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setConversations([]);
+      return;
+    }
+
+    refresh();
+  }, [enabled, refresh]);
+
+  const create = useCallback(async (threadId: string, title: string) => {
+    const conversation = await createAssistantConversation(threadId, title);
+    setConversations((prev) => [conversation, ...prev]);
+    return conversation;
+  }, []);
+
+  const rename = useCallback(async (conversationId: string, title: string) => {
+    const updated = await renameAssistantConversation(conversationId, title);
+    setConversations((prev) =>
+      prev.map((conversation) =>
+        conversation.id === conversationId ? updated : conversation
+      )
+    );
+  }, []);
+
+  const remove = useCallback(async (conversationId: string) => {
+    await deleteAssistantConversation(conversationId);
+    setConversations((prev) =>
+      prev.filter((conversation) => conversation.id !== conversationId)
+    );
+  }, []);
+
+  // Keeps the list in step after messages are saved to a conversation
+  const update = useCallback((updated: AssistantConversation) => {
+    setConversations((prev) =>
+      sortByActivity(
+        prev.map((conversation) =>
+          conversation.id === updated.id ? updated : conversation
+        )
+      )
+    );
+  }, []);
+
+  return { conversations, loading, refresh, create, rename, remove, update };
+}
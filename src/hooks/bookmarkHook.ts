@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from "react";
+import { addBookmark, getBookmarks, removeBookmark } from "@/actions/bookmarks";
+import { Bookmark } from "@/types/bookmark";
+
+export function useBookmarks({ enabled = true }: { enabled?: boolean } = {}) {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    async function fetchBookmarks() {
+      if (!enabled) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const saved = await getBookmarks();
+        if (isMounted) {
+          setBookmarks(saved);
+        }
+      } catch (err) {
+        console.error("Error loading bookmarks:", err);
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    fetchBookmarks();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [enabled]);
+
+  const isBookmarked = useCallback(
+    (jobId: string) => bookmarks.some((bookmark) => bookmark.job_id === jobId),
+    [bookmarks]
+  );
+
+  // Updates the list optimistically and rolls back if the request fails.
+  // Errors are rethrown so the caller can tell the user.
+  const toggleBookmark = useCallback(
+    async (jobId: string) => {
+      const existing = bookmarks.find((bookmark) => bookmark.job_id === jobId);
+
+      if (existing) {
+        setBookmarks((prev) => prev.filter((b) => b.job_id !== jobId));
+        try {
+          await removeBookmark(jobId);
+        } catch (err) {
+          setBookmarks((prev) => [existing, ...prev]);
+          throw err;
+        }
+        return;
+      }
+
+      const placeholder: Bookmark = {
+        id: `pending-${jobId}`,
+        job_id: jobId,
+        worker_id: "",
+        createdAt: new Date().toISOString(),
+      };
+      setBookmarks((prev) => [placeholder, ...prev]);
+
+      try {
+        const created = await addBookmark(jobId);
+        setBookmarks((prev) =>
+          prev.map((b) => (b.id === placeholder.id ? created : b))
+        );
+      } catch (err) {
+        setBookmarks((prev) => prev.filter((b) => b.id !== placeholder.id));
+        throw err;
+      }
+    },
+    [bookmarks]
+  );
+
+  return { bookmarks, loading, isBookmarked, toggleBookmark };
+}
@@ -0,0 +1,160 @@
+import { useCallback } from "react";
+import {
+  getCommunities,
+  getCommunity,
+  getCommunityPost,
+  getCommunityPosts,
+  createCommunityPost,
+  getJoinedCommunities,
+  getJoinedCommunityPosts,
+  joinCommunity,
+  leaveCommunity,
+  searchCommunities,
+} from "@/actions/community";
+import { useUser } from "@/context/userContext";
+import { useQuery } from "@/hooks/queryHook";
+import {
+  invalidateQueries,
+  optimisticUpdate,
+  setQueryData,
+} from "@/lib/queryCache";
+import { Community, CommunityPost, CommunityPostForm } from "@/types/community";
+
+// Every community query starts with "community" so a membership change can
+// invalidate them all at once
+export const communityKeys = {
+  all: ["community"],
+  list: () => ["community", "list"],
+  search: (term: string) => ["community", "search", term],
+  joined: (userId?: string) => ["community", "joined", userId],
+  allJoinedPosts: ["community", "joined-posts"],
+  joinedPosts: (userId?: string) => ["community", "joined-posts", userId],
+  detail: (communityId: string) => ["community", "detail", communityId],
+  posts: (communityId: string) => ["community", "posts", communityId],
+  post: (postId: string) => ["community", "post", postId],
+};
+
+export function useCommunities() {
+  return useQuery(communityKeys.list(), getCommunities);
+}
+
+// Skipped while `term` is empty
+export function useCommunitySearch(term: string) {
+  return useQuery(communityKeys.search(term), () => searchCommunities(term), {
+    enabled: !!term,
+  });
+}
+
+export function useJoinedCommunities() {
+  const { user } = useUser();
+  const userId = user?.uid;
+  return useQuery(
+    communityKeys.joined(userId),
+    () => getJoinedCommunities(userId as string),
+    { enabled: !!userId }
+  );
+}
+
+export function useJoinedCommunityPosts() {
+  const { user } = useUser();
+  const userId = user?.uid;
+  return useQuery(
+    communityKeys.joinedPosts(userId),
+    () => getJoinedCommunityPosts(userId as string),
+    { enabled: !!userId }
+  );
+}
+
+export function useCommunity(communityId: string) {
+  return useQuery(communityKeys.detail(communityId), () =>
+    getCommunity(communityId)
+  );
+}
+
+export function useCommunityPosts(communityId: string) {
+  return useQuery(communityKeys.posts(communityId), () =>
+    getCommunityPosts(communityId)
+  );
+}
+
+export function useCommunityPost(postId: string) {
+  return useQuery(communityKeys.post(postId), () => getCommunityPost(postId));
+}
+
+/**
+ * Joins and leaves communities for the signed-in user. The joined list
+ * updates straight away and rolls back if the request fails; errors are
+ * rethrown so the caller can tell the user.
+ */
+export function useCommunityMembership() {
+  const { user } = useUser();
+  const userId = user?.uid;
+  const { data: joined = [], loading, error } = useJoinedCommunities();
+
+  const isMember = useCallback(
+    (communityId: string) =>
+      joined.some((community) => community.communityId === communityId),
+    [joined]
+  );
+
+  const updateMembership = useCallback(
+    async (community: Community, join: boolean) => {
+      if (!userId) throw new Error("No authenticated user found.");
+
+      const rollback = optimisticUpdate<Community[]>(
+        communityKeys.joined(userId),
+        (prev = []) => {
+          const others = prev.filter(
+            (c) => c.communityId !== community.communityId
+          );
+          return join ? [...others, community] : others;
+        }
+      );
+
+      try {
+        if (join) {
+          await joinCommunity(userId, community);
+        } else {
+          await leaveCommunity(userId, community);
+        }
+      } catch (error) {
+        rollback();
+        throw error;
+      }
+
+      // Member counts and the joined posts feed change too
+      invalidateQueries(communityKeys.all);
+    },
+    [userId]
+  );
+
+  const join = useCallback(
+    (community: Community) => updateMembership(community, true),
+    [updateMembership]
+  );
+  const leave = useCallback(
+    (community: Community) => updateMembership(community, false),
+    [updateMembership]
+  );
+
+  return { joined, loading, error, isMember, join, leave };
+}
+
+/**
+ * Creates a post in a community and adds it to the top of the community's
+ * cached posts
+ */
+export function useCreateCommunityPost(communityId: string) {
+  return useCallback(
+    async (form: Omit<CommunityPostForm, "communityId">) => {
+      const post = await createCommunityPost({ ...form, communityId });
+      setQueryData<CommunityPost[]>(
+        communityKeys.posts(communityId),
+        (prev) => [post, ...(prev || [])]
+      );
+      invalidateQueries(communityKeys.allJoinedPosts);
+      return post;
+    },
+    [communityId]
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import {
+  startDirectConversation,
+  subscribeToDirectConversations,
+  subscribeToDirectMessages,
+  subscribeToPresence,
+  updatePresence,
+} from "@/actions/directMessages";
+import { useUser } from "@/context/userContext";
+import {
+  DirectConversation,
+  DirectMessage,
+  DirectParticipant,
+  Presence,
+} from "@/types/directMessage";
+
+// How often the signed-in user's presence is refreshed
+const HEARTBEAT_INTERVAL = 60 * 1000;
+// Users whose last heartbeat is older than this show as offline
+const PRESENCE_TIMEOUT = 2 * HEARTBEAT_INTERVAL;
+
+/**
+ * Live list of the user's conversations with their unread total
+ */
+export function useDirectConversations(uid: string | undefined) {
+  const [conversations, setConversations] = useState<DirectConversation[]>([]);
+  const [loading, setLoading] = useState(!!uid);
+
+  useEffect(() => {
+    if (!uid) {
+      setConversations([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return subscribeToDirectConversations(
+      uid,
+      (next) => {
+        setConversations(next);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, [uid]);
+
+  const unreadCount = uid
+    ? conversations.reduce(
+        (total, conversation) => total + (conversation.unreadCounts[uid] || 0),
+        0
+      )
+    : 0;
+
+  return { conversations, loading, unreadCount };
+}
+
+/**
+ * Live messages in a conversation, oldest first
+ */
+export function useDirectMessages(conversationId: string | null) {
+  const [messages, setMessages] = useState<DirectMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setMessages([]);
+    if (!conversationId) return;
+
+    setLoading(true);
+    return subscribeToDirectMessages(
+      conversationId,
+      (next) => {
+        setMessages(next);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+  }, [conversationId]);
+
+  return { messages, loading };
+}
+
+/**
+ * Whether another user is online right now
+ */
+export function usePresence(uid: string | undefined) {
+  const [presence, setPresence] = useState<Presence | null>(null);
+  // Re-evaluated on the heartbeat so stale presence times out on screen
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setPresence(null);
+    if (!uid) return;
+    return subscribeToPresence(uid, setPresence);
+  }, [uid]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), HEARTBEAT_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const online =
+    !!presence?.online &&
+    !!presence.lastSeen &&
+    now - presence.lastSeen.getTime() < PRESENCE_TIMEOUT;
+
+  return { online, lastSeen: presence?.lastSeen || null };
+}
+
+/**
+ * Marks the signed-in user as online while the page is open and visible
+ */
+export function usePresenceHeartbeat(uid: string | undefined) {
+  useEffect(() => {
+    if (!uid) return;
+
+    const beat = () =>
+      updatePresence(uid, document.visibilityState === "visible");
+    const goOffline = () => updatePresence(uid, false);
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL);
+    document.addEventListener("visibilitychange", beat);
+    window.addEventListener("pagehide", goOffline);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", beat);
+      window.removeEventListener("pagehide", goOffline);
+      goOffline();
+    };
+  }, [uid]);
+}
+
+/**
+ * Opens the messages page on a conversation with someone, creating it first
+ * if needed
+ */
+export function useStartConversation() {
+  const router = useRouter();
+  const { user } = useUser();
+
+  return useCallback(
+    async (other: DirectParticipant & { uid: string }) => {
+      if (!user) throw new Error("Sign in to send messages");
+
+      const conversationId = await startDirectConversation(
+        {
+          uid: user.uid,
+          name: [user.firstName, user.lastName].filter(Boolean).join(" "),
+          role: user.role,
+          photo: user.profilePhoto,
+        },
+        other
+      );
+      router.push(`/messages?c=${conversationId}`);
+    },
+    [router, user]
+  );
+}
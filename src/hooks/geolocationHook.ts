@@ -0,0 +1,67 @@
+import { useState, useCallback } from "react";
+import { useUser } from "@/context/userContext";
+import { geocodeAddress } from "@/lib/geo";
+import { GeoPoint } from "@/types/geo";
+
+export type LocationSource = "device" | "address";
+
+// Gives up on the browser's location after this long
+const POSITION_TIMEOUT = 10000;
+
+function getDevicePosition(): Promise<GeoPoint> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Geolocation is not supported by this browser"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        }),
+      reject,
+      { timeout: POSITION_TIMEOUT, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+}
+
+/**
+ * Works out where the worker is for "jobs near me": the browser's location
+ * when permitted, otherwise the pincode in their residential address
+ */
+export function useNearMe() {
+  const { user } = useUser();
+  const [origin, setOrigin] = useState<GeoPoint | null>(null);
+  const [source, setSource] = useState<LocationSource | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  const residentialAddress = user?.residentialAddress;
+
+  // Resolves to the origin, or null if no location could be found
+  const locate = useCallback(async (): Promise<GeoPoint | null> => {
+    setLocating(true);
+    try {
+      try {
+        const position = await getDevicePosition();
+        setOrigin(position);
+        setSource("device");
+        return position;
+      } catch (err) {
+        console.error("Error getting device location:", err);
+      }
+
+      const fromAddress = residentialAddress
+        ? await geocodeAddress(residentialAddress)
+        : null;
+      setOrigin(fromAddress);
+      setSource(fromAddress ? "address" : null);
+      return fromAddress;
+    } finally {
+      setLocating(false);
+    }
+  }, [residentialAddress]);
+
+  return { origin, source, locating, locate };
+}
@@ -1,58 +1,93 @@
-import { useState, useEffect } from "react";
-import { getJobPosts } from "@/actions/jobPost";
-import { JobPost } from "@/types/jobpost";
-
-interface UseJobPostsParams {
-  limit?: number;
-  employer_id?: string;
-  type_of_work?: string;
+import { useState, useCallback, useMemo } from "react";
+import { searchJobPosts } from "@/actions/jobPost";
+import { useQuery } from "@/hooks/queryHook";
+import { getQueryData, setQueryData } from "@/lib/queryCache";
+import { JobSearchPage, JobSearchParams } from "@/types/jobpost";
+
+export const jobPostKeys = {
+  all: ["jobPosts"],
+  search: (searchKey: string) => ["jobPosts", "search", searchKey],
+};
+
+interface UseJobPostsParams extends JobSearchParams {
   enabled?: boolean;
 }
 
 export function useJobPosts({
   limit = 10,
-  employer_id,
-  type_of_work,
   enabled = true,
+  ...filters
 }: UseJobPostsParams = {}) {
-  const [jobPosts, setJobPosts] = useState<JobPost[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Serialize the filters so a new object with the same values doesn't refetch
+  const searchKey = JSON.stringify({ ...filters, limit });
+  const queryKey = jobPostKeys.search(searchKey);
 
-  useEffect(() => {
-    let isMounted = true;
+  // Every loaded page is cached together, so going back to a search shows
+  // all of it straight away. A refetch reloads as many pages as were loaded,
+  // so the list doesn't shrink under the worker.
+  const {
+    data: pages,
+    loading,
+    error,
+  } = useQuery(
+    queryKey,
+    async () => {
+      const loadedPages = getQueryData<JobSearchPage[]>(queryKey)?.length || 1;
+      const fetched: JobSearchPage[] = [];
+      let cursor: string | undefined;
 
-    async function fetchJobs() {
-      if (!enabled) {
-        setLoading(false);
-        return;
+      while (fetched.length < loadedPages) {
+        const page = await searchJobPosts({ ...JSON.parse(searchKey), cursor });
+        fetched.push(page);
+        if (!page.nextCursor) break;
+        cursor = page.nextCursor;
       }
+      return fetched;
+    },
+    { enabled }
+  );
+  const [loadingMore, setLoadingMore] = useState(false);
 
-      try {
-        setLoading(true);
-        const posts = await getJobPosts({ limit, employer_id, type_of_work });
-
-        if (isMounted) {
-          setJobPosts(posts);
-          setError(null);
-        }
-      } catch (err: any) {
-        if (isMounted) {
-          setError(err.message || "Failed to fetch job posts");
-        }
-      } finally {
-        if (isMounted) {
-          setLoading(false);
-        }
-      }
-    }
+  const jobPosts = useMemo(
+    () => (pages || []).flatMap((page) => page.jobPosts),
+    [pages]
+  );
+  const nextCursor = pages?.[pages.length - 1]?.nextCursor ?? null;
 
-    fetchJobs();
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
 
-    return () => {
-      isMounted = false;
-    };
-  }, [limit, employer_id, type_of_work, enabled]);
+    setLoadingMore(true);
+
+    try {
+      const page = await searchJobPosts({
+        ...JSON.parse(searchKey),
+        cursor: nextCursor,
+      });
+
+      // Drop the page if the chain changed meanwhile, e.g. the search was
+      // cleared or another loadMore got there first
+      const key = jobPostKeys.search(searchKey);
+      const current = getQueryData<JobSearchPage[]>(key);
+      if (current?.[current.length - 1]?.nextCursor === nextCursor) {
+        setQueryData(key, [...current, page]);
+      }
+    } catch (err) {
+      // Keep the jobs already shown; the caller can retry loadMore
+      console.error("Error fetching more job posts:", err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, searchKey]);
 
-  return { jobPosts, loading, error };
+  return {
+    jobPosts,
+    loading,
+    loadingMore,
+    error: error
+      ? (error as Error).message || "Failed to fetch job posts"
+      : null,
+    hasMore: !!nextCursor,
+    loadMore,
+  };
 }
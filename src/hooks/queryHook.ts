@@ -0,0 +1,66 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import {
+  QueryKey,
+  fetchQuery,
+  getQueryState,
+  isQueryStale,
+  subscribeQuery,
+} from "@/lib/queryCache";
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  // How long cached data counts as fresh. Defaults to 30 seconds.
+  staleTime?: number;
+}
+
+/**
+ * Reads a query from the shared cache, fetching it when it's missing or
+ * stale. Cached data is returned straight away while it's revalidated.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = 30 * 1000 }: UseQueryOptions = {}
+) {
+  // Keys are compared by value so callers can pass a new array every render.
+  // The cache hashes keys the same way, so the parsed copy is the same entry.
+  const hash = JSON.stringify(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const state = useSyncExternalStore(
+    useCallback(
+      (listener: () => void) => subscribeQuery(stableKey, listener),
+      [stableKey]
+    ),
+    () => getQueryState<T>(stableKey),
+    () => getQueryState<T>(stableKey)
+  );
+
+  const refetch = useCallback(
+    () => fetchQuery(stableKey, () => fetcherRef.current()),
+    [stableKey]
+  );
+
+  useEffect(() => {
+    if (!enabled || !isQueryStale(stableKey, staleTime)) return;
+    // Errors are kept in the cached state for the caller to show
+    refetch().catch(() => {});
+  }, [stableKey, enabled, staleTime, refetch]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    // Only true before there's anything to show
+    loading: enabled && state.updatedAt === 0 && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
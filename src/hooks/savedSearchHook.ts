@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  deleteSavedSearch,
+  getSavedSearches,
+  markSavedSearchSeen,
+} from "@/actions/savedSearches";
+import { SavedSearch } from "@/types/savedSearch";
+
+// How often new-match counts are refreshed in the background
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+
+export function useSavedSearches({ enabled = true }: { enabled?: boolean }) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+
+    try {
+      setLoading(true);
+      setSavedSearches(await getSavedSearches());
+    } catch (err) {
+      console.error("Error refreshing saved searches:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setSavedSearches([]);
+      return;
+    }
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [enabled, refresh]);
+
+  // Clear the count locally first so the badge updates immediately
+  const markSeen = useCallback(async (searchId: string) => {
+    setSavedSearches((prev) =>
+      prev.map((search) =>
+        search.id === searchId ? { ...search, new_matches: 0 } : search
+      )
+    );
+
+    try {
+      await markSavedSearchSeen(searchId);
+    } catch (err) {
+      console.error("Error marking saved search as seen:", err);
+    }
+  }, []);
+
+  const remove = useCallback(async (searchId: string) => {
+    await deleteSavedSearch(searchId);
+    setSavedSearches((prev) => prev.filter((search) => search.id !== searchId));
+  }, []);
+
+  const unreadCount = savedSearches.reduce(
+    (total, search) => total + (search.new_matches || 0),
+    0
+  );
+
+  return { savedSearches, loading, unreadCount, refresh, markSeen, remove };
+}
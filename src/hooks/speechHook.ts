@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  findVoice,
+  getSpeechRecognition,
+  isSpeechSynthesisSupported,
+  type SpeechRecognitionLike,
+} from "@/lib/speech";
+
+export type DictationError = "not-allowed" | "no-speech" | "failed";
+
+/**
+ * Speech-to-text for a single text field. Each finished phrase is passed to
+ * onResult; interim guesses are ignored so the field doesn't flicker.
+ * @param lang - BCP 47 language to listen for, e.g. "hi-IN"
+ */
+export function useDictation(lang: string, onResult: (text: string) => void) {
+  // Only known after mount, so server and client render the same markup
+  const [supported, setSupported] = useState(false);
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<DictationError | null>(null);
+
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  useEffect(() => {
+    setSupported(!!getSpeechRecognition());
+    return () => recognitionRef.current?.abort();
+  }, []);
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+  }, []);
+
+  const start = useCallback(() => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) return;
+
+    recognitionRef.current?.abort();
+
+    const recognition = new SpeechRecognition();
+    recognition.lang = lang;
+    recognition.continuous = false;
+    recognition.interimResults = false;
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const transcript = result[0].transcript.trim();
+        if (result.isFinal && transcript) onResultRef.current(transcript);
+      }
+    };
+    recognition.onerror = (event) => {
+      console.error("Speech recognition error:", event.error);
+      setError(
+        event.error === "not-allowed" || event.error === "service-not-allowed"
+          ? "not-allowed"
+          : event.error === "no-speech"
+          ? "no-speech"
+          : event.error === "aborted"
+          ? null
+          : "failed"
+      );
+    };
+    recognition.onend = () => {
+      setListening(false);
+      if (recognitionRef.current === recognition) recognitionRef.current = null;
+    };
+
+    recognitionRef.current = recognition;
+    setError(null);
+    try {
+      recognition.start();
+      setListening(true);
+    } catch (err) {
+      console.error("Error starting speech recognition:", err);
+      recognitionRef.current = null;
+      setError("failed");
+    }
+  }, [lang]);
+
+  const toggle = useCallback(() => {
+    if (listening) stop();
+    else start();
+  }, [listening, start, stop]);
+
+  return { supported, listening, error, start, stop, toggle };
+}
+
+/**
+ * Reads text aloud with the browser's speech synthesis. Only one thing is
+ * spoken at a time across the page, so starting here stops any other reader.
+ * @param lang - BCP 47 language to speak in, e.g. "ta-IN"
+ */
+export function useReadAloud(lang: string) {
+  const [supported, setSupported] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  useEffect(() => {
+    setSupported(isSpeechSynthesisSupported());
+    return () => {
+      // Don't keep talking about a page the worker has left
+      if (utteranceRef.current) window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  const stop = useCallback(() => {
+    if (!isSpeechSynthesisSupported()) return;
+    window.speechSynthesis.cancel();
+    utteranceRef.current = null;
+    setSpeaking(false);
+  }, []);
+
+  const speak = useCallback(
+    (text: string) => {
+      if (!isSpeechSynthesisSupported() || !text.trim()) return;
+
+      window.speechSynthesis.cancel();
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      const voice = findVoice(lang);
+      if (voice) utterance.voice = voice;
+
+      const finish = () => {
+        if (utteranceRef.current !== utterance) return;
+        utteranceRef.current = null;
+        setSpeaking(false);
+      };
+      utterance.onend = finish;
+      utterance.onerror = (event) => {
+        if (event.error !== "interrupted" && event.error !== "canceled") {
+          console.error("Speech synthesis error:", event.error);
+        }
+        finish();
+      };
+
+      utteranceRef.current = utterance;
+      setSpeaking(true);
+      window.speechSynthesis.speak(utterance);
+    },
+    [lang]
+  );
+
+  return { supported, speaking, speak, stop };
+}
@@ -0,0 +1,254 @@
+import { endSession } from "@/actions/session";
+import { tokenManager } from "@/utils";
+
+// Backend calls go through apiRequest (JSON) or apiFetch (raw response, for
+// streaming) so every request gets the same auth, errors and retries.
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export interface ApiRequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  // Appended to the URL, skipping empty values
+  query?: Record<string, QueryValue>;
+  // FormData is sent as multipart, anything else as JSON
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Send the user's ID token; false for endpoints used before sign-in
+  auth?: boolean;
+  signal?: AbortSignal;
+  // Retries after network errors and 429/5xx responses. Defaults to 2 for
+  // GET and 0 for everything else, since other methods may not be safe to
+  // repeat.
+  retries?: number;
+  // Defaults to NEXT_PUBLIC_BACKEND_URL
+  baseUrl?: string;
+}
+
+/**
+ * A failed backend request. `status` is the HTTP status, or 0 when the
+ * request never got a response.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly data?: unknown; // The parsed response body, if any
+
+  constructor(
+    message: string,
+    status: number,
+    { code, data }: { code?: string; data?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.data = data;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401;
+  }
+
+  get isNotFound() {
+    return this.status === 404;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// Wait before retrying, doubled on each attempt
+const RETRY_DELAY = 500;
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    });
+  });
+}
+
+function buildUrl(
+  baseUrl: string,
+  path: string,
+  query?: Record<string, QueryValue>
+) {
+  const params = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") return;
+    params.append(key, value.toString());
+  });
+
+  const search = params.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ""}`;
+}
+
+async function getAuthToken(forceRefresh: boolean): Promise<string> {
+  const token = await tokenManager.getToken({ forceRefresh });
+  if (!token) {
+    throw new ApiError("You need to sign in to continue", 401, {
+      code: "unauthenticated",
+    });
+  }
+  return token;
+}
+
+// The session is gone for good: drop the middleware's session cookie and
+// send the user to sign in again
+function redirectToSignIn() {
+  if (typeof window === "undefined") return;
+  endSession().finally(() => {
+    if (window.location.pathname !== "/auth") {
+      window.location.assign("/auth");
+    }
+  });
+}
+
+/**
+ * Reads a response body as JSON, falling back to the raw text (or null when
+ * empty) for endpoints that don't return JSON
+ */
+export async function parseResponse(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const data = await parseResponse(response).catch(() => null);
+  const body =
+    data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const message =
+    (typeof body.error === "string" && body.error) ||
+    (typeof body.message === "string" && body.message) ||
+    (typeof data === "string" && data) ||
+    `Request failed with status ${response.status}`;
+
+  return new ApiError(message, response.status, {
+    code: typeof body.code === "string" ? body.code : undefined,
+    data,
+  });
+}
+
+/**
+ * Sends a request to the backend and returns the successful response
+ * unread. A 401 refreshes the ID token and tries once more; if that fails
+ * too the user is sent to /auth.
+ * @param path - The API path, e.g. "/api/job/all"
+ * @throws ApiError for failed requests, or the signal's AbortError
+ */
+export async function apiFetch(
+  path: string,
+  {
+    method = "GET",
+    query,
+    body,
+    headers = {},
+    auth = true,
+    signal,
+    retries = method === "GET" ? 2 : 0,
+    baseUrl = process.env.NEXT_PUBLIC_BACKEND_URL || "",
+  }: ApiRequestOptions = {}
+): Promise<Response> {
+  const url = buildUrl(baseUrl, path, query);
+  const isFormData =
+    typeof FormData !== "undefined" && body instanceof FormData;
+
+  let attempt = 0;
+  let refreshedToken = false;
+
+  while (true) {
+    let response: Response;
+    try {
+      const requestHeaders: Record<string, string> = {
+        Accept: "application/json",
+        ...headers,
+      };
+      // Let the browser set the multipart boundary for FormData
+      if (body !== undefined && !isFormData) {
+        requestHeaders["Content-Type"] = "application/json";
+      }
+      if (auth) {
+        requestHeaders.Authorization = `Bearer ${await getAuthToken(
+          refreshedToken
+        )}`;
+      }
+
+      response = await fetch(url, {
+        method,
+        headers: requestHeaders,
+        body:
+          body === undefined
+            ? undefined
+            : isFormData
+            ? (body as FormData)
+            : JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error) || isApiError(error)) throw error;
+
+      if (attempt < retries) {
+        await wait(RETRY_DELAY * 2 ** attempt++, signal);
+        continue;
+      }
+      throw new ApiError(
+        "Couldn't reach the server. Check your connection.",
+        0,
+        {
+          code: "network",
+          data: error,
+        }
+      );
+    }
+
+    if (response.ok) return response;
+
+    if (response.status === 401 && auth) {
+      // The token may have expired or been revoked; try a fresh one once
+      if (!refreshedToken) {
+        refreshedToken = true;
+        continue;
+      }
+      redirectToSignIn();
+      throw await toApiError(response);
+    }
+
+    if (RETRYABLE_STATUSES.includes(response.status) && attempt < retries) {
+      await wait(RETRY_DELAY * 2 ** attempt++, signal);
+      continue;
+    }
+
+    throw await toApiError(response);
+  }
+}
+
+/**
+ * Sends a request to the backend and returns the parsed JSON body
+ * @param path - The API path, e.g. "/api/job/all"
+ * @throws ApiError for failed requests, or the signal's AbortError
+ */
+export async function apiRequest<T>(
+  path: string,
+  options?: ApiRequestOptions
+): Promise<T> {
+  const response = await apiFetch(path, options);
+  return (await parseResponse(response)) as T;
+}
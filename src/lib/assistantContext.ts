@@ -0,0 +1,88 @@
+import { extractPincode } from "@/lib/geo";
+import type {
+  AssistantContextField,
+  AssistantProfileContext,
+} from "@/types/assistant";
+import type { User } from "@/types/userContext";
+
+const CONSENT_STORAGE_PREFIX = "assistantContext:";
+
+// Labelled by the "assistantContext.field.*" messages
+export const ASSISTANT_CONTEXT_FIELDS: AssistantContextField[] = [
+  "profession",
+  "area",
+  "gender",
+  "summary",
+];
+
+function isContextField(value: unknown): value is AssistantContextField {
+  return ASSISTANT_CONTEXT_FIELDS.some((field) => field === value);
+}
+
+/**
+ * The value of a profile field as it would be shared, or null when the
+ * profile doesn't have it
+ */
+export function getContextValue(
+  user: User,
+  field: AssistantContextField
+): string | null {
+  switch (field) {
+    case "profession":
+      return user.profession?.trim() || null;
+    case "area":
+      return user.residentialAddress
+        ? extractPincode(user.residentialAddress)
+        : null;
+    case "gender":
+      return user.gender?.trim() || null;
+    case "summary":
+      return user.summary?.trim() || null;
+  }
+}
+
+/**
+ * Builds the context sent with assistant prompts from the fields the user
+ * agreed to share. Returns null when nothing is shared.
+ */
+export function buildAssistantContext(
+  user: User,
+  fields: AssistantContextField[]
+): AssistantProfileContext | null {
+  const context: AssistantProfileContext = {};
+  for (const field of fields) {
+    const value = getContextValue(user, field);
+    if (value) context[field] = value;
+  }
+  return Object.keys(context).length > 0 ? context : null;
+}
+
+/**
+ * The fields this user agreed to share on this device. Sharing is off until
+ * they opt in.
+ */
+export function getStoredContextConsent(uid: string): AssistantContextField[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(CONSENT_STORAGE_PREFIX + uid) || "[]"
+    );
+    return Array.isArray(stored) ? stored.filter(isContextField) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeContextConsent(
+  uid: string,
+  fields: AssistantContextField[]
+) {
+  if (typeof window === "undefined") return;
+
+  if (fields.length === 0) {
+    localStorage.removeItem(CONSENT_STORAGE_PREFIX + uid);
+  } else {
+    localStorage.setItem(CONSENT_STORAGE_PREFIX + uid, JSON.stringify(fields));
+  }
+}
@@ -201,129 +201,3 @@ export const communities: Community[] = [
     ],
   },
 ]
-
-export const employers = [
-  {
-    id: "emp1",
-    name: "Sarah Johnson",
-    company: "BuildRight Construction",
-    position: "HR Manager",
-    lastMessage: "When can you start the project?",
-    time: "10:30 AM",
-    unreadCount: 2,
-    online: true,
-    type: "employer",
-  },
-  {
-    id: "emp2",
-    name: "Michael Chen",
-    company: "City Electrical Services",
-    position: "Project Manager",
-    lastMessage: "The job site is ready for inspection",
-    time: "Yesterday",
-    unreadCount: 0,
-    online: true,
-    type: "employer",
-  },
-  {
-    id: "emp3",
-    name: "Jessica Williams",
-    company: "Modern Plumbing Inc.",
-    position: "Operations Director",
-    lastMessage: "Can you send me your availability for next week?",
-    time: "Yesterday",
-    unreadCount: 1,
-    online: false,
-    type: "employer",
-  },
-  {
-    id: "emp4",
-    name: "Robert Martinez",
-    company: "Elite Carpentry",
-    position: "Owner",
-    lastMessage: "The client loved your previous work",
-    time: "Monday",
-    unreadCount: 0,
-    online: false,
-    type: "employer",
-  },
-  {
-    id: "emp5",
-    name: "Amanda Lee",
-    company: "Precision HVAC Solutions",
-    position: "Hiring Manager",
-    lastMessage: "Your references checked out great",
-    time: "Last week",
-    unreadCount: 0,
-    online: true,
-    type: "employer",
-  },
-  {
-    id: "emp6",
-    name: "David Wilson",
-    company: "Wilson Painting & Decorating",
-    position: "Owner",
-    lastMessage: "I have another job for you if you're interested",
-    time: "Last week",
-    unreadCount: 0,
-    online: false,
-    type: "employer",
-  },
-]
-
-export const messages = [
-  {
-    id: "msg1",
-    sender: "employer",
-    content:
-      "Hi there! I saw your profile and I'm impressed with your electrical work experience. We have a commercial project starting next month.",
-    time: "10:15 AM",
-  },
-  {
-    id: "msg2",
-    sender: "user",
-    content: "Thanks for reaching out! I'd be interested in learning more about the project.",
-    time: "10:18 AM",
-  },
-  {
-    id: "msg3",
-    sender: "employer",
-    content:
-      "Great! It's a complete rewiring of a 3-story office building downtown. The project will last approximately 6 weeks. Are you available during that time?",
-    time: "10:20 AM",
-  },
-  {
-    id: "msg4",
-    sender: "user",
-    content: "Yes, I should be available. What's the pay rate for this project?",
-    time: "10:22 AM",
-  },
-  {
-    id: "msg5",
-    sender: "employer",
-    content:
-      "We're offering $38/hour for licensed electricians with commercial experience. We also provide all necessary tools and safety equipment.",
-    time: "10:25 AM",
-  },
-  {
-    id: "msg6",
-    sender: "employer",
-    content:
-      "Would you be able to come in for an interview this week? We can discuss the details in person and show you the blueprints.",
-    time: "10:26 AM",
-  },
-  {
-    id: "msg7",
-    sender: "user",
-    content: "That sounds good. I'm available Thursday or Friday afternoon if that works for you.",
-    time: "10:28 AM",
-  },
-  {
-    id: "msg8",
-    sender: "employer",
-    content:
-      "Friday at 2 PM would be perfect. Our office is at 123 Main Street, Suite 400. When can you start the project?",
-    time: "10:30 AM",
-  },
-]
-
@@ -0,0 +1,466 @@
+// English messages. This is the source catalog: every key used in the UI
+// must exist here, and other languages fall back to it for missing keys.
+export const enMessages = {
+  // Navigation bar
+  "nav.home": "Home",
+  "nav.ai": "AI",
+  "nav.appliedJobs": "Applied Jobs",
+  "nav.community": "Community",
+  "nav.messages": "Messages",
+  "nav.posts": "Posts",
+  "nav.notifications": "Notifications",
+  "nav.profile": "Profile",
+  "nav.viewProfile": "View Profile",
+  "nav.logout": "Logout",
+  "nav.language": "Language",
+
+  // Saved search alerts
+  "notifications.empty":
+    "No saved searches yet. Save a search on the jobs page to be alerted when new matching jobs are posted.",
+  "notifications.seen": "Seen {date}",
+  "notifications.noNewJobs": "No new jobs since your last visit",
+  "notifications.oneNewJob": "1 new job since your last visit",
+  "notifications.newJobs": "{count} new jobs since your last visit",
+  "notifications.delete": "Delete saved search",
+
+  // Sign in and sign up
+  "auth.createAccount": "Create Account",
+  "auth.welcomeBack": "Welcome Back",
+  "auth.signUpSubtitle": "Sign up to get started with Blue Collar Connect",
+  "auth.signInSubtitle": "Sign in to continue to your account",
+  "auth.iAmA": "I am a",
+  "auth.worker": "Skilled Worker",
+  "auth.workerHint": "Looking for jobs",
+  "auth.employer": "Employer",
+  "auth.employerHint": "Hiring workers",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.signIn": "Sign In",
+  "auth.signUp": "Sign Up",
+  "auth.haveAccount": "Already have an account?",
+  "auth.noAccount": "Don't have an account?",
+  "auth.unexpectedError": "An unexpected error occurred during authentication.",
+  "auth.or": "or",
+  "auth.continueWithGoogle": "Continue with Google",
+
+  // Job search
+  "jobs.heading": "Find Your Perfect Job",
+  "jobs.searchPlaceholder": "Search jobs...",
+  "jobs.filterTitle": "Filter Jobs",
+  "jobs.filterDescription": "Refine your job search with these filters",
+  "jobs.location": "Location",
+  "jobs.locationPlaceholder": "City or pincode",
+  "jobs.jobType": "Job Type",
+  "jobs.allTypes": "All types",
+  "jobs.inclusivity": "Inclusivity",
+  "jobs.allJobs": "All jobs",
+  "jobs.dailyWage": "Daily wage (₹)",
+  "jobs.min": "Min",
+  "jobs.max": "Max",
+  "jobs.reset": "Reset",
+  "jobs.applyFilters": "Apply Filters",
+  "jobs.nearMe": "Jobs near me",
+  "jobs.searchRadius": "Search radius",
+  "jobs.clearAll": "Clear all",
+  "jobs.loadError": "Error loading jobs. Please try again later.",
+  "jobs.saveSearch": "Save search",
+  "jobs.shareSearch": "Share search",
+  "jobs.sortBy": "Sort by",
+  "jobs.sort.newest": "Newest first",
+  "jobs.sort.oldest": "Oldest first",
+  "jobs.sort.relevance": "Relevance",
+  "jobs.sort.wage": "Highest pay first",
+  "jobs.sort.distance": "Nearest first",
+  "jobs.badge.women": "Women",
+  "jobs.locationNotProvided": "Location not provided",
+  "jobs.viewDetails": "View Details",
+  "jobs.loadMore": "Load More Jobs",
+  "jobs.noResults": "No jobs found",
+  "jobs.clearAllFilters": "Clear All Filters",
+  "jobs.saveSearchTitle": "Save this search",
+  "jobs.name": "Name",
+  "jobs.jobs": "Jobs",
+  "jobs.searchIn": "{what} in {where}",
+  "jobs.locationNotFound":
+    "We couldn't find your location. Allow location access or add your pincode to your profile address.",
+  "jobs.saveSearchFailed": "Failed to save search",
+  "jobs.any": "Any",
+  "jobs.showing": "Showing {count} jobs",
+  "jobs.showingSoFar": "Showing {count} jobs so far",
+  "jobs.salaryNotProvided": "Salary not provided",
+  "jobs.postedOn": "Posted {date}",
+  "jobs.noResultsHint":
+    "No jobs match your current search criteria. Try adjusting your filters or search terms.",
+  "jobs.saveSearchDescription":
+    "You'll see how many new jobs match it in your notifications.",
+  "jobs.usingDeviceLocation": "Using your current location",
+  "jobs.usingAddressLocation": "Using the pincode in your address",
+  "jobs.shareTitle": "Job search",
+  "jobs.searchSaved": "Search saved. We'll let you know about new matches.",
+  "jobs.withinRadius": "Within {radius} km",
+
+  // Save-for-later button
+  "bookmark.save": "Save job",
+  "bookmark.remove": "Remove from saved jobs",
+  "bookmark.saveForLater": "Save for later",
+  "bookmark.saved": "Saved",
+  "bookmark.savedToast": "Job saved",
+  "bookmark.removedToast": "Removed from saved jobs",
+  "bookmark.updateFailed": "Failed to update saved jobs",
+
+  // Job types, keyed by their stored value
+  "jobType.full-time": "Full-time",
+  "jobType.part-time": "Part-time",
+  "jobType.contract": "Contract",
+  "jobType.temporary": "Temporary",
+  "jobType.seasonal": "Seasonal",
+
+  // Inclusivity filters, keyed by their URL value
+  "inclusivity.women-friendly": "Women-friendly",
+  "inclusivity.disability-friendly": "Disability-friendly",
+  "inclusivity.lgbt-friendly": "LGBTQ+-friendly",
+
+  // Wage periods, keyed by their stored value
+  "wage.period.hourly": "per hour",
+  "wage.period.daily": "per day",
+  "wage.period.weekly": "per week",
+  "wage.period.monthly": "per month",
+  "wage.period.piece-rate": "per piece",
+
+  // Distances on job cards
+  "distance.metres": "{distance} m away",
+  "distance.kilometres": "{distance} km away",
+  "distance.approximate": "About {distance} km away",
+
+  // Job location map
+  "map.jobLocation": "Job Location",
+  "map.addressCopied": "Address copied",
+  "map.copyFailed": "Couldn't copy the address",
+  "map.loadFailed": "Failed to load map. Please try again later.",
+  "map.approximate": "Approximate location based on the pincode.",
+  "map.copyAddress": "Copy address",
+  "map.getDirections": "Get directions",
+
+  // Job post form
+  "jobPost.basicInfo": "Basic Job Information",
+  "jobPost.jobTitle": "Job Title*",
+  "jobPost.jobTitlePlaceholder": "e.g. Construction Worker",
+  "jobPost.typeOfWork": "Type of Work*",
+  "jobPost.typeOfWorkPlaceholder": "Select type of work",
+  "jobPost.employerName": "Employer/Company Name",
+  "jobPost.employerNamePlaceholder": "e.g. ABC Construction",
+  "jobPost.companyVerified": "Your company is verified",
+  "jobPost.companyLogo": "Company Logo",
+  "jobPost.companyLogoHint": "Shown on all of your job posts",
+  "jobPost.placeOfWork": "Place of Work",
+  "jobPost.placeOfWorkPlaceholder": "e.g. Construction Site, Factory",
+  "jobPost.locationDetails": "Location Details",
+  "jobPost.city": "City",
+  "jobPost.cityPlaceholder": "e.g. Mumbai",
+  "jobPost.state": "State",
+  "jobPost.statePlaceholder": "e.g. Maharashtra",
+  "jobPost.district": "District",
+  "jobPost.districtPlaceholder": "e.g. Thane",
+  "jobPost.pincode": "Pincode",
+  "jobPost.pincodePlaceholder": "e.g. 400001",
+  "jobPost.jobDetails": "Job Details",
+  "jobPost.vacancies": "Number of Vacancies",
+  "jobPost.vacanciesPlaceholder": "e.g. 5",
+  "jobPost.wage": "Wage (₹)",
+  "jobPost.wagePlaceholder": "e.g. 650",
+  "jobPost.paid": "Paid",
+  "jobPost.periodPlaceholder": "Select period",
+  "jobPost.hoursPerWeek": "Hours Per Week",
+  "jobPost.hoursPerWeekPlaceholder": "e.g. 40",
+  "jobPost.duration": "Job Duration",
+  "jobPost.durationPlaceholder": "Select duration",
+  "jobPost.schedule": "Schedule Information",
+  "jobPost.startTime": "Start Time",
+  "jobPost.endTime": "End Time",
+  "jobPost.specialProvisions": "Special Provisions",
+  "jobPost.womenProvision": "Special Provision for Women",
+  "jobPost.transgenderProvision":
+    "Special Provision for Transgender Individuals",
+  "jobPost.disabledProvision": "Special Provision for Disabled Individuals",
+  "jobPost.badge.disabled": "Disabled",
+  "jobPost.description": "Job Description",
+  "jobPost.roleDescription": "Job Role Description",
+  "jobPost.roleDescriptionPlaceholder":
+    "Describe the job responsibilities, requirements, and any other relevant details...",
+  "jobPost.backToPosts": "Back to My Job Posts",
+  "jobPost.postAnother": "Post Another Job",
+  "jobPost.loadFailed": "Could not load this job post",
+  "jobPost.signInRequired": "You must be signed in to post a job",
+  "jobPost.updateFailed": "Failed to update job post",
+  "jobPost.createFailed": "Failed to create job post",
+  "jobPost.editTitle": "Edit Job Post",
+  "jobPost.newTitle": "Post a New Job",
+  "jobPost.editDescription": "Update the details of your job posting",
+  "jobPost.newDescription":
+    "Fill out the form below to create a new job posting",
+  "jobPost.updated": "Job Updated Successfully!",
+  "jobPost.posted": "Job Posted Successfully!",
+  "jobPost.changesSaved": "Your changes have been saved.",
+  "jobPost.nowVisible":
+    "Your job has been posted and is now visible to workers.",
+  "jobPost.previousWage": "Previously entered as “{wage}”",
+  "jobPost.saving": "Saving Changes...",
+  "jobPost.posting": "Posting Job...",
+  "jobPost.saveChanges": "Save Changes",
+  "jobPost.postJob": "Post Job",
+  "jobPost.womenProvisionHint":
+    "Check this if you have special accommodations or preferences for women workers",
+  "jobPost.transgenderProvisionHint":
+    "Check this if you have special accommodations or preferences for transgender workers",
+  "jobPost.disabledProvisionHint":
+    "Check this if you have special accommodations or preferences for disabled workers",
+  "jobPost.companyLogoAlt": "Company logo",
+
+  // Job durations, keyed by their stored value
+  "duration.1-day": "1 Day",
+  "duration.1-week": "1 Week",
+  "duration.2-weeks": "2 Weeks",
+  "duration.1-month": "1 Month",
+  "duration.3-months": "3 Months",
+  "duration.6-months": "6 Months",
+  "duration.permanent": "Permanent",
+
+  // Community pages
+  "community.toast.fetchCommunitiesFailed": "Failed to fetch communities",
+  "community.toast.fetchCommunitiesError": "Error fetching communities",
+  "community.toast.fetchJoinedFailed": "Failed to fetch joined communities",
+  "community.toast.fetchJoinedError": "Error fetching joined communities",
+  "community.toast.searchFailed": "Failed to search communities",
+  "community.toast.searchError": "Error searching communities",
+  "community.toast.notAuthenticated": "User is not authenticated",
+  "community.toast.joinFailed": "Failed to join community",
+  "community.toast.joined": "Joined community successfully",
+  "community.toast.joinError": "Error joining community",
+  "community.toast.leaveFailed": "Failed to leave community",
+  "community.toast.left": "Left community successfully",
+  "community.toast.leaveError": "Error leaving community",
+  "community.searchPlaceholder": "Search communities...",
+  "community.toast.fetchJoinedPostsFailed": "Failed to fetch joined posts",
+  "community.toast.fetchJoinedPostsError": "Error fetching joined posts",
+  "community.title": "BlueCollar Community",
+  "community.subtitle":
+    "Find jobs and connect with other workers in your industry",
+  "community.create": "Create Community",
+  "community.popular": "Popular Communities",
+  "community.loading": "Loading communities...",
+  "community.recentPosts": "Recent Posts",
+  "community.viewAll": "View All",
+  "community.trending": "Trending Communities",
+  "community.viewAllCommunities": "View All Communities",
+  "community.about": "About BlueCollar",
+  "community.createdIn": "Created in 2023",
+  "community.members": "{count} members",
+  "community.comments": "{count} comments",
+  "community.communities": "{count} communities",
+  "community.aboutText":
+    "BlueCollar is a community platform for blue collar workers to find jobs, share experiences, and connect with others in their industry.",
+  "community.joined": "Joined",
+  "community.join": "Join",
+  "community.allTitle": "Communities",
+  "community.allSubtitle": "Browse and join communities that interest you.",
+  "community.joinedCommunities": "Joined Communities",
+  "community.noneJoined": "You have not joined any communities yet.",
+  "community.leave": "Leave",
+  "community.otherCommunities": "Other Communities",
+  "community.noneFound": "No communities found.",
+  "community.toast.fetchDetailsFailed": "Failed to fetch community details",
+  "community.toast.loadDetailsFailed": "Failed to load community details",
+  "community.toast.fetchPostsFailed": "Failed to fetch posts. Try again later",
+  "community.toast.loadPostsFailed": "Failed to load posts",
+  "community.toast.fetchJoinedRetry":
+    "Failed to fetch joined communities. Try again later",
+  "community.toast.fetchJoinedErrorRetry":
+    "Error fetching joined communities. Try again later",
+  "community.toast.unexpectedError":
+    "Unexpected error occured. Please refresh the page and try again",
+  "community.toast.loadFailedRetry":
+    "Failed to load community.Please try again later",
+  "community.loadFailed": "Failed to load community",
+  "community.leaveCommunity": "Leave Community",
+  "community.joinCommunity": "Join Community",
+  "community.sortBy": "Sort by:",
+  "community.sort.newest": "Newest",
+  "community.sort.popular": "Most Popular",
+  "community.noPosts": "No posts yet. Be the first to share something!",
+  "community.toast.leftNamed": "Successfully left {name}",
+  "community.toast.joinedNamed": "Successfully Joined {name}",
+  "community.aboutNamed": "About {name}",
+  "community.membersLabel": "Members:",
+  "community.createdLabel": "Created:",
+  "community.moderatorLabel": "Moderator:",
+  "community.toast.fetchAllPostsError": "Error fetching all posts",
+  "community.allPostsTitle": "All Community Posts",
+  "community.allPostsSubtitle":
+    "Browse posts from all the communities you've joined.",
+  "community.loadingPosts": "Loading posts...",
+  "community.toast.fetchPostError": "Error fetching post",
+  "community.toast.commentAdded": "Comment added successfully",
+  "community.toast.commentError": "Error adding comment",
+  "community.loadingPost": "Loading post...",
+  "community.addComment": "Add a Comment",
+  "community.commentPlaceholder": "What are your thoughts?",
+  "community.posting": "Posting...",
+  "community.comment": "Comment",
+  "community.commentsHeading": "Comments ({count})",
+
+  // Creating posts and communities
+  "community.createPost": "Create Post",
+  "community.postTitlePlaceholder": "Title",
+  "community.postContentPlaceholder": "What's on your mind?",
+  "community.imagePreview": "Preview",
+  "community.post": "Post",
+  "community.toast.postRequired": "Title and content are required.",
+  "community.toast.postAdded": "Post added successfully",
+  "community.toast.postError": "Error posting. Try again later.",
+  "community.backToCommunity": "Back to Community",
+  "community.createTitle": "Create a New Community",
+  "community.nameLabel": "Community Name",
+  "community.namePlaceholder": "Enter a unique name",
+  "community.descriptionLabel": "Community Description",
+  "community.descriptionPlaceholder": "Describe your community",
+  "community.typeLabel": "Community Type",
+  "community.type.public": "Public",
+  "community.type.restricted": "Restricted",
+  "community.type.private": "Private",
+  "community.topicsLabel": "Community Topics",
+  "community.topic.Construction": "Construction",
+  "community.topic.Plumbing": "Plumbing",
+  "community.topic.Electrical": "Electrical",
+  "community.topic.Carpentry": "Carpentry",
+  "community.topic.Welding": "Welding",
+  "community.topic.Painting": "Painting",
+  "community.topic.Landscaping": "Landscaping",
+  "community.topic.HVAC": "HVAC",
+  "community.rulesLabel": "Community Rules",
+  "community.rule.rule1": "Be respectful to other members",
+  "community.rule.rule2": "No spam or self-promotion",
+  "community.rule.rule3": "Stay on topic",
+  "community.rule.rule4": "No hate speech or harassment",
+  "community.profilePhotoLabel": "Community Profile Photo",
+  "community.backgroundPhotoLabel": "Community Background Photo",
+  "community.creating": "Creating...",
+  "community.toast.created": "Community created successfully!",
+  "community.toast.createFailed":
+    "Failed to create community. Please try again.",
+  "community.toast.createError": "Error creating community",
+
+  // Voice input and read-aloud
+  "voice.speak": "Speak instead of typing",
+  "voice.stopListening": "Stop listening",
+  "voice.micDenied":
+    "Microphone access was blocked. Allow it in your browser settings to speak.",
+  "voice.didNotCatch": "Sorry, we didn't catch that. Please try again.",
+  "voice.readAloud": "Read aloud",
+  "voice.stopReading": "Stop reading",
+
+  // Job assistant
+  "assistant.welcome":
+    "Hello! I'm your job search assistant. How can I help you today?",
+  "assistant.name": "Job Assistant",
+  "assistant.availability": "Available 24/7",
+  "assistant.badge": "Job Expert",
+  "assistant.avatar": "AI Assistant",
+  "assistant.you": "You",
+  "assistant.inputPlaceholder": "Type your message...",
+  "assistant.send": "Send",
+  "assistant.browseJobs": "Browse Job Listings",
+  "assistant.history": "Conversation history",
+  "assistant.conversations": "Conversations",
+  "assistant.newConversation": "New conversation",
+  "assistant.noConversations":
+    "Your conversations with the assistant will appear here.",
+  "assistant.conversationTitle": "Conversation title",
+  "assistant.saveTitle": "Save title",
+  "assistant.cancelRename": "Cancel renaming",
+  "assistant.rename": "Rename conversation",
+  "assistant.delete": "Delete conversation",
+  "assistant.renameFailed": "Failed to rename conversation",
+  "assistant.deleteFailed": "Failed to delete conversation",
+  "assistant.loadFailed": "Failed to load the conversation",
+  "assistant.stop": "Stop generating",
+  "assistant.stopped": "Stopped before replying.",
+  "assistant.timeout": "Response timeout - No data received for 30 seconds",
+  "assistant.connectionLost": "Connection lost",
+  "assistant.connectionFailed": "Connection failed after multiple retries",
+  "assistant.error": "Error: {message}",
+  "assistant.apply": "Apply",
+  "assistant.applying": "Applying...",
+  "assistant.applied": "✔ Applied",
+  "assistant.closed": "Closed",
+  "assistant.applyFailed": "Failed to apply. Please try again.",
+  "assistant.alreadyApplied": "You have already applied to this job",
+  "assistant.applicationSubmitted": "Application submitted",
+  "assistant.suggestion": "This job looks like a good match. Why not apply?",
+  "assistant.copy": "Copy",
+  "assistant.copied": "Copied",
+  "assistant.copyFailed": "Couldn't copy the message",
+  "assistant.edit": "Edit and resend",
+  "assistant.editMessage": "Edit message",
+  "assistant.retry": "Retry",
+  "assistant.regenerate": "Regenerate",
+  "assistant.goodAnswer": "Good answer",
+  "assistant.badAnswer": "Bad answer",
+  "assistant.feedbackFailed": "Couldn't send your feedback",
+  "assistantContext.field.profession": "Profession",
+  "assistantContext.field.area": "Home area (pincode)",
+  "assistantContext.field.gender": "Gender",
+  "assistantContext.field.summary": "Profile summary",
+  "assistantContext.button": "Profile sharing",
+  "assistantContext.sharing": "Sharing your profile with the assistant",
+  "assistantContext.title": "Share your profile with the assistant",
+  "assistantContext.description":
+    "The assistant gives better answers, like jobs near home, when it knows a little about you. Only the details you tick are sent with your messages. Nothing is shared unless you choose to.",
+  "assistantContext.noPincode":
+    "Add a pincode to your address to share your area",
+  "assistantContext.notInProfile": "Not in your profile",
+  "assistantContext.stop": "Stop sharing",
+
+  // Direct messages
+  "messages.heading": "Messages",
+  "messages.loadingConversations": "Loading conversations...",
+  "messages.noConversations":
+    "No conversations yet. Start one with someone you've applied to or hired.",
+  "messages.loadingConversation": "Loading conversation...",
+  "messages.notFound": "This conversation could not be found.",
+  "messages.selectConversation": "Select a conversation to start messaging.",
+  "messages.unknownUser": "Unknown user",
+  "messages.online": "Online",
+  "messages.offline": "Offline",
+  "messages.lastSeenAt": "Last seen at {time}",
+  "messages.lastSeenOn": "Last seen {date}",
+  "messages.back": "Back to conversations",
+  "messages.loadingMessages": "Loading messages...",
+  "messages.sayHello": "Say hello to {name}",
+  "messages.sending": "Sending...",
+  "messages.placeholder": "Type a message...",
+  "messages.send": "Send",
+  "messages.sendFailed": "Message not sent. Please try again.",
+  "messages.you": "You: {text}",
+  "messages.noMessages": "No messages yet",
+  "messages.newChat": "New Chat",
+  "messages.newChatTitle": "Start a New Conversation",
+  "messages.newChatEmployer":
+    "Message a worker who applied to one of your jobs.",
+  "messages.newChatWorker": "Message an employer whose job you applied to.",
+  "messages.searchByName": "Search by name",
+  "messages.loadingContacts": "Loading contacts...",
+  "messages.noApplicants": "No one has applied to your jobs yet.",
+  "messages.noEmployers": "Apply to a job to message its employer.",
+  "messages.noMatches": "No matches",
+  "messages.contactsFailed": "Failed to load contacts",
+  "messages.startFailed": "Couldn't start the conversation. Please try again.",
+
+  // Shared
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.loading": "Loading...",
+};
+
+export type MessageKey = keyof typeof enMessages;
+
+export type Messages = Partial<Record<MessageKey, string>>;
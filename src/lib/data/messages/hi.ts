@@ -0,0 +1,455 @@
+import type { Messages } from "./en";
+
+// Hindi messages. Keys missing here fall back to English.
+export const hiMessages: Messages = {
+  "nav.home": "होम",
+  "nav.ai": "AI",
+  "nav.appliedJobs": "आवेदन की गई नौकरियाँ",
+  "nav.community": "समुदाय",
+  "nav.messages": "संदेश",
+  "nav.posts": "पोस्ट",
+  "nav.notifications": "सूचनाएँ",
+  "nav.profile": "प्रोफ़ाइल",
+  "nav.viewProfile": "प्रोफ़ाइल देखें",
+  "nav.logout": "लॉग आउट",
+  "nav.language": "भाषा",
+
+  "notifications.empty":
+    "अभी तक कोई सहेजी गई खोज नहीं है। नई मिलती-जुलती नौकरियाँ आने पर सूचना पाने के लिए नौकरियों के पेज पर कोई खोज सहेजें।",
+  "notifications.seen": "{date} को देखा",
+  "notifications.noNewJobs": "आपकी पिछली विज़िट के बाद कोई नई नौकरी नहीं",
+  "notifications.oneNewJob": "आपकी पिछली विज़िट के बाद 1 नई नौकरी",
+  "notifications.newJobs": "आपकी पिछली विज़िट के बाद {count} नई नौकरियाँ",
+  "notifications.delete": "सहेजी गई खोज हटाएँ",
+
+  "auth.createAccount": "खाता बनाएँ",
+  "auth.welcomeBack": "फिर से स्वागत है",
+  "auth.signUpSubtitle": "Blue Collar Connect शुरू करने के लिए साइन अप करें",
+  "auth.signInSubtitle": "अपने खाते में जारी रखने के लिए साइन इन करें",
+  "auth.iAmA": "मैं हूँ",
+  "auth.worker": "कुशल कामगार",
+  "auth.workerHint": "नौकरी की तलाश में",
+  "auth.employer": "नियोक्ता",
+  "auth.employerHint": "कामगारों को काम पर रखना",
+  "auth.email": "ईमेल",
+  "auth.password": "पासवर्ड",
+  "auth.signIn": "साइन इन करें",
+  "auth.signUp": "साइन अप करें",
+  "auth.haveAccount": "क्या आपका पहले से खाता है?",
+  "auth.noAccount": "खाता नहीं है?",
+  "auth.unexpectedError": "प्रमाणीकरण के दौरान एक अनपेक्षित त्रुटि हुई।",
+  "auth.or": "या",
+  "auth.continueWithGoogle": "Google से जारी रखें",
+
+  "jobs.heading": "अपनी सही नौकरी खोजें",
+  "jobs.searchPlaceholder": "नौकरियाँ खोजें...",
+  "jobs.filterTitle": "नौकरियाँ फ़िल्टर करें",
+  "jobs.filterDescription": "इन फ़िल्टरों से अपनी खोज को बेहतर बनाएँ",
+  "jobs.location": "स्थान",
+  "jobs.locationPlaceholder": "शहर या पिनकोड",
+  "jobs.jobType": "नौकरी का प्रकार",
+  "jobs.allTypes": "सभी प्रकार",
+  "jobs.inclusivity": "समावेशिता",
+  "jobs.allJobs": "सभी नौकरियाँ",
+  "jobs.dailyWage": "दैनिक मज़दूरी (₹)",
+  "jobs.min": "न्यूनतम",
+  "jobs.max": "अधिकतम",
+  "jobs.reset": "रीसेट करें",
+  "jobs.applyFilters": "फ़िल्टर लागू करें",
+  "jobs.nearMe": "मेरे पास की नौकरियाँ",
+  "jobs.searchRadius": "खोज का दायरा",
+  "jobs.clearAll": "सब हटाएँ",
+  "jobs.loadError":
+    "नौकरियाँ लोड करने में त्रुटि। कृपया बाद में फिर से कोशिश करें।",
+  "jobs.saveSearch": "खोज सहेजें",
+  "jobs.shareSearch": "खोज साझा करें",
+  "jobs.sortBy": "क्रम से लगाएँ",
+  "jobs.sort.newest": "सबसे नई पहले",
+  "jobs.sort.oldest": "सबसे पुरानी पहले",
+  "jobs.sort.relevance": "प्रासंगिकता",
+  "jobs.sort.wage": "सबसे ज़्यादा वेतन पहले",
+  "jobs.sort.distance": "सबसे नज़दीक पहले",
+  "jobs.badge.women": "महिलाएँ",
+  "jobs.locationNotProvided": "स्थान नहीं दिया गया",
+  "jobs.viewDetails": "विवरण देखें",
+  "jobs.loadMore": "और नौकरियाँ देखें",
+  "jobs.noResults": "कोई नौकरी नहीं मिली",
+  "jobs.clearAllFilters": "सभी फ़िल्टर हटाएँ",
+  "jobs.saveSearchTitle": "यह खोज सहेजें",
+  "jobs.name": "नाम",
+  "jobs.jobs": "नौकरियाँ",
+  "jobs.searchIn": "{where} में {what}",
+  "jobs.locationNotFound":
+    "हम आपका स्थान नहीं ढूँढ सके। स्थान की अनुमति दें या अपनी प्रोफ़ाइल के पते में पिनकोड जोड़ें।",
+  "jobs.saveSearchFailed": "खोज सहेजी नहीं जा सकी",
+  "jobs.any": "कोई भी",
+  "jobs.showing": "{count} नौकरियाँ दिखाई जा रही हैं",
+  "jobs.showingSoFar": "अब तक {count} नौकरियाँ दिखाई जा रही हैं",
+  "jobs.salaryNotProvided": "वेतन नहीं दिया गया",
+  "jobs.postedOn": "{date} को पोस्ट किया गया",
+  "jobs.noResultsHint":
+    "आपकी खोज से कोई नौकरी मेल नहीं खाती। फ़िल्टर या खोज शब्द बदलकर देखें।",
+  "jobs.saveSearchDescription":
+    "आपकी सूचनाओं में दिखेगा कि कितनी नई नौकरियाँ इससे मेल खाती हैं।",
+  "jobs.usingDeviceLocation": "आपके मौजूदा स्थान का उपयोग किया जा रहा है",
+  "jobs.usingAddressLocation": "आपके पते के पिनकोड का उपयोग किया जा रहा है",
+  "jobs.shareTitle": "नौकरी खोज",
+  "jobs.searchSaved":
+    "खोज सहेजी गई। नई मिलती-जुलती नौकरियाँ आने पर हम आपको बताएँगे।",
+  "jobs.withinRadius": "{radius} किमी के भीतर",
+
+  "bookmark.save": "नौकरी सहेजें",
+  "bookmark.remove": "सहेजी गई नौकरियों से हटाएँ",
+  "bookmark.saveForLater": "बाद के लिए सहेजें",
+  "bookmark.saved": "सहेजी गई",
+  "bookmark.savedToast": "नौकरी सहेजी गई",
+  "bookmark.removedToast": "सहेजी गई नौकरियों से हटाई गई",
+  "bookmark.updateFailed": "सहेजी गई नौकरियाँ अपडेट नहीं हो सकीं",
+
+  "jobType.full-time": "पूर्णकालिक",
+  "jobType.part-time": "अंशकालिक",
+  "jobType.contract": "अनुबंध",
+  "jobType.temporary": "अस्थायी",
+  "jobType.seasonal": "मौसमी",
+
+  "inclusivity.women-friendly": "महिलाओं के अनुकूल",
+  "inclusivity.disability-friendly": "दिव्यांगों के अनुकूल",
+  "inclusivity.lgbt-friendly": "LGBTQ+ के अनुकूल",
+
+  "wage.period.hourly": "प्रति घंटा",
+  "wage.period.daily": "प्रति दिन",
+  "wage.period.weekly": "प्रति सप्ताह",
+  "wage.period.monthly": "प्रति माह",
+  "wage.period.piece-rate": "प्रति नग",
+
+  "distance.metres": "{distance} मी दूर",
+  "distance.kilometres": "{distance} किमी दूर",
+  "distance.approximate": "लगभग {distance} किमी दूर",
+
+  "map.jobLocation": "नौकरी का स्थान",
+  "map.addressCopied": "पता कॉपी हो गया",
+  "map.copyFailed": "पता कॉपी नहीं हो सका",
+  "map.loadFailed": "नक्शा लोड नहीं हो सका। कृपया बाद में फिर से प्रयास करें।",
+  "map.approximate": "पिनकोड के आधार पर अनुमानित स्थान।",
+  "map.copyAddress": "पता कॉपी करें",
+  "map.getDirections": "रास्ता देखें",
+
+  "jobPost.basicInfo": "नौकरी की बुनियादी जानकारी",
+  "jobPost.jobTitle": "नौकरी का नाम*",
+  "jobPost.jobTitlePlaceholder": "उदा. निर्माण मज़दूर",
+  "jobPost.typeOfWork": "काम का प्रकार*",
+  "jobPost.typeOfWorkPlaceholder": "काम का प्रकार चुनें",
+  "jobPost.employerName": "नियोक्ता/कंपनी का नाम",
+  "jobPost.employerNamePlaceholder": "उदा. ABC कंस्ट्रक्शन",
+  "jobPost.companyVerified": "आपकी कंपनी सत्यापित है",
+  "jobPost.companyLogo": "कंपनी का लोगो",
+  "jobPost.companyLogoHint": "आपकी सभी नौकरी पोस्ट पर दिखाया जाता है",
+  "jobPost.placeOfWork": "काम की जगह",
+  "jobPost.placeOfWorkPlaceholder": "उदा. निर्माण स्थल, फ़ैक्टरी",
+  "jobPost.locationDetails": "स्थान का विवरण",
+  "jobPost.city": "शहर",
+  "jobPost.cityPlaceholder": "उदा. मुंबई",
+  "jobPost.state": "राज्य",
+  "jobPost.statePlaceholder": "उदा. महाराष्ट्र",
+  "jobPost.district": "ज़िला",
+  "jobPost.districtPlaceholder": "उदा. ठाणे",
+  "jobPost.pincode": "पिनकोड",
+  "jobPost.pincodePlaceholder": "उदा. 400001",
+  "jobPost.jobDetails": "नौकरी का विवरण",
+  "jobPost.vacancies": "रिक्तियों की संख्या",
+  "jobPost.vacanciesPlaceholder": "उदा. 5",
+  "jobPost.wage": "मज़दूरी (₹)",
+  "jobPost.wagePlaceholder": "उदा. 650",
+  "jobPost.paid": "भुगतान",
+  "jobPost.periodPlaceholder": "अवधि चुनें",
+  "jobPost.hoursPerWeek": "प्रति सप्ताह घंटे",
+  "jobPost.hoursPerWeekPlaceholder": "उदा. 40",
+  "jobPost.duration": "नौकरी की अवधि",
+  "jobPost.durationPlaceholder": "अवधि चुनें",
+  "jobPost.schedule": "समय-सारणी",
+  "jobPost.startTime": "शुरू होने का समय",
+  "jobPost.endTime": "समाप्ति का समय",
+  "jobPost.specialProvisions": "विशेष प्रावधान",
+  "jobPost.womenProvision": "महिलाओं के लिए विशेष प्रावधान",
+  "jobPost.transgenderProvision":
+    "ट्रांसजेंडर व्यक्तियों के लिए विशेष प्रावधान",
+  "jobPost.disabledProvision": "दिव्यांग व्यक्तियों के लिए विशेष प्रावधान",
+  "jobPost.badge.disabled": "दिव्यांग",
+  "jobPost.description": "नौकरी का विवरण",
+  "jobPost.roleDescription": "काम की भूमिका का विवरण",
+  "jobPost.roleDescriptionPlaceholder":
+    "काम की ज़िम्मेदारियाँ, ज़रूरतें और अन्य ज़रूरी जानकारी लिखें...",
+  "jobPost.backToPosts": "मेरी नौकरी पोस्ट पर वापस जाएँ",
+  "jobPost.postAnother": "एक और नौकरी पोस्ट करें",
+  "jobPost.loadFailed": "यह नौकरी पोस्ट लोड नहीं हो सकी",
+  "jobPost.signInRequired": "नौकरी पोस्ट करने के लिए साइन इन करना ज़रूरी है",
+  "jobPost.updateFailed": "नौकरी पोस्ट अपडेट नहीं हो सकी",
+  "jobPost.createFailed": "नौकरी पोस्ट नहीं बन सकी",
+  "jobPost.editTitle": "नौकरी पोस्ट बदलें",
+  "jobPost.newTitle": "नई नौकरी पोस्ट करें",
+  "jobPost.editDescription": "अपनी नौकरी पोस्ट का विवरण अपडेट करें",
+  "jobPost.newDescription": "नई नौकरी पोस्ट बनाने के लिए नीचे दिया फ़ॉर्म भरें",
+  "jobPost.updated": "नौकरी सफलतापूर्वक अपडेट हुई!",
+  "jobPost.posted": "नौकरी सफलतापूर्वक पोस्ट हुई!",
+  "jobPost.changesSaved": "आपके बदलाव सहेज लिए गए हैं।",
+  "jobPost.nowVisible":
+    "आपकी नौकरी पोस्ट हो गई है और अब कामगारों को दिख रही है।",
+  "jobPost.previousWage": "पहले “{wage}” के रूप में दर्ज किया गया था",
+  "jobPost.saving": "बदलाव सहेजे जा रहे हैं...",
+  "jobPost.posting": "नौकरी पोस्ट हो रही है...",
+  "jobPost.saveChanges": "बदलाव सहेजें",
+  "jobPost.postJob": "नौकरी पोस्ट करें",
+  "jobPost.womenProvisionHint":
+    "अगर आपके पास महिला कामगारों के लिए विशेष सुविधाएँ या प्राथमिकताएँ हैं तो इसे चुनें",
+  "jobPost.transgenderProvisionHint":
+    "अगर आपके पास ट्रांसजेंडर कामगारों के लिए विशेष सुविधाएँ या प्राथमिकताएँ हैं तो इसे चुनें",
+  "jobPost.disabledProvisionHint":
+    "अगर आपके पास दिव्यांग कामगारों के लिए विशेष सुविधाएँ या प्राथमिकताएँ हैं तो इसे चुनें",
+  "jobPost.companyLogoAlt": "कंपनी का लोगो",
+
+  "duration.1-day": "1 दिन",
+  "duration.1-week": "1 सप्ताह",
+  "duration.2-weeks": "2 सप्ताह",
+  "duration.1-month": "1 महीना",
+  "duration.3-months": "3 महीने",
+  "duration.6-months": "6 महीने",
+  "duration.permanent": "स्थायी",
+
+  "community.toast.fetchCommunitiesFailed": "समुदाय लोड नहीं हो सके",
+  "community.toast.fetchCommunitiesError": "समुदाय लोड करने में त्रुटि",
+  "community.toast.fetchJoinedFailed": "जुड़े हुए समुदाय लोड नहीं हो सके",
+  "community.toast.fetchJoinedError": "जुड़े हुए समुदाय लोड करने में त्रुटि",
+  "community.toast.searchFailed": "समुदाय खोजे नहीं जा सके",
+  "community.toast.searchError": "समुदाय खोजने में त्रुटि",
+  "community.toast.notAuthenticated": "उपयोगकर्ता साइन इन नहीं है",
+  "community.toast.joinFailed": "समुदाय से जुड़ नहीं सके",
+  "community.toast.joined": "समुदाय से सफलतापूर्वक जुड़ गए",
+  "community.toast.joinError": "समुदाय से जुड़ने में त्रुटि",
+  "community.toast.leaveFailed": "समुदाय छोड़ नहीं सके",
+  "community.toast.left": "समुदाय सफलतापूर्वक छोड़ दिया",
+  "community.toast.leaveError": "समुदाय छोड़ने में त्रुटि",
+  "community.searchPlaceholder": "समुदाय खोजें...",
+  "community.toast.fetchJoinedPostsFailed":
+    "जुड़े हुए समुदायों की पोस्ट लोड नहीं हो सकीं",
+  "community.toast.fetchJoinedPostsError":
+    "जुड़े हुए समुदायों की पोस्ट लोड करने में त्रुटि",
+  "community.title": "BlueCollar समुदाय",
+  "community.subtitle":
+    "नौकरियाँ खोजें और अपने क्षेत्र के दूसरे कामगारों से जुड़ें",
+  "community.create": "समुदाय बनाएँ",
+  "community.popular": "लोकप्रिय समुदाय",
+  "community.loading": "समुदाय लोड हो रहे हैं...",
+  "community.recentPosts": "हाल की पोस्ट",
+  "community.viewAll": "सभी देखें",
+  "community.trending": "चर्चित समुदाय",
+  "community.viewAllCommunities": "सभी समुदाय देखें",
+  "community.about": "BlueCollar के बारे में",
+  "community.createdIn": "2023 में बनाया गया",
+  "community.members": "{count} सदस्य",
+  "community.comments": "{count} टिप्पणियाँ",
+  "community.communities": "{count} समुदाय",
+  "community.aboutText":
+    "BlueCollar ब्लू-कॉलर कामगारों का एक सामुदायिक मंच है, जहाँ वे नौकरियाँ खोज सकते हैं, अनुभव साझा कर सकते हैं और अपने क्षेत्र के दूसरे लोगों से जुड़ सकते हैं।",
+  "community.joined": "जुड़े हुए",
+  "community.join": "जुड़ें",
+  "community.allTitle": "समुदाय",
+  "community.allSubtitle": "अपनी रुचि के समुदाय देखें और उनसे जुड़ें।",
+  "community.joinedCommunities": "जुड़े हुए समुदाय",
+  "community.noneJoined": "आप अभी तक किसी समुदाय से नहीं जुड़े हैं।",
+  "community.leave": "छोड़ें",
+  "community.otherCommunities": "अन्य समुदाय",
+  "community.noneFound": "कोई समुदाय नहीं मिला।",
+  "community.toast.fetchDetailsFailed": "समुदाय का विवरण लोड नहीं हो सका",
+  "community.toast.loadDetailsFailed": "समुदाय का विवरण लोड नहीं हो सका",
+  "community.toast.fetchPostsFailed":
+    "पोस्ट लोड नहीं हो सकीं। बाद में फिर कोशिश करें",
+  "community.toast.loadPostsFailed": "पोस्ट लोड नहीं हो सकीं",
+  "community.toast.fetchJoinedRetry":
+    "जुड़े हुए समुदाय लोड नहीं हो सके। बाद में फिर कोशिश करें",
+  "community.toast.fetchJoinedErrorRetry":
+    "जुड़े हुए समुदाय लोड करने में त्रुटि। बाद में फिर कोशिश करें",
+  "community.toast.unexpectedError":
+    "अनपेक्षित त्रुटि हुई। कृपया पेज रीफ़्रेश करके फिर कोशिश करें",
+  "community.toast.loadFailedRetry":
+    "समुदाय लोड नहीं हो सका। कृपया बाद में फिर कोशिश करें",
+  "community.loadFailed": "समुदाय लोड नहीं हो सका",
+  "community.leaveCommunity": "समुदाय छोड़ें",
+  "community.joinCommunity": "समुदाय से जुड़ें",
+  "community.sortBy": "क्रम:",
+  "community.sort.newest": "सबसे नई",
+  "community.sort.popular": "सबसे लोकप्रिय",
+  "community.noPosts":
+    "अभी कोई पोस्ट नहीं है। कुछ साझा करने वाले पहले व्यक्ति बनें!",
+  "community.toast.leftNamed": "आपने {name} छोड़ दिया",
+  "community.toast.joinedNamed": "आप {name} से जुड़ गए",
+  "community.aboutNamed": "{name} के बारे में",
+  "community.membersLabel": "सदस्य:",
+  "community.createdLabel": "बनाया गया:",
+  "community.moderatorLabel": "मॉडरेटर:",
+  "community.toast.fetchAllPostsError": "सभी पोस्ट लोड करने में त्रुटि",
+  "community.allPostsTitle": "सभी सामुदायिक पोस्ट",
+  "community.allPostsSubtitle":
+    "जिन समुदायों से आप जुड़े हैं, उनकी सभी पोस्ट देखें।",
+  "community.loadingPosts": "पोस्ट लोड हो रही हैं...",
+  "community.toast.fetchPostError": "पोस्ट लोड करने में त्रुटि",
+  "community.toast.commentAdded": "टिप्पणी जोड़ दी गई",
+  "community.toast.commentError": "टिप्पणी जोड़ने में त्रुटि",
+  "community.loadingPost": "पोस्ट लोड हो रही है...",
+  "community.addComment": "टिप्पणी जोड़ें",
+  "community.commentPlaceholder": "आप क्या सोचते हैं?",
+  "community.posting": "पोस्ट हो रहा है...",
+  "community.comment": "टिप्पणी करें",
+  "community.commentsHeading": "टिप्पणियाँ ({count})",
+
+  "community.createPost": "पोस्ट बनाएं",
+  "community.postTitlePlaceholder": "शीर्षक",
+  "community.postContentPlaceholder": "आप क्या सोच रहे हैं?",
+  "community.imagePreview": "पूर्वावलोकन",
+  "community.post": "पोस्ट करें",
+  "community.toast.postRequired": "शीर्षक और सामग्री आवश्यक हैं।",
+  "community.toast.postAdded": "पोस्ट सफलतापूर्वक जोड़ी गई",
+  "community.toast.postError":
+    "पोस्ट करने में त्रुटि। बाद में फिर से प्रयास करें।",
+  "community.backToCommunity": "समुदाय पर वापस जाएं",
+  "community.createTitle": "नया समुदाय बनाएं",
+  "community.nameLabel": "समुदाय का नाम",
+  "community.namePlaceholder": "एक अनोखा नाम दर्ज करें",
+  "community.descriptionLabel": "समुदाय का विवरण",
+  "community.descriptionPlaceholder": "अपने समुदाय के बारे में बताएं",
+  "community.typeLabel": "समुदाय का प्रकार",
+  "community.type.public": "सार्वजनिक",
+  "community.type.restricted": "प्रतिबंधित",
+  "community.type.private": "निजी",
+  "community.topicsLabel": "समुदाय के विषय",
+  "community.topic.Construction": "निर्माण",
+  "community.topic.Plumbing": "प्लंबिंग",
+  "community.topic.Electrical": "बिजली का काम",
+  "community.topic.Carpentry": "बढ़ईगिरी",
+  "community.topic.Welding": "वेल्डिंग",
+  "community.topic.Painting": "पेंटिंग",
+  "community.topic.Landscaping": "बागवानी",
+  "community.topic.HVAC": "एचवीएसी",
+  "community.rulesLabel": "समुदाय के नियम",
+  "community.rule.rule1": "अन्य सदस्यों का सम्मान करें",
+  "community.rule.rule2": "स्पैम या आत्म-प्रचार नहीं",
+  "community.rule.rule3": "विषय पर बने रहें",
+  "community.rule.rule4": "नफरत भरी बातें या उत्पीड़न नहीं",
+  "community.profilePhotoLabel": "समुदाय की प्रोफ़ाइल फ़ोटो",
+  "community.backgroundPhotoLabel": "समुदाय की पृष्ठभूमि फ़ोटो",
+  "community.creating": "बनाया जा रहा है...",
+  "community.toast.created": "समुदाय सफलतापूर्वक बनाया गया!",
+  "community.toast.createFailed":
+    "समुदाय बनाने में विफल। कृपया फिर से प्रयास करें।",
+  "community.toast.createError": "समुदाय बनाने में त्रुटि",
+
+  "voice.speak": "टाइप करने के बजाय बोलें",
+  "voice.stopListening": "सुनना बंद करें",
+  "voice.micDenied":
+    "माइक्रोफ़ोन की अनुमति नहीं मिली। बोलने के लिए ब्राउज़र सेटिंग में इसकी अनुमति दें।",
+  "voice.didNotCatch": "माफ़ कीजिए, हम सुन नहीं पाए। कृपया फिर से कोशिश करें।",
+  "voice.readAloud": "पढ़कर सुनाएँ",
+  "voice.stopReading": "पढ़ना बंद करें",
+
+  "assistant.welcome":
+    "नमस्ते! मैं आपका नौकरी खोज सहायक हूँ। आज मैं आपकी कैसे मदद कर सकता हूँ?",
+  "assistant.name": "नौकरी सहायक",
+  "assistant.availability": "24/7 उपलब्ध",
+  "assistant.badge": "नौकरी विशेषज्ञ",
+  "assistant.avatar": "एआई सहायक",
+  "assistant.you": "आप",
+  "assistant.inputPlaceholder": "अपना संदेश लिखें...",
+  "assistant.send": "भेजें",
+  "assistant.browseJobs": "नौकरियाँ देखें",
+  "assistant.history": "बातचीत का इतिहास",
+  "assistant.conversations": "बातचीत",
+  "assistant.newConversation": "नई बातचीत",
+  "assistant.noConversations": "सहायक के साथ आपकी बातचीत यहाँ दिखेगी।",
+  "assistant.conversationTitle": "बातचीत का शीर्षक",
+  "assistant.saveTitle": "शीर्षक सहेजें",
+  "assistant.cancelRename": "नाम बदलना रद्द करें",
+  "assistant.rename": "बातचीत का नाम बदलें",
+  "assistant.delete": "बातचीत हटाएँ",
+  "assistant.renameFailed": "बातचीत का नाम नहीं बदला जा सका",
+  "assistant.deleteFailed": "बातचीत हटाई नहीं जा सकी",
+  "assistant.loadFailed": "बातचीत लोड नहीं हो सकी",
+  "assistant.stop": "जवाब बनाना रोकें",
+  "assistant.stopped": "जवाब देने से पहले रोक दिया गया।",
+  "assistant.timeout": "जवाब का समय समाप्त - 30 सेकंड तक कोई डेटा नहीं मिला",
+  "assistant.connectionLost": "कनेक्शन टूट गया",
+  "assistant.connectionFailed":
+    "कई बार कोशिश करने के बाद भी कनेक्शन नहीं हो सका",
+  "assistant.error": "त्रुटि: {message}",
+  "assistant.apply": "आवेदन करें",
+  "assistant.applying": "आवेदन हो रहा है...",
+  "assistant.applied": "✔ आवेदन किया",
+  "assistant.closed": "बंद",
+  "assistant.applyFailed": "आवेदन नहीं हो सका। कृपया फिर से कोशिश करें।",
+  "assistant.alreadyApplied": "आप इस नौकरी के लिए पहले ही आवेदन कर चुके हैं",
+  "assistant.applicationSubmitted": "आवेदन जमा हो गया",
+  "assistant.suggestion":
+    "यह नौकरी आपके लिए अच्छी लगती है। आवेदन क्यों न करें?",
+  "assistant.copy": "कॉपी करें",
+  "assistant.copied": "कॉपी हो गया",
+  "assistant.copyFailed": "संदेश कॉपी नहीं हो सका",
+  "assistant.edit": "बदलें और फिर से भेजें",
+  "assistant.editMessage": "संदेश बदलें",
+  "assistant.retry": "फिर से कोशिश करें",
+  "assistant.regenerate": "फिर से बनाएँ",
+  "assistant.goodAnswer": "अच्छा जवाब",
+  "assistant.badAnswer": "खराब जवाब",
+  "assistant.feedbackFailed": "आपकी प्रतिक्रिया नहीं भेजी जा सकी",
+  "assistantContext.field.profession": "पेशा",
+  "assistantContext.field.area": "घर का इलाका (पिनकोड)",
+  "assistantContext.field.gender": "लिंग",
+  "assistantContext.field.summary": "प्रोफ़ाइल सारांश",
+  "assistantContext.button": "प्रोफ़ाइल साझा करना",
+  "assistantContext.sharing": "आपकी प्रोफ़ाइल सहायक के साथ साझा की जा रही है",
+  "assistantContext.title": "अपनी प्रोफ़ाइल सहायक के साथ साझा करें",
+  "assistantContext.description":
+    "जब सहायक आपके बारे में थोड़ा जानता है, तो वह बेहतर जवाब देता है, जैसे घर के पास की नौकरियाँ। केवल वही जानकारी आपके संदेशों के साथ भेजी जाती है जिन पर आप टिक करते हैं। जब तक आप न चुनें, कुछ भी साझा नहीं होता।",
+  "assistantContext.noPincode":
+    "अपना इलाका साझा करने के लिए अपने पते में पिनकोड जोड़ें",
+  "assistantContext.notInProfile": "आपकी प्रोफ़ाइल में नहीं है",
+  "assistantContext.stop": "साझा करना बंद करें",
+
+  "messages.heading": "संदेश",
+  "messages.loadingConversations": "बातचीत लोड हो रही है...",
+  "messages.noConversations":
+    "अभी कोई बातचीत नहीं है। जिसके यहाँ आपने आवेदन किया है या जिसे काम पर रखा है, उससे बातचीत शुरू करें।",
+  "messages.loadingConversation": "बातचीत लोड हो रही है...",
+  "messages.notFound": "यह बातचीत नहीं मिली।",
+  "messages.selectConversation": "संदेश भेजने के लिए कोई बातचीत चुनें।",
+  "messages.unknownUser": "अज्ञात उपयोगकर्ता",
+  "messages.online": "ऑनलाइन",
+  "messages.offline": "ऑफ़लाइन",
+  "messages.lastSeenAt": "आखिरी बार {time} पर देखा गया",
+  "messages.lastSeenOn": "आखिरी बार {date} को देखा गया",
+  "messages.back": "बातचीत पर वापस जाएँ",
+  "messages.loadingMessages": "संदेश लोड हो रहे हैं...",
+  "messages.sayHello": "{name} को नमस्ते कहें",
+  "messages.sending": "भेजा जा रहा है...",
+  "messages.placeholder": "संदेश लिखें...",
+  "messages.send": "भेजें",
+  "messages.sendFailed": "संदेश नहीं भेजा गया। कृपया फिर से कोशिश करें।",
+  "messages.you": "आप: {text}",
+  "messages.noMessages": "अभी कोई संदेश नहीं",
+  "messages.newChat": "नई चैट",
+  "messages.newChatTitle": "नई बातचीत शुरू करें",
+  "messages.newChatEmployer":
+    "उस कर्मचारी को संदेश भेजें जिसने आपकी किसी नौकरी के लिए आवेदन किया है।",
+  "messages.newChatWorker":
+    "उस नियोक्ता को संदेश भेजें जिसकी नौकरी के लिए आपने आवेदन किया है।",
+  "messages.searchByName": "नाम से खोजें",
+  "messages.loadingContacts": "संपर्क लोड हो रहे हैं...",
+  "messages.noApplicants":
+    "अभी तक किसी ने आपकी नौकरियों के लिए आवेदन नहीं किया है।",
+  "messages.noEmployers":
+    "किसी नियोक्ता को संदेश भेजने के लिए उसकी नौकरी के लिए आवेदन करें।",
+  "messages.noMatches": "कोई मेल नहीं",
+  "messages.contactsFailed": "संपर्क लोड नहीं हो सके",
+  "messages.startFailed": "बातचीत शुरू नहीं हो सकी। कृपया फिर से कोशिश करें।",
+
+  "common.cancel": "रद्द करें",
+  "common.save": "सहेजें",
+  "common.loading": "लोड हो रहा है...",
+};
@@ -0,0 +1,452 @@
+import type { Messages } from "./en";
+
+// Marathi messages. Keys missing here fall back to English.
+export const mrMessages: Messages = {
+  "nav.home": "मुख्यपृष्ठ",
+  "nav.ai": "AI",
+  "nav.appliedJobs": "अर्ज केलेल्या नोकऱ्या",
+  "nav.community": "समुदाय",
+  "nav.messages": "संदेश",
+  "nav.posts": "पोस्ट",
+  "nav.notifications": "सूचना",
+  "nav.profile": "प्रोफाइल",
+  "nav.viewProfile": "प्रोफाइल पहा",
+  "nav.logout": "लॉग आउट",
+  "nav.language": "भाषा",
+
+  "notifications.empty":
+    "अद्याप कोणताही शोध जतन केलेला नाही. नवीन जुळणाऱ्या नोकऱ्या आल्यावर सूचना मिळवण्यासाठी नोकऱ्यांच्या पानावर शोध जतन करा.",
+  "notifications.seen": "{date} रोजी पाहिले",
+  "notifications.noNewJobs": "तुमच्या मागील भेटीनंतर नवीन नोकरी नाही",
+  "notifications.oneNewJob": "तुमच्या मागील भेटीनंतर 1 नवीन नोकरी",
+  "notifications.newJobs": "तुमच्या मागील भेटीनंतर {count} नवीन नोकऱ्या",
+  "notifications.delete": "जतन केलेला शोध हटवा",
+
+  "auth.createAccount": "खाते तयार करा",
+  "auth.welcomeBack": "पुन्हा स्वागत आहे",
+  "auth.signUpSubtitle": "Blue Collar Connect सुरू करण्यासाठी साइन अप करा",
+  "auth.signInSubtitle": "तुमच्या खात्यात पुढे जाण्यासाठी साइन इन करा",
+  "auth.iAmA": "मी आहे",
+  "auth.worker": "कुशल कामगार",
+  "auth.workerHint": "नोकरीच्या शोधात",
+  "auth.employer": "नियोक्ता",
+  "auth.employerHint": "कामगारांची भरती",
+  "auth.email": "ईमेल",
+  "auth.password": "पासवर्ड",
+  "auth.signIn": "साइन इन करा",
+  "auth.signUp": "साइन अप करा",
+  "auth.haveAccount": "आधीच खाते आहे?",
+  "auth.noAccount": "खाते नाही?",
+  "auth.unexpectedError": "प्रमाणीकरणादरम्यान अनपेक्षित त्रुटी आली.",
+  "auth.or": "किंवा",
+  "auth.continueWithGoogle": "Google सह पुढे चला",
+
+  "jobs.heading": "तुमची योग्य नोकरी शोधा",
+  "jobs.searchPlaceholder": "नोकऱ्या शोधा...",
+  "jobs.filterTitle": "नोकऱ्या फिल्टर करा",
+  "jobs.filterDescription": "या फिल्टरने तुमचा शोध अधिक नेमका करा",
+  "jobs.location": "ठिकाण",
+  "jobs.locationPlaceholder": "शहर किंवा पिनकोड",
+  "jobs.jobType": "नोकरीचा प्रकार",
+  "jobs.allTypes": "सर्व प्रकार",
+  "jobs.inclusivity": "समावेशकता",
+  "jobs.allJobs": "सर्व नोकऱ्या",
+  "jobs.dailyWage": "दैनिक मजुरी (₹)",
+  "jobs.min": "किमान",
+  "jobs.max": "कमाल",
+  "jobs.reset": "रीसेट करा",
+  "jobs.applyFilters": "फिल्टर लागू करा",
+  "jobs.nearMe": "माझ्या जवळच्या नोकऱ्या",
+  "jobs.searchRadius": "शोधाची त्रिज्या",
+  "jobs.clearAll": "सर्व काढा",
+  "jobs.loadError": "नोकऱ्या लोड करताना त्रुटी. कृपया नंतर पुन्हा प्रयत्न करा.",
+  "jobs.saveSearch": "शोध जतन करा",
+  "jobs.shareSearch": "शोध शेअर करा",
+  "jobs.sortBy": "क्रमवारी",
+  "jobs.sort.newest": "नवीन आधी",
+  "jobs.sort.oldest": "जुन्या आधी",
+  "jobs.sort.relevance": "संबंधितता",
+  "jobs.sort.wage": "जास्त पगार आधी",
+  "jobs.sort.distance": "जवळच्या आधी",
+  "jobs.badge.women": "महिला",
+  "jobs.locationNotProvided": "ठिकाण दिलेले नाही",
+  "jobs.viewDetails": "तपशील पहा",
+  "jobs.loadMore": "आणखी नोकऱ्या पहा",
+  "jobs.noResults": "कोणतीही नोकरी सापडली नाही",
+  "jobs.clearAllFilters": "सर्व फिल्टर काढा",
+  "jobs.saveSearchTitle": "हा शोध जतन करा",
+  "jobs.name": "नाव",
+  "jobs.jobs": "नोकऱ्या",
+  "jobs.searchIn": "{where} मध्ये {what}",
+  "jobs.locationNotFound":
+    "आम्हाला तुमचे ठिकाण सापडले नाही. ठिकाणाची परवानगी द्या किंवा प्रोफाइलमधील पत्त्यात पिनकोड जोडा.",
+  "jobs.saveSearchFailed": "शोध जतन करता आला नाही",
+  "jobs.any": "कोणतीही",
+  "jobs.showing": "{count} नोकऱ्या दाखवत आहे",
+  "jobs.showingSoFar": "आतापर्यंत {count} नोकऱ्या दाखवत आहे",
+  "jobs.salaryNotProvided": "पगार दिलेला नाही",
+  "jobs.postedOn": "{date} रोजी पोस्ट केले",
+  "jobs.noResultsHint":
+    "तुमच्या शोधाशी जुळणारी नोकरी नाही. फिल्टर किंवा शोध शब्द बदलून पहा.",
+  "jobs.saveSearchDescription":
+    "किती नवीन नोकऱ्या याच्याशी जुळतात ते तुमच्या सूचनांमध्ये दिसेल.",
+  "jobs.usingDeviceLocation": "तुमचे सध्याचे ठिकाण वापरत आहे",
+  "jobs.usingAddressLocation": "तुमच्या पत्त्यातील पिनकोड वापरत आहे",
+  "jobs.shareTitle": "नोकरी शोध",
+  "jobs.searchSaved":
+    "शोध जतन झाला. नवीन जुळणाऱ्या नोकऱ्या आल्यावर आम्ही तुम्हाला कळवू.",
+  "jobs.withinRadius": "{radius} किमीच्या आत",
+
+  "bookmark.save": "नोकरी जतन करा",
+  "bookmark.remove": "जतन केलेल्या नोकऱ्यांमधून काढा",
+  "bookmark.saveForLater": "नंतरसाठी जतन करा",
+  "bookmark.saved": "जतन केली",
+  "bookmark.savedToast": "नोकरी जतन केली",
+  "bookmark.removedToast": "जतन केलेल्या नोकऱ्यांमधून काढली",
+  "bookmark.updateFailed": "जतन केलेल्या नोकऱ्या अपडेट करता आल्या नाहीत",
+
+  "jobType.full-time": "पूर्णवेळ",
+  "jobType.part-time": "अर्धवेळ",
+  "jobType.contract": "करार",
+  "jobType.temporary": "तात्पुरती",
+  "jobType.seasonal": "हंगामी",
+
+  "inclusivity.women-friendly": "महिलांसाठी अनुकूल",
+  "inclusivity.disability-friendly": "दिव्यांगांसाठी अनुकूल",
+  "inclusivity.lgbt-friendly": "LGBTQ+ साठी अनुकूल",
+
+  "wage.period.hourly": "प्रति तास",
+  "wage.period.daily": "प्रति दिवस",
+  "wage.period.weekly": "प्रति आठवडा",
+  "wage.period.monthly": "प्रति महिना",
+  "wage.period.piece-rate": "प्रति नग",
+
+  "distance.metres": "{distance} मी दूर",
+  "distance.kilometres": "{distance} किमी दूर",
+  "distance.approximate": "सुमारे {distance} किमी दूर",
+
+  "map.jobLocation": "नोकरीचे ठिकाण",
+  "map.addressCopied": "पत्ता कॉपी झाला",
+  "map.copyFailed": "पत्ता कॉपी करता आला नाही",
+  "map.loadFailed": "नकाशा लोड झाला नाही. कृपया नंतर पुन्हा प्रयत्न करा.",
+  "map.approximate": "पिनकोडवर आधारित अंदाजे ठिकाण.",
+  "map.copyAddress": "पत्ता कॉपी करा",
+  "map.getDirections": "मार्ग पहा",
+
+  "jobPost.basicInfo": "नोकरीची मूलभूत माहिती",
+  "jobPost.jobTitle": "नोकरीचे नाव*",
+  "jobPost.jobTitlePlaceholder": "उदा. बांधकाम कामगार",
+  "jobPost.typeOfWork": "कामाचा प्रकार*",
+  "jobPost.typeOfWorkPlaceholder": "कामाचा प्रकार निवडा",
+  "jobPost.employerName": "नियोक्ता/कंपनीचे नाव",
+  "jobPost.employerNamePlaceholder": "उदा. ABC कन्स्ट्रक्शन",
+  "jobPost.companyVerified": "तुमची कंपनी सत्यापित आहे",
+  "jobPost.companyLogo": "कंपनीचा लोगो",
+  "jobPost.companyLogoHint": "तुमच्या सर्व नोकरी पोस्टवर दाखवला जातो",
+  "jobPost.placeOfWork": "कामाचे ठिकाण",
+  "jobPost.placeOfWorkPlaceholder": "उदा. बांधकाम स्थळ, कारखाना",
+  "jobPost.locationDetails": "ठिकाणाचा तपशील",
+  "jobPost.city": "शहर",
+  "jobPost.cityPlaceholder": "उदा. मुंबई",
+  "jobPost.state": "राज्य",
+  "jobPost.statePlaceholder": "उदा. महाराष्ट्र",
+  "jobPost.district": "जिल्हा",
+  "jobPost.districtPlaceholder": "उदा. ठाणे",
+  "jobPost.pincode": "पिनकोड",
+  "jobPost.pincodePlaceholder": "उदा. 400001",
+  "jobPost.jobDetails": "नोकरीचा तपशील",
+  "jobPost.vacancies": "रिक्त जागांची संख्या",
+  "jobPost.vacanciesPlaceholder": "उदा. 5",
+  "jobPost.wage": "मजुरी (₹)",
+  "jobPost.wagePlaceholder": "उदा. 650",
+  "jobPost.paid": "देय",
+  "jobPost.periodPlaceholder": "कालावधी निवडा",
+  "jobPost.hoursPerWeek": "दर आठवड्याचे तास",
+  "jobPost.hoursPerWeekPlaceholder": "उदा. 40",
+  "jobPost.duration": "नोकरीचा कालावधी",
+  "jobPost.durationPlaceholder": "कालावधी निवडा",
+  "jobPost.schedule": "वेळापत्रक",
+  "jobPost.startTime": "सुरू होण्याची वेळ",
+  "jobPost.endTime": "संपण्याची वेळ",
+  "jobPost.specialProvisions": "विशेष तरतुदी",
+  "jobPost.womenProvision": "महिलांसाठी विशेष तरतूद",
+  "jobPost.transgenderProvision": "तृतीयपंथी व्यक्तींसाठी विशेष तरतूद",
+  "jobPost.disabledProvision": "दिव्यांग व्यक्तींसाठी विशेष तरतूद",
+  "jobPost.badge.disabled": "दिव्यांग",
+  "jobPost.description": "नोकरीचे वर्णन",
+  "jobPost.roleDescription": "कामाच्या भूमिकेचे वर्णन",
+  "jobPost.roleDescriptionPlaceholder":
+    "कामाच्या जबाबदाऱ्या, गरजा आणि इतर आवश्यक माहिती लिहा...",
+  "jobPost.backToPosts": "माझ्या नोकरी पोस्टवर परत जा",
+  "jobPost.postAnother": "आणखी एक नोकरी पोस्ट करा",
+  "jobPost.loadFailed": "ही नोकरी पोस्ट लोड करता आली नाही",
+  "jobPost.signInRequired": "नोकरी पोस्ट करण्यासाठी साइन इन करणे आवश्यक आहे",
+  "jobPost.updateFailed": "नोकरी पोस्ट अपडेट करता आली नाही",
+  "jobPost.createFailed": "नोकरी पोस्ट तयार करता आली नाही",
+  "jobPost.editTitle": "नोकरी पोस्ट संपादित करा",
+  "jobPost.newTitle": "नवीन नोकरी पोस्ट करा",
+  "jobPost.editDescription": "तुमच्या नोकरी पोस्टचा तपशील अपडेट करा",
+  "jobPost.newDescription": "नवीन नोकरी पोस्ट तयार करण्यासाठी खालील फॉर्म भरा",
+  "jobPost.updated": "नोकरी यशस्वीरित्या अपडेट झाली!",
+  "jobPost.posted": "नोकरी यशस्वीरित्या पोस्ट झाली!",
+  "jobPost.changesSaved": "तुमचे बदल जतन झाले आहेत.",
+  "jobPost.nowVisible":
+    "तुमची नोकरी पोस्ट झाली आहे आणि आता कामगारांना दिसत आहे.",
+  "jobPost.previousWage": "आधी “{wage}” म्हणून नोंदवले होते",
+  "jobPost.saving": "बदल जतन होत आहेत...",
+  "jobPost.posting": "नोकरी पोस्ट होत आहे...",
+  "jobPost.saveChanges": "बदल जतन करा",
+  "jobPost.postJob": "नोकरी पोस्ट करा",
+  "jobPost.womenProvisionHint":
+    "महिला कामगारांसाठी विशेष सुविधा किंवा प्राधान्य असल्यास हे निवडा",
+  "jobPost.transgenderProvisionHint":
+    "तृतीयपंथी कामगारांसाठी विशेष सुविधा किंवा प्राधान्य असल्यास हे निवडा",
+  "jobPost.disabledProvisionHint":
+    "दिव्यांग कामगारांसाठी विशेष सुविधा किंवा प्राधान्य असल्यास हे निवडा",
+  "jobPost.companyLogoAlt": "कंपनीचा लोगो",
+
+  "duration.1-day": "1 दिवस",
+  "duration.1-week": "1 आठवडा",
+  "duration.2-weeks": "2 आठवडे",
+  "duration.1-month": "1 महिना",
+  "duration.3-months": "3 महिने",
+  "duration.6-months": "6 महिने",
+  "duration.permanent": "कायमस्वरूपी",
+
+  "community.toast.fetchCommunitiesFailed": "समुदाय लोड करता आले नाहीत",
+  "community.toast.fetchCommunitiesError": "समुदाय लोड करताना त्रुटी",
+  "community.toast.fetchJoinedFailed": "सामील झालेले समुदाय लोड करता आले नाहीत",
+  "community.toast.fetchJoinedError": "सामील झालेले समुदाय लोड करताना त्रुटी",
+  "community.toast.searchFailed": "समुदाय शोधता आले नाहीत",
+  "community.toast.searchError": "समुदाय शोधताना त्रुटी",
+  "community.toast.notAuthenticated": "वापरकर्ता साइन इन केलेला नाही",
+  "community.toast.joinFailed": "समुदायात सामील होता आले नाही",
+  "community.toast.joined": "समुदायात यशस्वीरित्या सामील झालात",
+  "community.toast.joinError": "समुदायात सामील होताना त्रुटी",
+  "community.toast.leaveFailed": "समुदाय सोडता आला नाही",
+  "community.toast.left": "समुदाय यशस्वीरित्या सोडला",
+  "community.toast.leaveError": "समुदाय सोडताना त्रुटी",
+  "community.searchPlaceholder": "समुदाय शोधा...",
+  "community.toast.fetchJoinedPostsFailed":
+    "सामील झालेल्या समुदायांच्या पोस्ट लोड करता आल्या नाहीत",
+  "community.toast.fetchJoinedPostsError":
+    "सामील झालेल्या समुदायांच्या पोस्ट लोड करताना त्रुटी",
+  "community.title": "BlueCollar समुदाय",
+  "community.subtitle":
+    "नोकऱ्या शोधा आणि तुमच्या क्षेत्रातील इतर कामगारांशी जोडा",
+  "community.create": "समुदाय तयार करा",
+  "community.popular": "लोकप्रिय समुदाय",
+  "community.loading": "समुदाय लोड होत आहेत...",
+  "community.recentPosts": "अलीकडील पोस्ट",
+  "community.viewAll": "सर्व पहा",
+  "community.trending": "चर्चेतील समुदाय",
+  "community.viewAllCommunities": "सर्व समुदाय पहा",
+  "community.about": "BlueCollar बद्दल",
+  "community.createdIn": "2023 मध्ये तयार केले",
+  "community.members": "{count} सदस्य",
+  "community.comments": "{count} टिप्पण्या",
+  "community.communities": "{count} समुदाय",
+  "community.aboutText":
+    "BlueCollar हे ब्लू-कॉलर कामगारांसाठी एक सामुदायिक व्यासपीठ आहे, जिथे ते नोकऱ्या शोधू शकतात, अनुभव शेअर करू शकतात आणि त्यांच्या क्षेत्रातील इतरांशी जोडले जाऊ शकतात.",
+  "community.joined": "सामील",
+  "community.join": "सामील व्हा",
+  "community.allTitle": "समुदाय",
+  "community.allSubtitle": "तुम्हाला आवडणारे समुदाय पहा आणि त्यात सामील व्हा.",
+  "community.joinedCommunities": "सामील झालेले समुदाय",
+  "community.noneJoined": "तुम्ही अद्याप कोणत्याही समुदायात सामील झालेला नाही.",
+  "community.leave": "सोडा",
+  "community.otherCommunities": "इतर समुदाय",
+  "community.noneFound": "कोणताही समुदाय सापडला नाही.",
+  "community.toast.fetchDetailsFailed": "समुदायाचा तपशील लोड करता आला नाही",
+  "community.toast.loadDetailsFailed": "समुदायाचा तपशील लोड करता आला नाही",
+  "community.toast.fetchPostsFailed":
+    "पोस्ट लोड करता आल्या नाहीत. नंतर पुन्हा प्रयत्न करा",
+  "community.toast.loadPostsFailed": "पोस्ट लोड करता आल्या नाहीत",
+  "community.toast.fetchJoinedRetry":
+    "सामील झालेले समुदाय लोड करता आले नाहीत. नंतर पुन्हा प्रयत्न करा",
+  "community.toast.fetchJoinedErrorRetry":
+    "सामील झालेले समुदाय लोड करताना त्रुटी. नंतर पुन्हा प्रयत्न करा",
+  "community.toast.unexpectedError":
+    "अनपेक्षित त्रुटी आली. कृपया पान रीफ्रेश करून पुन्हा प्रयत्न करा",
+  "community.toast.loadFailedRetry":
+    "समुदाय लोड करता आला नाही. कृपया नंतर पुन्हा प्रयत्न करा",
+  "community.loadFailed": "समुदाय लोड करता आला नाही",
+  "community.leaveCommunity": "समुदाय सोडा",
+  "community.joinCommunity": "समुदायात सामील व्हा",
+  "community.sortBy": "क्रमवारी:",
+  "community.sort.newest": "नवीन",
+  "community.sort.popular": "सर्वाधिक लोकप्रिय",
+  "community.noPosts":
+    "अद्याप कोणतीही पोस्ट नाही. काहीतरी शेअर करणारे पहिले व्हा!",
+  "community.toast.leftNamed": "तुम्ही {name} सोडले",
+  "community.toast.joinedNamed": "तुम्ही {name} मध्ये सामील झालात",
+  "community.aboutNamed": "{name} बद्दल",
+  "community.membersLabel": "सदस्य:",
+  "community.createdLabel": "तयार केले:",
+  "community.moderatorLabel": "नियंत्रक:",
+  "community.toast.fetchAllPostsError": "सर्व पोस्ट लोड करताना त्रुटी",
+  "community.allPostsTitle": "सर्व समुदाय पोस्ट",
+  "community.allPostsSubtitle":
+    "तुम्ही सामील असलेल्या सर्व समुदायांच्या पोस्ट पहा.",
+  "community.loadingPosts": "पोस्ट लोड होत आहेत...",
+  "community.toast.fetchPostError": "पोस्ट लोड करताना त्रुटी",
+  "community.toast.commentAdded": "टिप्पणी जोडली",
+  "community.toast.commentError": "टिप्पणी जोडताना त्रुटी",
+  "community.loadingPost": "पोस्ट लोड होत आहे...",
+  "community.addComment": "टिप्पणी जोडा",
+  "community.commentPlaceholder": "तुम्हाला काय वाटते?",
+  "community.posting": "पोस्ट होत आहे...",
+  "community.comment": "टिप्पणी करा",
+  "community.commentsHeading": "टिप्पण्या ({count})",
+
+  "community.createPost": "पोस्ट तयार करा",
+  "community.postTitlePlaceholder": "शीर्षक",
+  "community.postContentPlaceholder": "तुमच्या मनात काय आहे?",
+  "community.imagePreview": "पूर्वावलोकन",
+  "community.post": "पोस्ट करा",
+  "community.toast.postRequired": "शीर्षक आणि मजकूर आवश्यक आहेत.",
+  "community.toast.postAdded": "पोस्ट यशस्वीरित्या जोडली",
+  "community.toast.postError": "पोस्ट करताना त्रुटी. नंतर पुन्हा प्रयत्न करा.",
+  "community.backToCommunity": "समुदायाकडे परत जा",
+  "community.createTitle": "नवीन समुदाय तयार करा",
+  "community.nameLabel": "समुदायाचे नाव",
+  "community.namePlaceholder": "एक अनोखे नाव प्रविष्ट करा",
+  "community.descriptionLabel": "समुदायाचे वर्णन",
+  "community.descriptionPlaceholder": "तुमच्या समुदायाचे वर्णन करा",
+  "community.typeLabel": "समुदायाचा प्रकार",
+  "community.type.public": "सार्वजनिक",
+  "community.type.restricted": "प्रतिबंधित",
+  "community.type.private": "खाजगी",
+  "community.topicsLabel": "समुदायाचे विषय",
+  "community.topic.Construction": "बांधकाम",
+  "community.topic.Plumbing": "प्लंबिंग",
+  "community.topic.Electrical": "विद्युत काम",
+  "community.topic.Carpentry": "सुतारकाम",
+  "community.topic.Welding": "वेल्डिंग",
+  "community.topic.Painting": "रंगकाम",
+  "community.topic.Landscaping": "बागकाम",
+  "community.topic.HVAC": "एचव्हीएसी",
+  "community.rulesLabel": "समुदायाचे नियम",
+  "community.rule.rule1": "इतर सदस्यांचा आदर करा",
+  "community.rule.rule2": "स्पॅम किंवा स्वतःची जाहिरात नको",
+  "community.rule.rule3": "विषयाला धरून राहा",
+  "community.rule.rule4": "द्वेषपूर्ण भाषा किंवा छळ नको",
+  "community.profilePhotoLabel": "समुदायाचा प्रोफाइल फोटो",
+  "community.backgroundPhotoLabel": "समुदायाचा पार्श्वभूमी फोटो",
+  "community.creating": "तयार करत आहे...",
+  "community.toast.created": "समुदाय यशस्वीरित्या तयार झाला!",
+  "community.toast.createFailed":
+    "समुदाय तयार करता आला नाही. कृपया पुन्हा प्रयत्न करा.",
+  "community.toast.createError": "समुदाय तयार करताना त्रुटी",
+
+  "voice.speak": "टाइप करण्याऐवजी बोला",
+  "voice.stopListening": "ऐकणे थांबवा",
+  "voice.micDenied":
+    "मायक्रोफोनची परवानगी मिळाली नाही. बोलण्यासाठी ब्राउझर सेटिंग्जमध्ये परवानगी द्या.",
+  "voice.didNotCatch":
+    "माफ करा, आम्हाला ऐकू आले नाही. कृपया पुन्हा प्रयत्न करा.",
+  "voice.readAloud": "वाचून दाखवा",
+  "voice.stopReading": "वाचणे थांबवा",
+
+  "assistant.welcome":
+    "नमस्कार! मी तुमचा नोकरी शोध सहाय्यक आहे. आज मी तुम्हाला कशी मदत करू शकतो?",
+  "assistant.name": "नोकरी सहाय्यक",
+  "assistant.availability": "24/7 उपलब्ध",
+  "assistant.badge": "नोकरी तज्ञ",
+  "assistant.avatar": "एआय सहाय्यक",
+  "assistant.you": "तुम्ही",
+  "assistant.inputPlaceholder": "तुमचा संदेश लिहा...",
+  "assistant.send": "पाठवा",
+  "assistant.browseJobs": "नोकऱ्या पाहा",
+  "assistant.history": "संभाषणांचा इतिहास",
+  "assistant.conversations": "संभाषणे",
+  "assistant.newConversation": "नवीन संभाषण",
+  "assistant.noConversations": "सहाय्यकासोबतची तुमची संभाषणे येथे दिसतील.",
+  "assistant.conversationTitle": "संभाषणाचे शीर्षक",
+  "assistant.saveTitle": "शीर्षक जतन करा",
+  "assistant.cancelRename": "नाव बदलणे रद्द करा",
+  "assistant.rename": "संभाषणाचे नाव बदला",
+  "assistant.delete": "संभाषण हटवा",
+  "assistant.renameFailed": "संभाषणाचे नाव बदलता आले नाही",
+  "assistant.deleteFailed": "संभाषण हटवता आले नाही",
+  "assistant.loadFailed": "संभाषण लोड करता आले नाही",
+  "assistant.stop": "उत्तर तयार करणे थांबवा",
+  "assistant.stopped": "उत्तर देण्यापूर्वी थांबवले.",
+  "assistant.timeout": "उत्तराची वेळ संपली - 30 सेकंद कोणताही डेटा मिळाला नाही",
+  "assistant.connectionLost": "कनेक्शन तुटले",
+  "assistant.connectionFailed": "अनेक प्रयत्नांनंतरही कनेक्शन झाले नाही",
+  "assistant.error": "त्रुटी: {message}",
+  "assistant.apply": "अर्ज करा",
+  "assistant.applying": "अर्ज करत आहे...",
+  "assistant.applied": "✔ अर्ज केला",
+  "assistant.closed": "बंद",
+  "assistant.applyFailed": "अर्ज करता आला नाही. कृपया पुन्हा प्रयत्न करा.",
+  "assistant.alreadyApplied": "तुम्ही या नोकरीसाठी आधीच अर्ज केला आहे",
+  "assistant.applicationSubmitted": "अर्ज सादर झाला",
+  "assistant.suggestion": "ही नोकरी तुमच्यासाठी योग्य दिसते. अर्ज का करू नये?",
+  "assistant.copy": "कॉपी करा",
+  "assistant.copied": "कॉपी झाले",
+  "assistant.copyFailed": "संदेश कॉपी करता आला नाही",
+  "assistant.edit": "बदला आणि पुन्हा पाठवा",
+  "assistant.editMessage": "संदेश बदला",
+  "assistant.retry": "पुन्हा प्रयत्न करा",
+  "assistant.regenerate": "पुन्हा तयार करा",
+  "assistant.goodAnswer": "चांगले उत्तर",
+  "assistant.badAnswer": "वाईट उत्तर",
+  "assistant.feedbackFailed": "तुमचा अभिप्राय पाठवता आला नाही",
+  "assistantContext.field.profession": "व्यवसाय",
+  "assistantContext.field.area": "घराचा परिसर (पिनकोड)",
+  "assistantContext.field.gender": "लिंग",
+  "assistantContext.field.summary": "प्रोफाइल सारांश",
+  "assistantContext.button": "प्रोफाइल शेअर करणे",
+  "assistantContext.sharing": "तुमची प्रोफाइल सहाय्यकासोबत शेअर केली जात आहे",
+  "assistantContext.title": "तुमची प्रोफाइल सहाय्यकासोबत शेअर करा",
+  "assistantContext.description":
+    "सहाय्यकाला तुमच्याबद्दल थोडी माहिती असल्यास तो अधिक चांगली उत्तरे देतो, जसे घराजवळच्या नोकऱ्या. तुम्ही टिक केलेलीच माहिती तुमच्या संदेशांसोबत पाठवली जाते. तुम्ही निवडल्याशिवाय काहीही शेअर होत नाही.",
+  "assistantContext.noPincode":
+    "तुमचा परिसर शेअर करण्यासाठी पत्त्यात पिनकोड जोडा",
+  "assistantContext.notInProfile": "तुमच्या प्रोफाइलमध्ये नाही",
+  "assistantContext.stop": "शेअर करणे थांबवा",
+
+  "messages.heading": "संदेश",
+  "messages.loadingConversations": "संभाषणे लोड होत आहेत...",
+  "messages.noConversations":
+    "अद्याप कोणतेही संभाषण नाही. ज्यांच्याकडे तुम्ही अर्ज केला आहे किंवा ज्यांना कामावर ठेवले आहे त्यांच्याशी संभाषण सुरू करा.",
+  "messages.loadingConversation": "संभाषण लोड होत आहे...",
+  "messages.notFound": "हे संभाषण सापडले नाही.",
+  "messages.selectConversation": "संदेश पाठवण्यासाठी एखादे संभाषण निवडा.",
+  "messages.unknownUser": "अज्ञात वापरकर्ता",
+  "messages.online": "ऑनलाइन",
+  "messages.offline": "ऑफलाइन",
+  "messages.lastSeenAt": "शेवटचे {time} वाजता पाहिले",
+  "messages.lastSeenOn": "शेवटचे {date} रोजी पाहिले",
+  "messages.back": "संभाषणांकडे परत",
+  "messages.loadingMessages": "संदेश लोड होत आहेत...",
+  "messages.sayHello": "{name} यांना नमस्कार म्हणा",
+  "messages.sending": "पाठवत आहे...",
+  "messages.placeholder": "संदेश लिहा...",
+  "messages.send": "पाठवा",
+  "messages.sendFailed": "संदेश पाठवला गेला नाही. कृपया पुन्हा प्रयत्न करा.",
+  "messages.you": "तुम्ही: {text}",
+  "messages.noMessages": "अद्याप संदेश नाहीत",
+  "messages.newChat": "नवीन चॅट",
+  "messages.newChatTitle": "नवीन संभाषण सुरू करा",
+  "messages.newChatEmployer":
+    "तुमच्या एखाद्या नोकरीसाठी अर्ज केलेल्या कामगाराला संदेश पाठवा.",
+  "messages.newChatWorker":
+    "ज्या नियोक्त्याच्या नोकरीसाठी तुम्ही अर्ज केला आहे त्यांना संदेश पाठवा.",
+  "messages.searchByName": "नावाने शोधा",
+  "messages.loadingContacts": "संपर्क लोड होत आहेत...",
+  "messages.noApplicants":
+    "अद्याप कोणीही तुमच्या नोकऱ्यांसाठी अर्ज केलेला नाही.",
+  "messages.noEmployers":
+    "नियोक्त्याला संदेश पाठवण्यासाठी त्यांच्या नोकरीसाठी अर्ज करा.",
+  "messages.noMatches": "काहीही जुळले नाही",
+  "messages.contactsFailed": "संपर्क लोड करता आले नाहीत",
+  "messages.startFailed":
+    "संभाषण सुरू करता आले नाही. कृपया पुन्हा प्रयत्न करा.",
+
+  "common.cancel": "रद्द करा",
+  "common.save": "जतन करा",
+  "common.loading": "लोड होत आहे...",
+};
@@ -0,0 +1,462 @@
+import type { Messages } from "./en";
+
+// Tamil messages. Keys missing here fall back to English.
+export const taMessages: Messages = {
+  "nav.home": "முகப்பு",
+  "nav.ai": "AI",
+  "nav.appliedJobs": "விண்ணப்பித்த வேலைகள்",
+  "nav.community": "சமூகம்",
+  "nav.messages": "செய்திகள்",
+  "nav.posts": "பதிவுகள்",
+  "nav.notifications": "அறிவிப்புகள்",
+  "nav.profile": "சுயவிவரம்",
+  "nav.viewProfile": "சுயவிவரத்தைக் காண்க",
+  "nav.logout": "வெளியேறு",
+  "nav.language": "மொழி",
+
+  "notifications.empty":
+    "இன்னும் சேமித்த தேடல்கள் இல்லை. புதிய பொருந்தும் வேலைகள் வெளியிடப்படும்போது அறிவிப்பு பெற, வேலைகள் பக்கத்தில் ஒரு தேடலைச் சேமிக்கவும்.",
+  "notifications.seen": "{date} அன்று பார்த்தது",
+  "notifications.noNewJobs":
+    "உங்கள் கடைசி வருகைக்குப் பிறகு புதிய வேலைகள் இல்லை",
+  "notifications.oneNewJob": "உங்கள் கடைசி வருகைக்குப் பிறகு 1 புதிய வேலை",
+  "notifications.newJobs":
+    "உங்கள் கடைசி வருகைக்குப் பிறகு {count} புதிய வேலைகள்",
+  "notifications.delete": "சேமித்த தேடலை நீக்கு",
+
+  "auth.createAccount": "கணக்கை உருவாக்கு",
+  "auth.welcomeBack": "மீண்டும் வருக",
+  "auth.signUpSubtitle": "Blue Collar Connect-ஐத் தொடங்க பதிவு செய்யவும்",
+  "auth.signInSubtitle": "உங்கள் கணக்கில் தொடர உள்நுழையவும்",
+  "auth.iAmA": "நான்",
+  "auth.worker": "திறமையான தொழிலாளர்",
+  "auth.workerHint": "வேலை தேடுகிறேன்",
+  "auth.employer": "முதலாளி",
+  "auth.employerHint": "தொழிலாளர்களை வேலைக்கு அமர்த்துகிறேன்",
+  "auth.email": "மின்னஞ்சல்",
+  "auth.password": "கடவுச்சொல்",
+  "auth.signIn": "உள்நுழை",
+  "auth.signUp": "பதிவு செய்",
+  "auth.haveAccount": "ஏற்கனவே கணக்கு உள்ளதா?",
+  "auth.noAccount": "கணக்கு இல்லையா?",
+  "auth.unexpectedError": "அங்கீகாரத்தின்போது எதிர்பாராத பிழை ஏற்பட்டது.",
+  "auth.or": "அல்லது",
+  "auth.continueWithGoogle": "Google மூலம் தொடரவும்",
+
+  "jobs.heading": "உங்களுக்கு ஏற்ற வேலையைக் கண்டறியுங்கள்",
+  "jobs.searchPlaceholder": "வேலைகளைத் தேடு...",
+  "jobs.filterTitle": "வேலைகளை வடிகட்டு",
+  "jobs.filterDescription":
+    "இந்த வடிகட்டிகளைக் கொண்டு உங்கள் தேடலைச் சுருக்குங்கள்",
+  "jobs.location": "இடம்",
+  "jobs.locationPlaceholder": "நகரம் அல்லது அஞ்சல் குறியீடு",
+  "jobs.jobType": "வேலை வகை",
+  "jobs.allTypes": "அனைத்து வகைகளும்",
+  "jobs.inclusivity": "உள்ளடக்கம்",
+  "jobs.allJobs": "அனைத்து வேலைகளும்",
+  "jobs.dailyWage": "தினக்கூலி (₹)",
+  "jobs.min": "குறைந்தது",
+  "jobs.max": "அதிகபட்சம்",
+  "jobs.reset": "மீட்டமை",
+  "jobs.applyFilters": "வடிகட்டிகளைப் பயன்படுத்து",
+  "jobs.nearMe": "எனக்கு அருகிலுள்ள வேலைகள்",
+  "jobs.searchRadius": "தேடல் சுற்றளவு",
+  "jobs.clearAll": "அனைத்தையும் அழி",
+  "jobs.loadError": "வேலைகளை ஏற்றுவதில் பிழை. பிறகு மீண்டும் முயற்சிக்கவும்.",
+  "jobs.saveSearch": "தேடலைச் சேமி",
+  "jobs.shareSearch": "தேடலைப் பகிர்",
+  "jobs.sortBy": "வரிசைப்படுத்து",
+  "jobs.sort.newest": "புதியவை முதலில்",
+  "jobs.sort.oldest": "பழையவை முதலில்",
+  "jobs.sort.relevance": "பொருத்தம்",
+  "jobs.sort.wage": "அதிக ஊதியம் முதலில்",
+  "jobs.sort.distance": "அருகிலுள்ளவை முதலில்",
+  "jobs.badge.women": "பெண்கள்",
+  "jobs.locationNotProvided": "இடம் குறிப்பிடப்படவில்லை",
+  "jobs.viewDetails": "விவரங்களைக் காண்க",
+  "jobs.loadMore": "மேலும் வேலைகளைக் காட்டு",
+  "jobs.noResults": "வேலைகள் எதுவும் கிடைக்கவில்லை",
+  "jobs.clearAllFilters": "அனைத்து வடிகட்டிகளையும் அழி",
+  "jobs.saveSearchTitle": "இந்தத் தேடலைச் சேமி",
+  "jobs.name": "பெயர்",
+  "jobs.jobs": "வேலைகள்",
+  "jobs.searchIn": "{where} இல் {what}",
+  "jobs.locationNotFound":
+    "உங்கள் இருப்பிடத்தைக் கண்டறிய முடியவில்லை. இருப்பிட அனுமதியை வழங்கவும் அல்லது சுயவிவர முகவரியில் அஞ்சல் குறியீட்டைச் சேர்க்கவும்.",
+  "jobs.saveSearchFailed": "தேடலைச் சேமிக்க முடியவில்லை",
+  "jobs.any": "ஏதேனும்",
+  "jobs.showing": "{count} வேலைகள் காட்டப்படுகின்றன",
+  "jobs.showingSoFar": "இதுவரை {count} வேலைகள் காட்டப்படுகின்றன",
+  "jobs.salaryNotProvided": "சம்பளம் குறிப்பிடப்படவில்லை",
+  "jobs.postedOn": "{date} அன்று வெளியிடப்பட்டது",
+  "jobs.noResultsHint":
+    "உங்கள் தேடலுக்குப் பொருந்தும் வேலைகள் இல்லை. வடிகட்டிகளையோ தேடல் சொற்களையோ மாற்றிப் பாருங்கள்.",
+  "jobs.saveSearchDescription":
+    "இதற்குப் பொருந்தும் புதிய வேலைகளின் எண்ணிக்கை உங்கள் அறிவிப்புகளில் தெரியும்.",
+  "jobs.usingDeviceLocation": "உங்கள் தற்போதைய இருப்பிடம் பயன்படுத்தப்படுகிறது",
+  "jobs.usingAddressLocation":
+    "உங்கள் முகவரியில் உள்ள அஞ்சல் குறியீடு பயன்படுத்தப்படுகிறது",
+  "jobs.shareTitle": "வேலை தேடல்",
+  "jobs.searchSaved":
+    "தேடல் சேமிக்கப்பட்டது. புதிய பொருந்தும் வேலைகள் வந்தால் தெரிவிப்போம்.",
+  "jobs.withinRadius": "{radius} கி.மீக்குள்",
+
+  "bookmark.save": "வேலையைச் சேமி",
+  "bookmark.remove": "சேமித்த வேலைகளிலிருந்து நீக்கு",
+  "bookmark.saveForLater": "பிறகு பார்க்கச் சேமி",
+  "bookmark.saved": "சேமிக்கப்பட்டது",
+  "bookmark.savedToast": "வேலை சேமிக்கப்பட்டது",
+  "bookmark.removedToast": "சேமித்த வேலைகளிலிருந்து நீக்கப்பட்டது",
+  "bookmark.updateFailed": "சேமித்த வேலைகளைப் புதுப்பிக்க முடியவில்லை",
+
+  "jobType.full-time": "முழு நேரம்",
+  "jobType.part-time": "பகுதி நேரம்",
+  "jobType.contract": "ஒப்பந்தம்",
+  "jobType.temporary": "தற்காலிகம்",
+  "jobType.seasonal": "பருவகாலம்",
+
+  "inclusivity.women-friendly": "பெண்களுக்கு உகந்தது",
+  "inclusivity.disability-friendly": "மாற்றுத்திறனாளிகளுக்கு உகந்தது",
+  "inclusivity.lgbt-friendly": "LGBTQ+ நபர்களுக்கு உகந்தது",
+
+  "wage.period.hourly": "ஒரு மணி நேரத்திற்கு",
+  "wage.period.daily": "ஒரு நாளைக்கு",
+  "wage.period.weekly": "ஒரு வாரத்திற்கு",
+  "wage.period.monthly": "ஒரு மாதத்திற்கு",
+  "wage.period.piece-rate": "ஒரு எண்ணிக்கைக்கு",
+
+  "distance.metres": "{distance} மீ தொலைவில்",
+  "distance.kilometres": "{distance} கி.மீ தொலைவில்",
+  "distance.approximate": "சுமார் {distance} கி.மீ தொலைவில்",
+
+  "map.jobLocation": "வேலை இடம்",
+  "map.addressCopied": "முகவரி நகலெடுக்கப்பட்டது",
+  "map.copyFailed": "முகவரியை நகலெடுக்க முடியவில்லை",
+  "map.loadFailed": "வரைபடத்தை ஏற்ற முடியவில்லை. பின்னர் மீண்டும் முயலவும்.",
+  "map.approximate": "பின்கோடை அடிப்படையாகக் கொண்ட தோராயமான இடம்.",
+  "map.copyAddress": "முகவரியை நகலெடு",
+  "map.getDirections": "வழி காட்டு",
+
+  "jobPost.basicInfo": "அடிப்படை வேலை தகவல்",
+  "jobPost.jobTitle": "வேலையின் பெயர்*",
+  "jobPost.jobTitlePlaceholder": "எ.கா. கட்டுமானத் தொழிலாளர்",
+  "jobPost.typeOfWork": "வேலை வகை*",
+  "jobPost.typeOfWorkPlaceholder": "வேலை வகையைத் தேர்ந்தெடுக்கவும்",
+  "jobPost.employerName": "முதலாளி/நிறுவனப் பெயர்",
+  "jobPost.employerNamePlaceholder": "எ.கா. ABC கன்ஸ்ட்ரக்ஷன்",
+  "jobPost.companyVerified": "உங்கள் நிறுவனம் சரிபார்க்கப்பட்டது",
+  "jobPost.companyLogo": "நிறுவன லோகோ",
+  "jobPost.companyLogoHint": "உங்கள் அனைத்து வேலைப் பதிவுகளிலும் காட்டப்படும்",
+  "jobPost.placeOfWork": "பணியிடம்",
+  "jobPost.placeOfWorkPlaceholder": "எ.கா. கட்டுமானத் தளம், தொழிற்சாலை",
+  "jobPost.locationDetails": "இட விவரங்கள்",
+  "jobPost.city": "நகரம்",
+  "jobPost.cityPlaceholder": "எ.கா. சென்னை",
+  "jobPost.state": "மாநிலம்",
+  "jobPost.statePlaceholder": "எ.கா. தமிழ்நாடு",
+  "jobPost.district": "மாவட்டம்",
+  "jobPost.districtPlaceholder": "எ.கா. காஞ்சிபுரம்",
+  "jobPost.pincode": "அஞ்சல் குறியீடு",
+  "jobPost.pincodePlaceholder": "எ.கா. 600001",
+  "jobPost.jobDetails": "வேலை விவரங்கள்",
+  "jobPost.vacancies": "காலியிடங்களின் எண்ணிக்கை",
+  "jobPost.vacanciesPlaceholder": "எ.கா. 5",
+  "jobPost.wage": "கூலி (₹)",
+  "jobPost.wagePlaceholder": "எ.கா. 650",
+  "jobPost.paid": "செலுத்தும் முறை",
+  "jobPost.periodPlaceholder": "காலத்தைத் தேர்ந்தெடுக்கவும்",
+  "jobPost.hoursPerWeek": "வாரத்திற்கு மணிநேரம்",
+  "jobPost.hoursPerWeekPlaceholder": "எ.கா. 40",
+  "jobPost.duration": "வேலை காலம்",
+  "jobPost.durationPlaceholder": "காலத்தைத் தேர்ந்தெடுக்கவும்",
+  "jobPost.schedule": "நேர அட்டவணை",
+  "jobPost.startTime": "தொடக்க நேரம்",
+  "jobPost.endTime": "முடிவு நேரம்",
+  "jobPost.specialProvisions": "சிறப்பு ஏற்பாடுகள்",
+  "jobPost.womenProvision": "பெண்களுக்கான சிறப்பு ஏற்பாடு",
+  "jobPost.transgenderProvision": "திருநர்களுக்கான சிறப்பு ஏற்பாடு",
+  "jobPost.disabledProvision": "மாற்றுத்திறனாளிகளுக்கான சிறப்பு ஏற்பாடு",
+  "jobPost.badge.disabled": "மாற்றுத்திறனாளி",
+  "jobPost.description": "வேலை விவரம்",
+  "jobPost.roleDescription": "பணிப் பொறுப்பு விவரம்",
+  "jobPost.roleDescriptionPlaceholder":
+    "வேலையின் பொறுப்புகள், தேவைகள் மற்றும் பிற முக்கிய விவரங்களை எழுதுங்கள்...",
+  "jobPost.backToPosts": "என் வேலைப் பதிவுகளுக்குத் திரும்பு",
+  "jobPost.postAnother": "இன்னொரு வேலையை வெளியிடு",
+  "jobPost.loadFailed": "இந்த வேலைப் பதிவை ஏற்ற முடியவில்லை",
+  "jobPost.signInRequired": "வேலையை வெளியிட உள்நுழைய வேண்டும்",
+  "jobPost.updateFailed": "வேலைப் பதிவைப் புதுப்பிக்க முடியவில்லை",
+  "jobPost.createFailed": "வேலைப் பதிவை உருவாக்க முடியவில்லை",
+  "jobPost.editTitle": "வேலைப் பதிவைத் திருத்து",
+  "jobPost.newTitle": "புதிய வேலையை வெளியிடு",
+  "jobPost.editDescription":
+    "உங்கள் வேலைப் பதிவின் விவரங்களைப் புதுப்பிக்கவும்",
+  "jobPost.newDescription":
+    "புதிய வேலைப் பதிவை உருவாக்க கீழே உள்ள படிவத்தை நிரப்பவும்",
+  "jobPost.updated": "வேலை வெற்றிகரமாகப் புதுப்பிக்கப்பட்டது!",
+  "jobPost.posted": "வேலை வெற்றிகரமாக வெளியிடப்பட்டது!",
+  "jobPost.changesSaved": "உங்கள் மாற்றங்கள் சேமிக்கப்பட்டன.",
+  "jobPost.nowVisible":
+    "உங்கள் வேலை வெளியிடப்பட்டது, இப்போது தொழிலாளர்களுக்குத் தெரியும்.",
+  "jobPost.previousWage": "முன்பு “{wage}” என உள்ளிடப்பட்டது",
+  "jobPost.saving": "மாற்றங்கள் சேமிக்கப்படுகின்றன...",
+  "jobPost.posting": "வேலை வெளியிடப்படுகிறது...",
+  "jobPost.saveChanges": "மாற்றங்களைச் சேமி",
+  "jobPost.postJob": "வேலையை வெளியிடு",
+  "jobPost.womenProvisionHint":
+    "பெண் தொழிலாளர்களுக்குச் சிறப்பு வசதிகள் அல்லது முன்னுரிமைகள் இருந்தால் இதைத் தேர்ந்தெடுக்கவும்",
+  "jobPost.transgenderProvisionHint":
+    "திருநர் தொழிலாளர்களுக்குச் சிறப்பு வசதிகள் அல்லது முன்னுரிமைகள் இருந்தால் இதைத் தேர்ந்தெடுக்கவும்",
+  "jobPost.disabledProvisionHint":
+    "மாற்றுத்திறனாளி தொழிலாளர்களுக்குச் சிறப்பு வசதிகள் அல்லது முன்னுரிமைகள் இருந்தால் இதைத் தேர்ந்தெடுக்கவும்",
+  "jobPost.companyLogoAlt": "நிறுவன லோகோ",
+
+  "duration.1-day": "1 நாள்",
+  "duration.1-week": "1 வாரம்",
+  "duration.2-weeks": "2 வாரங்கள்",
+  "duration.1-month": "1 மாதம்",
+  "duration.3-months": "3 மாதங்கள்",
+  "duration.6-months": "6 மாதங்கள்",
+  "duration.permanent": "நிரந்தரம்",
+
+  "community.toast.fetchCommunitiesFailed": "சமூகங்களை ஏற்ற முடியவில்லை",
+  "community.toast.fetchCommunitiesError": "சமூகங்களை ஏற்றுவதில் பிழை",
+  "community.toast.fetchJoinedFailed": "சேர்ந்த சமூகங்களை ஏற்ற முடியவில்லை",
+  "community.toast.fetchJoinedError": "சேர்ந்த சமூகங்களை ஏற்றுவதில் பிழை",
+  "community.toast.searchFailed": "சமூகங்களைத் தேட முடியவில்லை",
+  "community.toast.searchError": "சமூகங்களைத் தேடுவதில் பிழை",
+  "community.toast.notAuthenticated": "பயனர் உள்நுழையவில்லை",
+  "community.toast.joinFailed": "சமூகத்தில் சேர முடியவில்லை",
+  "community.toast.joined": "சமூகத்தில் வெற்றிகரமாகச் சேர்ந்தீர்கள்",
+  "community.toast.joinError": "சமூகத்தில் சேர்வதில் பிழை",
+  "community.toast.leaveFailed": "சமூகத்திலிருந்து வெளியேற முடியவில்லை",
+  "community.toast.left": "சமூகத்திலிருந்து வெற்றிகரமாக வெளியேறினீர்கள்",
+  "community.toast.leaveError": "சமூகத்திலிருந்து வெளியேறுவதில் பிழை",
+  "community.searchPlaceholder": "சமூகங்களைத் தேடு...",
+  "community.toast.fetchJoinedPostsFailed":
+    "சேர்ந்த சமூகங்களின் பதிவுகளை ஏற்ற முடியவில்லை",
+  "community.toast.fetchJoinedPostsError":
+    "சேர்ந்த சமூகங்களின் பதிவுகளை ஏற்றுவதில் பிழை",
+  "community.title": "BlueCollar சமூகம்",
+  "community.subtitle":
+    "வேலைகளைக் கண்டறிந்து உங்கள் துறையிலுள்ள மற்ற தொழிலாளர்களுடன் இணையுங்கள்",
+  "community.create": "சமூகத்தை உருவாக்கு",
+  "community.popular": "பிரபலமான சமூகங்கள்",
+  "community.loading": "சமூகங்கள் ஏற்றப்படுகின்றன...",
+  "community.recentPosts": "சமீபத்திய பதிவுகள்",
+  "community.viewAll": "அனைத்தையும் காண்க",
+  "community.trending": "பிரபலமடையும் சமூகங்கள்",
+  "community.viewAllCommunities": "அனைத்து சமூகங்களையும் காண்க",
+  "community.about": "BlueCollar பற்றி",
+  "community.createdIn": "2023 இல் உருவாக்கப்பட்டது",
+  "community.members": "{count} உறுப்பினர்கள்",
+  "community.comments": "{count} கருத்துகள்",
+  "community.communities": "{count} சமூகங்கள்",
+  "community.aboutText":
+    "BlueCollar என்பது நீல காலர் தொழிலாளர்கள் வேலைகளைக் கண்டறியவும், அனுபவங்களைப் பகிரவும், தங்கள் துறையிலுள்ள மற்றவர்களுடன் இணையவும் உதவும் சமூகத் தளம்.",
+  "community.joined": "சேர்ந்துள்ளீர்கள்",
+  "community.join": "சேர்",
+  "community.allTitle": "சமூகங்கள்",
+  "community.allSubtitle":
+    "உங்களுக்கு விருப்பமான சமூகங்களைப் பார்த்து அவற்றில் சேருங்கள்.",
+  "community.joinedCommunities": "சேர்ந்த சமூகங்கள்",
+  "community.noneJoined": "நீங்கள் இன்னும் எந்தச் சமூகத்திலும் சேரவில்லை.",
+  "community.leave": "வெளியேறு",
+  "community.otherCommunities": "பிற சமூகங்கள்",
+  "community.noneFound": "சமூகங்கள் எதுவும் கிடைக்கவில்லை.",
+  "community.toast.fetchDetailsFailed": "சமூக விவரங்களை ஏற்ற முடியவில்லை",
+  "community.toast.loadDetailsFailed": "சமூக விவரங்களை ஏற்ற முடியவில்லை",
+  "community.toast.fetchPostsFailed":
+    "பதிவுகளை ஏற்ற முடியவில்லை. பிறகு முயற்சிக்கவும்",
+  "community.toast.loadPostsFailed": "பதிவுகளை ஏற்ற முடியவில்லை",
+  "community.toast.fetchJoinedRetry":
+    "சேர்ந்த சமூகங்களை ஏற்ற முடியவில்லை. பிறகு முயற்சிக்கவும்",
+  "community.toast.fetchJoinedErrorRetry":
+    "சேர்ந்த சமூகங்களை ஏற்றுவதில் பிழை. பிறகு முயற்சிக்கவும்",
+  "community.toast.unexpectedError":
+    "எதிர்பாராத பிழை ஏற்பட்டது. பக்கத்தைப் புதுப்பித்து மீண்டும் முயற்சிக்கவும்",
+  "community.toast.loadFailedRetry":
+    "சமூகத்தை ஏற்ற முடியவில்லை. பிறகு மீண்டும் முயற்சிக்கவும்",
+  "community.loadFailed": "சமூகத்தை ஏற்ற முடியவில்லை",
+  "community.leaveCommunity": "சமூகத்திலிருந்து வெளியேறு",
+  "community.joinCommunity": "சமூகத்தில் சேர்",
+  "community.sortBy": "வரிசை:",
+  "community.sort.newest": "புதியவை",
+  "community.sort.popular": "மிகவும் பிரபலமானவை",
+  "community.noPosts": "இன்னும் பதிவுகள் இல்லை. முதலில் பகிர்பவராக இருங்கள்!",
+  "community.toast.leftNamed": "{name} இலிருந்து வெளியேறினீர்கள்",
+  "community.toast.joinedNamed": "{name} இல் சேர்ந்தீர்கள்",
+  "community.aboutNamed": "{name} பற்றி",
+  "community.membersLabel": "உறுப்பினர்கள்:",
+  "community.createdLabel": "உருவாக்கப்பட்டது:",
+  "community.moderatorLabel": "நெறியாளர்:",
+  "community.toast.fetchAllPostsError": "அனைத்து பதிவுகளையும் ஏற்றுவதில் பிழை",
+  "community.allPostsTitle": "அனைத்து சமூகப் பதிவுகள்",
+  "community.allPostsSubtitle":
+    "நீங்கள் சேர்ந்த அனைத்து சமூகங்களின் பதிவுகளையும் பாருங்கள்.",
+  "community.loadingPosts": "பதிவுகள் ஏற்றப்படுகின்றன...",
+  "community.toast.fetchPostError": "பதிவை ஏற்றுவதில் பிழை",
+  "community.toast.commentAdded": "கருத்து சேர்க்கப்பட்டது",
+  "community.toast.commentError": "கருத்தைச் சேர்ப்பதில் பிழை",
+  "community.loadingPost": "பதிவு ஏற்றப்படுகிறது...",
+  "community.addComment": "கருத்தைச் சேர்",
+  "community.commentPlaceholder": "உங்கள் கருத்து என்ன?",
+  "community.posting": "வெளியிடுகிறது...",
+  "community.comment": "கருத்து தெரிவி",
+  "community.commentsHeading": "கருத்துகள் ({count})",
+
+  "community.createPost": "பதிவை உருவாக்கு",
+  "community.postTitlePlaceholder": "தலைப்பு",
+  "community.postContentPlaceholder": "உங்கள் மனதில் என்ன இருக்கிறது?",
+  "community.imagePreview": "முன்னோட்டம்",
+  "community.post": "பதிவிடு",
+  "community.toast.postRequired": "தலைப்பும் உள்ளடக்கமும் தேவை.",
+  "community.toast.postAdded": "பதிவு வெற்றிகரமாகச் சேர்க்கப்பட்டது",
+  "community.toast.postError": "பதிவிடுவதில் பிழை. பின்னர் மீண்டும் முயலவும்.",
+  "community.backToCommunity": "சமூகத்திற்குத் திரும்பு",
+  "community.createTitle": "புதிய சமூகத்தை உருவாக்கு",
+  "community.nameLabel": "சமூகத்தின் பெயர்",
+  "community.namePlaceholder": "தனித்துவமான பெயரை உள்ளிடவும்",
+  "community.descriptionLabel": "சமூகத்தின் விளக்கம்",
+  "community.descriptionPlaceholder": "உங்கள் சமூகத்தை விவரிக்கவும்",
+  "community.typeLabel": "சமூகத்தின் வகை",
+  "community.type.public": "பொது",
+  "community.type.restricted": "கட்டுப்படுத்தப்பட்டது",
+  "community.type.private": "தனிப்பட்டது",
+  "community.topicsLabel": "சமூகத்தின் தலைப்புகள்",
+  "community.topic.Construction": "கட்டுமானம்",
+  "community.topic.Plumbing": "குழாய் வேலை",
+  "community.topic.Electrical": "மின் வேலை",
+  "community.topic.Carpentry": "தச்சு வேலை",
+  "community.topic.Welding": "வெல்டிங்",
+  "community.topic.Painting": "பெயிண்டிங்",
+  "community.topic.Landscaping": "நிலவடிவமைப்பு",
+  "community.topic.HVAC": "HVAC",
+  "community.rulesLabel": "சமூகத்தின் விதிகள்",
+  "community.rule.rule1": "மற்ற உறுப்பினர்களை மதிக்கவும்",
+  "community.rule.rule2": "ஸ்பேம் அல்லது சுய விளம்பரம் வேண்டாம்",
+  "community.rule.rule3": "தலைப்பை விட்டு விலக வேண்டாம்",
+  "community.rule.rule4": "வெறுப்புப் பேச்சு அல்லது துன்புறுத்தல் வேண்டாம்",
+  "community.profilePhotoLabel": "சமூகத்தின் சுயவிவரப் புகைப்படம்",
+  "community.backgroundPhotoLabel": "சமூகத்தின் பின்னணிப் புகைப்படம்",
+  "community.creating": "உருவாக்குகிறது...",
+  "community.toast.created": "சமூகம் வெற்றிகரமாக உருவாக்கப்பட்டது!",
+  "community.toast.createFailed":
+    "சமூகத்தை உருவாக்க முடியவில்லை. மீண்டும் முயலவும்.",
+  "community.toast.createError": "சமூகத்தை உருவாக்குவதில் பிழை",
+
+  "voice.speak": "தட்டச்சு செய்வதற்குப் பதிலாகப் பேசுங்கள்",
+  "voice.stopListening": "கேட்பதை நிறுத்து",
+  "voice.micDenied":
+    "மைக்ரோஃபோன் அனுமதி தடுக்கப்பட்டது. பேச உங்கள் உலாவி அமைப்புகளில் அனுமதிக்கவும்.",
+  "voice.didNotCatch":
+    "மன்னிக்கவும், சரியாகக் கேட்கவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "voice.readAloud": "உரக்கப் படி",
+  "voice.stopReading": "படிப்பதை நிறுத்து",
+
+  "assistant.welcome":
+    "வணக்கம்! நான் உங்கள் வேலை தேடல் உதவியாளர். இன்று நான் உங்களுக்கு எப்படி உதவலாம்?",
+  "assistant.name": "வேலை உதவியாளர்",
+  "assistant.availability": "24/7 கிடைக்கும்",
+  "assistant.badge": "வேலை நிபுணர்",
+  "assistant.avatar": "AI உதவியாளர்",
+  "assistant.you": "நீங்கள்",
+  "assistant.inputPlaceholder": "உங்கள் செய்தியைத் தட்டச்சு செய்யுங்கள்...",
+  "assistant.send": "அனுப்பு",
+  "assistant.browseJobs": "வேலைப் பட்டியல்களைப் பார்",
+  "assistant.history": "உரையாடல் வரலாறு",
+  "assistant.conversations": "உரையாடல்கள்",
+  "assistant.newConversation": "புதிய உரையாடல்",
+  "assistant.noConversations":
+    "உதவியாளருடனான உங்கள் உரையாடல்கள் இங்கே தோன்றும்.",
+  "assistant.conversationTitle": "உரையாடல் தலைப்பு",
+  "assistant.saveTitle": "தலைப்பைச் சேமி",
+  "assistant.cancelRename": "பெயர் மாற்றத்தை ரத்துசெய்",
+  "assistant.rename": "உரையாடலின் பெயரை மாற்று",
+  "assistant.delete": "உரையாடலை நீக்கு",
+  "assistant.renameFailed": "உரையாடலின் பெயரை மாற்ற முடியவில்லை",
+  "assistant.deleteFailed": "உரையாடலை நீக்க முடியவில்லை",
+  "assistant.loadFailed": "உரையாடலை ஏற்ற முடியவில்லை",
+  "assistant.stop": "பதில் உருவாக்குவதை நிறுத்து",
+  "assistant.stopped": "பதிலளிக்கும் முன் நிறுத்தப்பட்டது.",
+  "assistant.timeout":
+    "பதில் நேரம் முடிந்தது - 30 வினாடிகளாக தரவு எதுவும் வரவில்லை",
+  "assistant.connectionLost": "இணைப்பு துண்டிக்கப்பட்டது",
+  "assistant.connectionFailed": "பலமுறை முயன்றும் இணைக்க முடியவில்லை",
+  "assistant.error": "பிழை: {message}",
+  "assistant.apply": "விண்ணப்பி",
+  "assistant.applying": "விண்ணப்பிக்கிறது...",
+  "assistant.applied": "✔ விண்ணப்பிக்கப்பட்டது",
+  "assistant.closed": "மூடப்பட்டது",
+  "assistant.applyFailed": "விண்ணப்பிக்க முடியவில்லை. மீண்டும் முயலவும்.",
+  "assistant.alreadyApplied":
+    "இந்த வேலைக்கு நீங்கள் ஏற்கனவே விண்ணப்பித்துள்ளீர்கள்",
+  "assistant.applicationSubmitted": "விண்ணப்பம் சமர்ப்பிக்கப்பட்டது",
+  "assistant.suggestion":
+    "இந்த வேலை உங்களுக்குப் பொருத்தமாகத் தெரிகிறது. விண்ணப்பிக்கலாமே?",
+  "assistant.copy": "நகலெடு",
+  "assistant.copied": "நகலெடுக்கப்பட்டது",
+  "assistant.copyFailed": "செய்தியை நகலெடுக்க முடியவில்லை",
+  "assistant.edit": "திருத்தி மீண்டும் அனுப்பு",
+  "assistant.editMessage": "செய்தியைத் திருத்து",
+  "assistant.retry": "மீண்டும் முயல்",
+  "assistant.regenerate": "மீண்டும் உருவாக்கு",
+  "assistant.goodAnswer": "நல்ல பதில்",
+  "assistant.badAnswer": "மோசமான பதில்",
+  "assistant.feedbackFailed": "உங்கள் கருத்தை அனுப்ப முடியவில்லை",
+  "assistantContext.field.profession": "தொழில்",
+  "assistantContext.field.area": "வீட்டுப் பகுதி (பின்கோடு)",
+  "assistantContext.field.gender": "பாலினம்",
+  "assistantContext.field.summary": "சுயவிவரச் சுருக்கம்",
+  "assistantContext.button": "சுயவிவரப் பகிர்வு",
+  "assistantContext.sharing": "உங்கள் சுயவிவரம் உதவியாளருடன் பகிரப்படுகிறது",
+  "assistantContext.title": "உங்கள் சுயவிவரத்தை உதவியாளருடன் பகிருங்கள்",
+  "assistantContext.description":
+    "உங்களைப் பற்றி சிறிது தெரிந்தால், வீட்டருகே உள்ள வேலைகள் போன்ற சிறந்த பதில்களை உதவியாளர் தரும். நீங்கள் டிக் செய்த விவரங்கள் மட்டுமே உங்கள் செய்திகளுடன் அனுப்பப்படும். நீங்கள் தேர்வு செய்யாவிட்டால் எதுவும் பகிரப்படாது.",
+  "assistantContext.noPincode":
+    "உங்கள் பகுதியைப் பகிர முகவரியில் பின்கோடைச் சேர்க்கவும்",
+  "assistantContext.notInProfile": "உங்கள் சுயவிவரத்தில் இல்லை",
+  "assistantContext.stop": "பகிர்வதை நிறுத்து",
+
+  "messages.heading": "செய்திகள்",
+  "messages.loadingConversations": "உரையாடல்கள் ஏற்றப்படுகின்றன...",
+  "messages.noConversations":
+    "இன்னும் உரையாடல்கள் இல்லை. நீங்கள் விண்ணப்பித்த அல்லது பணியமர்த்திய ஒருவருடன் தொடங்குங்கள்.",
+  "messages.loadingConversation": "உரையாடல் ஏற்றப்படுகிறது...",
+  "messages.notFound": "இந்த உரையாடலைக் கண்டுபிடிக்க முடியவில்லை.",
+  "messages.selectConversation":
+    "செய்தி அனுப்ப ஒரு உரையாடலைத் தேர்ந்தெடுக்கவும்.",
+  "messages.unknownUser": "தெரியாத பயனர்",
+  "messages.online": "ஆன்லைன்",
+  "messages.offline": "ஆஃப்லைன்",
+  "messages.lastSeenAt": "கடைசியாக {time} மணிக்குப் பார்த்தது",
+  "messages.lastSeenOn": "கடைசியாக {date} அன்று பார்த்தது",
+  "messages.back": "உரையாடல்களுக்குத் திரும்பு",
+  "messages.loadingMessages": "செய்திகள் ஏற்றப்படுகின்றன...",
+  "messages.sayHello": "{name} அவர்களுக்கு வணக்கம் சொல்லுங்கள்",
+  "messages.sending": "அனுப்புகிறது...",
+  "messages.placeholder": "செய்தியைத் தட்டச்சு செய்யுங்கள்...",
+  "messages.send": "அனுப்பு",
+  "messages.sendFailed": "செய்தி அனுப்பப்படவில்லை. மீண்டும் முயலவும்.",
+  "messages.you": "நீங்கள்: {text}",
+  "messages.noMessages": "இன்னும் செய்திகள் இல்லை",
+  "messages.newChat": "புதிய அரட்டை",
+  "messages.newChatTitle": "புதிய உரையாடலைத் தொடங்கு",
+  "messages.newChatEmployer":
+    "உங்கள் வேலைக்கு விண்ணப்பித்த தொழிலாளருக்குச் செய்தி அனுப்புங்கள்.",
+  "messages.newChatWorker":
+    "நீங்கள் விண்ணப்பித்த வேலையின் முதலாளிக்குச் செய்தி அனுப்புங்கள்.",
+  "messages.searchByName": "பெயரால் தேடு",
+  "messages.loadingContacts": "தொடர்புகள் ஏற்றப்படுகின்றன...",
+  "messages.noApplicants":
+    "இன்னும் யாரும் உங்கள் வேலைகளுக்கு விண்ணப்பிக்கவில்லை.",
+  "messages.noEmployers":
+    "முதலாளிக்குச் செய்தி அனுப்ப அவரது வேலைக்கு விண்ணப்பிக்கவும்.",
+  "messages.noMatches": "பொருத்தங்கள் இல்லை",
+  "messages.contactsFailed": "தொடர்புகளை ஏற்ற முடியவில்லை",
+  "messages.startFailed": "உரையாடலைத் தொடங்க முடியவில்லை. மீண்டும் முயலவும்.",
+
+  "common.cancel": "ரத்துசெய்",
+  "common.save": "சேமி",
+  "common.loading": "ஏற்றுகிறது...",
+};
@@ -0,0 +1,33 @@
+import { GeoPoint } from "@/types/geo";
+
+// Approximate centres of Indian postal sorting districts, keyed by the first
+// three digits of the pincode. Covers the larger cities only; unknown
+// prefixes simply aren't geocoded. Only a fallback for when the full pincode
+// can't be looked up, since a whole district shares one point.
+export const pincodePrefixCentroids: Record<string, GeoPoint> = {
+  "110": { lat: 28.6139, lng: 77.209 }, // Delhi
+  "122": { lat: 28.4595, lng: 77.0266 }, // Gurugram
+  "201": { lat: 28.5355, lng: 77.391 }, // Noida / Ghaziabad
+  "160": { lat: 30.7333, lng: 76.7794 }, // Chandigarh
+  "141": { lat: 30.901, lng: 75.8573 }, // Ludhiana
+  "302": { lat: 26.9124, lng: 75.7873 }, // Jaipur
+  "226": { lat: 26.8467, lng: 80.9462 }, // Lucknow
+  "208": { lat: 26.4499, lng: 80.3319 }, // Kanpur
+  "380": { lat: 23.0225, lng: 72.5714 }, // Ahmedabad
+  "395": { lat: 21.1702, lng: 72.8311 }, // Surat
+  "400": { lat: 19.076, lng: 72.8777 }, // Mumbai
+  "411": { lat: 18.5204, lng: 73.8567 }, // Pune
+  "440": { lat: 21.1458, lng: 79.0882 }, // Nagpur
+  "452": { lat: 22.7196, lng: 75.8577 }, // Indore
+  "462": { lat: 23.2599, lng: 77.4126 }, // Bhopal
+  "500": { lat: 17.385, lng: 78.4867 }, // Hyderabad
+  "560": { lat: 12.9716, lng: 77.5946 }, // Bengaluru
+  "600": { lat: 13.0827, lng: 80.2707 }, // Chennai
+  "641": { lat: 11.0168, lng: 76.9558 }, // Coimbatore
+  "682": { lat: 9.9312, lng: 76.2673 }, // Kochi
+  "695": { lat: 8.5241, lng: 76.9366 }, // Thiruvananthapuram
+  "700": { lat: 22.5726, lng: 88.3639 }, // Kolkata
+  "751": { lat: 20.2961, lng: 85.8245 }, // Bhubaneswar
+  "781": { lat: 26.1445, lng: 91.7362 }, // Guwahati
+  "800": { lat: 25.5941, lng: 85.1376 }, // Patna
+};
@@ -0,0 +1,136 @@
+import { decodeBase64Url, decodeBase64UrlJson } from "@/lib/base64url";
+
+// Verifies Firebase ID tokens without the Admin SDK, following
+// https://firebase.google.com/docs/auth/admin/verify-id-tokens#verify_id_tokens_using_a_third-party_jwt_library
+// Only WebCrypto is used, so this also runs in the Edge runtime.
+
+const GOOGLE_JWKS_URL =
+  "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+
+interface IdTokenHeader {
+  alg: string;
+  kid?: string;
+}
+
+interface IdTokenPayload {
+  iss: string;
+  aud: string;
+  sub: string;
+  iat: number;
+  exp: number;
+  auth_time: number;
+  email?: string;
+}
+
+export interface VerifiedIdToken {
+  uid: string;
+  email?: string;
+}
+
+// Google rotates its signing keys every few hours and says how long to
+// cache them for in the Cache-Control header
+let cachedKeys: { keys: Record<string, JsonWebKey>; expiresAt: number } | null =
+  null;
+
+async function getGooglePublicKey(kid: string): Promise<CryptoKey> {
+  if (
+    !cachedKeys ||
+    cachedKeys.expiresAt <= Date.now() ||
+    !cachedKeys.keys[kid]
+  ) {
+    const response = await fetch(GOOGLE_JWKS_URL);
+    if (!response.ok) {
+      throw new Error("Couldn't fetch the token signing keys.");
+    }
+
+    const { keys } = (await response.json()) as {
+      keys: (JsonWebKey & { kid: string })[];
+    };
+    const maxAge = Number(
+      response.headers.get("cache-control")?.match(/max-age=(\d+)/)?.[1] || 0
+    );
+    cachedKeys = {
+      keys: Object.fromEntries(keys.map((key) => [key.kid, key])),
+      expiresAt: Date.now() + maxAge * 1000,
+    };
+  }
+
+  const jwk = cachedKeys.keys[kid];
+  if (!jwk) {
+    throw new Error("The token was signed with an unknown key.");
+  }
+  return crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+}
+
+/**
+ * Checks that an ID token was issued by Firebase Auth for this project and
+ * hasn't expired. When FIREBASE_AUTH_EMULATOR_HOST is set, the unsigned
+ * tokens the Auth emulator issues are accepted too.
+ * @throws Error describing why the token was rejected
+ */
+export async function verifyFirebaseIdToken(
+  idToken: string
+): Promise<VerifiedIdToken> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error("NEXT_PUBLIC_FIREBASE_PROJECT_ID is not set.");
+  }
+
+  const [encodedHeader, encodedPayload, signature] = idToken.split(".");
+  if (!encodedHeader || !encodedPayload || signature === undefined) {
+    throw new Error("The ID token is malformed.");
+  }
+
+  let header: IdTokenHeader;
+  let payload: IdTokenPayload;
+  try {
+    header = decodeBase64UrlJson<IdTokenHeader>(encodedHeader);
+    payload = decodeBase64UrlJson<IdTokenPayload>(encodedPayload);
+  } catch {
+    throw new Error("The ID token is malformed.");
+  }
+
+  const usingEmulator = !!process.env.FIREBASE_AUTH_EMULATOR_HOST;
+  if (!usingEmulator) {
+    if (header.alg !== "RS256" || !header.kid) {
+      throw new Error("The ID token has an unexpected signing algorithm.");
+    }
+
+    const valid = await crypto.subtle.verify(
+      "RSASSA-PKCS1-v1_5",
+      await getGooglePublicKey(header.kid),
+      decodeBase64Url(signature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) {
+      throw new Error("The ID token's signature is invalid.");
+    }
+  }
+
+  // Allow a little clock skew between us and Google
+  const now = Math.floor(Date.now() / 1000);
+  const skew = 60;
+  if (payload.aud !== projectId) {
+    throw new Error("The ID token was issued for a different project.");
+  }
+  if (payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new Error("The ID token has an unexpected issuer.");
+  }
+  if (!payload.sub) {
+    throw new Error("The ID token has no subject.");
+  }
+  if (payload.exp <= now - skew) {
+    throw new Error("The ID token has expired.");
+  }
+  if (payload.iat > now + skew || payload.auth_time > now + skew) {
+    throw new Error("The ID token was issued in the future.");
+  }
+
+  return { uid: payload.sub, email: payload.email };
+}
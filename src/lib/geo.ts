@@ -0,0 +1,166 @@
+import { pincodePrefixCentroids } from "@/lib/data/pincodes";
+import type { GeocodedPoint, GeoPoint } from "@/types/geo";
+import type { Locale } from "@/types/i18n";
+import { formatNumber, translate } from "@/lib/i18n";
+
+const EARTH_RADIUS_KM = 6371;
+
+const PINCODE_PATTERN = /\b(\d{6})\b/;
+
+const NOMINATIM_SEARCH_URL = "https://nominatim.openstreetmap.org/search";
+
+// Nominatim's usage policy allows at most one request per second
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+/**
+ * Great-circle distance between two points, in kilometres
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Formats a distance for job cards, e.g. "800 m away" or "12 km away".
+ * Distances to approximate points are rounded to whole kilometres.
+ */
+export function formatDistance(
+  km: number,
+  locale: Locale = "en",
+  { approximate = false } = {}
+): string {
+  if (approximate) {
+    return translate(locale, "distance.approximate", {
+      distance: formatNumber(Math.max(1, Math.round(km)), locale),
+    });
+  }
+  if (km < 1) {
+    return translate(locale, "distance.metres", {
+      distance: formatNumber(Math.round(km * 1000), locale),
+    });
+  }
+  return translate(locale, "distance.kilometres", {
+    distance: formatNumber(
+      km < 10 ? Math.round(km * 10) / 10 : Math.round(km),
+      locale
+    ),
+  });
+}
+
+// Turns pincodes into coordinates. Swap in a different implementation with
+// setGeocoder, e.g. one backed by a geocoding API.
+export interface Geocoder {
+  geocodePincode(pincode: string): Promise<GeocodedPoint | null>;
+}
+
+// Lookups by pincode, kept for the session so each pincode is requested once
+const nominatimResults = new Map<string, Promise<GeocodedPoint | null>>();
+let nominatimQueue: Promise<unknown> = Promise.resolve();
+let lastNominatimRequestAt = 0;
+
+// Runs Nominatim requests one at a time, at least a second apart
+function scheduleNominatimRequest<T>(request: () => Promise<T>): Promise<T> {
+  const run = nominatimQueue.then(async () => {
+    const wait =
+      lastNominatimRequestAt + NOMINATIM_MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    lastNominatimRequestAt = Date.now();
+    return request();
+  });
+  nominatimQueue = run.catch(() => {});
+  return run;
+}
+
+async function fetchNominatimPincode(
+  pincode: string
+): Promise<GeocodedPoint | null> {
+  const params = new URLSearchParams({
+    postalcode: pincode,
+    countrycodes: "in",
+    format: "jsonv2",
+    limit: "1",
+  });
+  const response = await fetch(`${NOMINATIM_SEARCH_URL}?${params}`);
+  if (!response.ok) {
+    throw new Error(`Geocoding failed with status ${response.status}`);
+  }
+
+  const [place] = (await response.json()) as { lat: string; lon: string }[];
+  return place ? { lat: Number(place.lat), lng: Number(place.lon) } : null;
+}
+
+// Looks the full pincode up on OpenStreetMap's Nominatim, which places it at
+// the centre of the area it covers. Results are cached and requests are
+// rate-limited; failures aren't cached so they can be retried.
+export const nominatimGeocoder: Geocoder = {
+  geocodePincode(pincode) {
+    const key = pincode.trim();
+    let result = nominatimResults.get(key);
+    if (!result) {
+      result = scheduleNominatimRequest(() => fetchNominatimPincode(key));
+      result.catch(() => nominatimResults.delete(key));
+      nominatimResults.set(key, result);
+    }
+    return result;
+  },
+};
+
+// Looks pincodes up in the bundled table of sorting district centres. Only
+// the first three digits are used, so every point is approximate.
+export const pincodeTableGeocoder: Geocoder = {
+  async geocodePincode(pincode) {
+    const centroid = pincodePrefixCentroids[pincode.trim().slice(0, 3)];
+    return centroid ? { ...centroid, approximate: true } : null;
+  },
+};
+
+// Uses the bundled table, and only asks Nominatim about pincodes it doesn't
+// know
+export const defaultGeocoder: Geocoder = {
+  async geocodePincode(pincode) {
+    const point = await pincodeTableGeocoder.geocodePincode(pincode);
+    if (point) return point;
+
+    try {
+      return await nominatimGeocoder.geocodePincode(pincode);
+    } catch (error) {
+      console.error("Error geocoding pincode:", error);
+      return null;
+    }
+  },
+};
+
+let geocoder: Geocoder = defaultGeocoder;
+
+export function setGeocoder(next: Geocoder) {
+  geocoder = next;
+}
+
+export function geocodePincode(pincode: string): Promise<GeocodedPoint | null> {
+  return geocoder.geocodePincode(pincode);
+}
+
+// The pincode in a free-text address, if any
+export function extractPincode(address: string): string | null {
+  const match = address.match(PINCODE_PATTERN);
+  return match ? match[1] : null;
+}
+
+/**
+ * Geocodes a free-text address using the pincode it contains, if any
+ */
+export async function geocodeAddress(
+  address: string
+): Promise<GeocodedPoint | null> {
+  const pincode = extractPincode(address);
+  return pincode ? geocodePincode(pincode) : null;
+}
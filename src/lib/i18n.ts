@@ -0,0 +1,137 @@
+import {
+  enMessages,
+  type MessageKey,
+  type Messages,
+} from "@/lib/data/messages/en";
+import { hiMessages } from "@/lib/data/messages/hi";
+import { mrMessages } from "@/lib/data/messages/mr";
+import { taMessages } from "@/lib/data/messages/ta";
+import type { Locale, MessageValues } from "@/types/i18n";
+
+export type { MessageKey };
+
+const LOCALE_STORAGE_KEY = "locale";
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Each language's name in its own script, for the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+  mr: "मराठी",
+  ta: "தமிழ்",
+};
+
+export const LOCALES = Object.keys(LOCALE_NAMES) as Locale[];
+
+// Catalogs other than English may be incomplete; missing messages fall back
+// to English
+const catalogs: Record<Locale, Messages> = {
+  en: enMessages,
+  hi: hiMessages,
+  mr: mrMessages,
+  ta: taMessages,
+};
+
+// Tags passed to Intl, so numbers and dates use Indian conventions
+const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-IN",
+  hi: "hi-IN",
+  mr: "mr-IN",
+  ta: "ta-IN",
+};
+
+export function isMessageKey(key: string): key is MessageKey {
+  return key in enMessages;
+}
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+// Labels a job type or inclusivity option, showing unknown values as entered
+export function optionLabel(
+  group: "jobType" | "inclusivity",
+  value: string,
+  t: Translate
+): string {
+  const key = `${group}.${value}`;
+  return isMessageKey(key) ? t(key) : value;
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && value in LOCALE_NAMES;
+}
+
+export function getIntlLocale(locale: Locale = DEFAULT_LOCALE): string {
+  return INTL_LOCALES[locale];
+}
+
+/**
+ * Looks up a message and fills in its {placeholders}
+ * @param locale - The language to translate into
+ * @param key - The message key
+ * @param values - Values for the message's placeholders
+ * @returns The translated message, or the English one if it's missing
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  values?: MessageValues
+): string {
+  const message = catalogs[locale][key] ?? enMessages[key];
+  if (!values) return message;
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * Formats a date for display in the given language. Pass time options,
+ * e.g. { timeStyle: "short" }, to format the time instead.
+ */
+export function formatDate(
+  value: string | number | Date,
+  locale: Locale = DEFAULT_LOCALE,
+  options?: Intl.DateTimeFormatOptions
+): string {
+  return new Intl.DateTimeFormat(getIntlLocale(locale), options).format(
+    new Date(value)
+  );
+}
+
+/**
+ * Formats a plain number, e.g. a count, for display in the given language
+ */
+export function formatNumber(
+  value: number,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return new Intl.NumberFormat(getIntlLocale(locale)).format(value);
+}
+
+/**
+ * The language saved on this device, if any
+ */
+export function getStoredLocale(): Locale | null {
+  if (typeof window === "undefined") return null;
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : null;
+}
+
+export function storeLocale(locale: Locale) {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+}
+
+/**
+ * The first supported language in the browser's preferences, if any
+ */
+export function detectBrowserLocale(): Locale | null {
+  if (typeof navigator === "undefined") return null;
+
+  for (const language of navigator.languages || [navigator.language]) {
+    const base = language.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+  return null;
+}
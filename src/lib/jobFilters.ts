@@ -0,0 +1,132 @@
+import type { GeoPoint } from "@/types/geo";
+import type { JobSearchParams, JobSortOrder } from "@/types/jobpost";
+
+// Filter state of the worker job list, as entered in the UI
+export interface JobFilters {
+  search: string;
+  location: string; // City name or pincode
+  type: string; // "all" or a type_of_work value
+  inclusivity: string; // "all", "women-friendly", "lgbt-friendly" or "disability-friendly"
+  minWage: string;
+  maxWage: string;
+  nearMe: boolean; // Search around the worker's location
+  radiusKm: string;
+  sort: JobSortOrder;
+}
+
+export const DEFAULT_JOB_FILTERS: JobFilters = {
+  search: "",
+  location: "",
+  type: "all",
+  inclusivity: "all",
+  minWage: "",
+  maxWage: "",
+  nearMe: false,
+  radiusKm: "10",
+  sort: "newest",
+};
+
+const SORT_ORDERS: JobSortOrder[] = [
+  "newest",
+  "oldest",
+  "relevance",
+  "wage",
+  "distance",
+];
+
+// Six digits is an Indian pincode; anything else is searched as a city
+const PINCODE_PATTERN = /^\d{6}$/;
+
+/**
+ * Reads job filters from URL query parameters, falling back to the defaults
+ * for anything missing or invalid
+ */
+export function parseJobFilters(params: URLSearchParams): JobFilters {
+  const sort = params.get("sort") as JobSortOrder | null;
+
+  return {
+    search: params.get("q") || "",
+    location: params.get("location") || "",
+    type: params.get("type") || "all",
+    inclusivity: params.get("inclusivity") || "all",
+    minWage: params.get("min_wage") || "",
+    maxWage: params.get("max_wage") || "",
+    nearMe: params.get("near") === "1",
+    radiusKm: params.get("radius") || DEFAULT_JOB_FILTERS.radiusKm,
+    sort: sort && SORT_ORDERS.includes(sort) ? sort : "newest",
+  };
+}
+
+/**
+ * Writes job filters to URL query parameters, leaving out default values so
+ * shared links stay short
+ */
+export function serializeJobFilters(filters: JobFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.search.trim()) params.set("q", filters.search.trim());
+  if (filters.location.trim()) params.set("location", filters.location.trim());
+  if (filters.type !== "all") params.set("type", filters.type);
+  if (filters.inclusivity !== "all")
+    params.set("inclusivity", filters.inclusivity);
+  if (filters.minWage) params.set("min_wage", filters.minWage);
+  if (filters.maxWage) params.set("max_wage", filters.maxWage);
+  // Only the radius is shared; coordinates stay on the worker's device
+  if (filters.nearMe) {
+    params.set("near", "1");
+    params.set("radius", filters.radiusKm);
+  }
+  if (filters.sort !== "newest") params.set("sort", filters.sort);
+
+  return params;
+}
+
+/**
+ * Converts UI filter state into the query understood by the job search API
+ * @param filters - The job list filters
+ * @param origin - The worker's location, required for "near me" searches
+ */
+export function toJobSearchParams(
+  filters: JobFilters,
+  origin?: GeoPoint | null
+): JobSearchParams {
+  const nearby = filters.nearMe && origin;
+  const search = filters.search.trim();
+  const location = filters.location.trim();
+  const isPincode = PINCODE_PATTERN.test(location);
+
+  return {
+    query: search || undefined,
+    city: !isPincode && location ? location : undefined,
+    pincode: isPincode ? location : undefined,
+    type_of_work: filters.type !== "all" ? filters.type : undefined,
+    women_friendly: filters.inclusivity === "women-friendly",
+    lgbtq_friendly: filters.inclusivity === "lgbt-friendly",
+    disability_friendly: filters.inclusivity === "disability-friendly",
+    min_wage: filters.minWage ? Number(filters.minWage) : undefined,
+    max_wage: filters.maxWage ? Number(filters.maxWage) : undefined,
+    lat: nearby ? origin.lat : undefined,
+    lng: nearby ? origin.lng : undefined,
+    radius_km: nearby ? Number(filters.radiusKm) : undefined,
+    // Distance sorting needs an origin
+    sort: filters.sort === "distance" && !nearby ? "newest" : filters.sort,
+  };
+}
+
+const LAST_SEARCH_KEY = "lastJobSearch";
+
+/**
+ * Remembers the job list's query string for this tab, so pages linked from
+ * the list can send the worker back to the same search
+ */
+export function rememberJobSearch(queryString: string) {
+  sessionStorage.setItem(LAST_SEARCH_KEY, queryString);
+}
+
+/**
+ * Returns a link to the job list with the worker's last search applied
+ */
+export function getLastJobSearchHref(): string {
+  const queryString = sessionStorage.getItem(LAST_SEARCH_KEY);
+  return queryString ? `/?${queryString}` : "/";
+}
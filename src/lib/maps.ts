@@ -0,0 +1,137 @@
+import type { GeoPoint } from "@/types/geo";
+
+// Zoom used for embedded maps, as half the width of the box around the marker
+const OSM_EMBED_SPAN = 0.01;
+
+// A place to show on a map. Providers that can only work with coordinates
+// fall back to the static view when none are known. The coordinates come from
+// the pincode, so providers that can search for the address prefer it.
+export interface MapTarget {
+  address: string;
+  coordinates?: GeoPoint;
+}
+
+// Renders locations for the map dialog. Swap in a different implementation
+// with setMapProvider, e.g. a fake in tests.
+export interface MapProvider {
+  name: string;
+  /** Whether the provider shows a map at all, rather than only directions */
+  embeds: boolean;
+  /** Whether the provider places the address itself, without coordinates */
+  placesByAddress: boolean;
+  /** URL for an embeddable map iframe, or null when there is nothing to embed */
+  getEmbedUrl(target: MapTarget): string | null;
+  /** URL that opens turn-by-turn directions in a new tab */
+  getDirectionsUrl(target: MapTarget): string;
+}
+
+// Google searches for the address itself; coordinates are only used when
+// there's no address to search for
+function googleQuery({ address, coordinates }: MapTarget): string {
+  return !address.trim() && coordinates
+    ? `${coordinates.lat},${coordinates.lng}`
+    : address;
+}
+
+function googleDirectionsUrl(target: MapTarget): string {
+  const destination = googleQuery(target);
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(
+    destination
+  )}`;
+}
+
+function openStreetMapDirectionsUrl({
+  address,
+  coordinates,
+}: MapTarget): string {
+  if (!coordinates) {
+    return `https://www.openstreetmap.org/search?query=${encodeURIComponent(
+      address
+    )}`;
+  }
+  return `https://www.openstreetmap.org/directions?route=%3B${coordinates.lat}%2C${coordinates.lng}`;
+}
+
+/**
+ * Google Maps Embed API. Needs an API key; directions links work without one.
+ */
+export function createGoogleMapProvider(apiKey: string): MapProvider {
+  return {
+    name: "Google Maps",
+    embeds: true,
+    placesByAddress: true,
+    getEmbedUrl(target) {
+      return `https://www.google.com/maps/embed/v1/place?key=${apiKey}&q=${encodeURIComponent(
+        googleQuery(target)
+      )}`;
+    },
+    getDirectionsUrl: googleDirectionsUrl,
+  };
+}
+
+// OpenStreetMap's embed, which uses the same Leaflet tiles as openstreetmap.org.
+// No key required, but it can only place a marker on known coordinates.
+export const openStreetMapProvider: MapProvider = {
+  name: "OpenStreetMap",
+  embeds: true,
+  placesByAddress: false,
+  getEmbedUrl({ coordinates }) {
+    if (!coordinates) return null;
+
+    const { lat, lng } = coordinates;
+    const bbox = [
+      lng - OSM_EMBED_SPAN,
+      lat - OSM_EMBED_SPAN,
+      lng + OSM_EMBED_SPAN,
+      lat + OSM_EMBED_SPAN,
+    ].join(",");
+
+    return `https://www.openstreetmap.org/export/embed.html?bbox=${encodeURIComponent(
+      bbox
+    )}&layer=mapnik&marker=${lat}%2C${lng}`;
+  },
+  getDirectionsUrl: openStreetMapDirectionsUrl,
+};
+
+// Never embeds anything, so the dialog only shows the address and a
+// directions link. Works offline and without any third-party requests.
+export const staticMapProvider: MapProvider = {
+  name: "Directions",
+  embeds: false,
+  placesByAddress: false,
+  getEmbedUrl() {
+    return null;
+  },
+  getDirectionsUrl: openStreetMapDirectionsUrl,
+};
+
+/**
+ * Picks a provider from NEXT_PUBLIC_MAP_PROVIDER ("google", "osm" or
+ * "static"). Defaults to Google when an API key is configured and
+ * OpenStreetMap otherwise.
+ */
+function getConfiguredMapProvider(): MapProvider {
+  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+
+  switch (process.env.NEXT_PUBLIC_MAP_PROVIDER) {
+    case "static":
+      return staticMapProvider;
+    case "osm":
+      return openStreetMapProvider;
+    case "google":
+      return apiKey ? createGoogleMapProvider(apiKey) : staticMapProvider;
+    default:
+      return apiKey ? createGoogleMapProvider(apiKey) : openStreetMapProvider;
+  }
+}
+
+let mapProvider: MapProvider | null = null;
+
+export function setMapProvider(next: MapProvider) {
+  mapProvider = next;
+}
+
+export function getMapProvider(): MapProvider {
+  if (!mapProvider) mapProvider = getConfiguredMapProvider();
+  return mapProvider;
+}
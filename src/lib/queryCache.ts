@@ -0,0 +1,188 @@
+// A small shared cache for data fetched from the backend. Pages that ask
+// for the same key share one request and one copy of the result, see cached
+// data straight away while it's refreshed in the background, and can update
+// it optimistically before a request finishes.
+
+export type QueryKey = readonly (
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+)[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number; // 0 until the first successful fetch
+  isFetching: boolean;
+  isInvalidated: boolean; // Marked stale by invalidateQueries
+}
+
+interface QueryEntry<T = unknown> {
+  key: QueryKey;
+  state: QueryState<T>;
+  listeners: Set<() => void>;
+  // The last fetcher used, so invalidated queries can refetch themselves
+  fetcher?: () => Promise<T>;
+  promise?: Promise<T>;
+}
+
+const EMPTY_STATE: QueryState<never> = {
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const entries = new Map<string, QueryEntry>();
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+function getEntry<T>(key: QueryKey): QueryEntry<T> {
+  const hash = hashKey(key);
+  let entry = entries.get(hash) as QueryEntry<T> | undefined;
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, listeners: new Set() };
+    entries.set(hash, entry as QueryEntry);
+  }
+  return entry;
+}
+
+// States are replaced rather than mutated so React can compare snapshots
+function setState<T>(entry: QueryEntry<T>, changes: Partial<QueryState<T>>) {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey) {
+  return prefix.every((part, i) => key[i] === part);
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashKey(key))?.state as QueryState<T>) || EMPTY_STATE;
+}
+
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return getQueryState<T>(key).data;
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void) {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+export function isQueryStale(key: QueryKey, staleTime: number) {
+  const state = getQueryState(key);
+  return (
+    state.updatedAt === 0 ||
+    state.isInvalidated ||
+    Date.now() - state.updatedAt > staleTime
+  );
+}
+
+/**
+ * Fetches a query, or joins the request already running for the same key.
+ * The result is stored in the cache and passed to every subscriber.
+ * @throws Whatever the fetcher throws; the cached data is kept
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+  if (entry.promise) return entry.promise;
+
+  const promise = fetcher()
+    .then((data) => {
+      if (entry.promise === promise) {
+        setState(entry, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: false,
+        });
+      }
+      return data;
+    })
+    .catch((error) => {
+      if (entry.promise === promise) {
+        setState(entry, { error, isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (entry.promise === promise) entry.promise = undefined;
+    });
+
+  entry.promise = promise;
+  setState(entry, { isFetching: true });
+  return promise;
+}
+
+/**
+ * Replaces a query's cached data, e.g. with the result of a mutation. A
+ * request still running for the key is dropped so it can't overwrite it.
+ */
+export function setQueryData<T>(
+  key: QueryKey,
+  updater: T | ((previous: T | undefined) => T)
+) {
+  const entry = getEntry<T>(key);
+  const data =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T)(entry.state.data)
+      : updater;
+
+  entry.promise = undefined;
+  setState(entry, {
+    data,
+    error: undefined,
+    updatedAt: Date.now(),
+    isFetching: false,
+  });
+}
+
+/**
+ * Applies an update before the request behind it has finished.
+ * @returns A function that puts the previous data back if the request fails
+ */
+export function optimisticUpdate<T>(
+  key: QueryKey,
+  updater: (previous: T | undefined) => T
+): () => void {
+  const previous = getQueryState<T>(key);
+  setQueryData(key, updater);
+  return () => {
+    const entry = getEntry<T>(key);
+    setState(entry, { data: previous.data, updatedAt: previous.updatedAt });
+  };
+}
+
+/**
+ * Marks every query whose key starts with `prefix` as stale. Queries that
+ * are on screen refetch straight away; the rest refetch when next used.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+
+    entry.promise = undefined;
+    setState(entry, { isInvalidated: true, isFetching: false });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher).catch(() => {});
+    }
+  });
+}
+
+// Drops everything, e.g. on sign-out so the next user starts fresh
+export function clearQueryCache() {
+  entries.forEach((entry) => {
+    entry.promise = undefined;
+    setState(entry, EMPTY_STATE);
+  });
+}
@@ -0,0 +1,27 @@
+// Who may open each part of the app, checked by the middleware. Routes are
+// matched by prefix, so "/employer-post" also covers its edit pages, and
+// anything not listed needs a signed-in user of either role.
+
+export type RouteAccess = "public" | "signed-in" | "employer" | "worker";
+
+const routeTable: { path: string; access: RouteAccess }[] = [
+  { path: "/auth", access: "public" },
+  { path: "/employer-post", access: "employer" },
+  { path: "/applied-jobs", access: "worker" },
+];
+
+export function getRouteAccess(pathname: string): RouteAccess {
+  const route = routeTable.find(
+    ({ path }) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+  return route?.access || "signed-in";
+}
+
+/**
+ * Whether a user with the given role may open a route. Users whose role
+ * isn't known yet are kept out of role-specific routes.
+ */
+export function canAccessRoute(access: RouteAccess, role?: string | null) {
+  if (access === "public" || access === "signed-in") return true;
+  return role === access;
+}
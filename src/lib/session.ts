@@ -0,0 +1,90 @@
+import {
+  decodeBase64Url,
+  decodeBase64UrlJson,
+  encodeBase64Url,
+} from "@/lib/base64url";
+
+// The session cookie the middleware checks. It's minted by /api/session
+// only after the user's Firebase ID token has been verified, and signed
+// with SESSION_SECRET so the client can't forge or edit it.
+
+export const SESSION_COOKIE = "session";
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 14; // Seconds
+
+export interface SessionClaims {
+  uid: string;
+  role: string; // "" only in sessions minted before the role was required
+  exp: number; // Expiry, in seconds since the epoch
+}
+
+// Only used outside production so local setups work without configuration
+const DEVELOPMENT_SECRET = "blue-collar-connect-development-session-secret";
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET is not set.");
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function getSigningKey(usage: "sign" | "verify") {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getSessionSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Signs the claims into a cookie value of the form `<payload>.<signature>`
+ */
+export async function createSessionToken({
+  uid,
+  role,
+}: Omit<SessionClaims, "exp">): Promise<string> {
+  const claims: SessionClaims = {
+    uid,
+    role,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  };
+  const payload = encodeBase64Url(
+    new TextEncoder().encode(JSON.stringify(claims))
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getSigningKey("sign"),
+    new TextEncoder().encode(payload)
+  );
+  return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Checks a session cookie's signature and expiry
+ * @returns The claims, or null if the cookie is missing, forged or expired
+ */
+export async function verifySessionToken(
+  token?: string
+): Promise<SessionClaims | null> {
+  const [payload, signature, ...rest] = token?.split(".") || [];
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey("verify"),
+      decodeBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) return null;
+
+    const claims = decodeBase64UrlJson<SessionClaims>(payload);
+    if (!claims.uid || claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
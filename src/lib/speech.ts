@@ -0,0 +1,85 @@
+// The Web Speech API's recognition half isn't in TypeScript's DOM types yet,
+// so only the parts we use are declared here.
+export interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+}
+
+export interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: SpeechRecognitionAlternativeLike;
+}
+
+export interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+export interface SpeechRecognitionErrorEventLike {
+  error: string;
+}
+
+export interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+/**
+ * Returns the browser's speech recognition constructor, or null when
+ * dictation isn't available (Firefox, older browsers, server rendering)
+ */
+export function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  if (typeof window === "undefined") return null;
+
+  const speechWindow = window as typeof window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return (
+    speechWindow.SpeechRecognition ||
+    speechWindow.webkitSpeechRecognition ||
+    null
+  );
+}
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+/**
+ * Picks an installed voice for a BCP 47 tag such as "hi-IN", matching the
+ * language alone ("hi") when there's no exact match. Returns undefined to let
+ * the browser use its default voice.
+ */
+export function findVoice(lang: string): SpeechSynthesisVoice | undefined {
+  if (!isSpeechSynthesisSupported()) return undefined;
+
+  const voices = window.speechSynthesis.getVoices();
+  const language = lang.split("-")[0];
+  return (
+    voices.find((voice) => voice.lang === lang) ||
+    voices.find((voice) => voice.lang.split(/[-_]/)[0] === language)
+  );
+}
+
+// Strips markdown so assistant replies aren't read out as "asterisk asterisk"
+export function toSpeakableText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|~~)(.*?)\1/g, "$2")
+    .replace(/\[Error:[^\]]*\]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,60 @@
+export interface ServerSentEvent {
+  event: string; // "message" unless the server named it
+  data: string;
+}
+
+// Parses one event block, following the EventSource rules we rely on:
+// multiple data lines are joined with newlines and comments are skipped
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split(/\r\n|\r|\n/)) {
+    if (!line || line.startsWith(":")) continue;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+
+  return data.length > 0 || event !== "message"
+    ? { event, data: data.join("\n") }
+    : null;
+}
+
+/**
+ * Reads a text/event-stream response body event by event. Unlike
+ * EventSource this works with any fetch request, so it can POST and send
+ * an Authorization header.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events end with a blank line
+      const blocks = buffer.split(/\r\n\r\n|\n\n|\r\r/);
+      buffer = done ? "" : blocks.pop() || "";
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) yield event;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,119 @@
+// Caches the signed-in user's ID token so API calls don't each pay for a
+// network refresh. Only the parts of Firebase Auth used here are typed, so a
+// plain object can stand in for it in tests.
+
+export interface TokenUser {
+  uid: string;
+  getIdTokenResult(
+    forceRefresh?: boolean
+  ): Promise<{ token: string; expirationTime: string }>;
+}
+
+export interface TokenAuth<U extends TokenUser = TokenUser> {
+  currentUser: U | null;
+  // Resolves once the persisted sign-in state has been restored
+  authStateReady(): Promise<void>;
+}
+
+export interface TokenManagerOptions {
+  // Refresh this long before the token expires. Defaults to 5 minutes.
+  refreshWindowMs?: number;
+  // Defaults to Date.now
+  now?: () => number;
+}
+
+export interface TokenManager<U extends TokenUser = TokenUser> {
+  // The signed-in user, once the sign-in state is known
+  getCurrentUser(): Promise<U | null>;
+  // A valid ID token, or null when nobody is signed in. forceRefresh skips
+  // the cache, e.g. after the backend rejects a token.
+  getToken(options?: { forceRefresh?: boolean }): Promise<string | null>;
+  // Forget the cached token, e.g. on sign-out
+  clear(): void;
+}
+
+interface CachedToken {
+  uid: string;
+  token: string;
+  expiresAt: number;
+}
+
+const DEFAULT_REFRESH_WINDOW = 5 * 60 * 1000;
+
+/**
+ * Creates a token manager for the given auth instance. Tokens are reused
+ * until they're close to expiring, and concurrent callers share a single
+ * refresh instead of each starting their own.
+ */
+export function createTokenManager<U extends TokenUser>(
+  auth: TokenAuth<U>,
+  {
+    refreshWindowMs = DEFAULT_REFRESH_WINDOW,
+    now = Date.now,
+  }: TokenManagerOptions = {}
+): TokenManager<U> {
+  let cached: CachedToken | null = null;
+  let pending: {
+    uid: string;
+    forced: boolean;
+    promise: Promise<string>;
+  } | null = null;
+
+  const getCurrentUser = async () => {
+    await auth.authStateReady();
+    return auth.currentUser;
+  };
+
+  const refresh = (user: U, forced: boolean) => {
+    const promise = user
+      .getIdTokenResult(forced)
+      .then(({ token, expirationTime }) => {
+        // Ignore the result if the user signed out or switched meanwhile
+        if (auth.currentUser?.uid === user.uid) {
+          cached = {
+            uid: user.uid,
+            token,
+            expiresAt: new Date(expirationTime).getTime(),
+          };
+        }
+        return token;
+      })
+      .finally(() => {
+        if (pending?.promise === promise) pending = null;
+      });
+
+    pending = { uid: user.uid, forced, promise };
+    return promise;
+  };
+
+  const getToken = async ({ forceRefresh = false } = {}) => {
+    const user = await getCurrentUser();
+    if (!user) {
+      cached = null;
+      return null;
+    }
+
+    if (
+      !forceRefresh &&
+      cached?.uid === user.uid &&
+      cached.expiresAt - now() > refreshWindowMs
+    ) {
+      return cached.token;
+    }
+
+    // Join a refresh that's already running, unless this caller needs a
+    // forced one and the running refresh might return the old token
+    if (pending?.uid === user.uid && (pending.forced || !forceRefresh)) {
+      return pending.promise;
+    }
+
+    return refresh(user, forceRefresh);
+  };
+
+  const clear = () => {
+    cached = null;
+    pending = null;
+  };
+
+  return { getCurrentUser, getToken, clear };
+}
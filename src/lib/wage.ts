@@ -0,0 +1,107 @@
+import type { Wage, WagePeriod } from "@/types/jobpost";
+import type { Locale } from "@/types/i18n";
+import { getIntlLocale, translate } from "@/lib/i18n";
+
+export const WAGE_PERIODS: WagePeriod[] = [
+  "hourly",
+  "daily",
+  "weekly",
+  "monthly",
+  "piece-rate",
+];
+
+/**
+ * Describes a wage period, e.g. "per day"
+ */
+export function formatWagePeriod(period: WagePeriod, locale?: Locale): string {
+  return translate(locale || "en", `wage.period.${period}`);
+}
+
+// Assumes a six-day week of eight-hour days, the norm for most blue-collar
+// work in India, when the post doesn't say otherwise
+const HOURS_PER_DAY = 8;
+const DAYS_PER_WEEK = 6;
+const DAYS_PER_MONTH = 26;
+
+/**
+ * Converts a wage to what it pays for one working day, so wages quoted over
+ * different periods can be compared. Piece-rate wages depend on output and
+ * can't be converted.
+ * @param wage - The structured wage
+ * @param hoursPerWeek - The job's weekly hours, used for hourly wages
+ * @returns The per-day equivalent in the wage's currency, or null
+ */
+export function toDailyWage(wage: Wage, hoursPerWeek?: number): number | null {
+  switch (wage.period) {
+    case "hourly":
+      return (
+        wage.amount *
+        (hoursPerWeek ? hoursPerWeek / DAYS_PER_WEEK : HOURS_PER_DAY)
+      );
+    case "daily":
+      return wage.amount;
+    case "weekly":
+      return wage.amount / DAYS_PER_WEEK;
+    case "monthly":
+      return wage.amount / DAYS_PER_MONTH;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Formats an amount of money for display, using Indian digit grouping
+ * (e.g. ₹1,20,000)
+ */
+export function formatCurrency(
+  amount: number,
+  currency = "INR",
+  locale?: Locale
+): string {
+  return new Intl.NumberFormat(getIntlLocale(locale), {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Formats a job's wage for display, e.g. "₹650 per day". Free-text wages
+ * from older posts are shown as entered.
+ * @returns The formatted wage, or undefined if the post has none
+ */
+export function formatWage(
+  wage?: Wage | string,
+  locale?: Locale
+): string | undefined {
+  if (!wage) return undefined;
+  if (typeof wage === "string") return wage;
+
+  return `${formatCurrency(
+    wage.amount,
+    wage.currency,
+    locale
+  )} ${formatWagePeriod(wage.period, locale)}`;
+}
+
+/**
+ * Describes a non-daily wage as its per-day equivalent, e.g. "≈ ₹577 per day"
+ * @returns The description, or undefined when it wouldn't add anything
+ */
+export function formatDailyEquivalent(
+  wage?: Wage | string,
+  hoursPerWeek?: number,
+  locale?: Locale
+): string | undefined {
+  if (!wage || typeof wage === "string" || wage.period === "daily") {
+    return undefined;
+  }
+
+  const daily = toDailyWage(wage, hoursPerWeek);
+  if (daily === null) return undefined;
+
+  return `≈ ${formatCurrency(daily, wage.currency, locale)} ${formatWagePeriod(
+    "daily",
+    locale
+  )}`;
+}
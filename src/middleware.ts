@@ -1,35 +1,51 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
-
-// Public routes that don't require authentication
-const publicRoutes = ["/auth", "/community", "/profile"];
-
-function isPublicRoute(path: string) {
-  return (
-    publicRoutes.includes(path) ||
-    path.startsWith("/community/") ||
-    path.startsWith("/create-community") ||
-    path.startsWith("/chat")
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { canAccessRoute, getRouteAccess } from "@/lib/routes";
+
+// Sends the user to sign in, then back to where they were going. Their
+// cookie is dropped so a new session is minted when they do.
+function redirectToSignIn(request: NextRequest) {
+  const signInUrl = new URL("/auth", request.url);
+  signInUrl.searchParams.set(
+    "next",
+    `${request.nextUrl.pathname}${request.nextUrl.search}`
   );
+  const response = NextResponse.redirect(signInUrl);
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const path = request.nextUrl.pathname;
+  const access = getRouteAccess(path);
 
   // Allow access to public routes
-  if (isPublicRoute(path)) {
+  if (access === "public") {
     return NextResponse.next();
   }
 
-  // Check if the user has a session cookie
-  const session = request.cookies.get("firebaseSession")?.value;
+  // The cookie is only trusted once its signature checks out. A forged or
+  // expired one is dropped so it isn't checked again.
+  const session = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
 
   if (!session) {
-    return NextResponse.redirect(new URL("/auth", request.url));
+    return redirectToSignIn(request);
+  }
+
+  // Older sessions may not know the role. Sign in again for a new session
+  // rather than turn the user away from their own pages.
+  if (!session.role && access !== "signed-in") {
+    return redirectToSignIn(request);
+  }
+
+  // Signed in, but this page is for the other role
+  if (!canAccessRoute(access, session.role)) {
+    return NextResponse.redirect(new URL("/", request.url));
   }
 
-  // With this approach, we just check if the session exists
-  // The actual validation happens client-side
   return NextResponse.next();
 }
 
@@ -0,0 +1,47 @@
+import { JobPost } from "./jobpost";
+
+export type ApplicationStatus =
+  | "pending"
+  | "shortlisted"
+  | "accepted"
+  | "rejected"
+  | "withdrawn";
+
+export interface JobApplication {
+  id: string;
+  job_id: string;
+  worker_id: string;
+  employer_id: string;
+  status: ApplicationStatus;
+  message?: string;
+  job?: JobPost; // Snapshot of the job post, populated by the backend
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ApplyToJobResponse {
+  success: boolean;
+  application?: JobApplication;
+  alreadyApplied?: boolean;
+  error?: string;
+}
+
+// Employer-facing view of an application, joined with the worker's profile
+export interface WorkerRequest {
+  id: string; // Same as the underlying JobApplication id
+  job_id: string;
+  worker_id: string;
+  worker_name: string;
+  worker_contact?: string;
+  worker_location?: string;
+  is_woman?: boolean;
+  is_lgbtq?: boolean;
+  is_disabled?: boolean;
+  experience?: string;
+  message?: string;
+  status: ApplicationStatus;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type WorkerRequestStatus = Exclude<ApplicationStatus, "withdrawn">;
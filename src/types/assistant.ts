@@ -0,0 +1,48 @@
+import { JobPost } from "./jobpost";
+
+export type AssistantRole = "user" | "assistant";
+
+// Structured results the assistant streams alongside its text, shown as
+// job cards under the reply
+export type AssistantAttachment =
+  | { type: "jobs"; jobs: JobPost[] }
+  | { type: "apply_suggestion"; job: JobPost; reason?: string };
+
+export type AssistantFeedback = "up" | "down";
+
+// A message as stored in the worker's conversation history
+export interface AssistantMessage {
+  id: string;
+  role: AssistantRole;
+  content: string;
+  error?: boolean; // The reply failed or was cut short
+  attachments?: AssistantAttachment[];
+  createdAt: string;
+}
+
+export interface AssistantConversation {
+  id: string;
+  user_id: string;
+  thread_id: string; // Passed to /api/stream-prompt so the assistant keeps context
+  title: string;
+  last_message?: string; // Preview shown in the conversation list
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AssistantConversationWithMessages {
+  conversation: AssistantConversation;
+  messages: AssistantMessage[];
+}
+
+export type AssistantContextField =
+  | "profession"
+  | "area"
+  | "gender"
+  | "summary";
+
+// Profile details the user has agreed to share with the assistant. "area" is
+// only the pincode of their home address, never the full address.
+export type AssistantProfileContext = Partial<
+  Record<AssistantContextField, string>
+>;
@@ -0,0 +1,11 @@
+import { JobPost } from "./jobpost";
+
+// A job a worker has saved for later
+export interface Bookmark {
+  id: string;
+  job_id: string;
+  worker_id: string;
+  job?: JobPost; // Current version of the job post, missing once deleted
+  job_updated_at?: string; // The job's updatedAt at the time it was saved
+  createdAt: string;
+}
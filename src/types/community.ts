@@ -0,0 +1,72 @@
+// Firestore Timestamp as the backend serializes it
+export interface FirestoreTimestamp {
+  _seconds: number;
+  _nanoseconds: number;
+}
+
+export interface CommunityComment {
+  id: string;
+  author: string;
+  content: string;
+  timeAgo: string;
+  likes: number;
+  dislikes: number;
+}
+
+export interface CommunityPost {
+  id: string;
+  communityId?: string; // Missing on posts nested under their community
+  title: string;
+  content: string;
+  author: string;
+  timeAgo: string;
+  likes: number;
+  dislikes: number;
+  image?: string | null;
+  comments: CommunityComment[];
+  createdAt?: FirestoreTimestamp;
+  updatedAt?: FirestoreTimestamp;
+}
+
+export interface Community {
+  communityId: string;
+  communityName: string;
+  communityDescription: string;
+  description?: string; // Returned by the community details endpoint
+  moderator?: string;
+  communityType: string;
+  communityTopics: string[];
+  communityRules: string[];
+  communityProfilePhoto: string;
+  communityBackgroundPhoto: string;
+  createdAt: FirestoreTimestamp;
+  updatedAt: FirestoreTimestamp;
+  memberCount: number;
+  posts?: CommunityPost[];
+}
+
+export interface CommunityPage {
+  communities: Community[];
+  count: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface CommunityForm {
+  communityName: string;
+  communityDescription: string;
+  communityType: string;
+  communityTopics: string[];
+  communityRules: string[];
+  communityProfilePhoto?: File | null;
+  communityBackgroundPhoto?: File | null;
+}
+
+export interface CommunityPostForm {
+  communityId: string;
+  title: string;
+  content: string;
+  author: string; // The poster's uid
+  displayAuthor: string; // Shown on the post instead of the uid
+  image?: File | null;
+}
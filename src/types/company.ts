@@ -0,0 +1,6 @@
+// Public profile of the company behind an employer's job posts
+export interface CompanyProfile {
+  name: string;
+  logo?: string; // URL to the stored image
+  verified?: boolean; // Set by the backend once the employer has been verified
+}
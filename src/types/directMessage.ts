@@ -0,0 +1,40 @@
+// Name and role cached on the conversation so the list renders without
+// fetching each profile
+export interface DirectParticipant {
+  name: string;
+  role: string;
+  photo?: string;
+}
+
+export interface DirectConversation {
+  id: string; // Both participants' uids, sorted and joined with "_"
+  participantIds: string[];
+  participants: Record<string, DirectParticipant>;
+  lastMessage?: {
+    text: string;
+    senderId: string;
+    createdAt: Date;
+  };
+  unreadCounts: Record<string, number>; // Per participant uid
+  updatedAt: Date;
+}
+
+export interface DirectMessage {
+  id: string;
+  senderId: string;
+  text: string;
+  createdAt: Date | null; // Null until the server has stamped it
+}
+
+// Someone the user can start a conversation with
+export interface DirectContact {
+  uid: string;
+  name: string;
+  role: string;
+  context?: string; // Why they're a contact, e.g. the job applied to
+}
+
+export interface Presence {
+  online: boolean;
+  lastSeen: Date | null;
+}
@@ -0,0 +1,10 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// A geocoded position. Approximate points are only the centre of a wider
+// area, such as the region a pincode prefix belongs to.
+export interface GeocodedPoint extends GeoPoint {
+  approximate?: boolean;
+}
@@ -0,0 +1,4 @@
+export type Locale = "en" | "hi" | "mr" | "ta";
+
+// Values substituted into {placeholders} in a message
+export type MessageValues = Record<string, string | number>;
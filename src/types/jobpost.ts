@@ -1,51 +1,114 @@
+import { CompanyProfile } from "./company";
+import { GeoPoint } from "./geo";
+
+export type JobPostStatus = "open" | "closed";
+
+export type WagePeriod =
+  | "hourly"
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "piece-rate";
+
+export interface Wage {
+  amount: number;
+  currency: string; // ISO 4217 code, "INR" unless stated otherwise
+  period: WagePeriod;
+}
+
 export interface JobPost {
   id: string;
   employer_id: string;
   job_title: string;
   type_of_work: string;
   employer_name?: string;
+  company?: CompanyProfile; // Snapshot of the employer's company profile
   place_of_work?: string;
   location?: {
     city?: string;
     state?: string;
     district?: string;
     pincode?: string;
+    coordinates?: GeoPoint; // Geocoded from the pincode when the job is saved
+    coordinates_approximate?: boolean; // Only the centre of the pincode's region
   };
   vacancies?: number;
   special_woman_provision?: boolean;
   special_transgender_provision?: boolean;
   special_disability_provision?: boolean;
-  wage?: string;
+  wage?: Wage | string; // Older posts store the wage as free text
   hours_per_week?: number;
   job_duration?: string;
   start_time?: string;
   end_time?: string;
   job_role_description?: string;
+  status?: JobPostStatus; // Missing on older posts, which are treated as open
   createdAt?: string;
   updatedAt?: string;
 }
 
+// The backend assigns the id and links the post to the employer's company
 export interface JobPostForm {
-  id: string;
   employer_id: string;
   job_title: string;
   type_of_work: string;
   employer_name?: string;
+  company_logo?: File; // Replaces the logo on the employer's company profile
   place_of_work?: string;
   city?: string;
   state?: string;
   district?: string;
   pincode?: string;
+  latitude?: number | null; // null clears the stored coordinates
+  longitude?: number | null;
+  coordinates_approximate?: boolean;
   vacancies?: number;
   special_woman_provision?: boolean;
   special_transgender_provision?: boolean;
   special_disability_provision?: boolean;
-  wage?: string;
+  wage_amount?: number;
+  wage_currency?: string;
+  wage_period?: WagePeriod;
   hours_per_week?: number;
   job_duration?: string;
   start_time?: string;
   end_time?: string;
   job_role_description?: string;
+  status?: JobPostStatus;
   createdAt?: string;
   updatedAt?: string;
 }
+
+export type JobSortOrder =
+  | "newest"
+  | "oldest"
+  | "relevance"
+  | "wage"
+  | "distance";
+
+// Query parameters understood by the job search endpoint
+export interface JobSearchParams {
+  query?: string; // Matched against title, employer and description
+  city?: string;
+  state?: string;
+  district?: string;
+  pincode?: string;
+  type_of_work?: string;
+  women_friendly?: boolean;
+  lgbtq_friendly?: boolean;
+  disability_friendly?: boolean;
+  min_wage?: number; // Per-day equivalent in INR, see toDailyWage
+  max_wage?: number;
+  lat?: number; // Centre of a "near me" search
+  lng?: number;
+  radius_km?: number;
+  employer_id?: string;
+  sort?: JobSortOrder;
+  limit?: number;
+  cursor?: string; // Opaque cursor returned with the previous page
+}
+
+export interface JobSearchPage {
+  jobPosts: JobPost[];
+  nextCursor: string | null; // null once there are no more results
+}
@@ -0,0 +1,12 @@
+import { JobSearchParams } from "./jobpost";
+
+export interface SavedSearch {
+  id: string;
+  worker_id: string;
+  name: string;
+  filters: JobSearchParams; // Used by the backend to find new matches
+  query: string; // Job list query string, used to reopen the search
+  new_matches: number; // Jobs posted since the search was last viewed
+  last_seen_at: string;
+  createdAt: string;
+}
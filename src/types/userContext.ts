@@ -1,4 +1,8 @@
+import { CompanyProfile } from "./company";
+import { Locale } from "./i18n";
+
 export interface User {
+  uid: string;
   role: string;
   firstName: string;
   middleName?: string;
@@ -11,4 +15,6 @@ export interface User {
   summary?: string;
   profilePhoto?: string;
   resume?: string;
+  company?: CompanyProfile; // Only set for employers
+  preferredLanguage?: Locale;
 }
@@ -1,5 +1,8 @@
 // types/userProfile.ts
 
+import { CompanyProfile } from "./company";
+import { Locale } from "./i18n";
+
 /**
  * UserProfile interface for frontend use
  * - Removes Firebase-specific types
@@ -17,6 +20,8 @@ export interface UserProfile {
   profession: string;
   gender: string;
   summary?: string;
+  company?: CompanyProfile; // Employer profiles only
+  preferredLanguage?: Locale;
   createdAt?: string; // ISO date string when displayed on frontend
   updatedAt?: string; // ISO date string when displayed on frontend
 }
@@ -2,6 +2,7 @@
 "use client";
 
 import { getUserInfo } from "./actions/userInfo";
+import { createSession, getSession } from "./actions/session";
 import { useUser } from "./context/userContext";
 import { User } from "./types/userContext";
 import { getCurrentUser } from "./utils";
@@ -41,6 +42,7 @@ export async function getAndSetUserInfo(setUser: (user: User | null) => void) {
       const userInfo = await getUserInfo();
 
       const userData: User = {
+        uid: user.uid,
         role: userInfo?.role || "",
         emailAddress: userInfo?.emailAddress || "",
         firstName: userInfo?.firstName || "",
@@ -53,9 +55,20 @@ export async function getAndSetUserInfo(setUser: (user: User | null) => void) {
         summary: userInfo?.summary || "",
         profilePhoto: userInfo?.profilePhoto || "",
         resume: userInfo?.resume || "",
+        company: userInfo?.company,
+        preferredLanguage: userInfo?.preferredLanguage,
       };
 
       setUser(userData);
+
+      // The session keeps the role it was minted with. Start a new one when
+      // the backend's has changed since, so the middleware sees the new role.
+      if (userData.role) {
+        const session = await getSession();
+        if (session && session.role !== userData.role) {
+          await createSession(await user.getIdToken()).catch(() => {});
+        }
+      }
     } else {
       // User is not authenticated, ensure user context is cleared
       setUser(null);